@@ -0,0 +1,98 @@
+import React, { useEffect, useState } from 'react';
+import { useData } from '../../contexts/DataContext';
+import { useLanguage } from '../../contexts/LanguageContext';
+import { BackupEntry, ChecksumStatus, countRecords } from '../../utils/backups';
+
+const CHECKSUM_BADGES: Record<ChecksumStatus, { label: string; className: string }> = {
+    valid: { label: 'Checksum OK', className: 'bg-green-100 text-green-800' },
+    invalid: { label: 'Damaged', className: 'bg-red-100 text-red-800' },
+    missing: { label: 'No checksum', className: 'bg-gray-100 text-gray-700' },
+};
+
+/** Lists automatic and folder backups with what each contains, so the right one is picked before restoring. */
+const BackupRestore: React.FC = () => {
+    const { listBackups, restoreBackup } = useData();
+    const { t } = useLanguage();
+    const [entries, setEntries] = useState<BackupEntry[] | null>(null);
+    const [selectedId, setSelectedId] = useState<string | null>(null);
+
+    useEffect(() => {
+        listBackups()
+            .then(setEntries)
+            .catch(error => {
+                console.error('Error listing backups:', error);
+                setEntries([]);
+            });
+    }, []);
+
+    if (entries === null) {
+        return <p className="text-center text-gray-500 py-4">{t('Loading backups...')}</p>;
+    }
+    if (entries.length === 0) {
+        return <p className="text-center text-gray-500 py-4">{t('No backups found.')}</p>;
+    }
+
+    const selected = entries.find(e => e.id === selectedId);
+    // Backups from before record counts were added are counted on the fly.
+    const selectedCounts = selected?.backup ? selected.backup.recordCounts ?? countRecords(selected.backup) : {};
+
+    return (
+        <div className="space-y-4">
+            <div className="max-h-72 overflow-y-auto border rounded-lg divide-y">
+                {entries.map(entry => {
+                    const badge = entry.backup
+                        ? CHECKSUM_BADGES[entry.checksumStatus]
+                        : entry.encrypted
+                            ? { label: 'Encrypted', className: 'bg-blue-100 text-blue-800' }
+                            : { label: 'Unreadable', className: 'bg-red-100 text-red-800' };
+                    return (
+                        <button
+                            key={`${entry.source}-${entry.id}`}
+                            onClick={() => setSelectedId(entry.id)}
+                            className={`w-full flex justify-between items-center p-3 text-left text-sm hover:bg-gray-50 ${entry.id === selectedId ? 'bg-blue-50' : ''}`}
+                        >
+                            <div>
+                                <p className="font-medium">{new Date(entry.createdAt).toLocaleString()}</p>
+                                <p className="text-gray-500">
+                                    {entry.source === 'folder' ? `${t('Folder')}: ${entry.name}` : t('Snapshot')}
+                                    {entry.trigger && ` · ${t(entry.trigger)}`}
+                                </p>
+                            </div>
+                            <span className={`px-2 py-1 rounded text-xs font-semibold ${badge.className}`}>{t(badge.label)}</span>
+                        </button>
+                    );
+                })}
+            </div>
+
+            {selected && (
+                <div className="border rounded-lg p-4 space-y-3">
+                    <h4 className="font-semibold">{t('Backup contents')}</h4>
+                    <div className="grid grid-cols-2 sm:grid-cols-3 gap-2 text-sm">
+                        {Object.entries(selectedCounts).map(([name, count]) => (
+                            <div key={name} className="flex justify-between bg-gray-50 rounded px-2 py-1">
+                                <span>{t(name)}</span>
+                                <span className="font-semibold">{count}</span>
+                            </div>
+                        ))}
+                    </div>
+                    {selected.backup?.companyInfo && <p className="text-sm text-gray-600">{t('Company')}: {selected.backup.companyInfo.name}</p>}
+                    {selected.encrypted && (
+                        <p className="text-xs text-blue-800 bg-blue-100 p-2 rounded-md">{t('This backup is encrypted. Restore it with "Import Backup" and its passphrase.')}</p>
+                    )}
+                    {selected.checksumStatus === 'invalid' && (
+                        <p className="text-xs text-red-800 bg-red-100 p-2 rounded-md">{t('This backup does not match its checksum and cannot be restored.')}</p>
+                    )}
+                    <button
+                        onClick={() => selected.backup && restoreBackup(selected.backup)}
+                        disabled={!selected.backup || selected.checksumStatus === 'invalid'}
+                        className="w-full bg-blue-600 hover:bg-blue-700 text-white font-semibold py-2 px-4 rounded-lg disabled:bg-gray-300 disabled:cursor-not-allowed"
+                    >
+                        {t('Restore this backup')}
+                    </button>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default BackupRestore;
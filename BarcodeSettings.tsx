@@ -0,0 +1,53 @@
+import React from 'react';
+import { SystemSettings } from '../../types';
+import { useData } from '../../contexts/DataContext';
+import { useLanguage } from '../../contexts/LanguageContext';
+import { BarcodeFormat, DEFAULT_CODE128_PREFIX, DEFAULT_EAN_PREFIX, nextInternalBarcodes, validateBarcodeSettings } from '../../utils/barcodes';
+
+type BarcodeFields = Pick<SystemSettings, 'barcodeFormat' | 'barcodePrefix' | 'autoAssignBarcodes'>;
+
+/** Barcode section of the system settings form: the format and prefix of the shop's own barcodes. */
+const BarcodeSettings: React.FC<{ value: BarcodeFields; onChange: (value: BarcodeFields) => void }> = ({ value, onChange }) => {
+    const { products } = useData();
+    const { t } = useLanguage();
+    const settings = value as SystemSettings;
+
+    let nextCode = '';
+    if (!validateBarcodeSettings(settings)) {
+        try {
+            [nextCode] = nextInternalBarcodes(products, settings, 1);
+        } catch {
+            nextCode = '';
+        }
+    }
+
+    return (
+        <div className="space-y-3 md:col-span-2 border-t pt-4">
+            <div className="flex flex-wrap items-center gap-4 text-sm">
+                <span className="font-medium">{t('Internal barcodes')}</span>
+                <select value={value.barcodeFormat ?? 'ean13'} onChange={(e) => onChange({ ...value, barcodeFormat: e.target.value as BarcodeFormat, barcodePrefix: undefined })} className="p-1 border rounded">
+                    <option value="ean13">EAN-13</option>
+                    <option value="code128">Code128</option>
+                </select>
+                <label className="flex items-center gap-2">
+                    <span>{t('Prefix')}</span>
+                    <input
+                        type="text"
+                        value={value.barcodePrefix ?? ''}
+                        placeholder={value.barcodeFormat === 'code128' ? DEFAULT_CODE128_PREFIX : DEFAULT_EAN_PREFIX}
+                        onChange={(e) => onChange({ ...value, barcodePrefix: e.target.value.trim().toUpperCase() || undefined })}
+                        className="w-20 p-1 border rounded"
+                    />
+                </label>
+                <label className="flex items-center gap-2">
+                    <input type="checkbox" checked={!!value.autoAssignBarcodes} onChange={(e) => onChange({ ...value, autoAssignBarcodes: e.target.checked })} />
+                    <span>{t('Give new products without a barcode one automatically')}</span>
+                </label>
+                {nextCode && <span className="font-mono text-gray-500">{t('Next')}: {nextCode}</span>}
+            </div>
+            <p className="text-xs text-gray-500">{t('EAN-13 prefixes 20-29 are reserved for in-store use, so internal codes never clash with a manufacturer barcode.')}</p>
+        </div>
+    );
+};
+
+export default BarcodeSettings;
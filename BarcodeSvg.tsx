@@ -0,0 +1,39 @@
+import React, { useMemo } from 'react';
+import { encodeBarcode } from '../../utils/barcodes';
+
+// Blank modules either side so a scanner can find where the bars start.
+const QUIET_ZONE = { ean13: [11, 7], code128: [10, 10] } as const;
+
+/** Draws a barcode as SVG bars that stretch to fill the box, with the code printed underneath. */
+const BarcodeSvg: React.FC<{ value: string; showText?: boolean; className?: string }> = ({ value, showText = true, className }) => {
+    const barcode = useMemo(() => {
+        try {
+            return encodeBarcode(value);
+        } catch {
+            return null;
+        }
+    }, [value]);
+
+    if (!barcode) return <div className={`${className ?? ''} text-xs text-red-600`}>{value}</div>;
+
+    const [left, right] = QUIET_ZONE[barcode.format];
+    // Runs of dark modules become one rect each.
+    const bars: { x: number; width: number }[] = [];
+    barcode.modules.split('').forEach((module, i) => {
+        if (module !== '1') return;
+        const last = bars[bars.length - 1];
+        if (last && last.x + last.width === left + i) last.width++;
+        else bars.push({ x: left + i, width: 1 });
+    });
+
+    return (
+        <div className={`${className ?? ''} flex flex-col items-stretch`}>
+            <svg viewBox={`0 0 ${left + barcode.modules.length + right} 40`} preserveAspectRatio="none" className="w-full flex-grow min-h-0" shapeRendering="crispEdges">
+                {bars.map(bar => <rect key={bar.x} x={bar.x} y={0} width={bar.width} height={40} fill="#000" />)}
+            </svg>
+            {showText && <div className="text-center font-mono leading-none" style={{ fontSize: '2.5mm', letterSpacing: '0.3mm' }}>{value}</div>}
+        </div>
+    );
+};
+
+export default BarcodeSvg;
@@ -0,0 +1,131 @@
+import React, { useState } from 'react';
+import { useData } from '../../contexts/DataContext';
+import { useLanguage } from '../../contexts/LanguageContext';
+import { CashMovementType, DENOMINATIONS, Shift, getCountedTotal } from '../../utils/shifts';
+import ShiftReport from './ShiftReport';
+
+const CashDrawer: React.FC = () => {
+    const { currentShift, systemSettings, openShift, recordCashMovement, closeShift, getShiftSummary } = useData();
+    const { t } = useLanguage();
+    const [openingFloat, setOpeningFloat] = useState('');
+    const [movement, setMovement] = useState({ type: 'pay_out' as CashMovementType, amount: '', reason: '', expenseCategory: '' });
+    const [counts, setCounts] = useState<Record<number, string>>({});
+    const [isClosing, setIsClosing] = useState(false);
+    const [report, setReport] = useState<Shift | null>(null);
+
+    const denominations = DENOMINATIONS[systemSettings.currency];
+    const denominationCounts = denominations.map(denomination => ({ denomination, count: parseInt(counts[denomination], 10) || 0 }));
+    const formatAmount = (amount: number) => `${amount.toLocaleString()} ${systemSettings.currency}`;
+
+    if (report) {
+        return <ShiftReport shift={report} onClose={() => setReport(null)} />;
+    }
+
+    if (!currentShift) {
+        return (
+            <div className="bg-white rounded-lg p-6 shadow-md space-y-4 max-w-md">
+                <h3 className="text-xl font-semibold">{t('Open Shift')}</h3>
+                <label className="block text-sm font-medium">{t('Opening Float')}</label>
+                <input type="number" min="0" value={openingFloat} onChange={(e) => setOpeningFloat(e.target.value)} className="w-full p-2 border rounded-lg" />
+                <button
+                    onClick={() => openShift(parseFloat(openingFloat) || 0) && setOpeningFloat('')}
+                    className="w-full bg-blue-600 hover:bg-blue-700 text-white font-semibold py-2 px-4 rounded-lg"
+                >
+                    {t('Open Shift')}
+                </button>
+            </div>
+        );
+    }
+
+    const handleMovement = (e: React.FormEvent) => {
+        e.preventDefault();
+        const category = movement.type === 'pay_out' ? movement.expenseCategory.trim() || undefined : undefined;
+        if (recordCashMovement(movement.type, parseFloat(movement.amount) || 0, movement.reason, category)) {
+            setMovement({ ...movement, amount: '', reason: '', expenseCategory: '' });
+        }
+    };
+
+    const handleClose = () => {
+        const closed = closeShift(denominationCounts);
+        if (closed) {
+            setCounts({});
+            setIsClosing(false);
+            setReport(closed);
+        }
+    };
+
+    const summary = getShiftSummary(currentShift);
+    const countedCash = getCountedTotal(denominationCounts);
+
+    return (
+        <div className="space-y-6">
+            <div className="bg-white rounded-lg p-6 shadow-md flex flex-wrap items-center justify-between gap-4">
+                <div>
+                    <h3 className="text-xl font-semibold">{t('Shift Open')} · {t('Register')} {currentShift.registerId}</h3>
+                    <p className="text-sm text-gray-600">{new Date(currentShift.openedAt).toLocaleString()}{currentShift.openedBy && ` · ${currentShift.openedBy}`}</p>
+                </div>
+                <div className="text-right">
+                    <p className="text-sm text-gray-600">{t('Expected Cash')}</p>
+                    <p className="text-2xl font-bold">{formatAmount(summary.expectedCash)}</p>
+                </div>
+                <div className="flex gap-2">
+                    <button onClick={() => setReport(currentShift)} className="bg-gray-200 hover:bg-gray-300 text-gray-800 font-semibold py-2 px-4 rounded-lg">{t('X Report')}</button>
+                    <button onClick={() => setIsClosing(true)} className="bg-red-600 hover:bg-red-700 text-white font-semibold py-2 px-4 rounded-lg">{t('Close Shift')}</button>
+                </div>
+            </div>
+
+            <form onSubmit={handleMovement} className="bg-white rounded-lg p-6 shadow-md grid grid-cols-1 md:grid-cols-5 gap-3 items-end">
+                <select value={movement.type} onChange={(e) => setMovement({ ...movement, type: e.target.value as CashMovementType })} className="p-2 border rounded-lg">
+                    <option value="pay_out">{t('Pay-out')}</option>
+                    <option value="pay_in">{t('Pay-in')}</option>
+                </select>
+                <input type="number" min="0" placeholder={t('Amount')} value={movement.amount} onChange={(e) => setMovement({ ...movement, amount: e.target.value })} className="p-2 border rounded-lg" />
+                <input type="text" placeholder={t('Reason')} value={movement.reason} onChange={(e) => setMovement({ ...movement, reason: e.target.value })} className="p-2 border rounded-lg" />
+                <input
+                    type="text"
+                    placeholder={t('Expense category (optional)')}
+                    value={movement.expenseCategory}
+                    disabled={movement.type !== 'pay_out'}
+                    onChange={(e) => setMovement({ ...movement, expenseCategory: e.target.value })}
+                    className="p-2 border rounded-lg disabled:bg-gray-100"
+                />
+                <button type="submit" className="bg-blue-600 hover:bg-blue-700 text-white font-semibold py-2 px-4 rounded-lg">{t('Record')}</button>
+            </form>
+
+            {isClosing && (
+                <div className="bg-white rounded-lg p-6 shadow-md space-y-4">
+                    <h3 className="text-xl font-semibold">{t('Count Drawer')}</h3>
+                    <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                        {denominations.map(denomination => (
+                            <label key={denomination} className="flex items-center gap-2 text-sm">
+                                <span className="w-20 text-right">{denomination.toLocaleString()} ×</span>
+                                <input
+                                    type="number"
+                                    min="0"
+                                    value={counts[denomination] || ''}
+                                    onChange={(e) => setCounts({ ...counts, [denomination]: e.target.value })}
+                                    className="w-20 p-2 border rounded-lg"
+                                />
+                            </label>
+                        ))}
+                    </div>
+                    <div className="flex flex-wrap justify-between items-center gap-4 border-t pt-4">
+                        <div className="text-sm space-y-1">
+                            <p>{t('Expected Cash')}: <strong>{formatAmount(summary.expectedCash)}</strong></p>
+                            <p>{t('Counted Cash')}: <strong>{formatAmount(countedCash)}</strong></p>
+                            <p className={countedCash - summary.expectedCash < 0 ? 'text-red-600' : ''}>
+                                {t('Variance')}: <strong>{formatAmount(countedCash - summary.expectedCash)}</strong>
+                            </p>
+                        </div>
+                        <div className="flex gap-2">
+                            <button onClick={() => setIsClosing(false)} className="bg-gray-200 hover:bg-gray-300 text-gray-800 font-semibold py-2 px-4 rounded-lg">{t('Cancel')}</button>
+                            <button onClick={handleClose} className="bg-red-600 hover:bg-red-700 text-white font-semibold py-2 px-4 rounded-lg">{t('Close Shift')}</button>
+                        </div>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default CashDrawer;
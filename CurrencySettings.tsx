@@ -0,0 +1,72 @@
+import React from 'react';
+import { SystemSettings } from '../../types';
+import { useLanguage } from '../../contexts/LanguageContext';
+import { CURRENCIES, Currency, ExchangeRate, getExchangeRate } from '../../utils/currency';
+
+type CurrencyFields = Pick<SystemSettings, 'currency' | 'acceptedCurrencies' | 'exchangeRates'>;
+
+const newRateId = () => `rate-${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`;
+
+/** Currency section of the system settings form: foreign currencies taken at the till and their exchange rates. */
+const CurrencySettings: React.FC<{ value: CurrencyFields; onChange: (value: CurrencyFields) => void }> = ({ value, onChange }) => {
+    const { t } = useLanguage();
+    const foreign = CURRENCIES.filter(c => c !== value.currency);
+    const accepted = value.acceptedCurrencies ?? [];
+    const rates = [...(value.exchangeRates ?? [])].sort((a, b) => a.currency.localeCompare(b.currency) || b.effectiveFrom.localeCompare(a.effectiveFrom));
+    const today = new Date().toISOString().slice(0, 10);
+
+    const toggleCurrency = (currency: Currency) =>
+        onChange({ ...value, acceptedCurrencies: accepted.includes(currency) ? accepted.filter(c => c !== currency) : [...accepted, currency] });
+    const updateRate = (id: string, changes: Partial<ExchangeRate>) =>
+        onChange({ ...value, exchangeRates: (value.exchangeRates ?? []).map(r => r.id === id ? { ...r, ...changes } : r) });
+    const addRate = (currency: Currency) =>
+        onChange({ ...value, exchangeRates: [...(value.exchangeRates ?? []), { id: newRateId(), currency, rate: getExchangeRate(value as SystemSettings, currency, today) ?? 0, effectiveFrom: today }] });
+
+    return (
+        <div className="space-y-3 md:col-span-2 border-t pt-4">
+            <div className="flex flex-wrap items-center gap-4 text-sm">
+                <span className="font-medium">{t('Also accept')}</span>
+                {foreign.map(currency => (
+                    <label key={currency} className="flex items-center space-x-2">
+                        <input type="checkbox" checked={accepted.includes(currency)} onChange={() => toggleCurrency(currency)} />
+                        <span>{currency}</span>
+                    </label>
+                ))}
+            </div>
+            {accepted.filter(c => c !== value.currency).length > 0 && (
+                <>
+                    <table className="min-w-full text-sm">
+                        <thead>
+                            <tr className="text-left border-b">
+                                <th className="py-1">{t('Currency')}</th>
+                                <th className="py-1">{t('Rate')} ({value.currency})</th>
+                                <th className="py-1">{t('Effective from')}</th>
+                                <th className="py-1"></th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {rates.map(rate => (
+                                <tr key={rate.id} className="border-b">
+                                    <td className="py-1">1 {rate.currency} =</td>
+                                    <td className="py-1 pr-2"><input type="number" min="0" step="any" value={rate.rate} onChange={(e) => updateRate(rate.id, { rate: Number(e.target.value) })} className="w-32 p-1 border rounded" /></td>
+                                    <td className="py-1 pr-2"><input type="date" value={rate.effectiveFrom} onChange={(e) => updateRate(rate.id, { effectiveFrom: e.target.value })} className="p-1 border rounded" /></td>
+                                    <td className="py-1 text-right">
+                                        <button type="button" onClick={() => onChange({ ...value, exchangeRates: value.exchangeRates!.filter(r => r.id !== rate.id) })} className="text-red-600">{t('Remove')}</button>
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                    <div className="flex gap-3 text-sm">
+                        {accepted.filter(c => c !== value.currency).map(currency => (
+                            <button key={currency} type="button" onClick={() => addRate(currency)} className="text-blue-600 font-semibold">+ {t('New')} {currency} {t('rate')}</button>
+                        ))}
+                    </div>
+                    <p className="text-xs text-gray-500">{t('Sales use the latest rate in effect on the sale date. Add a new rate rather than editing an old one so past sales keep the rate they were taken at.')}</p>
+                </>
+            )}
+        </div>
+    );
+};
+
+export default CurrencySettings;
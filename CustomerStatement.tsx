@@ -0,0 +1,100 @@
+import React, { useState } from 'react';
+import { useData } from '../../contexts/DataContext';
+import { useLanguage } from '../../contexts/LanguageContext';
+
+const monthRange = (month: string): { from: string; to: string } => {
+    const [year, monthIndex] = month.split('-').map(Number);
+    const lastDay = new Date(year, monthIndex, 0).getDate();
+    return { from: `${month}-01`, to: `${month}-${String(lastDay).padStart(2, '0')}` };
+};
+
+const CustomerStatement: React.FC<{ customerId: string }> = ({ customerId }) => {
+    const { customers, companyInfo, systemSettings, getCustomerStatement } = useData();
+    const { t } = useLanguage();
+    const [month, setMonth] = useState(new Date().toISOString().slice(0, 7));
+
+    const customer = customers.find(c => c.id === customerId);
+    const { from, to } = monthRange(month);
+    const statement = getCustomerStatement(customerId, from, to);
+
+    const formatAmount = (amount: number) => `${amount.toLocaleString()} ${systemSettings.currency}`;
+
+    const handleExport = () => {
+        const header = [t('Date'), t('Type'), t('Reference'), t('Sales'), t('Payments'), t('Balance')];
+        const rows = [
+            [`${t('Customer Statement')} - ${customer?.name || ''} (${statement.from} - ${statement.to})`],
+            [],
+            header,
+            [statement.from, t('Opening Balance'), '', '', '', statement.openingBalance],
+            ...statement.lines.map(l => [l.date, t(l.type === 'sale' ? 'Credit Sale' : 'Payment'), l.reference, l.debit || '', l.credit || '', l.balance]),
+            [statement.to, t('Closing Balance'), '', statement.totalSales, statement.totalPayments, statement.closingBalance],
+        ];
+        const sheet = window.XLSX.utils.aoa_to_sheet(rows);
+        sheet['!merges'] = [{ s: { r: 0, c: 0 }, e: { r: 0, c: header.length - 1 } }];
+        const book = window.XLSX.utils.book_new();
+        window.XLSX.utils.book_append_sheet(book, sheet, 'Statement');
+        window.XLSX.writeFile(book, `Statement_${(customer?.name || customerId).replace(/ /g, '_')}_${month}.xlsx`);
+    };
+
+    return (
+        <div className="space-y-4">
+            <div className="flex flex-wrap items-center gap-2 no-print">
+                <label className="text-sm font-medium">{t('Month')}</label>
+                <input type="month" value={month} onChange={(e) => setMonth(e.target.value)} className="p-2 border rounded-lg" />
+                <div className="flex-grow" />
+                <button onClick={() => window.print()} className="bg-gray-200 hover:bg-gray-300 text-gray-800 font-semibold py-2 px-4 rounded-lg">{t('Print')}</button>
+                <button onClick={handleExport} className="bg-green-600 hover:bg-green-700 text-white font-semibold py-2 px-4 rounded-lg">{t('Export to Excel')}</button>
+            </div>
+
+            <div className="receipt-print-area receipt-standard text-sm">
+                <div className="text-center space-y-1 mb-4">
+                    <h3 className="text-lg font-bold">{companyInfo.name}</h3>
+                    {companyInfo.address && <p>{companyInfo.address}</p>}
+                    {companyInfo.phone && <p>{companyInfo.phone}</p>}
+                    <h4 className="font-semibold pt-2">{t('Customer Statement')}</h4>
+                    <p>{customer?.name} · {statement.from} – {statement.to}</p>
+                </div>
+
+                <table className="min-w-full">
+                    <thead>
+                        <tr className="border-b text-left">
+                            <th className="py-1">{t('Date')}</th>
+                            <th className="py-1">{t('Type')}</th>
+                            <th className="py-1 text-right">{t('Sales')}</th>
+                            <th className="py-1 text-right">{t('Payments')}</th>
+                            <th className="py-1 text-right">{t('Balance')}</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        <tr className="border-b font-medium">
+                            <td className="py-1">{statement.from}</td>
+                            <td className="py-1" colSpan={3}>{t('Opening Balance')}</td>
+                            <td className="py-1 text-right">{formatAmount(statement.openingBalance)}</td>
+                        </tr>
+                        {statement.lines.map(line => (
+                            <tr key={`${line.type}-${line.reference}`} className="border-b">
+                                <td className="py-1">{line.date}</td>
+                                <td className="py-1">{t(line.type === 'sale' ? 'Credit Sale' : 'Payment')}</td>
+                                <td className="py-1 text-right">{line.debit ? formatAmount(line.debit) : ''}</td>
+                                <td className="py-1 text-right">{line.credit ? formatAmount(line.credit) : ''}</td>
+                                <td className="py-1 text-right">{formatAmount(line.balance)}</td>
+                            </tr>
+                        ))}
+                        <tr className="font-bold">
+                            <td className="py-1">{statement.to}</td>
+                            <td className="py-1">{t('Closing Balance')}</td>
+                            <td className="py-1 text-right">{formatAmount(statement.totalSales)}</td>
+                            <td className="py-1 text-right">{formatAmount(statement.totalPayments)}</td>
+                            <td className="py-1 text-right">{formatAmount(statement.closingBalance)}</td>
+                        </tr>
+                    </tbody>
+                </table>
+                {statement.lines.length === 0 && (
+                    <p className="text-center text-gray-500 py-4">{t('No transactions in this period.')}</p>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default CustomerStatement;
@@ -1,10 +1,48 @@
-import React, { createContext, useContext, ReactNode, useState, useCallback, useEffect } from 'react';
+import React, { createContext, useContext, ReactNode, useState, useCallback, useEffect, useMemo, useRef, Dispatch, SetStateAction } from 'react';
 import { Product, Sale, Supplier, Expense, Customer, CompanyInfo, SystemSettings, Category, Purchase, CustomerPayment } from '../types';
-import { useLocalStorage } from '../hooks/useLocalStorage';
+import { usePersistentCollection, usePersistentSetting } from '../hooks/usePersistentState';
+import { BackupFile, DataSnapshot, RecordChange, SyncedStore, createBackup, getDeviceId, listBackupSnapshots, markRemoteChanges, saveBackupSnapshot, upgradeData } from '../utils/storage';
+import {
+    BackupEntry, BackupTrigger, DEFAULT_AUTO_BACKUP, LastAutoBackup, backupFileName, canWriteToFolder, isBackupDue,
+    listBackupFiles, pruneBackupFiles, sealBackup, verifyBackup, writeBackupFile,
+} from '../utils/backups';
+import { encryptBackup, isEncryptedBackup } from '../utils/backupCrypto';
+import { ProductImportPlan } from '../utils/productImport';
+import {
+    StockBatch, BatchReceipt, ExpiryAlert, DEFAULT_EXPIRY_WARNING_DAYS, allocateSaleBatches, applyBatchAllocations, getExpiryAlerts, getReturnAllocations, todayString, trimBatchesToStock,
+} from '../utils/batches';
+import { findUnit, roundQuantity, validateSaleUnits, validateUnits } from '../utils/units';
+import { calculateSaleTax, validateTaxSettings } from '../utils/taxes';
+import { buildTenders, summarizeTenders, validateCurrencySettings } from '../utils/currency';
+import { DocumentCounters, DocumentType, nextDocumentNumber, validateNumbering } from '../utils/documentNumbers';
+import { assignInternalBarcodes, validateBarcodeSettings } from '../utils/barcodes';
+import { PricingRule, PricedCart, PricingLine, applyPromotions, priceCart as runPricingRules, validatePricingRule } from '../utils/pricing';
+import { HeldCart, HeldCartInput, isHeldCartExpired, validateHeldCart } from '../utils/heldCarts';
+import { StockCount, StockTake, StockTakeScope, getStockTakeReport, resolveCountEntry, snapshotExpected } from '../utils/stockTakes';
+import { VariantRow, buildVariant, getVariants, isVariantParent, syncVariantsWithParent, validateVariantRows } from '../utils/variants';
+import { CollectionIssues, ImportMode, ImportPreview, mergeById, previewImport, validateBackup } from '../utils/backupImport';
+import { createWebDavAdapter, mergeRemoteChanges, mergeRemoteProducts, syncWithRemote } from '../utils/sync';
+import { InventoryMovement, InventoryMovementReason, StockChange, StockDiscrepancy, applyStockChanges, findStockDiscrepancies } from '../utils/inventory';
+import {
+    SupplierPayment, PaymentAllocation, OpenDocument, AgingBuckets, CustomerStatement,
+    allocateOldestFirst, validateAllocations, getOpenPurchases, getSupplierBalance, getAgingBuckets,
+    getOpenCreditSales, getCustomerBalance, buildCustomerStatement, reassignAllocations,
+    SUPPLIER_PAYMENT_CATEGORY, supplierPaymentFromExpense,
+} from '../utils/accounts';
+import { StaffMember, StaffRole, Permission, PERMISSION_LABELS, DEFAULT_MAX_DISCOUNT, hasPermission, exceedsDiscountLimit, createPinCredentials, verifyPin, isValidPin } from '../utils/staff';
+import StaffLogin from '../components/staff/StaffLogin';
+import { Shift, ShiftSummary, CashMovementType, DenominationCount, DEFAULT_REGISTER_ID, deviceRegisterId, getCountedTotal, summarizeShift } from '../utils/shifts';
+import { VoidDetails, isActiveSale, getVoidedSales, markVoided } from '../utils/saleStatus';
+import { SaleReturn, ReturnRequestLine, RefundMethod, SalesSummary, buildReturnLines, getSalesSummary } from '../utils/returns';
+import { PurchaseOrder, PurchaseOrderLine, ReceivedLine, ReorderSuggestion, applyGoodsReceipt, buildDraftOrdersFromSuggestions, findOrderLine } from '../utils/purchaseOrders';
 import { DEFAULT_CATEGORIES } from '../constants';
 import { useLanguage } from './LanguageContext';
 import { get, set } from 'idb-keyval';
 
+// How often the "online" storage preference syncs in the background.
+const SYNC_INTERVAL_MS = 5 * 60 * 1000;
+const HELD_CART_EXPIRY_CHECK_MS = 60 * 1000;
+
 // --- Helper Functions ---
 const generateId = (): string => Date.now().toString(36) + Math.random().toString(36).substr(2, 9);
 
@@ -12,29 +50,99 @@ const generateId = (): string => Date.now().toString(36) + Math.random().toStrin
 interface DataContextType {
     // State
     products: Product[];
-    sales: Sale[];
+    sales: Sale[]; // Completed sales only; voided and superseded revisions are excluded
+    allSales: Sale[];
+    voidedSales: Sale[];
     suppliers: Supplier[];
     expenses: Expense[];
     customers: Customer[];
     purchases: Purchase[];
     customerPayments: CustomerPayment[];
+    inventoryMovements: InventoryMovement[];
+    purchaseOrders: PurchaseOrder[];
+    supplierPayments: SupplierPayment[];
+    saleReturns: SaleReturn[];
+    stockDiscrepancies: StockDiscrepancy[];
+    stockBatches: StockBatch[];
+    expiryAlerts: ExpiryAlert[]; // Expired and near-expiry lots still in stock
     companyInfo: CompanyInfo;
     systemSettings: SystemSettings;
     categories: Category[];
     isInIframe: boolean;
     isFileSystemApiSupported: boolean;
 
+    // Staff
+    staff: StaffMember[];
+    currentStaff: StaffMember | null;
+    can: (permission: Permission) => boolean;
+    login: (staffId: string, pin: string) => Promise<boolean>;
+    logout: () => void;
+    authorizeWithPin: (pin: string, permission: Permission) => Promise<StaffMember | null>;
+    addStaff: (name: string, role: StaffRole, pin: string) => Promise<boolean>;
+    updateStaff: (staffId: string, changes: Partial<Pick<StaffMember, 'name' | 'role' | 'active'>>) => boolean;
+    changeStaffPin: (staffId: string, pin: string) => Promise<boolean>;
+
+    // Cash drawer
+    shifts: Shift[];
+    currentShift: Shift | null;
+    openShift: (openingFloat: number) => boolean;
+    recordCashMovement: (type: CashMovementType, amount: number, reason: string, expenseCategory?: string) => boolean;
+    closeShift: (denominations: DenominationCount[]) => Shift | null;
+    getShiftSummary: (shift: Shift) => ShiftSummary;
+
     // Mutators
     addProduct: (product: Omit<Product, 'id'>) => void;
     updateProduct: (product: Product) => void;
     deleteProduct: (productId: string) => void;
+    adjustStock: (productId: string, newQuantity: number, reason: InventoryMovementReason, note?: string) => void;
+    reconcileStock: (productId: string) => void;
+    importProducts: (plan: ProductImportPlan) => boolean;
+    saveProductVariants: (parent: Product | Omit<Product, 'id'>, rows: VariantRow[]) => boolean;
+    assignBarcodes: (productIds: string[]) => boolean;
+    receiveStockBatch: (productId: string, lot: BatchReceipt) => boolean;
+    writeOffBatch: (batchId: string) => boolean;
     
-    addSale: (sale: Omit<Sale, 'id'>) => void;
+    addSale: (sale: Omit<Sale, 'id'>, options?: SaleOptions) => Promise<boolean>;
+    voidSale: (saleId: string, details: VoidDetails) => boolean;
+    /** @deprecated Sales are voided, not deleted; use voidSale with a reason. */
     deleteSale: (saleId: string) => void;
+    reviseSale: (originalSaleId: string, sale: Omit<Sale, 'id'>, details: VoidDetails, options?: SaleOptions) => Promise<boolean>;
+    addSaleReturn: (saleId: string, lines: ReturnRequestLine[], refundMethod: RefundMethod, reason?: string) => boolean;
+    getSalesSummary: (from: string, to: string) => SalesSummary;
+
+    createPurchaseOrder: (supplierId: string, lines: Omit<PurchaseOrderLine, 'quantityReceived'>[], note?: string) => string; // Empty if a line's unit is unknown
+    updatePurchaseOrder: (order: PurchaseOrder) => boolean;
+    placePurchaseOrder: (orderId: string) => boolean;
+    receivePurchaseOrder: (orderId: string, received: ReceivedLine[]) => boolean;
+    cancelPurchaseOrder: (orderId: string) => boolean;
+    createDraftOrdersFromSuggestions: (suggestions: ReorderSuggestion[]) => number;
+
+    // Pricing rules
+    pricingRules: PricingRule[];
+    savePricingRule: (rule: PricingRule | Omit<PricingRule, 'id'>) => boolean;
+    deletePricingRule: (ruleId: string) => void;
+    priceCart: (lines: PricingLine[], customerId?: string) => PricedCart;
+
+    // Held carts (this register's)
+    heldCarts: HeldCart[];
+    holdCart: (cart: HeldCartInput) => boolean;
+    recallCart: (cartId: string) => HeldCart | null;
+    deleteHeldCart: (cartId: string) => void;
+
+    // Stock takes
+    stockTakes: StockTake[];
+    stockCounts: StockCount[];
+    startStockTake: (name: string, scope: StockTakeScope) => string | null;
+    addStockCount: (stockTakeId: string, entry: { barcode: string; quantity: number } | { productId: string; quantity: number }) => boolean;
+    deleteStockCount: (countId: string) => void;
+    postStockTake: (stockTakeId: string, approvedProductIds: string[], treatUncountedAsZero?: boolean) => boolean;
+    cancelStockTake: (stockTakeId: string) => boolean;
 
     addSupplier: (supplier: Omit<Supplier, 'id'>) => void;
     updateSupplier: (supplier: Supplier) => void;
     deleteSupplier: (supplierId: string) => void;
+    addSupplierPayment: (payment: Omit<SupplierPayment, 'id' | 'allocations' | 'expenseId'>, allocations?: PaymentAllocation[]) => boolean;
+    getSupplierAccount: (supplierId: string) => { balance: number; openPurchases: OpenDocument[]; aging: AgingBuckets };
 
     addExpense: (expense: Omit<Expense, 'id'>) => void;
     updateExpense: (expense: Expense) => void;
@@ -44,10 +152,12 @@ interface DataContextType {
     updateCustomer: (customer: Customer) => void;
     deleteCustomer: (customerId: string) => void;
     
-    addCustomerPayment: (payment: Omit<CustomerPayment, 'id'>) => void;
+    addCustomerPayment: (payment: Omit<CustomerPayment, 'id' | 'allocations'>, allocations?: PaymentAllocation[]) => boolean;
+    getCustomerAccount: (customerId: string) => { balance: number; creditLimit?: number; availableCredit: number | null; openSales: OpenDocument[]; aging: AgingBuckets };
+    getCustomerStatement: (customerId: string, from: string, to: string) => CustomerStatement;
 
-    saveCompanyInfo: (info: CompanyInfo) => void;
-    saveSystemSettings: (settings: SystemSettings) => void;
+    saveCompanyInfo: (info: CompanyInfo) => boolean;
+    saveSystemSettings: (settings: SystemSettings) => boolean;
 
     addCategory: (name: string) => boolean;
     updateCategory: (oldName: string, newName: string) => boolean;
@@ -56,11 +166,39 @@ interface DataContextType {
     showToast: (message: string, type?: 'success' | 'error' | 'info' | 'warning') => void;
     
     resetAllData: () => void;
-    importData: (data: any) => void;
+    importData: (data: any, mode?: ImportMode) => boolean;
+    prepareImport: (data: any, mode: ImportMode) => PreparedImport;
 
     directoryHandle: any | null;
     selectDirectory: () => Promise<string | null>;
-    exportBackup: () => Promise<void>;
+    exportBackup: (passphrase?: string) => Promise<void>;
+    listBackups: () => Promise<BackupEntry[]>;
+    restoreBackup: (backup: BackupFile) => Promise<boolean>;
+
+    // Remote sync ("online" storage preference)
+    isSyncing: boolean;
+    syncStatus: SyncStatus;
+    syncNow: (quiet?: boolean) => Promise<boolean>;
+}
+
+export interface PreparedImport {
+    issues: CollectionIssues[];     // Empty when the file can be imported
+    preview: ImportPreview | null;  // null when the file could not be read at all
+}
+
+export interface SyncStatus {
+    lastSyncAt?: string;
+    error?: string;
+}
+
+export interface SaleOptions {
+    // Lets a credit sale take the customer over their credit limit. The PIN of a manager who may
+    // override limits is needed unless the signed-in staff member may do so themselves.
+    creditOverride?: { pin?: string; reason?: string };
+    // Set when the sale is an edit of an existing sale; see reviseSale.
+    revisionOf?: { saleId: string } & VoidDetails;
+    // A manager's PIN approving a discount above SystemSettings.maxDiscountWithoutApproval.
+    discountApproval?: { pin: string };
 }
 
 const DataContext = createContext<DataContextType | undefined>(undefined);
@@ -109,7 +247,7 @@ export const DataProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
         });
     }, []);
 
-    const [systemSettings, setSystemSettings] = useLocalStorage<SystemSettings>('systemSettings', {
+    const [systemSettings, setSystemSettings, systemSettingsLoaded] = usePersistentSetting<SystemSettings>('systemSettings', {
         businessType: 'clothing',
         currency: 'MMK',
         taxRate: 0,
@@ -122,15 +260,33 @@ export const DataProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
         storagePath: '',
     });
     
-    const [products, setProducts] = useLocalStorage<Product[]>('products', []);
-    const [sales, setSales] = useLocalStorage<Sale[]>('sales', []);
-    const [suppliers, setSuppliers] = useLocalStorage<Supplier[]>('suppliers', []);
-    const [expenses, setExpenses] = useLocalStorage<Expense[]>('expenses', []);
-    const [customers, setCustomers] = useLocalStorage<Customer[]>('customers', []);
-    const [purchases, setPurchases] = useLocalStorage<Purchase[]>('purchases', []);
-    const [customerPayments, setCustomerPayments] = useLocalStorage<CustomerPayment[]>('customerPayments', []);
-    const [companyInfo, setCompanyInfo] = useLocalStorage<CompanyInfo>('companyInfo', { name: 'Swift POS' });
-    const [categories, setCategories] = useLocalStorage<Category[]>('categories', DEFAULT_CATEGORIES[systemSettings.businessType]);
+    const [products, setProducts, productsLoaded] = usePersistentCollection<Product>('products');
+    const [allSales, setSales, salesLoaded] = usePersistentCollection<Sale>('sales');
+    const [suppliers, setSuppliers, suppliersLoaded] = usePersistentCollection<Supplier>('suppliers');
+    const [expenses, setExpenses, expensesLoaded] = usePersistentCollection<Expense>('expenses');
+    const [customers, setCustomers, customersLoaded] = usePersistentCollection<Customer>('customers');
+    const [purchases, setPurchases, purchasesLoaded] = usePersistentCollection<Purchase>('purchases');
+    const [customerPayments, setCustomerPayments, customerPaymentsLoaded] = usePersistentCollection<CustomerPayment>('customerPayments');
+    const [inventoryMovements, setInventoryMovements, inventoryMovementsLoaded] = usePersistentCollection<InventoryMovement>('inventoryMovements');
+    const [purchaseOrders, setPurchaseOrders, purchaseOrdersLoaded] = usePersistentCollection<PurchaseOrder>('purchaseOrders');
+    const [supplierPayments, setSupplierPayments, supplierPaymentsLoaded] = usePersistentCollection<SupplierPayment>('supplierPayments');
+    const [saleReturns, setSaleReturns, saleReturnsLoaded] = usePersistentCollection<SaleReturn>('saleReturns');
+    const [staff, setStaff, staffLoaded] = usePersistentCollection<StaffMember>('staff');
+    const [shifts, setShifts, shiftsLoaded] = usePersistentCollection<Shift>('shifts');
+    const [stockBatches, setStockBatches, stockBatchesLoaded] = usePersistentCollection<StockBatch>('stockBatches');
+    const [pricingRules, setPricingRules, pricingRulesLoaded] = usePersistentCollection<PricingRule>('pricingRules');
+    const [allHeldCarts, setHeldCarts, heldCartsLoaded] = usePersistentCollection<HeldCart>('heldCarts');
+    const [stockTakes, setStockTakes, stockTakesLoaded] = usePersistentCollection<StockTake>('stockTakes');
+    const [stockCounts, setStockCounts, stockCountsLoaded] = usePersistentCollection<StockCount>('stockCounts');
+    const [companyInfo, setCompanyInfo, companyInfoLoaded] = usePersistentSetting<CompanyInfo>('companyInfo', { name: 'Swift POS' });
+    const [categories, setCategories, categoriesLoaded] = usePersistentSetting<Category[]>('categories', DEFAULT_CATEGORIES[systemSettings.businessType]);
+    const [documentCounters, setDocumentCounters, documentCountersLoaded] = usePersistentSetting<DocumentCounters>('documentCounters', {});
+
+    // Children are held back until every store has been read, so nothing works on (or saves over) empty defaults.
+    const isStorageReady = [
+        systemSettingsLoaded, productsLoaded, salesLoaded, suppliersLoaded, expensesLoaded,
+        customersLoaded, purchasesLoaded, customerPaymentsLoaded, inventoryMovementsLoaded, purchaseOrdersLoaded, supplierPaymentsLoaded, saleReturnsLoaded, staffLoaded, shiftsLoaded, stockBatchesLoaded, pricingRulesLoaded, heldCartsLoaded, stockTakesLoaded, stockCountsLoaded, companyInfoLoaded, categoriesLoaded, documentCountersLoaded,
+    ].every(Boolean);
 
     useEffect(() => {
         try {
@@ -166,96 +322,1286 @@ export const DataProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
         setToasts(prev => prev.filter(t => t.id !== id));
     };
 
+    // --- Staff & Permissions ---
+    // Until the first account is created every action is allowed, so existing single-user shops keep working.
+    // The signed-in staff member is kept for the browser session only.
+    const [currentStaffId, setCurrentStaffId] = useState<string | null>(() => sessionStorage.getItem('currentStaffId'));
+    const currentStaff = staff.find(s => s.id === currentStaffId && s.active) || null;
+    const isStaffSetUp = staff.some(s => s.active);
+    const requiresLogin = isStaffSetUp && !currentStaff;
+
+    const can = (permission: Permission): boolean => !isStaffSetUp || hasPermission(currentStaff, permission);
+
+    const requirePermission = (permission: Permission): boolean => {
+        if (can(permission)) return true;
+        showToast(`You do not have permission to ${PERMISSION_LABELS[permission]}.`, 'error');
+        return false;
+    };
+
+    const login = async (staffId: string, pin: string): Promise<boolean> => {
+        const member = staff.find(s => s.id === staffId && s.active);
+        if (!member || !(await verifyPin(member, pin))) {
+            showToast('Incorrect PIN.', 'error');
+            return false;
+        }
+        sessionStorage.setItem('currentStaffId', member.id);
+        setCurrentStaffId(member.id);
+        return true;
+    };
+
+    const logout = () => {
+        sessionStorage.removeItem('currentStaffId');
+        setCurrentStaffId(null);
+    };
+
+    /** Finds the active staff member with this PIN who holds the permission, e.g. a manager approving an override at the till. */
+    const authorizeWithPin = async (pin: string, permission: Permission): Promise<StaffMember | null> => {
+        for (const member of staff) {
+            if (hasPermission(member, permission) && await verifyPin(member, pin)) return member;
+        }
+        showToast('No manager with that PIN can approve this.', 'error');
+        return null;
+    };
+
+    const addStaff = async (name: string, role: StaffRole, pin: string): Promise<boolean> => {
+        // The very first account must be an owner, otherwise nobody could manage staff afterwards.
+        if (!isStaffSetUp && role !== 'owner') {
+            showToast('The first staff account must be an owner.', 'error');
+            return false;
+        }
+        if (!requirePermission('manage_staff')) return false;
+        if (!name.trim() || !isValidPin(pin)) {
+            showToast('Enter a name and a PIN of at least 4 characters.', 'error');
+            return false;
+        }
+        const newMember: StaffMember = {
+            id: generateId(),
+            name: name.trim(),
+            role,
+            active: true,
+            createdAt: new Date().toISOString(),
+            ...(await createPinCredentials(pin)),
+        };
+        setStaff(prev => [...prev, newMember]);
+        if (!isStaffSetUp) {
+            sessionStorage.setItem('currentStaffId', newMember.id);
+            setCurrentStaffId(newMember.id);
+        }
+        showToast(`Staff account "${newMember.name}" created.`, 'success');
+        return true;
+    };
+
+    const updateStaff = (staffId: string, changes: Partial<Pick<StaffMember, 'name' | 'role' | 'active'>>): boolean => {
+        if (!requirePermission('manage_staff')) return false;
+        const updated = staff.map(s => s.id === staffId ? { ...s, ...changes } : s);
+        if (!updated.some(s => s.active && s.role === 'owner')) {
+            showToast('At least one active owner account is required.', 'error');
+            return false;
+        }
+        setStaff(updated);
+        return true;
+    };
+
+    const changeStaffPin = async (staffId: string, pin: string): Promise<boolean> => {
+        if (staffId !== currentStaff?.id && !requirePermission('manage_staff')) return false;
+        if (!isValidPin(pin)) {
+            showToast('PIN must be at least 4 characters.', 'error');
+            return false;
+        }
+        const credentials = await createPinCredentials(pin);
+        setStaff(prev => prev.map(s => s.id === staffId ? { ...s, ...credentials } : s));
+        showToast('PIN updated.', 'success');
+        return true;
+    };
+
+    // --- Cash Drawer Shifts ---
+    const registerId = systemSettings.registerId || DEFAULT_REGISTER_ID;
+    const currentShift = shifts.find(s => s.status === 'open' && s.registerId === registerId) || null;
+
+    /** Live totals (X report) for an open shift, or the figures frozen at close (Z report). */
+    const getShiftSummary = (shift: Shift): ShiftSummary =>
+        shift.summary ?? summarizeShift(shift, sales, customerPayments, saleReturns, systemSettings.currency);
+
+    const openShift = (openingFloat: number): boolean => {
+        if (currentShift) {
+            showToast('A shift is already open on this register.', 'warning');
+            return false;
+        }
+        if (openingFloat < 0) {
+            showToast('Opening float cannot be negative.', 'error');
+            return false;
+        }
+        const newShift: Shift = {
+            id: generateId(),
+            registerId,
+            status: 'open',
+            openedAt: new Date().toISOString(),
+            openedBy: currentStaff?.name,
+            openingFloat,
+            cashMovements: [],
+        };
+        setShifts(prev => [...prev, newShift]);
+        showToast('Shift opened.', 'success');
+        return true;
+    };
+
+    /** Cash put into or taken out of the drawer. A pay-out given an expense category is also booked as an expense. */
+    const recordCashMovement = (type: CashMovementType, amount: number, reason: string, expenseCategory?: string): boolean => {
+        if (!currentShift) {
+            showToast('Open a shift before recording pay-ins or pay-outs.', 'error');
+            return false;
+        }
+        if (amount <= 0 || !reason.trim()) {
+            showToast('Enter an amount and a reason.', 'error');
+            return false;
+        }
+        const now = new Date().toISOString();
+        let expenseId: string | undefined;
+        if (type === 'pay_out' && expenseCategory) {
+            const pettyCashExpense: Expense = {
+                id: generateId(),
+                category: expenseCategory,
+                amount,
+                date: now.split('T')[0],
+                description: reason.trim(),
+                staffId: currentStaff?.id,
+            };
+            expenseId = pettyCashExpense.id;
+            setExpenses(prev => [...prev, pettyCashExpense]);
+        }
+        const movement = { id: generateId(), type, amount, reason: reason.trim(), date: now, staffId: currentStaff?.id, expenseId };
+        setShifts(prev => prev.map(s => s.id === currentShift.id ? { ...s, cashMovements: [...s.cashMovements, movement] } : s));
+        return true;
+    };
+
+    /** Closes the open shift against the counted drawer and returns it for the Z report. */
+    const closeShift = (denominations: DenominationCount[]): Shift | null => {
+        if (!currentShift) return null;
+        const summary = summarizeShift(currentShift, sales, customerPayments, saleReturns, systemSettings.currency);
+        const countedCash = getCountedTotal(denominations);
+        const closedShift: Shift = {
+            ...currentShift,
+            status: 'closed',
+            closedAt: new Date().toISOString(),
+            closedBy: currentStaff?.name,
+            denominations: denominations.filter(d => d.count > 0),
+            countedCash,
+            summary,
+            variance: countedCash - summary.expectedCash,
+        };
+        setShifts(prev => prev.map(s => s.id === closedShift.id ? closedShift : s));
+        showToast('Shift closed.', 'success');
+        return closedShift;
+    };
+
+    const saveCompanyInfo = (info: CompanyInfo): boolean => {
+        if (!requirePermission('manage_settings')) return false;
+        setCompanyInfo(info);
+        return true;
+    };
+
+    const saveSystemSettings = (settings: SystemSettings): boolean => {
+        if (!requirePermission('manage_settings')) return false;
+        const settingsError = validateTaxSettings(settings) ?? validateCurrencySettings(settings) ?? validateNumbering(settings)
+            ?? validateBarcodeSettings(settings);
+        if (settingsError) {
+            showToast(settingsError, 'error');
+            return false;
+        }
+        if (currentShift && (settings.registerId || DEFAULT_REGISTER_ID) !== registerId) {
+            showToast('Close the open shift before changing the register id.', 'error');
+            return false;
+        }
+        if (heldCarts.length > 0 && (settings.registerId || DEFAULT_REGISTER_ID) !== registerId) {
+            showToast('Recall or delete the held carts before changing the register id.', 'error');
+            return false;
+        }
+        setSystemSettings(settings);
+        return true;
+    };
+
+    // --- Document Numbers ---
+    // The ref hands out numbers synchronously, so two documents saved before a re-render still get different ones.
+    const documentCountersRef = useRef(documentCounters);
+    useEffect(() => { documentCountersRef.current = documentCounters; }, [documentCounters]);
+
+    /** Takes the next number in a series. Call it only once the document is certain to be saved, so the series has no gaps. */
+    const takeDocumentNumber = (type: DocumentType, date: string, issuedNumbers: (string | undefined)[]): string => {
+        const { documentNumber, counters } = nextDocumentNumber(documentCountersRef.current, systemSettings, type, date, issuedNumbers);
+        documentCountersRef.current = counters;
+        setDocumentCounters(counters);
+        return documentNumber;
+    };
+
+    const sales = useMemo(() => allSales.filter(isActiveSale), [allSales]);
+    const voidedSales = useMemo(() => getVoidedSales(allSales), [allSales]);
+    const stockDiscrepancies = useMemo(() => findStockDiscrepancies(products, inventoryMovements), [products, inventoryMovements]);
+    const expiryWarningDays = systemSettings.expiryWarningDays ?? DEFAULT_EXPIRY_WARNING_DAYS;
+    const expiryAlerts = useMemo(() => getExpiryAlerts(stockBatches, expiryWarningDays), [stockBatches, expiryWarningDays]);
+
+    // --- Stock Ledger ---
+    // All stock changes go through here so that each one leaves an InventoryMovement behind.
+    const postStockChanges = (
+        baseProducts: Product[],
+        changes: StockChange[],
+        reason: InventoryMovementReason,
+        details?: { referenceId?: string; note?: string },
+    ): Product[] => {
+        const result = applyStockChanges(baseProducts, changes, reason, generateId, details);
+        if (result.movements.length > 0) {
+            setInventoryMovements(prev => [...prev, ...result.movements]);
+        }
+        return result.products;
+    };
+
+    /** Saves products after stock was changed outside a sale; lots of anything that went down are trimmed to match. */
+    const setAdjustedProducts = (newProducts: Product[], changes: StockChange[]) => {
+        setProducts(newProducts);
+        const lowered = changes.filter(c => c.quantityChange < 0).map(c => c.productId);
+        if (lowered.length > 0) setStockBatches(prev => trimBatchesToStock(prev, newProducts, lowered));
+    };
+
+    const recordPurchase = (product: Product, quantity: number): string => {
+        const newPurchase: Purchase = {
+            id: generateId(),
+            date: new Date().toISOString().split('T')[0],
+            supplierId: product.supplierId!,
+            productId: product.id,
+            quantity,
+            unitCost: product.buyingPrice,
+            totalCost: quantity * product.buyingPrice
+        };
+        setPurchases(prev => [...prev, newPurchase]);
+        return newPurchase.id;
+    };
+
+    // --- Purchase Orders ---
+    const createPurchaseOrder = (supplierId: string, lines: Omit<PurchaseOrderLine, 'quantityReceived'>[], note?: string): string => {
+        if (!requirePermission('manage_purchases')) return '';
+        // The unit's factor is fixed on the line so later changes to the product do not alter the order.
+        const unitFactor = (line: Omit<PurchaseOrderLine, 'quantityReceived'>) => {
+            const product = products.find(p => p.id === line.productId);
+            return product ? findUnit(product, line.unit)?.factor : undefined;
+        };
+        const unknownUnit = lines.find(line => line.unit && unitFactor(line) === undefined);
+        if (unknownUnit) {
+            showToast(`"${unknownUnit.unit}" is not a unit of this product.`, 'error');
+            return '';
+        }
+        const newOrder: PurchaseOrder = {
+            id: generateId(),
+            supplierId,
+            status: 'draft',
+            createdAt: new Date().toISOString(),
+            note,
+            lines: lines.map(line => ({ ...line, quantityReceived: 0, ...(line.unit ? { unitFactor: unitFactor(line) } : {}) })),
+        };
+        newOrder.documentNumber = takeDocumentNumber('purchase_order', newOrder.createdAt.slice(0, 10), purchaseOrders.map(o => o.documentNumber));
+        setPurchaseOrders(prev => [...prev, newOrder]);
+        return newOrder.id;
+    };
+
+    const updatePurchaseOrder = (updatedOrder: PurchaseOrder): boolean => {
+        if (!requirePermission('manage_purchases')) return false;
+        const existing = purchaseOrders.find(o => o.id === updatedOrder.id);
+        if (!existing || existing.status !== 'draft') {
+            showToast('Only draft purchase orders can be edited.', 'error');
+            return false;
+        }
+        setPurchaseOrders(prev => prev.map(o => o.id === updatedOrder.id ? { ...updatedOrder, status: 'draft' } : o));
+        return true;
+    };
+
+    const placePurchaseOrder = (orderId: string): boolean => {
+        if (!requirePermission('manage_purchases')) return false;
+        const order = purchaseOrders.find(o => o.id === orderId);
+        if (!order || order.status !== 'draft') {
+            showToast('Only draft purchase orders can be placed.', 'error');
+            return false;
+        }
+        if (order.lines.length === 0 || order.lines.some(line => line.quantityOrdered <= 0)) {
+            showToast('Add at least one item with a quantity before placing the order.', 'error');
+            return false;
+        }
+        setPurchaseOrders(prev => prev.map(o => o.id === orderId ? { ...o, status: 'ordered', orderedAt: new Date().toISOString() } : o));
+        showToast('Purchase order placed.', 'success');
+        return true;
+    };
+
+    /** Returns an error message if a batch-tracked product is received without a usable lot. */
+    const validateBatchDetails = (productId: string, lotNumber?: string, expiryDate?: string): string | null => {
+        const product = products.find(p => p.id === productId);
+        if (!product?.trackBatches) return null;
+        if (!lotNumber?.trim() || !expiryDate) return `Enter the lot number and expiry date for "${product.name}".`;
+        if (expiryDate < todayString()) return `Lot ${lotNumber.trim()} of "${product.name}" has already expired.`;
+        return null;
+    };
+
+    const receivePurchaseOrder = (orderId: string, received: ReceivedLine[]): boolean => {
+        if (!requirePermission('manage_purchases')) return false;
+        const order = purchaseOrders.find(o => o.id === orderId);
+        if (!order) return false;
+
+        let result: ReturnType<typeof applyGoodsReceipt>;
+        try {
+            result = applyGoodsReceipt(order, received);
+        } catch (e: any) {
+            showToast(e.message, 'error');
+            return false;
+        }
+        if (result.receivedLines.length === 0) {
+            showToast('Enter a received quantity for at least one item.', 'warning');
+            return false;
+        }
+        const batchError = result.receivedLines
+            .map(line => validateBatchDetails(line.productId, line.lotNumber, line.expiryDate))
+            .find(Boolean);
+        if (batchError) {
+            showToast(batchError, 'error');
+            return false;
+        }
+
+        // Lines ordered in packs are received in packs; purchases and stock are kept in base units.
+        const baseLines = result.receivedLines.map(line => {
+            const orderLine = findOrderLine(order.lines, line);
+            const factor = orderLine?.unitFactor ?? 1;
+            return { ...line, unit: orderLine?.unit, unitQuantity: line.quantity, baseQuantity: roundQuantity(line.quantity * factor), totalCost: line.quantity * line.unitCost };
+        });
+
+        // Each received line becomes a Purchase, which is what the supplier is owed.
+        const date = new Date().toISOString().split('T')[0];
+        const newPurchases: Purchase[] = baseLines.map(line => ({
+            id: generateId(),
+            date,
+            supplierId: order.supplierId,
+            productId: line.productId,
+            quantity: line.baseQuantity,
+            unitCost: line.baseQuantity > 0 ? line.totalCost / line.baseQuantity : line.unitCost,
+            totalCost: line.totalCost,
+            purchaseOrderId: order.id,
+            ...(line.unit ? { unit: line.unit, unitQuantity: line.unitQuantity } : {}),
+        }));
+        setPurchases(prev => [...prev, ...newPurchases]);
+
+        const receivedAt = new Date().toISOString();
+        const newBatches: StockBatch[] = baseLines.flatMap((line, i) => products.find(p => p.id === line.productId)?.trackBatches
+            ? [{
+                id: generateId(), productId: line.productId, lotNumber: line.lotNumber!.trim(), expiryDate: line.expiryDate!,
+                quantity: line.baseQuantity, receivedQuantity: line.baseQuantity, receivedAt, purchaseId: newPurchases[i].id,
+            }]
+            : []);
+        if (newBatches.length > 0) setStockBatches(prev => [...prev, ...newBatches]);
+
+        const newProducts = postStockChanges(
+            products,
+            baseLines.map(line => ({ productId: line.productId, quantityChange: line.baseQuantity })),
+            'purchase',
+            { referenceId: order.id },
+        );
+        setProducts(newProducts);
+        setPurchaseOrders(prev => prev.map(o => o.id === orderId ? result.order : o));
+        showToast(result.order.status === 'received' ? 'Purchase order fully received.' : 'Goods received.', 'success');
+        return true;
+    };
+
+    const cancelPurchaseOrder = (orderId: string): boolean => {
+        if (!requirePermission('manage_purchases')) return false;
+        const order = purchaseOrders.find(o => o.id === orderId);
+        if (!order || order.status === 'received' || order.status === 'cancelled') {
+            showToast('This purchase order can no longer be cancelled.', 'error');
+            return false;
+        }
+        // Goods already received on a partially received order stay in stock.
+        setPurchaseOrders(prev => prev.map(o => o.id === orderId ? { ...o, status: 'cancelled', cancelledAt: new Date().toISOString() } : o));
+        showToast('Purchase order cancelled.', 'info');
+        return true;
+    };
+
+    /** Turns Purchase Suggestions into one draft order per supplier. Returns the number of drafts created. */
+    const createDraftOrdersFromSuggestions = (suggestions: ReorderSuggestion[]): number => {
+        if (!requirePermission('manage_purchases')) return 0;
+        const { drafts, unassigned } = buildDraftOrdersFromSuggestions(suggestions, products);
+        const createdAt = new Date().toISOString();
+        const issuedNumbers = purchaseOrders.map(o => o.documentNumber);
+        const newOrders: PurchaseOrder[] = drafts.map(draft => ({
+            ...draft,
+            id: generateId(),
+            documentNumber: takeDocumentNumber('purchase_order', createdAt.slice(0, 10), issuedNumbers),
+            status: 'draft',
+            createdAt,
+        }));
+        setPurchaseOrders(prev => [...prev, ...newOrders]);
+
+        if (unassigned.length > 0) {
+            showToast(`${unassigned.length} product(s) have no supplier and were skipped.`, 'warning');
+        }
+        if (newOrders.length > 0) {
+            showToast(`${newOrders.length} draft purchase order(s) created.`, 'success');
+        }
+        return newOrders.length;
+    };
+
     // --- CRUD Functions ---
+    /** New products without a barcode get an internal one when the shop has turned that on. */
+    const withAutoBarcodes = (list: Product[], newIds: string[]): Product[] => {
+        if (!systemSettings.autoAssignBarcodes) return list;
+        try {
+            return assignInternalBarcodes(list, newIds, systemSettings);
+        } catch (e: any) {
+            showToast(e.message, 'warning');
+            return list;
+        }
+    };
+
     const addProduct = (product: Omit<Product, 'id'>) => {
-        const newProduct = { ...product, id: generateId() };
-        setProducts(prev => [...prev, newProduct]);
-        if (newProduct.supplierId && newProduct.stock > 0 && newProduct.buyingPrice > 0) {
-            const newPurchase: Omit<Purchase, 'id'> = {
-                date: new Date().toISOString().split('T')[0],
-                supplierId: newProduct.supplierId,
-                productId: newProduct.id,
-                quantity: newProduct.stock,
-                unitCost: newProduct.buyingPrice,
-                totalCost: newProduct.stock * newProduct.buyingPrice
-            };
-            setPurchases(prev => [...prev, { ...newPurchase, id: generateId() }]);
+        const unitError = validateUnits(product, products);
+        if (unitError) {
+            showToast(unitError, 'error');
+            return;
         }
+        const newProduct = { ...product, id: generateId() };
+        const isPurchase = !!newProduct.supplierId && newProduct.stock > 0 && newProduct.buyingPrice > 0;
+        const referenceId = isPurchase ? recordPurchase(newProduct, newProduct.stock) : undefined;
+
+        // The product starts at zero and its opening stock is posted to the ledger.
+        const newProducts = postStockChanges(
+            withAutoBarcodes([...products, { ...newProduct, stock: 0 }], [newProduct.id]),
+            [{ productId: newProduct.id, quantityChange: newProduct.stock }],
+            isPurchase ? 'purchase' : 'adjustment',
+            { referenceId, note: isPurchase ? undefined : 'Opening stock' },
+        );
+        setProducts(newProducts);
     };
     
     const updateProduct = (updatedProduct: Product) => {
         const oldProduct = products.find(p => p.id === updatedProduct.id);
+        // Pack sizes and pack prices set what a unit sells for, so editing them counts as a price change.
+        const priceChanged = !!oldProduct && (oldProduct.sellingPrice !== updatedProduct.sellingPrice || oldProduct.buyingPrice !== updatedProduct.buyingPrice
+            || JSON.stringify(oldProduct.units ?? []) !== JSON.stringify(updatedProduct.units ?? []));
+        if (priceChanged && !requirePermission('edit_prices')) return;
+        const unitError = validateUnits(updatedProduct, products);
+        if (unitError) {
+            showToast(unitError, 'error');
+            return;
+        }
         const oldStock = oldProduct ? oldProduct.stock : 0;
+        // A parent's stock is the sum of its variants, so it is never edited directly.
+        const stockChange = isVariantParent(updatedProduct) ? 0 : updatedProduct.stock - oldStock;
+        if (stockChange !== 0 && !requirePermission('adjust_stock')) return;
 
-        setProducts(prev => prev.map(p => p.id === updatedProduct.id ? updatedProduct : p));
-
-        const stockIncrease = updatedProduct.stock - oldStock;
-        if (updatedProduct.supplierId && stockIncrease > 0 && updatedProduct.buyingPrice > 0) {
-            const newPurchase: Omit<Purchase, 'id'> = {
-                date: new Date().toISOString().split('T')[0],
-                supplierId: updatedProduct.supplierId,
-                productId: updatedProduct.id,
-                quantity: stockIncrease,
-                unitCost: updatedProduct.buyingPrice,
-                totalCost: stockIncrease * updatedProduct.buyingPrice
-            };
-            setPurchases(prev => [...prev, { ...newPurchase, id: generateId() }]);
+        const syncedVariants = new Map(
+            isVariantParent(updatedProduct)
+                ? syncVariantsWithParent(updatedProduct, getVariants(products, updatedProduct.id)).map(v => [v.id, v])
+                : [],
+        );
+        const changes = [{ productId: updatedProduct.id, quantityChange: stockChange }];
+        const newProducts = postStockChanges(
+            products.map(p => p.id === updatedProduct.id ? { ...updatedProduct, stock: oldStock } : syncedVariants.get(p.id) ?? p),
+            changes,
+            'adjustment',
+            { note: 'Edited on product form' },
+        );
+        setAdjustedProducts(newProducts, changes);
+    };
+
+    const deleteProduct = (productId: string) => {
+        if (!requirePermission('delete_product')) return;
+        // Deleting a parent takes its variants with it.
+        setProducts(prev => prev.filter(p => p.id !== productId && p.parentId !== productId));
+    };
+
+    /**
+     * Creates or updates a parent product together with its size/colour variants. Variants left
+     * out of `rows` are kept; they are removed with deleteProduct like any other product.
+     */
+    const saveProductVariants = (parent: Product | Omit<Product, 'id'>, rows: VariantRow[]): boolean => {
+        const existingParent = 'id' in parent ? products.find(p => p.id === parent.id) : undefined;
+        const parentRecord: Product = {
+            variantOptions: { sizes: [], colors: [] },
+            ...parent,
+            id: existingParent?.id ?? generateId(),
+            stock: 0,
+        };
+
+        const error = validateVariantRows(rows, products, parentRecord.id);
+        if (error) {
+            showToast(error, 'error');
+            return false;
+        }
+
+        const currentVariants = new Map(getVariants(products, parentRecord.id).map(v => [v.id, v]));
+        const variants = rows.map(row => buildVariant(parentRecord, row, row.id ?? generateId(), row.id ? currentVariants.get(row.id) : undefined));
+        const parentPriceChanged = !!existingParent
+            && (existingParent.sellingPrice !== parentRecord.sellingPrice || existingParent.buyingPrice !== parentRecord.buyingPrice);
+        const changesPrices = parentPriceChanged || variants.some(v => currentVariants.has(v.id) && currentVariants.get(v.id)!.sellingPrice !== v.sellingPrice);
+        const changesStock = variants.some((v, i) => currentVariants.has(v.id) && v.stock !== rows[i].stock);
+        if (changesPrices && !requirePermission('edit_prices')) return false;
+        if (changesStock && !requirePermission('adjust_stock')) return false;
+
+        // Variants not in this save still pick up the parent's name, category and prices.
+        const savedById = new Map(variants.map(v => [v.id, v]));
+        syncVariantsWithParent(parentRecord, [...currentVariants.values()].filter(v => !savedById.has(v.id)))
+            .forEach(v => savedById.set(v.id, v));
+        savedById.set(parentRecord.id, parentRecord);
+
+        const baseProducts = [
+            ...products.map(p => savedById.get(p.id) ?? p),
+            ...(existingParent ? [] : [parentRecord]),
+            ...variants.filter(v => !currentVariants.has(v.id)),
+        ];
+        const stockChanges = (isNew: boolean): StockChange[] => variants
+            .map((v, i) => ({ productId: v.id, quantityChange: rows[i].stock - v.stock, isNew: !currentVariants.has(v.id) }))
+            .filter(change => change.isNew === isNew)
+            .map(({ productId, quantityChange }) => ({ productId, quantityChange }));
+
+        const newVariantIds = variants.filter(v => !currentVariants.has(v.id)).map(v => v.id);
+        const withOpeningStock = postStockChanges(withAutoBarcodes(baseProducts, newVariantIds), stockChanges(true), 'adjustment', { note: 'Opening stock' });
+        setAdjustedProducts(postStockChanges(withOpeningStock, stockChanges(false), 'adjustment', { note: 'Edited on variant form' }), stockChanges(false));
+        showToast(`Saved "${parentRecord.name}" with ${variants.length} variant(s).`, 'success');
+        return true;
+    };
+
+    /** Gives the selected products that have no barcode one from the shop's internal range. */
+    const assignBarcodes = (productIds: string[]): boolean => {
+        let updated: Product[];
+        try {
+            updated = assignInternalBarcodes(products, productIds, systemSettings);
+        } catch (e: any) {
+            showToast(e.message, 'error');
+            return false;
+        }
+        const assigned = updated.filter((p, i) => p !== products[i]).length;
+        if (assigned === 0) {
+            showToast('The selected products already have barcodes.', 'info');
+            return false;
+        }
+        setProducts(updated);
+        showToast(`Assigned ${assigned} barcode(s).`, 'success');
+        return true;
+    };
+
+    /** Sets a product's stock to `newQuantity`, recording the difference under the given reason. */
+    const adjustStock = (productId: string, newQuantity: number, reason: InventoryMovementReason, note?: string) => {
+        if (!requirePermission('adjust_stock')) return;
+        const product = products.find(p => p.id === productId);
+        if (!product) return;
+        const changes = [{ productId, quantityChange: newQuantity - product.stock }];
+        setAdjustedProducts(postStockChanges(products, changes, reason, { note }), changes);
+    };
+
+    // --- Stock Takes ---
+    const startStockTake = (name: string, scope: StockTakeScope): string | null => {
+        if (!requirePermission('adjust_stock')) return null;
+        const expected = snapshotExpected(products, scope);
+        if (Object.keys(expected).length === 0) {
+            showToast('No products match this stock take.', 'error');
+            return null;
+        }
+        // Two open counts of the same product would each post its variance.
+        const overlapping = stockTakes.find(st => st.status === 'counting' && Object.keys(expected).some(id => id in st.expected));
+        if (overlapping) {
+            showToast(`"${overlapping.name}" is still counting some of these products. Post or cancel it first.`, 'error');
+            return null;
+        }
+        const stockTake: StockTake = {
+            id: generateId(),
+            name: name.trim() || `Stock take ${todayString()}`,
+            scope,
+            status: 'counting',
+            startedAt: new Date().toISOString(),
+            startedBy: currentStaff?.id,
+            expected,
+        };
+        setStockTakes(prev => [...prev, stockTake]);
+        showToast(`Stock take started for ${Object.keys(expected).length} product(s).`, 'success');
+        return stockTake.id;
+    };
+
+    const addStockCount = (stockTakeId: string, entry: { barcode: string; quantity: number } | { productId: string; quantity: number }): boolean => {
+        const stockTake = stockTakes.find(st => st.id === stockTakeId);
+        if (!stockTake || stockTake.status !== 'counting') {
+            showToast('This stock take is no longer open for counting.', 'error');
+            return false;
         }
+        let line: { productId: string; quantity: number };
+        try {
+            line = resolveCountEntry(stockTake, products, entry);
+        } catch (e: any) {
+            showToast(e.message, 'error');
+            return false;
+        }
+        setStockCounts(prev => [...prev, { ...line, id: generateId(), stockTakeId, countedAt: new Date().toISOString(), countedBy: currentStaff?.id }]);
+        return true;
+    };
+
+    const deleteStockCount = (countId: string) => {
+        const count = stockCounts.find(c => c.id === countId);
+        if (stockTakes.find(st => st.id === count?.stockTakeId)?.status !== 'counting') return;
+        setStockCounts(prev => prev.filter(c => c.id !== countId));
+    };
+
+    /** Posts the approved variances to stock as stock_count movements and closes the stock take. */
+    const postStockTake = (stockTakeId: string, approvedProductIds: string[], treatUncountedAsZero = false): boolean => {
+        if (!requirePermission('adjust_stock')) return false;
+        const stockTake = stockTakes.find(st => st.id === stockTakeId);
+        if (!stockTake || stockTake.status !== 'counting') return false;
+        const approved = new Set(approvedProductIds);
+        const report = getStockTakeReport(stockTake, stockCounts, products, treatUncountedAsZero);
+        const postedLines = report.lines.filter(l => approved.has(l.productId));
+
+        const changes = postedLines.map(l => ({ productId: l.productId, quantityChange: l.variance }));
+        setAdjustedProducts(
+            postStockChanges(products, changes, 'stock_count', { referenceId: stockTake.id, note: `Stock take: ${stockTake.name}` }),
+            changes,
+        );
+        setStockTakes(prev => prev.map(st => st.id === stockTakeId
+            ? { ...st, status: 'posted', postedAt: new Date().toISOString(), postedBy: currentStaff?.id, postedProductIds: postedLines.map(l => l.productId) }
+            : st));
+        showToast(`Stock take posted: ${postedLines.filter(l => l.variance !== 0).length} product(s) adjusted.`, 'success');
+        return true;
+    };
+
+    const cancelStockTake = (stockTakeId: string): boolean => {
+        if (!requirePermission('adjust_stock')) return false;
+        const stockTake = stockTakes.find(st => st.id === stockTakeId);
+        if (!stockTake || stockTake.status !== 'counting') return false;
+        setStockTakes(prev => prev.map(st => st.id === stockTakeId ? { ...st, status: 'cancelled', cancelledAt: new Date().toISOString() } : st));
+        return true;
+    };
+
+    /** Receives a lot bought outside a purchase order. Linked to the product's supplier, it is recorded as a purchase. */
+    const receiveStockBatch = (productId: string, lot: BatchReceipt): boolean => {
+        const product = products.find(p => p.id === productId);
+        if (!product || lot.quantity <= 0) return false;
+        const error = validateBatchDetails(productId, lot.lotNumber, lot.expiryDate);
+        if (error) {
+            showToast(error, 'error');
+            return false;
+        }
+        const unitCost = lot.unitCost ?? product.buyingPrice;
+        const isPurchase = !!product.supplierId && unitCost > 0;
+        const purchaseId = isPurchase ? recordPurchase({ ...product, buyingPrice: unitCost }, lot.quantity) : undefined;
+        const batch: StockBatch = {
+            id: generateId(),
+            productId,
+            lotNumber: lot.lotNumber.trim(),
+            expiryDate: lot.expiryDate,
+            quantity: lot.quantity,
+            receivedQuantity: lot.quantity,
+            receivedAt: new Date().toISOString(),
+            purchaseId,
+        };
+        setStockBatches(prev => [...prev, batch]);
+        setProducts(postStockChanges(
+            products,
+            [{ productId, quantityChange: lot.quantity }],
+            isPurchase ? 'purchase' : 'adjustment',
+            { referenceId: purchaseId, note: `Lot ${batch.lotNumber}` },
+        ));
+        showToast(`Lot ${batch.lotNumber} received.`, 'success');
+        return true;
+    };
+
+    /** Pulls what is left of a lot off the shelf, e.g. once it has expired. */
+    const writeOffBatch = (batchId: string): boolean => {
+        if (!requirePermission('adjust_stock')) return false;
+        const batch = stockBatches.find(b => b.id === batchId);
+        if (!batch || batch.quantity <= 0) return false;
+        setProducts(postStockChanges(
+            products,
+            [{ productId: batch.productId, quantityChange: -batch.quantity }],
+            'adjustment',
+            { referenceId: batch.id, note: `Lot ${batch.lotNumber} written off (expires ${batch.expiryDate})` },
+        ));
+        setStockBatches(prev => prev.map(b => b.id === batchId ? { ...b, quantity: 0 } : b));
+        showToast(`Lot ${batch.lotNumber} written off.`, 'success');
+        return true;
+    };
+
+    /**
+     * Applies a planned bulk import in one go. Missing suppliers and categories are created, and
+     * stock differences are posted to the ledger as adjustments, not purchases.
+     */
+    const importProducts = (plan: ProductImportPlan): boolean => {
+        const currentById = new Map(products.map(p => [p.id, p]));
+        const changesPrices = plan.updates.some(({ product }) => {
+            const current = currentById.get(product.id);
+            return !!current && (current.buyingPrice !== product.buyingPrice || current.sellingPrice !== product.sellingPrice);
+        });
+        const changesStock = plan.updates.some(({ product }) => currentById.get(product.id)?.stock !== product.stock);
+        if (changesPrices && !requirePermission('edit_prices')) return false;
+        if (changesStock && !requirePermission('adjust_stock')) return false;
+
+        const newSuppliers: Supplier[] = plan.newSuppliers.map(name => ({ id: generateId(), name }));
+        const supplierIdByName = new Map(newSuppliers.map(s => [s.name.trim().toLowerCase(), s.id]));
+        const resolveSupplier = (name?: string) => name ? supplierIdByName.get(name.trim().toLowerCase()) : undefined;
+
+        const updatesById = new Map(plan.updates.map(u => [u.product.id, u]));
+        const created = plan.creates.map(({ product, supplierName }) => ({
+            ...product,
+            id: generateId(),
+            supplierId: resolveSupplier(supplierName) ?? product.supplierId,
+        }));
+        // Every product starts from its current stock (zero if new); the difference is posted below.
+        const baseProducts = [
+            ...products.map(p => {
+                const update = updatesById.get(p.id);
+                if (!update) return p;
+                return { ...update.product, supplierId: resolveSupplier(update.supplierName) ?? update.product.supplierId, stock: p.stock };
+            }),
+            ...created.map(p => ({ ...p, stock: 0 })),
+        ];
+        const stockChanges: StockChange[] = [
+            ...plan.updates
+                .filter(({ product }) => currentById.has(product.id))
+                .map(({ product }) => ({ productId: product.id, quantityChange: product.stock - currentById.get(product.id)!.stock })),
+            ...created.map(p => ({ productId: p.id, quantityChange: p.stock })),
+        ];
+
+        if (newSuppliers.length > 0) setSuppliers(prev => [...prev, ...newSuppliers]);
+        if (plan.newCategories.length > 0) setCategories(prev => [...prev, ...plan.newCategories.filter(c => !prev.includes(c))]);
+        setAdjustedProducts(postStockChanges(withAutoBarcodes(baseProducts, created.map(p => p.id)), stockChanges, 'adjustment', { note: 'Product import' }), stockChanges);
+        showToast(`Imported products: ${created.length} created, ${plan.updates.length} updated.`, 'success');
+        return true;
     };
 
-    const deleteProduct = (productId: string) => setProducts(prev => prev.filter(p => p.id !== productId));
+    /** Resets a product's cached stock to the quantity its ledger entries add up to. */
+    const reconcileStock = (productId: string) => {
+        const discrepancy = stockDiscrepancies.find(d => d.productId === productId);
+        if (!discrepancy) return;
+        setAdjustedProducts(
+            products.map(p => p.id === productId ? { ...p, stock: discrepancy.ledgerStock } : p),
+            [{ productId, quantityChange: discrepancy.ledgerStock - discrepancy.stock }],
+        );
+        showToast('Stock reconciled with the inventory ledger.', 'success');
+    };
     
-    const addSale = (sale: Omit<Sale, 'id'>) => {
-        const newSale: Sale = { ...sale, id: generateId() };
+    const addSale = async (sale: Omit<Sale, 'id'>, options: SaleOptions = {}): Promise<boolean> => {
+        const newSale: Sale = { ...sale, id: generateId(), status: 'completed', revision: 1, staffId: currentStaff?.id, shiftId: currentShift?.id };
+
+        const unitError = validateSaleUnits(sale, products);
+        if (unitError) {
+            showToast(unitError, 'error');
+            return false;
+        }
+
+        // Stock is held by variants, so a parent product has to be resolved to one before it is sold.
+        const parentItem = sale.items.find(item => products.some(p => p.id === item.productId && isVariantParent(p)));
+        if (parentItem) {
+            showToast(`Pick a size or colour for "${parentItem.name}".`, 'error');
+            return false;
+        }
+
+        // Promotions are worked out again from the rules, so a stale or altered cart cannot change what they
+        // take off. An edited sale is priced as of when it was first rung up. A cart priced differently is
+        // turned back rather than corrected, since the customer paid what the till showed.
+        const revised = options.revisionOf ? sales.find(s => s.id === options.revisionOf!.saleId) : undefined;
+        const pricedAt = revised ? new Date(`${revised.date}T${revised.time}`) : new Date();
+        const customerGroup = customers.find(c => c.id === sale.customerType)?.group;
+        const priced = runPricingRules(
+            sale.items.map(({ id, productId, price, quantity }) => ({ id, productId, price, quantity })),
+            products,
+            pricingRules,
+            { customerGroup, now: isNaN(pricedAt.getTime()) ? new Date() : pricedAt },
+        );
+        newSale.items = applyPromotions(sale.items, priced);
+        newSale.appliedPromotions = priced.promotions.length > 0 ? priced.promotions : undefined;
+        const itemsTotal = (items: Sale['items']) => items.reduce((sum, item) => sum + item.total, 0);
+        const promotionDifference = Math.round((itemsTotal(newSale.items) - itemsTotal(sale.items)) * 100) / 100;
+        if (promotionDifference !== 0) {
+            showToast('The promotions running now price this cart differently. Reprice it before taking payment.', 'error');
+            return false;
+        }
+
+        // Each line is taxed under its class and the breakdown is kept with the sale for the tax report.
+        // The till must have charged the same total, tax included, or the payment would not match it.
+        const saleTax = calculateSaleTax(newSale, products, systemSettings);
+        if (Math.abs(saleTax.total - sale.total) >= 0.005) {
+            showToast(`With tax this sale comes to ${saleTax.total}, not ${sale.total}. Reprice it before taking payment.`, 'error');
+            return false;
+        }
+        newSale.items = saleTax.items;
+        newSale.taxBreakdown = saleTax.breakdown;
+        newSale.pricesIncludeTax = !!systemSettings.pricesIncludeTax;
+        newSale.totalTax = saleTax.totalTax;
+        newSale.total = saleTax.total;
+        if (!sale.tenders?.length) {
+            if (sale.paymentMethod !== 'credit' && newSale.amountPaid < newSale.total) {
+                showToast(`The amount paid (${newSale.amountPaid}) does not cover the total of ${newSale.total}.`, 'error');
+                return false;
+            }
+            newSale.change = Math.max(0, Math.round((newSale.amountPaid - newSale.total) * 100) / 100);
+        }
+
+        // Foreign tenders are converted at the owner's rate for the sale date; change is given in the base currency.
+        if (sale.tenders?.length) {
+            try {
+                newSale.tenders = buildTenders(sale.tenders, systemSettings, sale.date);
+            } catch (e: any) {
+                showToast(e.message, 'error');
+                return false;
+            }
+            const { amountPaid, change, remaining } = summarizeTenders(newSale.tenders, newSale.total);
+            // Only a credit sale may leave part of the total unpaid; it goes on the customer's account.
+            if (remaining > 0 && sale.paymentMethod !== 'credit') {
+                showToast(`The payments fall ${remaining} short of the total.`, 'error');
+                return false;
+            }
+            newSale.amountPaid = amountPaid;
+            newSale.change = change;
+        }
+
+        // Discounts above the cashier's limit need the permission or a manager's approval.
+        const maxDiscount = systemSettings.maxDiscountWithoutApproval ?? DEFAULT_MAX_DISCOUNT;
+        if (exceedsDiscountLimit(newSale, maxDiscount) && !can('large_discount')) {
+            if (!options.discountApproval) {
+                showToast(`Discounts above ${maxDiscount}% need a manager's approval.`, 'error');
+                return false;
+            }
+            const approver = await authorizeWithPin(options.discountApproval.pin, 'large_discount');
+            if (!approver) return false;
+            newSale.discountApprovedBy = approver.name;
+        }
         // Add customerId if a registered customer is selected
         if (sale.customerType !== 'walk-in' && sale.customerType !== 'online') {
             newSale.customerId = sale.customerType;
         }
 
-        // Update stock
-        const newProducts = [...products];
-        newSale.items.forEach(item => {
-            const productIndex = newProducts.findIndex(p => p.id === item.productId);
-            if (productIndex !== -1) {
-                newProducts[productIndex].stock -= item.quantity;
+        // An edit replaces the original sale, which is kept as a superseded revision.
+        const original = options.revisionOf ? sales.find(s => s.id === options.revisionOf!.saleId) : undefined;
+        if (options.revisionOf) {
+            if (!requirePermission('edit_sale')) return false;
+            if (!original) {
+                showToast('Only a completed sale can be edited.', 'error');
+                return false;
             }
-        });
+            if (saleReturns.some(r => r.saleId === original.id)) {
+                showToast('This sale has returns recorded against it and can no longer be edited.', 'error');
+                return false;
+            }
+            newSale.revisionOf = original.id;
+            newSale.revision = (original.revision || 1) + 1;
+            // The cash was taken in the original's shift, so the revision stays in it.
+            newSale.shiftId = original.shiftId;
+        }
+        const otherSales = original ? sales.filter(s => s.id !== original.id) : sales;
+
+        // Credit sales may not take a customer over their limit without a manager's override.
+        if (newSale.paymentMethod === 'credit' && newSale.customerId) {
+            const customer = customers.find(c => c.id === newSale.customerId);
+            if (customer?.creditLimit !== undefined) {
+                const newBalance = getCustomerBalance(customer.id, otherSales, customerPayments) + newSale.total;
+                if (newBalance > customer.creditLimit) {
+                    if (!options.creditOverride) {
+                        showToast(`This sale would take ${customer.name} to ${newBalance}, over their credit limit of ${customer.creditLimit}.`, 'error');
+                        return false;
+                    }
+                    let approvedBy = currentStaff?.name ?? '';
+                    if (!can('override_credit_limit')) {
+                        const approver = await authorizeWithPin(options.creditOverride.pin ?? '', 'override_credit_limit');
+                        if (!approver) return false;
+                        approvedBy = approver.name;
+                    }
+                    newSale.creditLimitOverride = { approvedBy, reason: options.creditOverride.reason };
+                }
+            }
+        }
+
+        // Batch-tracked items come out of their earliest-expiring lots, after the replaced revision's lots go back.
+        const restockedItems = original ? original.items.map(item => ({ productId: item.productId, quantityChange: item.quantity })) : [];
+        let newBatches = original ? applyBatchAllocations(stockBatches, original.batchAllocations ?? [], 1) : stockBatches;
+        try {
+            const batchAllocations = allocateSaleBatches(newSale.items, applyStockChanges(products, restockedItems, 'void', generateId).products, newBatches);
+            if (batchAllocations.length > 0) newSale.batchAllocations = batchAllocations;
+            newBatches = applyBatchAllocations(newBatches, batchAllocations, -1);
+        } catch (e: any) {
+            showToast(e.message, 'error');
+            return false;
+        }
+
+        // Update stock: the replaced revision's items go back before the new ones are taken out.
+        let newProducts = products;
+        if (original) {
+            newProducts = postStockChanges(
+                newProducts,
+                restockedItems,
+                'void',
+                { referenceId: original.id, note: `Replaced by revision ${newSale.revision}` },
+            );
+        }
+        newProducts = postStockChanges(
+            newProducts,
+            newSale.items.map(item => ({ productId: item.productId, quantityChange: -item.quantity })),
+            'sale',
+            { referenceId: newSale.id },
+        );
+        // An edited sale is the same invoice, so the revision keeps the original's number.
+        newSale.documentNumber = original?.documentNumber ?? takeDocumentNumber('sale', newSale.date, allSales.map(s => s.documentNumber));
         setProducts(newProducts);
-        setSales(prev => [...prev, newSale]);
+        if (newBatches !== stockBatches) setStockBatches(newBatches);
+        // Payments against the original now settle the revision, if it is still on credit.
+        if (original) {
+            setCustomerPayments(prev => reassignAllocations(prev, original.id, newSale.paymentMethod === 'credit' ? newSale : null));
+        }
+        setSales(prev => [
+            ...prev.map(s => s.id === original?.id
+                ? { ...markVoided(s, 'superseded', voidDetails(options.revisionOf!)), supersededBy: newSale.id, voidedByStaffId: currentStaff?.id }
+                : s),
+            newSale,
+        ]);
+        return true;
     };
 
-    const deleteSale = (saleId: string) => {
-        const saleToDelete = sales.find(s => s.id === saleId);
-        if (!saleToDelete) return;
+    // When someone is signed in, the audit trail names them rather than whatever was typed.
+    const voidDetails = (details: VoidDetails): VoidDetails => ({ ...details, voidedBy: currentStaff?.name ?? details.voidedBy });
+
+    /** Saves an edited sale as a new revision of the original. */
+    const reviseSale = async (originalSaleId: string, sale: Omit<Sale, 'id'>, details: VoidDetails, options: SaleOptions = {}): Promise<boolean> => {
+        if (!details.reason.trim()) {
+            showToast('A reason is required to edit a sale.', 'error');
+            return false;
+        }
+        return addSale(sale, { ...options, revisionOf: { saleId: originalSaleId, ...details } });
+    };
+
+    /** Voids a sale: the record is kept with who voided it and why, and its stock goes back on hand. */
+    const voidSale = (saleId: string, details: VoidDetails): boolean => {
+        if (!requirePermission('void_sale')) return false;
+        const saleToVoid = sales.find(s => s.id === saleId);
+        if (!saleToVoid) return false;
+        if (!details.reason.trim()) {
+            showToast('A reason is required to void a sale.', 'error');
+            return false;
+        }
+        if (saleReturns.some(r => r.saleId === saleId)) {
+            showToast('This sale has returns recorded against it and can no longer be voided.', 'error');
+            return false;
+        }
 
         // Restore stock
-        const newProducts = [...products];
-        saleToDelete.items.forEach(item => {
-            const productIndex = newProducts.findIndex(p => p.id === item.productId);
-            if (productIndex !== -1) {
-                newProducts[productIndex].stock += item.quantity;
-            }
-        });
+        const newProducts = postStockChanges(
+            products,
+            saleToVoid.items.map(item => ({ productId: item.productId, quantityChange: item.quantity })),
+            'void',
+            { referenceId: saleId, note: details.reason },
+        );
+        setProducts(newProducts);
+        if (saleToVoid.batchAllocations) setStockBatches(prev => applyBatchAllocations(prev, saleToVoid.batchAllocations!, 1));
+
+        setSales(prev => prev.map(s => s.id === saleId ? { ...markVoided(s, 'voided', voidDetails(details)), voidedByStaffId: currentStaff?.id } : s));
+        // Anything paid against a voided credit sale goes back on the customer's account.
+        setCustomerPayments(prev => reassignAllocations(prev, saleId, null));
+        return true;
+    };
+
+    /** Kept for callers written before sales could be voided; the sale is voided, never removed. */
+    const deleteSale = (saleId: string) => {
+        voidSale(saleId, { reason: 'Deleted', voidedBy: currentStaff?.name ?? '' });
+    };
+
+    // --- Sales Returns ---
+    /**
+     * Returns some or all of a sale's lines. Restocked items go back on hand; damaged items are
+     * received and written off in the same step so both movements show in the ledger.
+     */
+    const addSaleReturn = (saleId: string, request: ReturnRequestLine[], refundMethod: RefundMethod, reason?: string): boolean => {
+        if (!requirePermission('process_returns')) return false;
+        const sale = sales.find(s => s.id === saleId);
+        if (!sale) return false;
+
+        let lines: SaleReturn['lines'];
+        try {
+            lines = buildReturnLines(sale, request, saleReturns);
+        } catch (e: any) {
+            showToast(e.message, 'error');
+            return false;
+        }
+        if (lines.length === 0) {
+            showToast('Select at least one item to return.', 'warning');
+            return false;
+        }
+        if (refundMethod === 'credit_note' && !sale.customerId) {
+            showToast('A credit note can only be issued to a registered customer.', 'error');
+            return false;
+        }
+
+        const now = new Date();
+        const newReturn: SaleReturn = {
+            id: generateId(),
+            saleId,
+            customerId: sale.customerId,
+            date: now.toISOString().split('T')[0],
+            time: now.toLocaleTimeString('en-US', { hour12: false }),
+            refundMethod,
+            totalRefund: lines.reduce((sum, line) => sum + line.amount, 0),
+            reason,
+            lines,
+            shiftId: currentShift?.id,
+            staffId: currentStaff?.id,
+        };
+        newReturn.documentNumber = takeDocumentNumber('return', newReturn.date, saleReturns.map(r => r.documentNumber));
+
+        let newProducts = postStockChanges(
+            products,
+            lines.map(line => ({ productId: line.productId, quantityChange: line.quantity })),
+            'return',
+            { referenceId: newReturn.id },
+        );
+        const damaged = lines.filter(line => line.disposition === 'damaged');
+        if (damaged.length > 0) {
+            newProducts = postStockChanges(
+                newProducts,
+                damaged.map(line => ({ productId: line.productId, quantityChange: -line.quantity })),
+                'adjustment',
+                { referenceId: newReturn.id, note: 'Damaged return written off' },
+            );
+        }
         setProducts(newProducts);
+        const previousLines = saleReturns.filter(r => r.saleId === saleId).flatMap(r => r.lines);
+        const returnAllocations = getReturnAllocations(sale, lines, previousLines);
+        if (returnAllocations.length > 0) setStockBatches(prev => applyBatchAllocations(prev, returnAllocations, 1));
+        setSaleReturns(prev => [...prev, newReturn]);
+
+        // A credit note is credited to the customer's balance like a payment.
+        if (refundMethod === 'credit_note' && sale.customerId) {
+            const openSales = getOpenCreditSales(sale.customerId, sales, customerPayments);
+            const creditNote: CustomerPayment = {
+                id: generateId(),
+                customerId: sale.customerId,
+                date: newReturn.date,
+                amount: newReturn.totalRefund,
+                notes: 'Credit note for returned items',
+                staffId: currentStaff?.id,
+                allocations: allocateOldestFirst(newReturn.totalRefund, openSales),
+                returnId: newReturn.id,
+                documentNumber: newReturn.documentNumber,
+            };
+            setCustomerPayments(prev => [...prev, creditNote]);
+        }
+        showToast('Return recorded.', 'success');
+        return true;
+    };
+
+    // --- Pricing Rules ---
+    const savePricingRule = (rule: PricingRule | Omit<PricingRule, 'id'>): boolean => {
+        if (!requirePermission('edit_prices')) return false;
+        const error = validatePricingRule(rule);
+        if (error) {
+            showToast(error, 'error');
+            return false;
+        }
+        if ('id' in rule) {
+            setPricingRules(prev => prev.map(r => r.id === rule.id ? rule : r));
+        } else {
+            setPricingRules(prev => [...prev, { ...rule, id: generateId() }]);
+        }
+        showToast('Promotion saved.', 'success');
+        return true;
+    };
 
-        // Remove sale
-        setSales(prev => prev.filter(s => s.id !== saleId));
+    const deletePricingRule = (ruleId: string) => {
+        if (!requirePermission('edit_prices')) return;
+        setPricingRules(prev => prev.filter(r => r.id !== ruleId));
     };
 
+    /** Prices the cart with the rules in force right now for the given customer's group. */
+    const priceCart = (lines: PricingLine[], customerId?: string): PricedCart => {
+        const customerGroup = customerId ? customers.find(c => c.id === customerId)?.group : undefined;
+        return runPricingRules(lines, products, pricingRules, { customerGroup, now: new Date() });
+    };
+
+    // --- Held Carts ---
+    const heldCarts = useMemo(
+        () => allHeldCarts.filter(c => c.registerId === registerId).sort((a, b) => a.heldAt.localeCompare(b.heldAt)),
+        [allHeldCarts, registerId],
+    );
+
+    const holdCart = (cart: HeldCartInput): boolean => {
+        const error = validateHeldCart(cart);
+        if (error) {
+            showToast(error, 'error');
+            return false;
+        }
+        const heldCart: HeldCart = { ...cart, name: cart.name.trim(), id: generateId(), registerId, heldAt: new Date().toISOString(), heldBy: currentStaff?.id };
+        setHeldCarts(prev => [...prev, heldCart]);
+        showToast(`Cart held as "${heldCart.name}".`, 'success');
+        return true;
+    };
+
+    /** Takes a held cart off the list and returns it so the till can load it as the active cart. */
+    const recallCart = (cartId: string): HeldCart | null => {
+        const cart = allHeldCarts.find(c => c.id === cartId);
+        if (!cart) {
+            showToast('That cart is no longer held.', 'warning');
+            return null;
+        }
+        setHeldCarts(prev => prev.filter(c => c.id !== cartId));
+        return cart;
+    };
+
+    const deleteHeldCart = (cartId: string) => setHeldCarts(prev => prev.filter(c => c.id !== cartId));
+
+    // Abandoned holds are dropped once they pass the expiry set in Settings.
+    const [heldCartTick, setHeldCartTick] = useState(0);
+    useEffect(() => {
+        if (!systemSettings.heldCartExpiryHours) return;
+        const timer = setInterval(() => setHeldCartTick(tick => tick + 1), HELD_CART_EXPIRY_CHECK_MS);
+        return () => clearInterval(timer);
+    }, [systemSettings.heldCartExpiryHours]);
+
+    useEffect(() => {
+        if (!isStorageReady) return;
+        const now = new Date();
+        if (allHeldCarts.some(c => isHeldCartExpired(c, systemSettings.heldCartExpiryHours, now))) {
+            setHeldCarts(prev => prev.filter(c => !isHeldCartExpired(c, systemSettings.heldCartExpiryHours, now)));
+        }
+    }, [heldCartTick, isStorageReady, allHeldCarts, systemSettings.heldCartExpiryHours]);
+
     const addSupplier = (supplier: Omit<Supplier, 'id'>) => setSuppliers(prev => [...prev, { ...supplier, id: generateId() }]);
-    const updateSupplier = (updatedSupplier: Supplier) => setSuppliers(prev => prev.map(s => s.id === updatedSupplier.id ? updatedSupplier : s));
-    const deleteSupplier = (supplierId: string) => setSuppliers(prev => prev.filter(s => s.id !== supplierId));
+    const updateSupplier = (updatedSupplier: Supplier) => {
+        if (!requirePermission('manage_purchases')) return;
+        setSuppliers(prev => prev.map(s => s.id === updatedSupplier.id ? updatedSupplier : s));
+    };
+    const deleteSupplier = (supplierId: string) => {
+        if (!requirePermission('manage_purchases')) return;
+        setSuppliers(prev => prev.filter(s => s.id !== supplierId));
+    };
+
+    // --- Supplier Payables ---
+    const getSupplierAccount = (supplierId: string) => {
+        const openPurchases = getOpenPurchases(supplierId, purchases, supplierPayments);
+        return {
+            balance: getSupplierBalance(supplierId, purchases, supplierPayments),
+            openPurchases,
+            aging: getAgingBuckets(openPurchases),
+        };
+    };
+
+    /**
+     * Records a payment to a supplier. Without explicit allocations it settles the oldest purchases first.
+     * A matching "Supplier Payment" expense is kept so cash-out reports still include it.
+     */
+    const addSupplierPayment = (payment: Omit<SupplierPayment, 'id' | 'allocations' | 'expenseId'>, allocations?: PaymentAllocation[]): boolean => {
+        if (!requirePermission('manage_purchases')) return false;
+        if (payment.amount <= 0) {
+            showToast('Payment amount must be greater than zero.', 'error');
+            return false;
+        }
+        const openPurchases = getOpenPurchases(payment.supplierId, purchases, supplierPayments);
+        if (allocations) {
+            const error = validateAllocations(payment.amount, allocations, openPurchases);
+            if (error) {
+                showToast(error, 'error');
+                return false;
+            }
+        }
+        const newExpense: Expense = {
+            id: generateId(),
+            category: SUPPLIER_PAYMENT_CATEGORY,
+            supplierId: payment.supplierId,
+            amount: payment.amount,
+            date: payment.date,
+            description: payment.note,
+            staffId: currentStaff?.id,
+        };
+        const newPayment: SupplierPayment = {
+            ...payment,
+            id: generateId(),
+            staffId: currentStaff?.id,
+            allocations: allocations ?? allocateOldestFirst(payment.amount, openPurchases),
+            expenseId: newExpense.id,
+        };
+        setSupplierPayments(prev => [...prev, newPayment]);
+        setExpenses(prev => [...prev, newExpense]);
+        return true;
+    };
+
+    // "Supplier Payment" expenses (recorded from the Suppliers screen) are mirrored in the payables ledger.
+    const isSupplierPaymentExpense = (expense: Omit<Expense, 'id'>): expense is Expense & { supplierId: string } =>
+        expense.category === SUPPLIER_PAYMENT_CATEGORY && !!expense.supplierId;
+
+    const addExpense = (expense: Omit<Expense, 'id'>) => {
+        const newExpense = { ...expense, id: generateId(), staffId: currentStaff?.id };
+        setExpenses(prev => [...prev, newExpense]);
+        if (isSupplierPaymentExpense(newExpense)) {
+            setSupplierPayments(prev => [...prev, { ...supplierPaymentFromExpense(newExpense, generateId(), purchases, prev), staffId: newExpense.staffId }]);
+        }
+    };
+
+    const updateExpense = (updatedExpense: Expense) => {
+        if (!requirePermission('manage_expenses')) return;
+        setExpenses(prev => prev.map(e => e.id === updatedExpense.id ? updatedExpense : e));
+        setSupplierPayments(prev => {
+            const linked = prev.find(p => p.expenseId === updatedExpense.id);
+            const others = prev.filter(p => p.expenseId !== updatedExpense.id);
+            if (!isSupplierPaymentExpense(updatedExpense)) return linked ? others : prev;
+            // The amount or supplier may have changed, so the payment is allocated afresh.
+            return [...others, supplierPaymentFromExpense(updatedExpense, linked?.id ?? generateId(), purchases, others)];
+        });
+    };
 
-    const addExpense = (expense: Omit<Expense, 'id'>) => setExpenses(prev => [...prev, { ...expense, id: generateId() }]);
-    const updateExpense = (updatedExpense: Expense) => setExpenses(prev => prev.map(e => e.id === updatedExpense.id ? updatedExpense : e));
-    const deleteExpense = (expenseId: string) => setExpenses(prev => prev.filter(e => e.id !== expenseId));
+    const deleteExpense = (expenseId: string) => {
+        if (!requirePermission('manage_expenses')) return;
+        setExpenses(prev => prev.filter(e => e.id !== expenseId));
+        setSupplierPayments(prev => prev.filter(p => p.expenseId !== expenseId));
+    };
 
     const addCustomer = (customer: Omit<Customer, 'id'>) => setCustomers(prev => [...prev, { ...customer, id: generateId() }]);
-    const updateCustomer = (updatedCustomer: Customer) => setCustomers(prev => prev.map(c => c.id === updatedCustomer.id ? updatedCustomer : c));
-    const deleteCustomer = (customerId: string) => setCustomers(prev => prev.filter(c => c.id !== customerId));
+    const updateCustomer = (updatedCustomer: Customer) => {
+        if (!requirePermission('manage_customers')) return;
+        // Raising a limit has the same effect as overriding it, so it needs the same permission.
+        const limitChanged = customers.find(c => c.id === updatedCustomer.id)?.creditLimit !== updatedCustomer.creditLimit;
+        if (limitChanged && !requirePermission('override_credit_limit')) return;
+        setCustomers(prev => prev.map(c => c.id === updatedCustomer.id ? updatedCustomer : c));
+    };
+    const deleteCustomer = (customerId: string) => {
+        if (!requirePermission('manage_customers')) return;
+        setCustomers(prev => prev.filter(c => c.id !== customerId));
+    };
     
-    const addCustomerPayment = (payment: Omit<CustomerPayment, 'id'>) => {
-        setCustomerPayments(prev => [...prev, { ...payment, id: generateId() }]);
+    // --- Customer Credit ---
+    const getCustomerAccount = (customerId: string) => {
+        const customer = customers.find(c => c.id === customerId);
+        const balance = getCustomerBalance(customerId, sales, customerPayments);
+        const openSales = getOpenCreditSales(customerId, sales, customerPayments);
+        return {
+            balance,
+            creditLimit: customer?.creditLimit,
+            availableCredit: customer?.creditLimit === undefined ? null : customer.creditLimit - balance,
+            openSales,
+            aging: getAgingBuckets(openSales),
+        };
+    };
+
+    const getSalesSummaryForPeriod = (from: string, to: string) => getSalesSummary(sales, saleReturns, from, to);
+
+    const getCustomerStatement = (customerId: string, from: string, to: string) =>
+        buildCustomerStatement(customerId, sales, customerPayments, from, to);
+
+    /** Records a customer payment. Without explicit allocations it settles the oldest open credit sales first. */
+    const addCustomerPayment = (payment: Omit<CustomerPayment, 'id' | 'allocations'>, allocations?: PaymentAllocation[]): boolean => {
+        if (payment.amount <= 0) {
+            showToast('Payment amount must be greater than zero.', 'error');
+            return false;
+        }
+        const openSales = getOpenCreditSales(payment.customerId, sales, customerPayments);
+        if (allocations) {
+            const error = validateAllocations(payment.amount, allocations, openSales);
+            if (error) {
+                showToast(error, 'error');
+                return false;
+            }
+        }
+        const newPayment: CustomerPayment = {
+            ...payment,
+            id: generateId(),
+            staffId: currentStaff?.id,
+            shiftId: currentShift?.id,
+            allocations: allocations ?? allocateOldestFirst(payment.amount, openSales),
+            documentNumber: takeDocumentNumber('payment', payment.date, customerPayments.map(p => p.documentNumber)),
+        };
+        setCustomerPayments(prev => [...prev, newPayment]);
+        return true;
     };
 
     const addCategory = (name: string): boolean => {
@@ -290,6 +1636,11 @@ export const DataProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
         setProducts(newProducts);
     
         setCategories(prev => prev.map(c => c === oldName ? trimmedNewName : c));
+        // The category's tax class follows it to the new name.
+        const { [oldName]: taxClassId, ...otherTaxClasses } = systemSettings.categoryTaxClasses ?? {};
+        if (taxClassId) {
+            setSystemSettings(prev => ({ ...prev, categoryTaxClasses: { ...otherTaxClasses, [trimmedNewName]: taxClassId } }));
+        }
         showToast('Category updated successfully!', 'success');
         return true;
     };
@@ -308,6 +1659,7 @@ export const DataProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     };
     
     const resetAllData = () => {
+        if (!requirePermission('reset_data')) return;
         if(window.confirm('This will delete all data and cannot be undone. Are you sure?')) {
             setProducts([]);
             setSales([]);
@@ -316,6 +1668,18 @@ export const DataProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
             setCustomers([]);
             setPurchases([]);
             setCustomerPayments([]);
+            setInventoryMovements([]);
+            setPurchaseOrders([]);
+            setSupplierPayments([]);
+            setSaleReturns([]);
+            setStaff([]);
+            setShifts([]);
+            setStockBatches([]);
+            setPricingRules([]);
+            setHeldCarts([]);
+            setStockTakes([]);
+            setStockCounts([]);
+            logout();
             setCompanyInfo({ name: 'Swift POS' });
             const defaultSettings = {
                 businessType: 'clothing',
@@ -331,29 +1695,78 @@ export const DataProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
             } as SystemSettings;
             setSystemSettings(defaultSettings);
             setCategories(DEFAULT_CATEGORIES[defaultSettings.businessType]);
+            setDocumentCounters({});
             showToast('All data has been reset.', 'success');
         }
     };
     
-    const importData = (data: any) => {
-        if(window.confirm('This will replace all current data. Are you sure?')) {
-            try {
-                if (data.products) setProducts(data.products);
-                if (data.sales) setSales(data.sales);
-                if (data.suppliers) setSuppliers(data.suppliers);
-                if (data.expenses) setExpenses(data.expenses);
-                if (data.customers) setCustomers(data.customers);
-                if (data.purchases) setPurchases(data.purchases);
-                if (data.customerPayments) setCustomerPayments(data.customerPayments);
-                if (data.companyInfo) setCompanyInfo(data.companyInfo);
-                if (data.systemSettings) setSystemSettings(data.systemSettings);
-                if (data.categories) setCategories(data.categories);
-                showToast('Data imported successfully!', 'success');
-            } catch (e) {
-                showToast('Invalid data file.', 'error');
-                console.error("Import error:", e);
-            }
+    const currentSnapshot = (): DataSnapshot => ({
+        products, sales: allSales, suppliers, expenses, customers, companyInfo, systemSettings, categories, documentCounters,
+        purchases, customerPayments, inventoryMovements, purchaseOrders, supplierPayments, saleReturns, staff, shifts, stockBatches, pricingRules, heldCarts: allHeldCarts, stockTakes, stockCounts,
+    });
+
+    // Older backups are migrated to the current schema before they are checked.
+    const readBackup = (data: any): { backup: BackupFile | null; issues: CollectionIssues[] } => {
+        try {
+            const backup = upgradeData(data);
+            return { backup, issues: validateBackup(backup) };
+        } catch (e: any) {
+            return { backup: null, issues: [{ collection: 'file', errors: [e?.message || 'Invalid data file.'], moreErrors: 0 }] };
+        }
+    };
+
+    /** Validates a backup and previews the import without changing anything. */
+    const prepareImport = (data: any, mode: ImportMode): PreparedImport => {
+        const { backup, issues } = readBackup(data);
+        return { issues, preview: backup ? previewImport(currentSnapshot(), backup, mode) : null };
+    };
+
+    /**
+     * Imports a backup, replacing each collection it contains or, in 'merge' mode, upserting its
+     * records by id. Nothing is written unless the whole file passes validation.
+     */
+    const importData = (data: any, mode: ImportMode = 'replace'): boolean => {
+        if (!requirePermission('import_data')) return false;
+        const { backup, issues } = readBackup(data);
+        if (!backup || issues.length > 0) {
+            const first = issues[0];
+            showToast(`Import failed: ${first.collection} - ${first.errors[0]}`, 'error');
+            console.error('Import validation errors:', issues);
+            return false;
+        }
+
+        const apply = <T extends { id: string }>(setter: Dispatch<SetStateAction<T[]>>, incoming?: T[]) => {
+            if (incoming) setter(prev => mode === 'merge' ? mergeById(prev, incoming) : incoming);
+        };
+        apply(setProducts, backup.products);
+        apply(setSales, backup.sales);
+        apply(setSuppliers, backup.suppliers);
+        apply(setExpenses, backup.expenses);
+        apply(setCustomers, backup.customers);
+        apply(setPurchases, backup.purchases);
+        apply(setCustomerPayments, backup.customerPayments);
+        apply(setInventoryMovements, backup.inventoryMovements);
+        apply(setPurchaseOrders, backup.purchaseOrders);
+        apply(setSupplierPayments, backup.supplierPayments);
+        apply(setSaleReturns, backup.saleReturns);
+        apply(setStaff, backup.staff);
+        apply(setShifts, backup.shifts);
+        apply(setStockBatches, backup.stockBatches);
+        apply(setPricingRules, backup.pricingRules);
+        apply(setHeldCarts, backup.heldCarts);
+        apply(setStockTakes, backup.stockTakes);
+        apply(setStockCounts, backup.stockCounts);
+        if (mode === 'merge') {
+            // Settings and document counters belong to this device; only new categories are added.
+            if (backup.categories) setCategories(prev => [...prev, ...backup.categories!.filter(c => !prev.includes(c))]);
+        } else {
+            if (backup.companyInfo) setCompanyInfo(backup.companyInfo);
+            if (backup.systemSettings) setSystemSettings(backup.systemSettings);
+            if (backup.categories) setCategories(backup.categories);
+            if (backup.documentCounters) setDocumentCounters(backup.documentCounters);
         }
+        showToast(mode === 'merge' ? 'Data merged successfully!' : 'Data imported successfully!', 'success');
+        return true;
     };
 
     const selectDirectory = async (): Promise<string | null> => {
@@ -392,11 +1805,18 @@ export const DataProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
         showToast('Backup file is downloading.', 'info');
     };
 
-    const exportBackup = async () => {
-        const data = { products, sales, suppliers, expenses, customers, companyInfo, systemSettings, categories, purchases, customerPayments };
-        const json = JSON.stringify(data, null, 2);
+    // The sync password stays on this device rather than in backup files.
+    const buildBackup = (): Promise<BackupFile> =>
+        sealBackup(createBackup({ ...currentSnapshot(), systemSettings: { ...systemSettings, syncPassword: undefined } }));
+
+    const autoBackup = systemSettings.autoBackup ?? DEFAULT_AUTO_BACKUP;
+
+    /** Saves a backup to the chosen folder or downloads it. With a passphrase the file is encrypted. */
+    const exportBackup = async (passphrase?: string) => {
+        const data = await buildBackup();
+        const json = JSON.stringify(passphrase ? await encryptBackup(JSON.stringify(data), passphrase) : data, null, 2);
         const blob = new Blob([json], { type: 'application/json' });
-        const fileName = `swift-pos-backup-${new Date().toISOString().split('T')[0]}.json`;
+        const fileName = backupFileName();
 
         if (directoryHandle) {
             try {
@@ -411,12 +1831,9 @@ export const DataProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
                         return;
                     }
                 }
-                
-                // Now that we have permission, create or overwrite the backup file.
-                const fileHandle = await directoryHandle.getFileHandle(fileName, { create: true });
-                const writable = await fileHandle.createWritable();
-                await writable.write(blob);
-                await writable.close();
+
+                await writeBackupFile(directoryHandle, fileName, json);
+                await pruneBackupFiles(directoryHandle, autoBackup.keep);
                 showToast(`Backup saved to your selected folder: ${fileName}`, 'success');
 
             } catch (err) {
@@ -430,30 +1847,233 @@ export const DataProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
         }
     };
 
+    // --- Automatic Backups ---
+    const [lastAutoBackup, setLastAutoBackup] = useState<LastAutoBackup | undefined>();
+    const [lastAutoBackupLoaded, setLastAutoBackupLoaded] = useState(false);
+    const [backupTick, setBackupTick] = useState(0);
+    const backupInFlight = useRef(false);
+
+    useEffect(() => {
+        get<LastAutoBackup>('lastAutoBackup')
+            .then(setLastAutoBackup)
+            .finally(() => setLastAutoBackupLoaded(true));
+    }, []);
+
+    /** Writes a backup without asking anything: to the folder if it is still writable, else to a snapshot. */
+    const runAutoBackup = async (trigger: BackupTrigger) => {
+        if (backupInFlight.current) return;
+        backupInFlight.current = true;
+        const done: LastAutoBackup = { at: new Date().toISOString(), salesCount: allSales.length };
+        try {
+            const data = await buildBackup();
+            if (directoryHandle && await canWriteToFolder(directoryHandle)) {
+                await writeBackupFile(directoryHandle, backupFileName(), JSON.stringify(data, null, 2));
+                await pruneBackupFiles(directoryHandle, autoBackup.keep);
+            } else {
+                await saveBackupSnapshot({ id: generateId(), createdAt: done.at, trigger, backup: data }, autoBackup.keep);
+            }
+        } catch (err) {
+            console.error('Automatic backup failed:', err);
+            showToast('Automatic backup failed. See the console for details.', 'error');
+        } finally {
+            // Recorded even after a failure, so a broken folder does not retry on every sale.
+            await set('lastAutoBackup', done);
+            setLastAutoBackup(done);
+            backupInFlight.current = false;
+        }
+    };
+
+    // The hourly schedule is checked by a timer; sales and day close are checked as they happen.
+    useEffect(() => {
+        if (autoBackup.schedule !== 'hourly') return;
+        const timer = setInterval(() => setBackupTick(tick => tick + 1), 60 * 1000);
+        return () => clearInterval(timer);
+    }, [autoBackup.schedule]);
+
+    useEffect(() => {
+        if (!isStorageReady || !lastAutoBackupLoaded) return;
+        if (isBackupDue(autoBackup, lastAutoBackup, { salesCount: allSales.length, shifts, now: new Date() })) {
+            runAutoBackup(autoBackup.schedule as BackupTrigger);
+        }
+    }, [backupTick, isStorageReady, lastAutoBackupLoaded, allSales.length, shifts, autoBackup.schedule]);
+
+    /** Backups available to restore, newest first, with their checksum checked. */
+    const listBackups = async (): Promise<BackupEntry[]> => {
+        const entries: BackupEntry[] = [];
+        (await listBackupSnapshots()).forEach(snapshot => entries.push({
+            id: snapshot.id,
+            source: 'snapshot',
+            name: new Date(snapshot.createdAt).toLocaleString(),
+            createdAt: snapshot.createdAt,
+            trigger: snapshot.trigger,
+            backup: snapshot.backup,
+            checksumStatus: 'missing',
+        }));
+        if (directoryHandle && (await directoryHandle.queryPermission({ mode: 'read' })) === 'granted') {
+            for (const { name, file } of await listBackupFiles(directoryHandle)) {
+                let backup: BackupFile | null = null;
+                let encrypted = false;
+                try {
+                    const parsed = JSON.parse(await file.text());
+                    encrypted = isEncryptedBackup(parsed);
+                    if (!encrypted) backup = parsed;
+                } catch (e) {
+                    console.warn(`Skipping unreadable backup file "${name}".`, e);
+                }
+                entries.push({ id: name, source: 'folder', name, createdAt: backup?.exportedAt || new Date(file.lastModified).toISOString(), backup, encrypted, checksumStatus: 'missing' });
+            }
+        }
+        for (const entry of entries) {
+            if (entry.backup) entry.checksumStatus = await verifyBackup(entry.backup);
+        }
+        return entries.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+    };
+
+    /** Restores a backup after checking it has not been altered or damaged. */
+    const restoreBackup = async (backup: BackupFile): Promise<boolean> => {
+        if (await verifyBackup(backup) === 'invalid') {
+            showToast('This backup is damaged or was modified (checksum mismatch) and cannot be restored.', 'error');
+            return false;
+        }
+        if (!window.confirm('This will replace all current data with the selected backup. Are you sure?')) return false;
+        return importData(backup);
+    };
+
+    // --- Remote Sync ---
+    const isSyncEnabled = systemSettings.storagePreference === 'online' && !!systemSettings.storagePath.trim();
+    const [isSyncing, setIsSyncing] = useState(false);
+    const [syncStatus, setSyncStatus] = useState<SyncStatus>({});
+    const [syncTick, setSyncTick] = useState(0);
+    const syncInFlight = useRef(false);
+
+    // Synced tills would all number their documents as the default register, so one without its own
+    // id gets one from its device id. An open shift keeps the old id until it is closed, and held carts
+    // until they are recalled: they are listed by register id, so they would vanish from this till.
+    useEffect(() => {
+        if (!isStorageReady || !isSyncEnabled || systemSettings.registerId || currentShift || heldCarts.length > 0) return;
+        getDeviceId().then(deviceId => {
+            const newRegisterId = deviceRegisterId(deviceId);
+            setSystemSettings(prev => prev.registerId ? prev : { ...prev, registerId: newRegisterId });
+            showToast(`This device now numbers its documents as register ${newRegisterId}.`, 'info');
+        });
+    }, [isStorageReady, isSyncEnabled, systemSettings.registerId, currentShift, heldCarts.length]);
+
+    /** Applies records pulled from another device through the usual setters, so they are saved like any edit. */
+    const applyRemoteChanges = (changes: RecordChange[]) => {
+        if (changes.length === 0) return;
+        markRemoteChanges(changes);
+        const forStore = (store: SyncedStore) => changes.filter(c => c.store === store);
+        const knownMovementIds = new Set(inventoryMovements.map(m => m.id));
+        const newMovements = forStore('inventoryMovements')
+            .filter(c => !c.deleted && !knownMovementIds.has(c.recordId))
+            .map(c => c.value as InventoryMovement);
+
+        setProducts(prev => mergeRemoteProducts(prev, forStore('products'), newMovements));
+        setSales(prev => mergeRemoteChanges(prev, forStore('sales')));
+        setSuppliers(prev => mergeRemoteChanges(prev, forStore('suppliers')));
+        setExpenses(prev => mergeRemoteChanges(prev, forStore('expenses')));
+        setCustomers(prev => mergeRemoteChanges(prev, forStore('customers')));
+        setPurchases(prev => mergeRemoteChanges(prev, forStore('purchases')));
+        setCustomerPayments(prev => mergeRemoteChanges(prev, forStore('customerPayments')));
+        setInventoryMovements(prev => mergeRemoteChanges(prev, forStore('inventoryMovements')));
+        setPurchaseOrders(prev => mergeRemoteChanges(prev, forStore('purchaseOrders')));
+        setSupplierPayments(prev => mergeRemoteChanges(prev, forStore('supplierPayments')));
+        setSaleReturns(prev => mergeRemoteChanges(prev, forStore('saleReturns')));
+        setStaff(prev => mergeRemoteChanges(prev, forStore('staff')));
+        setShifts(prev => mergeRemoteChanges(prev, forStore('shifts')));
+        setStockBatches(prev => mergeRemoteChanges(prev, forStore('stockBatches')));
+        setPricingRules(prev => mergeRemoteChanges(prev, forStore('pricingRules')));
+        setHeldCarts(prev => mergeRemoteChanges(prev, forStore('heldCarts')));
+        setStockTakes(prev => mergeRemoteChanges(prev, forStore('stockTakes')));
+        setStockCounts(prev => mergeRemoteChanges(prev, forStore('stockCounts')));
+        forStore('meta').forEach(change => {
+            if (change.recordId === 'companyInfo') setCompanyInfo(change.value as CompanyInfo);
+            if (change.recordId === 'categories') setCategories(change.value as Category[]);
+        });
+    };
+
+    const syncNow = async (quiet = false): Promise<boolean> => {
+        if (!isSyncEnabled) {
+            if (!quiet) showToast('Enter the URL of the online folder in Settings first.', 'warning');
+            return false;
+        }
+        if (syncInFlight.current) return false;
+        syncInFlight.current = true;
+        setIsSyncing(true);
+        try {
+            const adapter = createWebDavAdapter({
+                url: systemSettings.storagePath.trim(),
+                username: systemSettings.syncUsername,
+                password: systemSettings.syncPassword,
+            });
+            const result = await syncWithRemote(adapter);
+            applyRemoteChanges(result.pulled);
+            setSyncStatus({ lastSyncAt: new Date().toISOString() });
+            if (result.conflicts.length > 0) {
+                showToast(`${result.conflicts.length} record(s) were also changed on another device. The latest change was kept.`, 'warning');
+            } else if (!quiet) {
+                showToast(`Sync complete: ${result.pushed} change(s) sent, ${result.pulled.length} received.`, 'success');
+            }
+            return true;
+        } catch (e: any) {
+            console.error('Sync error:', e);
+            const message = e?.message || 'Sync failed.';
+            setSyncStatus(prev => ({ ...prev, error: message }));
+            if (!quiet) showToast(message, 'error');
+            return false;
+        } finally {
+            syncInFlight.current = false;
+            setIsSyncing(false);
+        }
+    };
+
+    // Background sync while the online preference is on. The tick re-runs the effect below,
+    // so each sync sees the latest state rather than the one captured by the timer.
+    useEffect(() => {
+        if (!isStorageReady || !isSyncEnabled) return;
+        const timer = setInterval(() => setSyncTick(tick => tick + 1), SYNC_INTERVAL_MS);
+        return () => clearInterval(timer);
+    }, [isStorageReady, isSyncEnabled]);
+
+    useEffect(() => {
+        if (isStorageReady && isSyncEnabled) syncNow(true);
+    }, [syncTick, isStorageReady, isSyncEnabled, systemSettings.storagePath]);
+
     const value = {
-        products, sales, suppliers, expenses, customers, companyInfo, systemSettings, categories, purchases, customerPayments,
+        products, sales, allSales, voidedSales, suppliers, expenses, customers, companyInfo, systemSettings, categories, purchases, customerPayments,
+        inventoryMovements, purchaseOrders, supplierPayments, saleReturns, stockDiscrepancies, stockBatches, expiryAlerts,
         isInIframe,
         isFileSystemApiSupported,
-        addProduct, updateProduct, deleteProduct,
-        addSale, deleteSale,
-        addSupplier, updateSupplier, deleteSupplier,
+        staff, currentStaff, can, login, logout, authorizeWithPin, addStaff, updateStaff, changeStaffPin,
+        shifts, currentShift, openShift, recordCashMovement, closeShift, getShiftSummary,
+        addProduct, updateProduct, deleteProduct, adjustStock, reconcileStock, importProducts, saveProductVariants, assignBarcodes, receiveStockBatch, writeOffBatch,
+        addSale, voidSale, deleteSale, reviseSale, addSaleReturn, getSalesSummary: getSalesSummaryForPeriod,
+        createPurchaseOrder, updatePurchaseOrder, placePurchaseOrder, receivePurchaseOrder, cancelPurchaseOrder, createDraftOrdersFromSuggestions,
+        pricingRules, savePricingRule, deletePricingRule, priceCart,
+        heldCarts, holdCart, recallCart, deleteHeldCart,
+        stockTakes, stockCounts, startStockTake, addStockCount, deleteStockCount, postStockTake, cancelStockTake,
+        addSupplier, updateSupplier, deleteSupplier, addSupplierPayment, getSupplierAccount,
         addExpense, updateExpense, deleteExpense,
         addCustomer, updateCustomer, deleteCustomer,
-        addCustomerPayment,
-        saveCompanyInfo: setCompanyInfo,
-        saveSystemSettings: setSystemSettings,
+        addCustomerPayment, getCustomerAccount, getCustomerStatement,
+        saveCompanyInfo,
+        saveSystemSettings,
         addCategory, deleteCategory, updateCategory,
         showToast,
         resetAllData,
         importData,
+        prepareImport,
         directoryHandle,
         selectDirectory,
         exportBackup,
+        listBackups,
+        restoreBackup,
+        isSyncing, syncStatus, syncNow,
     };
 
     return (
         <DataContext.Provider value={value}>
-            {children}
+            {isStorageReady ? (requiresLogin ? <StaffLogin /> : children) : null}
             <ToastContainer toasts={toasts} removeToast={removeToast} />
         </DataContext.Provider>
     );
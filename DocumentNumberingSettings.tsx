@@ -0,0 +1,75 @@
+import React from 'react';
+import { SystemSettings } from '../../types';
+import { useLanguage } from '../../contexts/LanguageContext';
+import { DEFAULT_REGISTER_ID } from '../../utils/shifts';
+import { DOCUMENT_TYPES, DocumentType, NumberingFormat, formatDocumentNumber, getFiscalYear, getNumberingFormat } from '../../utils/documentNumbers';
+
+type NumberingFields = Pick<SystemSettings, 'documentNumbering' | 'fiscalYearStartMonth' | 'registerId'>;
+
+const DOCUMENT_LABELS: Record<DocumentType, string> = {
+    sale: 'Sales',
+    return: 'Returns',
+    purchase_order: 'Purchase orders',
+    payment: 'Customer payments',
+};
+
+const MONTHS = ['January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December'];
+
+/** Numbering section of the system settings form: prefix, padding, register and yearly reset per document type. */
+const DocumentNumberingSettings: React.FC<{ value: NumberingFields; onChange: (value: NumberingFields) => void }> = ({ value, onChange }) => {
+    const { t } = useLanguage();
+    const settings = value as SystemSettings;
+    const year = String(getFiscalYear(new Date().toISOString().slice(0, 10), value.fiscalYearStartMonth));
+
+    const updateFormat = (type: DocumentType, changes: Partial<NumberingFormat>) =>
+        onChange({ ...value, documentNumbering: { ...value.documentNumbering, [type]: { ...value.documentNumbering?.[type], ...changes } } });
+
+    return (
+        <div className="space-y-3 md:col-span-2 border-t pt-4">
+            <div className="flex flex-wrap items-center gap-4 text-sm">
+                <span className="font-medium">{t('Document numbering')}</span>
+                <label className="flex items-center gap-2">
+                    <span>{t('Register id')}</span>
+                    <input type="text" value={value.registerId ?? ''} placeholder={DEFAULT_REGISTER_ID} onChange={(e) => onChange({ ...value, registerId: e.target.value.trim().toUpperCase() || undefined })} className="w-20 p-1 border rounded" />
+                </label>
+                <label className="flex items-center gap-2">
+                    <span>{t('Fiscal year starts in')}</span>
+                    <select value={value.fiscalYearStartMonth ?? 1} onChange={(e) => onChange({ ...value, fiscalYearStartMonth: Number(e.target.value) })} className="p-1 border rounded">
+                        {MONTHS.map((month, i) => <option key={month} value={i + 1}>{t(month)}</option>)}
+                    </select>
+                </label>
+            </div>
+            <table className="min-w-full text-sm">
+                <thead>
+                    <tr className="text-left border-b">
+                        <th className="py-1">{t('Document')}</th>
+                        <th className="py-1">{t('Prefix')}</th>
+                        <th className="py-1">{t('Digits')}</th>
+                        <th className="py-1">{t('Per register')}</th>
+                        <th className="py-1">{t('Yearly reset')}</th>
+                        <th className="py-1">{t('Example')}</th>
+                    </tr>
+                </thead>
+                <tbody>
+                    {DOCUMENT_TYPES.map(type => {
+                        const format = getNumberingFormat(settings, type);
+                        const example = formatDocumentNumber(format, format.perRegister ? (value.registerId || DEFAULT_REGISTER_ID) : '', format.yearlyReset ? year : '', 123);
+                        return (
+                            <tr key={type} className="border-b">
+                                <td className="py-1">{t(DOCUMENT_LABELS[type])}</td>
+                                <td className="py-1 pr-2"><input type="text" value={format.prefix} onChange={(e) => updateFormat(type, { prefix: e.target.value.toUpperCase() })} className="w-20 p-1 border rounded" /></td>
+                                <td className="py-1 pr-2"><input type="number" min="1" max="12" value={format.padding} onChange={(e) => updateFormat(type, { padding: Number(e.target.value) })} className="w-16 p-1 border rounded" /></td>
+                                <td className="py-1"><input type="checkbox" checked={format.perRegister} onChange={(e) => updateFormat(type, { perRegister: e.target.checked })} /></td>
+                                <td className="py-1"><input type="checkbox" checked={format.yearlyReset} onChange={(e) => updateFormat(type, { yearlyReset: e.target.checked })} /></td>
+                                <td className="py-1 font-mono text-gray-500">{example}</td>
+                            </tr>
+                        );
+                    })}
+                </tbody>
+            </table>
+            <p className="text-xs text-gray-500">{t('Numbers are given out when a document is saved and are never reused. With more than one till, give each its own register id and keep per-register numbering on.')}</p>
+        </div>
+    );
+};
+
+export default DocumentNumberingSettings;
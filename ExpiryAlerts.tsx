@@ -0,0 +1,37 @@
+import React from 'react';
+import { useData } from '../../contexts/DataContext';
+import { useLanguage } from '../../contexts/LanguageContext';
+
+const MAX_LISTED_ALERTS = 5;
+
+/** Dashboard card for expired and near-expiry lots; renders nothing when there are none. */
+const ExpiryAlerts: React.FC = () => {
+    const { expiryAlerts, products } = useData();
+    const { t } = useLanguage();
+    if (expiryAlerts.length === 0) return null;
+
+    const expiredCount = expiryAlerts.filter(a => a.status === 'expired').length;
+    const productName = (productId: string) => products.find(p => p.id === productId)?.name ?? t('Deleted product');
+
+    return (
+        <div className="bg-white rounded-lg p-6 shadow-md border-l-4 border-red-500">
+            <h3 className="text-lg font-semibold mb-2">{t('Expiry Alerts')}</h3>
+            <p className="text-sm text-gray-600 mb-3">
+                {expiredCount > 0 && <span className="text-red-700 font-semibold">{expiredCount} {t('expired lot(s) still in stock')}. </span>}
+                {expiryAlerts.length - expiredCount > 0 && <span>{expiryAlerts.length - expiredCount} {t('lot(s) expiring soon')}.</span>}
+            </p>
+            <ul className="text-sm space-y-1">
+                {expiryAlerts.slice(0, MAX_LISTED_ALERTS).map(({ batch, status, daysLeft }) => (
+                    <li key={batch.id} className="flex justify-between">
+                        <span>{productName(batch.productId)} · {t('Lot')} {batch.lotNumber} ({batch.quantity})</span>
+                        <span className={status === 'expired' ? 'text-red-700 font-semibold' : 'text-yellow-700'}>
+                            {status === 'expired' ? t('Expired') : `${daysLeft} ${t('days')}`}
+                        </span>
+                    </li>
+                ))}
+            </ul>
+        </div>
+    );
+};
+
+export default ExpiryAlerts;
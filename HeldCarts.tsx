@@ -0,0 +1,85 @@
+import React, { useEffect, useState } from 'react';
+import { useData } from '../../contexts/DataContext';
+import { useLanguage } from '../../contexts/LanguageContext';
+import { HeldCart, HeldCartInput, getHeldCartAgeMinutes, getHeldCartItemCount, getHeldCartTotal } from '../../utils/heldCarts';
+
+const formatAge = (minutes: number, t: (key: string) => string): string => {
+    if (minutes < 1) return t('just now');
+    if (minutes < 60) return `${minutes} ${t('min ago')}`;
+    return `${Math.floor(minutes / 60)} ${t('h')} ${minutes % 60} ${t('min ago')}`;
+};
+
+/**
+ * Hold button and held-carts list for the sale screen. `cart` is the active cart without a name;
+ * the till clears it in `onHeld` and loads a recalled one in `onRecall`.
+ */
+const HeldCarts: React.FC<{
+    cart: Omit<HeldCartInput, 'name'>;
+    onHeld: () => void;
+    onRecall: (cart: HeldCart) => void;
+}> = ({ cart, onHeld, onRecall }) => {
+    const { heldCarts, holdCart, recallCart, deleteHeldCart, customers, systemSettings } = useData();
+    const { t } = useLanguage();
+    const [name, setName] = useState('');
+    const [now, setNow] = useState(() => new Date());
+
+    // Keeps the "held x min ago" lines current.
+    useEffect(() => {
+        const timer = setInterval(() => setNow(new Date()), 60 * 1000);
+        return () => clearInterval(timer);
+    }, []);
+
+    const customerName = cart.customerId ? customers.find(c => c.id === cart.customerId)?.name : undefined;
+    const formatAmount = (amount: number) => `${amount.toLocaleString()} ${systemSettings.currency}`;
+
+    const handleHold = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (holdCart({ ...cart, name: name || customerName || '' })) {
+            setName('');
+            onHeld();
+        }
+    };
+
+    const handleRecall = (held: HeldCart) => {
+        // The active cart is put aside rather than lost.
+        if (cart.items.length > 0) {
+            if (!window.confirm(t('The current cart will be held so this one can be recalled. Continue?'))) return;
+            const fallbackName = customerName || `${t('Cart')} ${new Date().toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`;
+            if (!holdCart({ ...cart, name: name || fallbackName })) return;
+            setName('');
+        }
+        const recalled = recallCart(held.id);
+        if (recalled) onRecall(recalled);
+    };
+
+    return (
+        <div className="space-y-3">
+            <form onSubmit={handleHold} className="flex gap-2">
+                <input type="text" value={name} onChange={(e) => setName(e.target.value)} placeholder={customerName || t('Customer name or note')} className="flex-grow p-2 border rounded-lg text-sm" />
+                <button type="submit" disabled={cart.items.length === 0} className="bg-yellow-500 hover:bg-yellow-600 text-white font-semibold py-2 px-4 rounded-lg disabled:opacity-50">{t('Hold')}</button>
+            </form>
+
+            {heldCarts.length > 0 && (
+                <div className="space-y-2 max-h-64 overflow-y-auto">
+                    <p className="text-sm font-medium">{t('Held carts')} ({heldCarts.length})</p>
+                    {heldCarts.map(held => (
+                        <div key={held.id} className="flex justify-between items-center p-2 bg-gray-50 rounded-lg text-sm">
+                            <div>
+                                <p className="font-medium">{held.name}</p>
+                                <p className="text-gray-500">
+                                    {getHeldCartItemCount(held)} {t('items')} · {formatAmount(getHeldCartTotal(held))} · {formatAge(getHeldCartAgeMinutes(held, now), t)}
+                                </p>
+                            </div>
+                            <div className="flex gap-2">
+                                <button type="button" onClick={() => handleRecall(held)} className="text-indigo-600">{t('Recall')}</button>
+                                <button type="button" onClick={() => window.confirm(t('Discard this held cart?')) && deleteHeldCart(held.id)} className="text-red-600">{t('Discard')}</button>
+                            </div>
+                        </div>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default HeldCarts;
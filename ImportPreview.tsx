@@ -0,0 +1,92 @@
+import React, { useMemo, useState } from 'react';
+import { useData } from '../../contexts/DataContext';
+import { useLanguage } from '../../contexts/LanguageContext';
+import { ImportMode } from '../../utils/backupImport';
+
+/** Dry run of a backup import: validation errors, or what would be added, changed and removed. */
+const ImportPreview: React.FC<{ data: any; onDone: () => void }> = ({ data, onDone }) => {
+    const { prepareImport, importData } = useData();
+    const { t } = useLanguage();
+    const [mode, setMode] = useState<ImportMode>('replace');
+
+    // Diffing every record is not free, so only redo it when the file or mode changes.
+    const { issues, preview } = useMemo(() => prepareImport(data, mode), [data, mode]);
+    const canImport = issues.length === 0 && !!preview;
+
+    const handleImport = () => {
+        if (importData(data, mode)) onDone();
+    };
+
+    return (
+        <div className="space-y-4">
+            <div className="flex items-center space-x-6">
+                <label className="flex items-center space-x-2 cursor-pointer">
+                    <input type="radio" name="importMode" checked={mode === 'replace'} onChange={() => setMode('replace')} />
+                    <span>{t('Replace')}</span>
+                </label>
+                <label className="flex items-center space-x-2 cursor-pointer">
+                    <input type="radio" name="importMode" checked={mode === 'merge'} onChange={() => setMode('merge')} />
+                    <span>{t('Merge (add and update by id)')}</span>
+                </label>
+            </div>
+
+            {issues.length > 0 && (
+                <div className="bg-red-50 border border-red-200 rounded-lg p-3 text-sm space-y-2">
+                    <p className="font-semibold text-red-800">{t('This file cannot be imported:')}</p>
+                    {issues.map(issue => (
+                        <div key={issue.collection}>
+                            <p className="font-medium">{t(issue.collection)}</p>
+                            <ul className="list-disc list-inside text-red-700">
+                                {issue.errors.map((error, i) => <li key={i}>{error}</li>)}
+                                {issue.moreErrors > 0 && <li>{t('and')} {issue.moreErrors} {t('more')}</li>}
+                            </ul>
+                        </div>
+                    ))}
+                </div>
+            )}
+
+            {canImport && (
+                <>
+                    <table className="min-w-full text-sm">
+                        <thead>
+                            <tr className="border-b text-left">
+                                <th className="py-1">{t('Collection')}</th>
+                                <th className="py-1 text-right">{t('Added')}</th>
+                                <th className="py-1 text-right">{t('Changed')}</th>
+                                <th className="py-1 text-right">{t('Removed')}</th>
+                                <th className="py-1 text-right">{t('Unchanged')}</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {preview!.collections.map(c => (
+                                <tr key={c.collection} className="border-b">
+                                    <td className="py-1">{t(c.collection)}</td>
+                                    <td className="py-1 text-right text-green-700">{c.added}</td>
+                                    <td className="py-1 text-right text-blue-700">{c.changed}</td>
+                                    <td className={`py-1 text-right ${c.removed > 0 ? 'text-red-700 font-semibold' : ''}`}>{c.removed}</td>
+                                    <td className="py-1 text-right text-gray-500">{c.unchanged}</td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                    {preview!.settingsReplaced && (
+                        <p className="text-xs text-yellow-800 bg-yellow-100 p-2 rounded-md">{t('Company details and system settings will also be replaced.')}</p>
+                    )}
+                </>
+            )}
+
+            <div className="flex justify-end gap-2">
+                <button onClick={onDone} className="bg-gray-200 hover:bg-gray-300 text-gray-800 font-semibold py-2 px-4 rounded-lg">{t('Cancel')}</button>
+                <button
+                    onClick={handleImport}
+                    disabled={!canImport}
+                    className="bg-blue-600 hover:bg-blue-700 text-white font-semibold py-2 px-4 rounded-lg disabled:bg-gray-300 disabled:cursor-not-allowed"
+                >
+                    {mode === 'merge' ? t('Merge Data') : t('Replace Data')}
+                </button>
+            </div>
+        </div>
+    );
+};
+
+export default ImportPreview;
@@ -0,0 +1,120 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { useData } from '../../contexts/DataContext';
+import { useLanguage } from '../../contexts/LanguageContext';
+import Modal from '../shared/Modal';
+import BarcodeSvg from './BarcodeSvg';
+import {
+    DEFAULT_LABEL_LAYOUT_ID, LABEL_FIELDS, LABEL_LAYOUTS, LabelField, LabelRequest,
+    buildLabelQueue, getLabelLayout, labelPosition, labelsPerPage, paginateLabels,
+} from '../../utils/labels';
+
+const FIELD_LABELS: Record<LabelField, string> = {
+    name: 'Name',
+    variant: 'Size / colour',
+    price: 'Price',
+    barcode: 'Barcode',
+};
+
+/**
+ * Prints shelf and price labels for the given products, e.g. those ticked in the product list or
+ * the lines of a goods receipt. Each label is drawn at its real size, so the browser has to print
+ * at 100% scale with no margins.
+ */
+const LabelPrintDialog: React.FC<{ isOpen: boolean; onClose: () => void; requests: LabelRequest[] }> = ({ isOpen, onClose, requests }) => {
+    const { products, systemSettings, assignBarcodes } = useData();
+    const { t } = useLanguage();
+    const [layoutId, setLayoutId] = useState(DEFAULT_LABEL_LAYOUT_ID);
+    const [fields, setFields] = useState<LabelField[]>(LABEL_FIELDS);
+    const [copies, setCopies] = useState<LabelRequest[]>(requests);
+    const [skip, setSkip] = useState(0);
+
+    // Start from the caller's list each time the dialog opens; edits to the copies stay until then.
+    useEffect(() => {
+        if (isOpen) setCopies(requests);
+    }, [isOpen]);
+
+    const layout = getLabelLayout(layoutId);
+    const labels = useMemo(() => buildLabelQueue(copies, products), [copies, products]);
+    const pages = useMemo(() => paginateLabels(labels, layout, skip), [labels, layout, skip]);
+    const missingBarcodes = [...new Set(labels.filter(l => !l.barcode).map(l => l.productId))];
+
+    const setProductCopies = (productId: string, count: number) =>
+        setCopies(prev => prev.map(r => r.productId === productId ? { ...r, copies: Math.max(0, count) } : r));
+    const toggleField = (field: LabelField) =>
+        setFields(prev => prev.includes(field) ? prev.filter(f => f !== field) : [...prev, field]);
+    const show = (field: LabelField) => fields.includes(field);
+    const productName = (id: string) => products.find(p => p.id === id)?.name ?? t('Deleted product');
+
+    return (
+        <Modal isOpen={isOpen} onClose={onClose} title={t('Print Labels')}>
+            <div className="space-y-4">
+                <div className="space-y-3 no-print text-sm">
+                    <div className="flex flex-wrap items-center gap-4">
+                        <label className="flex items-center gap-2">
+                            <span>{t('Label sheet')}</span>
+                            <select value={layoutId} onChange={(e) => { setLayoutId(e.target.value); setSkip(0); }} className="p-2 border rounded-lg">
+                                {LABEL_LAYOUTS.map(l => <option key={l.id} value={l.id}>{l.name}</option>)}
+                            </select>
+                        </label>
+                        {labelsPerPage(layout) > 1 && (
+                            <label className="flex items-center gap-2">
+                                <span>{t('Start at label')}</span>
+                                <input type="number" min="1" max={labelsPerPage(layout)} value={skip + 1} onChange={(e) => setSkip(Math.max(0, Number(e.target.value) - 1))} className="w-16 p-2 border rounded-lg" />
+                            </label>
+                        )}
+                    </div>
+                    <div className="flex flex-wrap gap-4">
+                        {LABEL_FIELDS.map(field => (
+                            <label key={field} className="flex items-center gap-2">
+                                <input type="checkbox" checked={show(field)} onChange={() => toggleField(field)} />
+                                <span>{t(FIELD_LABELS[field])}</span>
+                            </label>
+                        ))}
+                    </div>
+                    <div className="max-h-40 overflow-y-auto space-y-1">
+                        {copies.map(r => (
+                            <div key={r.productId} className="flex justify-between items-center p-1 bg-gray-50 rounded">
+                                <span>{productName(r.productId)}</span>
+                                <input type="number" min="0" value={r.copies} onChange={(e) => setProductCopies(r.productId, Number(e.target.value))} className="w-20 p-1 border rounded" />
+                            </div>
+                        ))}
+                    </div>
+                    {show('barcode') && missingBarcodes.length > 0 && (
+                        <div className="flex justify-between items-center p-2 bg-yellow-50 text-yellow-800 rounded-lg">
+                            <span>{t('Some products have no barcode.')} ({missingBarcodes.length})</span>
+                            <button type="button" onClick={() => assignBarcodes(missingBarcodes)} className="font-semibold">{t('Assign barcodes')}</button>
+                        </div>
+                    )}
+                    <div className="flex justify-between items-center">
+                        <span className="text-gray-500">{labels.length} {t('labels')} · {pages.length} {t('pages')}</span>
+                        <button type="button" onClick={() => window.print()} disabled={labels.length === 0} className="bg-blue-600 hover:bg-blue-700 text-white font-semibold py-2 px-4 rounded-lg disabled:opacity-50">{t('Print')}</button>
+                    </div>
+                </div>
+
+                {isOpen && <style>{`@page { size: ${layout.pageWidth}mm ${layout.pageHeight}mm; margin: 0; }`}</style>}
+                <div className="max-h-96 overflow-auto bg-gray-100 p-2 print:max-h-none print:overflow-visible print:p-0 print:bg-white">
+                    <div className="receipt-print-area space-y-2 print:space-y-0" style={{ padding: 0 }}>
+                        {pages.map((page, pageIndex) => (
+                            <div key={pageIndex} className="relative bg-white overflow-hidden print:break-after-page" style={{ width: `${layout.pageWidth}mm`, height: `${layout.pageHeight}mm` }}>
+                                {page.map((label, index) => {
+                                    if (!label) return null;
+                                    const { top, left } = labelPosition(layout, index);
+                                    return (
+                                        <div key={index} className="absolute flex flex-col justify-between text-black overflow-hidden" style={{ top: `${top}mm`, left: `${left}mm`, width: `${layout.labelWidth}mm`, height: `${layout.labelHeight}mm`, padding: '1.5mm' }}>
+                                            {show('name') && <div className="font-semibold leading-tight truncate" style={{ fontSize: '3mm' }}>{label.name}</div>}
+                                            {show('variant') && label.variant && <div className="leading-tight truncate" style={{ fontSize: '2.5mm' }}>{label.variant}</div>}
+                                            {show('price') && <div className="font-bold leading-tight" style={{ fontSize: '4mm' }}>{label.price.toLocaleString()} {systemSettings.currency}</div>}
+                                            {show('barcode') && label.barcode && <BarcodeSvg value={label.barcode} className="flex-grow min-h-0 mt-1" />}
+                                        </div>
+                                    );
+                                })}
+                            </div>
+                        ))}
+                    </div>
+                </div>
+            </div>
+        </Modal>
+    );
+};
+
+export default LabelPrintDialog;
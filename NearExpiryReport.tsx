@@ -0,0 +1,61 @@
+import React, { useMemo, useState } from 'react';
+import { useData } from '../../contexts/DataContext';
+import { useLanguage } from '../../contexts/LanguageContext';
+import { DEFAULT_EXPIRY_WARNING_DAYS, getExpiryAlerts } from '../../utils/batches';
+
+const NearExpiryReport: React.FC = () => {
+    const { stockBatches, products, systemSettings, writeOffBatch, can } = useData();
+    const { t } = useLanguage();
+    const [warningDays, setWarningDays] = useState(systemSettings.expiryWarningDays ?? DEFAULT_EXPIRY_WARNING_DAYS);
+
+    const alerts = useMemo(() => getExpiryAlerts(stockBatches, warningDays), [stockBatches, warningDays]);
+    const productName = (productId: string) => products.find(p => p.id === productId)?.name ?? t('Deleted product');
+
+    return (
+        <div className="bg-white rounded-lg p-6 shadow-md">
+            <div className="flex justify-between items-center mb-4">
+                <h3 className="text-xl font-semibold">{t('Near-Expiry Stock')}</h3>
+                <label className="flex items-center space-x-2 text-sm">
+                    <span>{t('Expiring within')}</span>
+                    <input type="number" min="0" value={warningDays} onChange={(e) => setWarningDays(Math.max(0, Number(e.target.value) || 0))} className="w-20 p-1 border rounded-lg" />
+                    <span>{t('days')}</span>
+                </label>
+            </div>
+            <div className="overflow-x-auto">
+                <table className="min-w-full text-sm">
+                    <thead>
+                        <tr className="border-b text-left">
+                            <th className="py-2">{t('Product')}</th>
+                            <th className="py-2">{t('Lot')}</th>
+                            <th className="py-2">{t('Expiry Date')}</th>
+                            <th className="py-2 text-right">{t('Days Left')}</th>
+                            <th className="py-2 text-right">{t('Quantity')}</th>
+                            <th className="py-2"></th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {alerts.map(({ batch, status, daysLeft }) => (
+                            <tr key={batch.id} className={`border-b ${status === 'expired' ? 'bg-red-50' : ''}`}>
+                                <td className="py-2">{productName(batch.productId)}</td>
+                                <td className="py-2">{batch.lotNumber}</td>
+                                <td className="py-2">{batch.expiryDate}</td>
+                                <td className={`py-2 text-right ${status === 'expired' ? 'text-red-700 font-semibold' : 'text-yellow-700'}`}>
+                                    {status === 'expired' ? t('Expired') : daysLeft}
+                                </td>
+                                <td className="py-2 text-right">{batch.quantity}</td>
+                                <td className="py-2 text-right">
+                                    {can('adjust_stock') && (
+                                        <button onClick={() => writeOffBatch(batch.id)} className="text-sm text-red-600 hover:underline">{t('Write off')}</button>
+                                    )}
+                                </td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+                {alerts.length === 0 && <p className="text-center text-gray-500 py-4">{t('No stock expires in this period.')}</p>}
+            </div>
+        </div>
+    );
+};
+
+export default NearExpiryReport;
@@ -0,0 +1,220 @@
+import React, { useState } from 'react';
+import { useData } from '../../contexts/DataContext';
+import { useLanguage } from '../../contexts/LanguageContext';
+import Modal from '../shared/Modal';
+import { PricingRule, PricingRuleType, QuantityTier } from '../../utils/pricing';
+
+const RULE_TYPE_LABELS: Record<PricingRuleType, string> = {
+    percent_off: 'Percentage off',
+    fixed_price: 'Fixed price (e.g. wholesale)',
+    quantity_break: 'Quantity breaks',
+    buy_x_get_y: 'Buy X get Y',
+};
+
+const DAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const emptyRule = (): Omit<PricingRule, 'id'> => ({
+    name: '', type: 'percent_off', active: true, priority: 0, stacking: 'stackable', discountPercent: 10,
+});
+
+const parseList = (text: string): string[] => text.split(',').map(s => s.trim()).filter(Boolean);
+
+/** Promotions and price lists applied automatically when the cart is priced. */
+const PricingRules: React.FC = () => {
+    const { pricingRules, products, categories, savePricingRule, deletePricingRule } = useData();
+    const { t } = useLanguage();
+    const [editing, setEditing] = useState<PricingRule | Omit<PricingRule, 'id'> | null>(null);
+    const [newProductId, setNewProductId] = useState('');
+
+    const update = (changes: Partial<PricingRule>) => setEditing(prev => prev && { ...prev, ...changes });
+    const productName = (id: string) => products.find(p => p.id === id)?.name ?? t('Deleted product');
+    const toggle = <T,>(list: T[] | undefined, value: T): T[] =>
+        (list ?? []).includes(value) ? list!.filter(v => v !== value) : [...(list ?? []), value];
+
+    const handleSave = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (editing && savePricingRule(editing)) setEditing(null);
+    };
+
+    const addProduct = () => {
+        if (!editing || !newProductId) return;
+        if (editing.type === 'fixed_price') {
+            const product = products.find(p => p.id === newProductId);
+            update({ unitPrices: { ...editing.unitPrices, [newProductId]: product?.sellingPrice ?? 0 } });
+        } else if (!editing.productIds?.includes(newProductId)) {
+            update({ productIds: [...(editing.productIds ?? []), newProductId] });
+        }
+        setNewProductId('');
+    };
+
+    const updateTier = (index: number, changes: Partial<QuantityTier>) =>
+        update({ tiers: (editing?.tiers ?? []).map((tier, i) => i === index ? { ...tier, ...changes } : tier) });
+
+    const sortedRules = [...pricingRules].sort((a, b) => b.priority - a.priority);
+
+    return (
+        <div className="bg-white rounded-lg p-6 shadow-md">
+            <div className="flex justify-between items-center mb-4">
+                <h3 className="text-xl font-semibold">{t('Promotions & Price Rules')}</h3>
+                <button onClick={() => setEditing(emptyRule())} className="bg-blue-600 hover:bg-blue-700 text-white font-semibold py-2 px-4 rounded-lg">{t('Add Rule')}</button>
+            </div>
+            <div className="space-y-2 max-h-64 overflow-y-auto">
+                {sortedRules.map(rule => (
+                    <div key={rule.id} className="flex justify-between items-center p-2 bg-gray-50 rounded-lg text-sm">
+                        <div>
+                            <p className={`font-medium ${rule.active ? '' : 'text-gray-400 line-through'}`}>{rule.name}</p>
+                            <p className="text-gray-500">
+                                {t(RULE_TYPE_LABELS[rule.type])} · {t('Priority')} {rule.priority} · {rule.stacking === 'exclusive' ? t('Exclusive') : t('Stackable')}
+                                {rule.customerGroups?.length ? ` · ${rule.customerGroups.join(', ')}` : ''}
+                            </p>
+                        </div>
+                        <div className="flex gap-2">
+                            <button onClick={() => setEditing(rule)} className="text-indigo-600">{t('Edit')}</button>
+                            <button onClick={() => deletePricingRule(rule.id)} className="text-red-600">{t('Delete')}</button>
+                        </div>
+                    </div>
+                ))}
+                {pricingRules.length === 0 && <p className="text-center text-gray-500 py-4">{t('No promotions yet.')}</p>}
+            </div>
+
+            {editing && (
+                <Modal isOpen={!!editing} onClose={() => setEditing(null)} title={'id' in editing ? t('Edit Rule') : t('Add Rule')}>
+                    <form onSubmit={handleSave} className="space-y-4 text-sm">
+                        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                            <div className="sm:col-span-2">
+                                <label className="block font-medium">{t('Name (printed on the receipt)')}</label>
+                                <input type="text" value={editing.name} onChange={(e) => update({ name: e.target.value })} required className="w-full p-2 border rounded-lg mt-1" />
+                            </div>
+                            <div>
+                                <label className="block font-medium">{t('Type')}</label>
+                                <select value={editing.type} onChange={(e) => update({ type: e.target.value as PricingRuleType })} className="w-full p-2 border rounded-lg mt-1">
+                                    {(Object.keys(RULE_TYPE_LABELS) as PricingRuleType[]).map(type => <option key={type} value={type}>{t(RULE_TYPE_LABELS[type])}</option>)}
+                                </select>
+                            </div>
+                            <div className="grid grid-cols-2 gap-2">
+                                <div>
+                                    <label className="block font-medium">{t('Priority')}</label>
+                                    <input type="number" value={editing.priority} onChange={(e) => update({ priority: Number(e.target.value) })} className="w-full p-2 border rounded-lg mt-1" />
+                                </div>
+                                <div>
+                                    <label className="block font-medium">{t('Stacking')}</label>
+                                    <select value={editing.stacking} onChange={(e) => update({ stacking: e.target.value as PricingRule['stacking'] })} className="w-full p-2 border rounded-lg mt-1">
+                                        <option value="stackable">{t('Stackable')}</option>
+                                        <option value="exclusive">{t('Exclusive')}</option>
+                                    </select>
+                                </div>
+                            </div>
+                        </div>
+
+                        {editing.type === 'percent_off' && (
+                            <div>
+                                <label className="block font-medium">{t('Discount (%)')}</label>
+                                <input type="number" min="0" max="100" step="any" value={editing.discountPercent ?? ''} onChange={(e) => update({ discountPercent: Number(e.target.value) })} className="w-full p-2 border rounded-lg mt-1" />
+                            </div>
+                        )}
+                        {editing.type === 'buy_x_get_y' && (
+                            <div className="grid grid-cols-3 gap-2">
+                                <div>
+                                    <label className="block font-medium">{t('Buy')}</label>
+                                    <input type="number" min="1" value={editing.buyQuantity ?? ''} onChange={(e) => update({ buyQuantity: Number(e.target.value) })} className="w-full p-2 border rounded-lg mt-1" />
+                                </div>
+                                <div>
+                                    <label className="block font-medium">{t('Get')}</label>
+                                    <input type="number" min="1" value={editing.getQuantity ?? ''} onChange={(e) => update({ getQuantity: Number(e.target.value) })} className="w-full p-2 border rounded-lg mt-1" />
+                                </div>
+                                <div>
+                                    <label className="block font-medium">{t('At % off')}</label>
+                                    <input type="number" min="0" max="100" value={editing.getDiscountPercent ?? 100} onChange={(e) => update({ getDiscountPercent: Number(e.target.value) })} className="w-full p-2 border rounded-lg mt-1" />
+                                </div>
+                            </div>
+                        )}
+                        {editing.type === 'quantity_break' && (
+                            <div className="space-y-2">
+                                <label className="block font-medium">{t('Quantity breaks')}</label>
+                                {(editing.tiers ?? []).map((tier, i) => (
+                                    <div key={i} className="flex gap-2 items-center">
+                                        <span>{t('From')}</span>
+                                        <input type="number" min="1" step="any" value={tier.minQuantity} onChange={(e) => updateTier(i, { minQuantity: Number(e.target.value) })} className="w-20 p-1 border rounded" />
+                                        <span>{t('units')}:</span>
+                                        <input type="number" min="0" max="100" step="any" value={tier.discountPercent ?? ''} placeholder="%" onChange={(e) => updateTier(i, { discountPercent: e.target.value === '' ? undefined : Number(e.target.value) })} className="w-20 p-1 border rounded" />
+                                        <span>{t('or unit price')}</span>
+                                        <input type="number" min="0" step="any" value={tier.unitPrice ?? ''} onChange={(e) => updateTier(i, { unitPrice: e.target.value === '' ? undefined : Number(e.target.value) })} className="w-24 p-1 border rounded" />
+                                        <button type="button" onClick={() => update({ tiers: editing.tiers!.filter((_, j) => j !== i) })} className="text-red-600">×</button>
+                                    </div>
+                                ))}
+                                <button type="button" onClick={() => update({ tiers: [...(editing.tiers ?? []), { minQuantity: 1, discountPercent: 5 }] })} className="text-blue-600 font-semibold">+ {t('Add break')}</button>
+                            </div>
+                        )}
+
+                        <div className="border-t pt-3 space-y-2">
+                            <p className="font-medium">{editing.type === 'fixed_price' ? t('Prices') : t('Applies to (empty means every product)')}</p>
+                            {editing.type === 'fixed_price'
+                                ? Object.entries(editing.unitPrices ?? {}).map(([productId, price]) => (
+                                    <div key={productId} className="flex gap-2 items-center">
+                                        <span className="flex-grow">{productName(productId)}</span>
+                                        <input type="number" min="0" step="any" value={price} onChange={(e) => update({ unitPrices: { ...editing.unitPrices, [productId]: Number(e.target.value) } })} className="w-28 p-1 border rounded" />
+                                        <button type="button" onClick={() => { const { [productId]: _, ...rest } = editing.unitPrices!; update({ unitPrices: rest }); }} className="text-red-600">×</button>
+                                    </div>
+                                ))
+                                : (editing.productIds ?? []).map(productId => (
+                                    <div key={productId} className="flex justify-between">
+                                        <span>{productName(productId)}</span>
+                                        <button type="button" onClick={() => update({ productIds: editing.productIds!.filter(id => id !== productId) })} className="text-red-600">×</button>
+                                    </div>
+                                ))}
+                            <div className="flex gap-2">
+                                <select value={newProductId} onChange={(e) => setNewProductId(e.target.value)} className="flex-grow p-2 border rounded-lg">
+                                    <option value="">{t('Choose a product')}</option>
+                                    {products.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+                                </select>
+                                <button type="button" onClick={addProduct} className="bg-gray-200 hover:bg-gray-300 font-semibold px-3 rounded-lg">{t('Add')}</button>
+                            </div>
+                            {editing.type !== 'fixed_price' && (
+                                <div className="flex flex-wrap gap-3">
+                                    {categories.map(c => (
+                                        <label key={c} className="flex items-center space-x-1">
+                                            <input type="checkbox" checked={!!editing.categories?.includes(c)} onChange={() => update({ categories: toggle(editing.categories, c) })} />
+                                            <span>{c}</span>
+                                        </label>
+                                    ))}
+                                </div>
+                            )}
+                            <div>
+                                <label className="block font-medium">{t('Customer groups (comma separated, empty means everyone)')}</label>
+                                <input type="text" value={(editing.customerGroups ?? []).join(', ')} onChange={(e) => update({ customerGroups: parseList(e.target.value) })} placeholder={t('wholesale')} className="w-full p-2 border rounded-lg mt-1" />
+                            </div>
+                        </div>
+
+                        <div className="border-t pt-3 space-y-2">
+                            <p className="font-medium">{t('Schedule')}</p>
+                            <div className="grid grid-cols-2 gap-2">
+                                <input type="date" value={editing.startDate ?? ''} onChange={(e) => update({ startDate: e.target.value || undefined })} className="p-2 border rounded-lg" />
+                                <input type="date" value={editing.endDate ?? ''} onChange={(e) => update({ endDate: e.target.value || undefined })} className="p-2 border rounded-lg" />
+                                <input type="time" value={editing.startTime ?? ''} onChange={(e) => update({ startTime: e.target.value || undefined })} className="p-2 border rounded-lg" />
+                                <input type="time" value={editing.endTime ?? ''} onChange={(e) => update({ endTime: e.target.value || undefined })} className="p-2 border rounded-lg" />
+                            </div>
+                            <div className="flex flex-wrap gap-3">
+                                {DAY_LABELS.map((day, i) => (
+                                    <label key={day} className="flex items-center space-x-1">
+                                        <input type="checkbox" checked={!!editing.daysOfWeek?.includes(i)} onChange={() => update({ daysOfWeek: toggle(editing.daysOfWeek, i) })} />
+                                        <span>{t(day)}</span>
+                                    </label>
+                                ))}
+                            </div>
+                        </div>
+
+                        <div className="flex justify-between items-center border-t pt-3">
+                            <label className="flex items-center space-x-2">
+                                <input type="checkbox" checked={editing.active} onChange={(e) => update({ active: e.target.checked })} />
+                                <span>{t('Active')}</span>
+                            </label>
+                            <button type="submit" className="bg-[--primary-color] text-white font-semibold py-2 px-4 rounded-lg">{t('Save')}</button>
+                        </div>
+                    </form>
+                </Modal>
+            )}
+        </div>
+    );
+};
+
+export default PricingRules;
@@ -0,0 +1,47 @@
+import React, { useState } from 'react';
+import { Sale } from '../../types';
+import { useData } from '../../contexts/DataContext';
+import { useLanguage } from '../../contexts/LanguageContext';
+import { COLUMN_DOTS, MonoBitmap, canvasTextRasterizer, encodeReceipt, getReceiptOptions, loadLogoBitmap } from '../../utils/escpos';
+import { sendToPrinter } from '../../utils/receiptPrinter';
+import { getDocumentLabel } from '../../utils/documentNumbers';
+
+/** Prints a sale's receipt straight to the thermal printer, or through the browser when no printer is set up. */
+const PrintReceiptButton: React.FC<{ sale: Sale; className?: string }> = ({ sale, className }) => {
+    const { companyInfo, systemSettings, showToast } = useData();
+    const { t } = useLanguage();
+    const [isPrinting, setIsPrinting] = useState(false);
+    const connection = systemSettings.receiptPrinter ?? 'browser';
+
+    const handlePrint = async () => {
+        if (connection === 'browser') {
+            window.print();
+            return;
+        }
+        setIsPrinting(true);
+        try {
+            const options = getReceiptOptions(sale, systemSettings);
+            let logo: MonoBitmap | undefined;
+            if (companyInfo.logo) {
+                // A logo that fails to load shouldn't stop the receipt.
+                logo = await loadLogoBitmap(companyInfo.logo, Math.round(COLUMN_DOTS[options.columns] * 0.6)).catch(() => undefined);
+            }
+            const bytes = encodeReceipt(sale, companyInfo, systemSettings, { ...options, logo, rasterizeText: canvasTextRasterizer() });
+            const sentBy = await sendToPrinter(bytes, connection, `receipt-${getDocumentLabel(sale).replace(/[^A-Za-z0-9-]/g, '')}.bin`);
+            if (sentBy === 'file' && connection !== 'file') showToast(t('This browser cannot reach the printer; the receipt was downloaded instead.'), 'warning');
+        } catch (e: any) {
+            // Closing the browser's device picker is not an error worth reporting.
+            if (e?.name !== 'NotFoundError') showToast(`${t('Printing failed')}: ${e?.message || e}`, 'error');
+        } finally {
+            setIsPrinting(false);
+        }
+    };
+
+    return (
+        <button type="button" onClick={handlePrint} disabled={isPrinting} className={className ?? 'bg-gray-200 hover:bg-gray-300 text-gray-800 font-semibold py-2 px-4 rounded-lg disabled:opacity-50'}>
+            {isPrinting ? t('Printing...') : t('Print Receipt')}
+        </button>
+    );
+};
+
+export default PrintReceiptButton;
@@ -0,0 +1,168 @@
+import React, { useMemo, useState } from 'react';
+import { useData } from '../../contexts/DataContext';
+import { useLanguage } from '../../contexts/LanguageContext';
+import {
+    ColumnMapping, PRODUCT_IMPORT_FIELDS, ProductImportField, ProductImportMode,
+    guessColumnMapping, planProductImport, productsToRows,
+} from '../../utils/productImport';
+
+const MAX_LISTED_ROWS = 20;
+
+/** Bulk import of products from CSV/XLSX with column mapping, plus the matching catalogue export. */
+const ProductImportWizard: React.FC<{ onDone?: () => void }> = ({ onDone }) => {
+    const { products, suppliers, categories, importProducts, showToast } = useData();
+    const { t } = useLanguage();
+    const [fileName, setFileName] = useState('');
+    const [headers, setHeaders] = useState<string[]>([]);
+    const [rows, setRows] = useState<unknown[][]>([]);
+    const [mapping, setMapping] = useState<ColumnMapping>({});
+    const [mode, setMode] = useState<ProductImportMode>('upsert');
+
+    const plan = useMemo(
+        () => planProductImport(rows, mapping, mode, products, suppliers, categories),
+        [rows, mapping, mode, products, suppliers, categories],
+    );
+
+    const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        try {
+            // raw keeps CSV cells as text, so barcodes like 00123 keep their leading zeros.
+            const book = window.XLSX.read(await file.arrayBuffer(), { type: 'array', raw: true });
+            const sheet = book.Sheets[book.SheetNames[0]];
+            const [headerRow = [], ...dataRows]: unknown[][] = window.XLSX.utils.sheet_to_json(sheet, { header: 1, defval: '', raw: false });
+            const fileHeaders = headerRow.map(h => String(h));
+            setFileName(file.name);
+            setHeaders(fileHeaders);
+            setRows(dataRows);
+            setMapping(guessColumnMapping(fileHeaders));
+        } catch (error) {
+            console.error('Error reading product file:', error);
+            showToast('Could not read the file. Use a CSV or Excel file.', 'error');
+        }
+    };
+
+    const handleMappingChange = (field: ProductImportField, value: string) => {
+        const next = { ...mapping };
+        if (value === '') delete next[field];
+        else next[field] = Number(value);
+        setMapping(next);
+    };
+
+    const handleImport = () => {
+        if (importProducts(plan)) {
+            setRows([]);
+            setHeaders([]);
+            setFileName('');
+            onDone?.();
+        }
+    };
+
+    const handleExport = (format: 'csv' | 'xlsx') => {
+        const sheet = window.XLSX.utils.aoa_to_sheet(productsToRows(products, suppliers));
+        const fileBase = `products-${new Date().toISOString().split('T')[0]}`;
+        if (format === 'xlsx') {
+            const book = window.XLSX.utils.book_new();
+            window.XLSX.utils.book_append_sheet(book, sheet, 'Products');
+            window.XLSX.writeFile(book, `${fileBase}.xlsx`);
+            return;
+        }
+        const blob = new Blob([window.XLSX.utils.sheet_to_csv(sheet)], { type: 'text/csv;charset=utf-8' });
+        const url = URL.createObjectURL(blob);
+        const a = document.createElement('a');
+        a.href = url;
+        a.download = `${fileBase}.csv`;
+        a.click();
+        URL.revokeObjectURL(url);
+    };
+
+    // Without one of these columns no row can be matched or created.
+    const hasKeyColumn = mapping.id !== undefined || mapping.name !== undefined || mapping.barcode !== undefined;
+    const hasWork = plan.creates.length + plan.updates.length > 0;
+
+    return (
+        <div className="space-y-6">
+            <div className="flex flex-wrap gap-2 items-center">
+                <label className="bg-blue-600 hover:bg-blue-700 text-white font-semibold py-2 px-4 rounded-lg cursor-pointer">
+                    {t('Choose CSV or Excel File')}
+                    <input type="file" accept=".csv,.xlsx,.xls" onChange={handleFile} className="hidden" />
+                </label>
+                {fileName && <span className="text-sm text-gray-600">{fileName} · {rows.length} {t('rows')}</span>}
+                <div className="flex-grow" />
+                <button onClick={() => handleExport('csv')} className="bg-gray-200 hover:bg-gray-300 text-gray-800 font-semibold py-2 px-4 rounded-lg">{t('Export CSV')}</button>
+                <button onClick={() => handleExport('xlsx')} className="bg-green-600 hover:bg-green-700 text-white font-semibold py-2 px-4 rounded-lg">{t('Export to Excel')}</button>
+            </div>
+
+            {headers.length > 0 && (
+                <>
+                    <div>
+                        <h4 className="font-semibold mb-2">{t('Columns')}</h4>
+                        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-3">
+                            {PRODUCT_IMPORT_FIELDS.map(({ field, header }) => (
+                                <label key={field} className="text-sm">
+                                    <span className="block font-medium">{t(header)}</span>
+                                    <select
+                                        value={mapping[field] ?? ''}
+                                        onChange={(e) => handleMappingChange(field, e.target.value)}
+                                        className="w-full p-2 border rounded-lg mt-1"
+                                    >
+                                        <option value="">{t('Not imported')}</option>
+                                        {headers.map((h, i) => <option key={i} value={i}>{h || `${t('Column')} ${i + 1}`}</option>)}
+                                    </select>
+                                </label>
+                            ))}
+                        </div>
+                    </div>
+
+                    <div className="flex flex-wrap items-center gap-6">
+                        {(['upsert', 'create', 'update'] as ProductImportMode[]).map(m => (
+                            <label key={m} className="flex items-center space-x-2 cursor-pointer text-sm">
+                                <input type="radio" name="productImportMode" checked={mode === m} onChange={() => setMode(m)} />
+                                <span>{t({ upsert: 'Create and update', create: 'Create new only', update: 'Update existing only' }[m])}</span>
+                            </label>
+                        ))}
+                    </div>
+
+                    <div className="grid grid-cols-2 sm:grid-cols-4 gap-3 text-center text-sm">
+                        <div className="bg-green-50 rounded-lg p-3"><p className="text-2xl font-bold">{plan.creates.length}</p>{t('New')}</div>
+                        <div className="bg-blue-50 rounded-lg p-3"><p className="text-2xl font-bold">{plan.updates.length}</p>{t('Updated')}</div>
+                        <div className="bg-gray-50 rounded-lg p-3"><p className="text-2xl font-bold">{plan.unchanged + plan.skipped.length}</p>{t('Unchanged or skipped')}</div>
+                        <div className="bg-red-50 rounded-lg p-3"><p className="text-2xl font-bold">{plan.errors.length}</p>{t('Rows with errors')}</div>
+                    </div>
+
+                    {(plan.newCategories.length > 0 || plan.newSuppliers.length > 0) && (
+                        <div className="text-sm text-gray-700 space-y-1">
+                            {plan.newCategories.length > 0 && <p>{t('New categories')}: {plan.newCategories.join(', ')}</p>}
+                            {plan.newSuppliers.length > 0 && <p>{t('New suppliers')}: {plan.newSuppliers.join(', ')}</p>}
+                        </div>
+                    )}
+
+                    {plan.errors.length > 0 && (
+                        <div className="bg-red-50 border border-red-200 rounded-lg p-3 text-sm">
+                            <p className="font-semibold text-red-800 mb-1">{t('Fix these rows and choose the file again:')}</p>
+                            <ul className="list-disc list-inside text-red-700">
+                                {plan.errors.slice(0, MAX_LISTED_ROWS).map(error => (
+                                    <li key={error.rowNumber}>{t('Row')} {error.rowNumber}: {error.messages.join(' ')}</li>
+                                ))}
+                                {plan.errors.length > MAX_LISTED_ROWS && <li>{t('and')} {plan.errors.length - MAX_LISTED_ROWS} {t('more')}</li>}
+                            </ul>
+                        </div>
+                    )}
+
+                    <div className="flex justify-end">
+                        <button
+                            onClick={handleImport}
+                            disabled={!hasKeyColumn || !hasWork || plan.errors.length > 0}
+                            className="bg-[--primary-color] hover:bg-[--primary-hover] text-white font-semibold py-2 px-6 rounded-lg disabled:bg-gray-300 disabled:cursor-not-allowed"
+                        >
+                            {t('Import Products')}
+                        </button>
+                    </div>
+                </>
+            )}
+        </div>
+    );
+};
+
+export default ProductImportWizard;
@@ -0,0 +1,65 @@
+import React, { useMemo, useState } from 'react';
+import { useData } from '../../contexts/DataContext';
+import { useLanguage } from '../../contexts/LanguageContext';
+import { ProductGrouping, groupSalesByProduct } from '../../utils/variants';
+
+const ProductSalesReport: React.FC = () => {
+    const { sales, products, systemSettings } = useData();
+    const { t } = useLanguage();
+    const [grouping, setGrouping] = useState<ProductGrouping>('parent');
+    const [from, setFrom] = useState('');
+    const [to, setTo] = useState('');
+
+    const rows = useMemo(
+        () => groupSalesByProduct(sales.filter(s => (!from || s.date >= from) && (!to || s.date <= to)), products, grouping),
+        [sales, products, grouping, from, to],
+    );
+    const totalQuantity = rows.reduce((sum, r) => sum + r.quantity, 0);
+    const totalRevenue = rows.reduce((sum, r) => sum + r.revenue, 0);
+
+    return (
+        <div className="bg-white rounded-lg p-6 shadow-md">
+            <div className="flex flex-wrap justify-between items-center gap-3 mb-4">
+                <h3 className="text-xl font-semibold">{t('Sales by Product')}</h3>
+                <div className="flex flex-wrap items-center gap-3 text-sm">
+                    <input type="date" value={from} onChange={(e) => setFrom(e.target.value)} className="p-2 border rounded-lg" />
+                    <input type="date" value={to} onChange={(e) => setTo(e.target.value)} className="p-2 border rounded-lg" />
+                    <select value={grouping} onChange={(e) => setGrouping(e.target.value as ProductGrouping)} className="p-2 border rounded-lg">
+                        <option value="parent">{t('Group variants under their product')}</option>
+                        <option value="variant">{t('Show each variant')}</option>
+                    </select>
+                </div>
+            </div>
+            <div className="overflow-x-auto">
+                <table className="min-w-full text-sm">
+                    <thead>
+                        <tr className="border-b text-left">
+                            <th className="py-2">{t('Product')}</th>
+                            <th className="py-2 text-right">{t('Quantity')}</th>
+                            <th className="py-2 text-right">{t('Revenue')}</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {rows.map(row => (
+                            <tr key={row.productId} className="border-b">
+                                <td className="py-2">{row.name}</td>
+                                <td className="py-2 text-right">{row.quantity}</td>
+                                <td className="py-2 text-right">{row.revenue.toLocaleString()} {systemSettings.currency}</td>
+                            </tr>
+                        ))}
+                    </tbody>
+                    <tfoot>
+                        <tr className="font-bold">
+                            <td className="py-2">{t('Total')} ({rows.length})</td>
+                            <td className="py-2 text-right">{totalQuantity}</td>
+                            <td className="py-2 text-right">{totalRevenue.toLocaleString()} {systemSettings.currency}</td>
+                        </tr>
+                    </tfoot>
+                </table>
+                {rows.length === 0 && <p className="text-center text-gray-500 py-4">{t('No sales in this period.')}</p>}
+            </div>
+        </div>
+    );
+};
+
+export default ProductSalesReport;
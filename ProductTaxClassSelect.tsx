@@ -0,0 +1,24 @@
+import React from 'react';
+import { Product } from '../../types';
+import { useData } from '../../contexts/DataContext';
+import { useLanguage } from '../../contexts/LanguageContext';
+import { getTaxClasses, resolveTaxClass } from '../../utils/taxes';
+
+/** Tax class field of the product form; left empty, the product follows its category. */
+const ProductTaxClassSelect: React.FC<{ product: Pick<Product, 'category' | 'taxClassId'>; onChange: (taxClassId?: string) => void }> = ({ product, onChange }) => {
+    const { systemSettings } = useData();
+    const { t } = useLanguage();
+    const inherited = resolveTaxClass({ ...product, taxClassId: undefined } as Product, systemSettings);
+
+    return (
+        <div>
+            <label className="block text-sm font-medium">{t('Tax class')}</label>
+            <select value={product.taxClassId ?? ''} onChange={(e) => onChange(e.target.value || undefined)} className="w-full p-2 border rounded-lg mt-1">
+                <option value="">{t('Same as category')} ({inherited.name}, {inherited.rate}%)</option>
+                {getTaxClasses(systemSettings).map(c => <option key={c.id} value={c.id}>{c.name} ({c.rate}%)</option>)}
+            </select>
+        </div>
+    );
+};
+
+export default ProductTaxClassSelect;
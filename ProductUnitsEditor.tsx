@@ -0,0 +1,80 @@
+import React from 'react';
+import { Product } from '../../types';
+import { useLanguage } from '../../contexts/LanguageContext';
+import { DEFAULT_BASE_UNIT, ProductUnit } from '../../utils/units';
+
+type UnitFields = Pick<Product, 'baseUnit' | 'units' | 'purchaseUnit' | 'allowFractional'>;
+
+/** Units section of the product form: the base unit, pack sizes with their own barcode and prices, and the purchase unit. */
+const ProductUnitsEditor: React.FC<{ value: UnitFields; onChange: (value: UnitFields) => void }> = ({ value, onChange }) => {
+    const { t } = useLanguage();
+    const baseUnit = value.baseUnit || DEFAULT_BASE_UNIT;
+    const units = value.units ?? [];
+
+    const updateUnit = (index: number, changes: Partial<ProductUnit>) =>
+        onChange({ ...value, units: units.map((u, i) => i === index ? { ...u, ...changes } : u) });
+    const removeUnit = (index: number) => {
+        const removed = units[index];
+        onChange({
+            ...value,
+            units: units.filter((_, i) => i !== index),
+            purchaseUnit: value.purchaseUnit === removed.name ? undefined : value.purchaseUnit,
+        });
+    };
+    const optionalNumber = (text: string) => text.trim() === '' ? undefined : Number(text);
+
+    return (
+        <div className="space-y-3">
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+                <div>
+                    <label className="block text-sm font-medium">{t('Base unit')}</label>
+                    <input type="text" value={baseUnit} onChange={(e) => onChange({ ...value, baseUnit: e.target.value.trim() || undefined })} className="w-full p-2 border rounded-lg mt-1" />
+                </div>
+                <div>
+                    <label className="block text-sm font-medium">{t('Purchase unit')}</label>
+                    <select value={value.purchaseUnit ?? ''} onChange={(e) => onChange({ ...value, purchaseUnit: e.target.value || undefined })} className="w-full p-2 border rounded-lg mt-1">
+                        <option value="">{baseUnit}</option>
+                        {units.filter(u => u.name.trim()).map(u => <option key={u.name} value={u.name}>{u.name}</option>)}
+                    </select>
+                </div>
+                <label className="flex items-center space-x-2 text-sm sm:mt-6">
+                    <input type="checkbox" checked={!!value.allowFractional} onChange={(e) => onChange({ ...value, allowFractional: e.target.checked })} />
+                    <span>{t('Sold by weight or length (fractional quantities)')}</span>
+                </label>
+            </div>
+
+            {units.length > 0 && (
+                <table className="min-w-full text-sm">
+                    <thead>
+                        <tr className="text-left border-b">
+                            <th className="py-1">{t('Unit')}</th>
+                            <th className="py-1">{t('Contains')} ({baseUnit})</th>
+                            <th className="py-1">{t('Barcode')}</th>
+                            <th className="py-1">{t('Buying Price')}</th>
+                            <th className="py-1">{t('Selling Price')}</th>
+                            <th className="py-1"></th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {units.map((unit, i) => (
+                            <tr key={i} className="border-b">
+                                <td className="py-1 pr-2"><input type="text" value={unit.name} onChange={(e) => updateUnit(i, { name: e.target.value })} placeholder={t('box')} className="w-full p-1 border rounded" /></td>
+                                <td className="py-1 pr-2"><input type="number" min="0" step="any" value={unit.factor} onChange={(e) => updateUnit(i, { factor: Number(e.target.value) })} className="w-24 p-1 border rounded" /></td>
+                                <td className="py-1 pr-2"><input type="text" value={unit.barcode ?? ''} onChange={(e) => updateUnit(i, { barcode: e.target.value.trim() || undefined })} className="w-full p-1 border rounded" /></td>
+                                <td className="py-1 pr-2"><input type="number" min="0" step="any" value={unit.buyingPrice ?? ''} placeholder={t('Auto')} onChange={(e) => updateUnit(i, { buyingPrice: optionalNumber(e.target.value) })} className="w-24 p-1 border rounded" /></td>
+                                <td className="py-1 pr-2"><input type="number" min="0" step="any" value={unit.sellingPrice ?? ''} placeholder={t('Auto')} onChange={(e) => updateUnit(i, { sellingPrice: optionalNumber(e.target.value) })} className="w-24 p-1 border rounded" /></td>
+                                <td className="py-1 text-right"><button type="button" onClick={() => removeUnit(i)} className="text-red-600">{t('Remove')}</button></td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            )}
+            <p className="text-xs text-gray-500">{t('Stock and the prices above are kept per base unit. A pack without its own price sells for the base price times its size.')}</p>
+            <button type="button" onClick={() => onChange({ ...value, units: [...units, { name: '', factor: 1 }] })} className="text-sm text-blue-600 font-semibold">
+                + {t('Add unit')}
+            </button>
+        </div>
+    );
+};
+
+export default ProductUnitsEditor;
@@ -0,0 +1,30 @@
+import React from 'react';
+import { Sale } from '../../types';
+import { useData } from '../../contexts/DataContext';
+import { useLanguage } from '../../contexts/LanguageContext';
+
+/** Promotion lines for the printed receipt, between the items and the totals. */
+const ReceiptPromotions: React.FC<{ sale: Sale }> = ({ sale }) => {
+    const { systemSettings } = useData();
+    const { t } = useLanguage();
+    if (!sale.appliedPromotions?.length) return null;
+
+    const totalSaved = sale.appliedPromotions.reduce((sum, p) => sum + p.amount, 0);
+
+    return (
+        <div className="border-t border-dashed py-1 text-sm">
+            {sale.appliedPromotions.map(promotion => (
+                <div key={promotion.ruleId} className="flex justify-between">
+                    <span>{promotion.name}</span>
+                    <span>-{promotion.amount.toLocaleString()} {systemSettings.currency}</span>
+                </div>
+            ))}
+            <div className="flex justify-between font-semibold">
+                <span>{t('You saved')}</span>
+                <span>{totalSaved.toLocaleString()} {systemSettings.currency}</span>
+            </div>
+        </div>
+    );
+};
+
+export default ReceiptPromotions;
@@ -0,0 +1,32 @@
+import React from 'react';
+import { Sale } from '../../types';
+import { useData } from '../../contexts/DataContext';
+import { useLanguage } from '../../contexts/LanguageContext';
+
+/** Payment lines for the printed receipt when the customer paid in a foreign currency or split the payment. */
+const ReceiptTenders: React.FC<{ sale: Sale }> = ({ sale }) => {
+    const { systemSettings } = useData();
+    const { t } = useLanguage();
+    const base = systemSettings.currency;
+    if (!sale.tenders?.some(tender => tender.currency !== base) && (sale.tenders?.length ?? 0) < 2) return null;
+
+    return (
+        <div className="border-t border-dashed py-1 text-sm">
+            {sale.tenders!.map((tender, i) => (
+                <div key={i} className="flex justify-between">
+                    <span>
+                        {t('Paid')} {tender.amount.toLocaleString()} {tender.currency}
+                        {tender.currency !== base && ` @ ${tender.rate.toLocaleString()}`}
+                    </span>
+                    <span>{tender.baseAmount.toLocaleString()} {base}</span>
+                </div>
+            ))}
+            <div className="flex justify-between font-semibold">
+                <span>{t('Change')}</span>
+                <span>{sale.change.toLocaleString()} {base}</span>
+            </div>
+        </div>
+    );
+};
+
+export default ReceiptTenders;
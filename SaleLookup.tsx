@@ -0,0 +1,52 @@
+import React, { useState } from 'react';
+import { Sale } from '../../types';
+import { useData } from '../../contexts/DataContext';
+import { useLanguage } from '../../contexts/LanguageContext';
+import { findSalesByNumber, getDocumentLabel } from '../../utils/documentNumbers';
+
+/** Finds a sale by the number printed on its receipt, e.g. to reprint it or take a return. */
+const SaleLookup: React.FC<{ onSelect: (sale: Sale) => void }> = ({ onSelect }) => {
+    const { allSales, systemSettings } = useData();
+    const { t } = useLanguage();
+    const [query, setQuery] = useState('');
+    const [searched, setSearched] = useState(false);
+
+    const matches = searched ? findSalesByNumber(allSales, query) : [];
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        setSearched(true);
+    };
+
+    return (
+        <div className="space-y-3">
+            <form onSubmit={handleSubmit} className="flex gap-2">
+                <input
+                    type="search"
+                    value={query}
+                    onChange={(e) => { setQuery(e.target.value); setSearched(false); }}
+                    placeholder={t('Invoice number, e.g. INV-R1-2026-000123 or 123')}
+                    autoFocus
+                    className="flex-grow p-2 border rounded-lg"
+                />
+                <button type="submit" className="bg-[--primary-color] text-white font-semibold py-2 px-4 rounded-lg">{t('Find')}</button>
+            </form>
+            {searched && matches.length === 0 && <p className="text-sm text-gray-500">{t('No sale with that number.')}</p>}
+            {matches.length > 1 && <p className="text-sm text-gray-500">{t('More than one sale has that number. Choose the one you mean.')}</p>}
+            {matches.map(sale => (
+                <button key={sale.id} type="button" onClick={() => onSelect(sale)} className="w-full text-left p-3 bg-gray-50 hover:bg-gray-100 rounded-lg text-sm">
+                    <div className="flex justify-between font-medium">
+                        <span className="font-mono">{getDocumentLabel(sale)}</span>
+                        <span>{sale.total.toLocaleString()} {systemSettings.currency}</span>
+                    </div>
+                    <div className="flex justify-between text-gray-500">
+                        <span>{sale.date} {sale.time} · {sale.items.length} {t('items')}</span>
+                        {sale.status && sale.status !== 'completed' && <span className="text-red-600">{t(sale.status === 'voided' ? 'Voided' : 'Edited')}</span>}
+                    </div>
+                </button>
+            ))}
+        </div>
+    );
+};
+
+export default SaleLookup;
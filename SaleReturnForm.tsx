@@ -0,0 +1,112 @@
+import React, { useState } from 'react';
+import { useData } from '../../contexts/DataContext';
+import { useLanguage } from '../../contexts/LanguageContext';
+import { Sale } from '../../types';
+import { ReturnDisposition, RefundMethod, getReturnableQuantities, getUnitRefund } from '../../utils/returns';
+import ReceiptPromotions from './ReceiptPromotions';
+
+interface LineState {
+    quantity: number;
+    disposition: ReturnDisposition;
+}
+
+const SaleReturnForm: React.FC<{ sale: Sale; onDone: () => void }> = ({ sale, onDone }) => {
+    const { saleReturns, systemSettings, addSaleReturn } = useData();
+    const { t } = useLanguage();
+    const returnable = getReturnableQuantities(sale, saleReturns);
+
+    const [lines, setLines] = useState<Record<string, LineState>>(() =>
+        Object.fromEntries(sale.items.map(item => [item.id, { quantity: 0, disposition: 'restock' as ReturnDisposition }]))
+    );
+    const [refundMethod, setRefundMethod] = useState<RefundMethod>(sale.paymentMethod === 'credit' ? 'credit_note' : 'cash');
+    const [reason, setReason] = useState('');
+
+    const updateLine = (itemId: string, changes: Partial<LineState>) => {
+        setLines(prev => ({ ...prev, [itemId]: { ...prev[itemId], ...changes } }));
+    };
+
+    const refundTotal = sale.items.reduce((sum, item) => sum + getUnitRefund(sale, item.id) * lines[item.id].quantity, 0);
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        const request = sale.items.map(item => ({ saleItemId: item.id, ...lines[item.id] }));
+        if (addSaleReturn(sale.id, request, refundMethod, reason.trim() || undefined)) {
+            onDone();
+        }
+    };
+
+    return (
+        <form onSubmit={handleSubmit} className="space-y-4">
+            <table className="min-w-full text-sm">
+                <thead>
+                    <tr className="border-b text-left">
+                        <th className="py-1">{t('Item')}</th>
+                        <th className="py-1 text-right">{t('Returnable')}</th>
+                        <th className="py-1 text-right">{t('Return Qty')}</th>
+                        <th className="py-1">{t('Condition')}</th>
+                    </tr>
+                </thead>
+                <tbody>
+                    {sale.items.map(item => {
+                        const max = returnable.get(item.id) || 0;
+                        return (
+                            <tr key={item.id} className="border-b">
+                                <td className="py-1">{item.name}</td>
+                                <td className="py-1 text-right">{max}</td>
+                                <td className="py-1 text-right">
+                                    <input
+                                        type="number"
+                                        min="0"
+                                        max={max}
+                                        value={lines[item.id].quantity}
+                                        disabled={max === 0}
+                                        onChange={(e) => updateLine(item.id, { quantity: Math.min(max, Math.max(0, Number(e.target.value))) })}
+                                        className="w-20 p-1 border rounded text-right disabled:bg-gray-100"
+                                    />
+                                </td>
+                                <td className="py-1">
+                                    <select
+                                        value={lines[item.id].disposition}
+                                        disabled={max === 0}
+                                        onChange={(e) => updateLine(item.id, { disposition: e.target.value as ReturnDisposition })}
+                                        className="p-1 border rounded"
+                                    >
+                                        <option value="restock">{t('Back to stock')}</option>
+                                        <option value="damaged">{t('Damaged (write off)')}</option>
+                                    </select>
+                                </td>
+                            </tr>
+                        );
+                    })}
+                </tbody>
+            </table>
+            {/* Refunds are worked out from the discounted totals, so show what the promotions took off. */}
+            <ReceiptPromotions sale={sale} />
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                    <label className="text-sm font-medium">{t('Refund Method')}</label>
+                    <select value={refundMethod} onChange={(e) => setRefundMethod(e.target.value as RefundMethod)} className="w-full p-2 border rounded-lg mt-1">
+                        <option value="cash">{t('cash')}</option>
+                        <option value="bank_transfer">{t('bank_transfer')}</option>
+                        <option value="credit_note" disabled={!sale.customerId}>{t('Credit Note')}</option>
+                    </select>
+                </div>
+                <div>
+                    <label className="text-sm font-medium">{t('Reason')}</label>
+                    <input type="text" value={reason} onChange={(e) => setReason(e.target.value)} className="w-full p-2 border rounded-lg mt-1" />
+                </div>
+            </div>
+
+            <div className="flex justify-between items-center">
+                <span className="font-semibold">{t('Refund')}: {refundTotal.toLocaleString()} {systemSettings.currency}</span>
+                <div className="flex gap-2">
+                    <button type="button" onClick={onDone} className="bg-gray-200 py-2 px-4 rounded-lg">{t('Cancel')}</button>
+                    <button type="submit" disabled={refundTotal === 0} className="bg-[--primary-color] text-white py-2 px-4 rounded-lg disabled:opacity-50">{t('Process Return')}</button>
+                </div>
+            </div>
+        </form>
+    );
+};
+
+export default SaleReturnForm;
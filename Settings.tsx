@@ -1,33 +1,84 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { useData } from '../../contexts/DataContext';
 import { useLanguage } from '../../contexts/LanguageContext';
 import { CompanyInfo, SystemSettings } from '../../types';
 import Modal from '../shared/Modal';
+import StaffManagement from '../staff/StaffManagement';
+import BackupRestore from './BackupRestore';
+import PricingRules from './PricingRules';
+import TaxSettings from './TaxSettings';
+import CurrencySettings from './CurrencySettings';
+import DocumentNumberingSettings from './DocumentNumberingSettings';
+import BarcodeSettings from './BarcodeSettings';
+import ImportPreview from './ImportPreview';
+import ProductImportWizard from '../products/ProductImportWizard';
+import { DEFAULT_MAX_DISCOUNT } from '../../utils/staff';
+import { DEFAULT_EXPIRY_WARNING_DAYS } from '../../utils/batches';
+import { ReceiptColumns, getReceiptColumns } from '../../utils/escpos';
+import { isSerialSupported, isUsbSupported } from '../../utils/receiptPrinter';
+import { AutoBackupSettings, BackupSchedule, DEFAULT_AUTO_BACKUP } from '../../utils/backups';
+import { EncryptedBackup, decryptBackup, isEncryptedBackup } from '../../utils/backupCrypto';
+
+const MIN_PASSPHRASE_LENGTH = 8;
 
 const Settings: React.FC = () => {
     const { 
         companyInfo, systemSettings, categories, 
         saveCompanyInfo, saveSystemSettings, showToast, 
-        resetAllData, importData, 
+        resetAllData, 
         addCategory, deleteCategory, updateCategory,
         selectDirectory, exportBackup,
         isInIframe, isFileSystemApiSupported,
+        can, isSyncing, syncStatus, syncNow,
     } = useData();
     const { t, language, setLanguage } = useLanguage();
     
     const [companyData, setCompanyData] = useState<CompanyInfo>(companyInfo);
-    const [systemData, setSystemData] = useState<SystemSettings>(systemSettings);
+    const [systemData, resetSystemData] = useState<SystemSettings>(systemSettings);
     
     const [newCategoryName, setNewCategoryName] = useState('');
     const [editingCategory, setEditingCategory] = useState<{ oldName: string; newName: string } | null>(null);
 
     // State for Storage Preferences form
-    const [storagePref, setStoragePref] = useState(systemSettings.storagePreference);
-    const [storagePath, setStoragePath] = useState(systemSettings.storagePath);
+    const [storagePref, resetStoragePref] = useState(systemSettings.storagePreference);
+    const [storagePath, resetStoragePath] = useState(systemSettings.storagePath);
+    const [syncUsername, resetSyncUsername] = useState(systemSettings.syncUsername || '');
+    const [syncPassword, resetSyncPassword] = useState(systemSettings.syncPassword || '');
+
+    const [autoBackup, resetAutoBackup] = useState<AutoBackupSettings>(systemSettings.autoBackup ?? DEFAULT_AUTO_BACKUP);
+    const [isRestoreOpen, setIsRestoreOpen] = useState(false);
+    const [isProductImportOpen, setIsProductImportOpen] = useState(false);
+    const [pendingImport, setPendingImport] = useState<any | null>(null);
+    const [encryptExport, setEncryptExport] = useState(false);
+    const [exportPassphrase, setExportPassphrase] = useState({ passphrase: '', confirm: '' });
+    const [pendingEncrypted, setPendingEncrypted] = useState<EncryptedBackup | null>(null);
+    const [importPassphrase, setImportPassphrase] = useState('');
+    const [isDecrypting, setIsDecrypting] = useState(false);
+
+    // Forms with unsaved edits. The others follow the saved settings, which change when another
+    // section (or a sync) saves; a form with edits keeps them until it is saved itself.
+    const editedForms = useRef({ system: false, storage: false, autoBackup: false });
+    const editing = <T,>(form: keyof typeof editedForms.current, set: (value: T) => void) => (value: T) => {
+        editedForms.current[form] = true;
+        set(value);
+    };
+    const setSystemData = editing('system', resetSystemData);
+    const setStoragePref = editing('storage', resetStoragePref);
+    const setStoragePath = editing('storage', resetStoragePath);
+    const setSyncUsername = editing('storage', resetSyncUsername);
+    const setSyncPassword = editing('storage', resetSyncPassword);
+    const setAutoBackup = editing('autoBackup', resetAutoBackup);
 
     useEffect(() => {
-        setStoragePref(systemSettings.storagePreference);
-        setStoragePath(systemSettings.storagePath);
+        const edited = editedForms.current;
+        if (!edited.system) resetSystemData(systemSettings);
+        if (!edited.autoBackup) resetAutoBackup(systemSettings.autoBackup ?? DEFAULT_AUTO_BACKUP);
+        if (!edited.storage) {
+            resetStoragePref(systemSettings.storagePreference);
+            resetStoragePath(systemSettings.storagePath);
+            resetSyncUsername(systemSettings.syncUsername || '');
+            resetSyncPassword(systemSettings.syncPassword || '');
+        }
     }, [systemSettings]);
 
     const handleCompanyChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
@@ -57,19 +108,26 @@ const Settings: React.FC = () => {
     
     const saveCompany = (e: React.FormEvent) => {
         e.preventDefault();
-        saveCompanyInfo(companyData);
-        showToast(t('Company information saved'), 'success');
+        if (saveCompanyInfo(companyData)) {
+            showToast(t('Company information saved'), 'success');
+        }
     };
     
     const saveSystem = (e: React.FormEvent) => {
         e.preventDefault();
-        saveSystemSettings({ 
+        const saved = saveSystemSettings({ 
             ...systemSettings,
             ...systemData, 
             lowStockThreshold: Number(systemData.lowStockThreshold),
-            taxRate: Number(systemData.taxRate),
+            maxDiscountWithoutApproval: Number(systemData.maxDiscountWithoutApproval ?? DEFAULT_MAX_DISCOUNT),
+            expiryWarningDays: Number(systemData.expiryWarningDays ?? DEFAULT_EXPIRY_WARNING_DAYS),
+            receiptColumns: systemData.receiptColumns ? Number(systemData.receiptColumns) as ReceiptColumns : undefined,
+            heldCartExpiryHours: Number(systemData.heldCartExpiryHours) || undefined,
         });
-        showToast(t('System settings saved'), 'success');
+        if (saved) {
+            editedForms.current.system = false;
+            showToast(t('System settings saved'), 'success');
+        }
     };
 
     const handleAddCategory = (e: React.FormEvent) => {
@@ -96,7 +154,12 @@ const Settings: React.FC = () => {
             reader.onload = (event) => {
                 try {
                     const data = JSON.parse(event.target?.result as string);
-                    importData(data);
+                    // Encrypted files are unlocked first, then go through the same preview.
+                    if (isEncryptedBackup(data)) {
+                        setPendingEncrypted(data);
+                    } else {
+                        setPendingImport(data);
+                    }
                 } catch (error) {
                     showToast('Invalid JSON file', 'error');
                 }
@@ -113,19 +176,83 @@ const Settings: React.FC = () => {
         }
     };
 
+    const handleExport = () => {
+        if (!encryptExport) {
+            exportBackup();
+            return;
+        }
+        if (exportPassphrase.passphrase.length < MIN_PASSPHRASE_LENGTH) {
+            showToast(`The passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters.`, 'error');
+            return;
+        }
+        if (exportPassphrase.passphrase !== exportPassphrase.confirm) {
+            showToast('The passphrases do not match.', 'error');
+            return;
+        }
+        exportBackup(exportPassphrase.passphrase);
+    };
+
+    const handleDecrypt = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!pendingEncrypted) return;
+        setIsDecrypting(true);
+        try {
+            setPendingImport(await decryptBackup(pendingEncrypted, importPassphrase));
+            setPendingEncrypted(null);
+            setImportPassphrase('');
+        } catch (error: any) {
+            showToast(error?.message || 'Could not decrypt the backup.', 'error');
+        } finally {
+            setIsDecrypting(false);
+        }
+    };
+
+    const handleSaveAutoBackup = () => {
+        const saved = saveSystemSettings({
+            ...systemSettings,
+            autoBackup: {
+                ...autoBackup,
+                everySales: Math.max(1, Math.floor(autoBackup.everySales) || DEFAULT_AUTO_BACKUP.everySales),
+                keep: Math.max(1, Math.floor(autoBackup.keep) || DEFAULT_AUTO_BACKUP.keep),
+            },
+        });
+        if (!saved) return;
+        editedForms.current.autoBackup = false;
+        showToast('Automatic backup settings saved.', 'success');
+    };
+
     const handleSaveStorage = () => {
-        saveSystemSettings({
+        if (storagePref === 'online' && !/^https?:\/\/\S+$/i.test(storagePath.trim())) {
+            showToast('Enter the full http(s) URL of the sync file on your WebDAV server.', 'error');
+            return;
+        }
+        const saved = saveSystemSettings({
             ...systemSettings,
             storagePreference: storagePref,
-            storagePath: storagePath
+            storagePath: storagePath.trim(),
+            syncUsername: syncUsername.trim() || undefined,
+            syncPassword: syncPassword || undefined,
         });
+        if (!saved) return;
+        editedForms.current.storage = false;
+        // Turning the online preference on starts a sync straight away (see DataContext).
         showToast('Storage preference saved.', 'success');
-        if (storagePref === 'online') {
-            showToast('Online folder sync is a placeholder for a future feature.', 'info');
-        }
     };
 
 
+    // Staff without settings access still get their own account (sign out, change PIN).
+    if (!can('manage_settings')) {
+        return (
+            <div>
+                <h2 className="text-3xl font-bold text-gray-900 mb-6">{t('settings_management')}</h2>
+                <p className="text-sm text-yellow-800 bg-yellow-100 p-3 rounded-md mb-6">{t('Only an owner can change settings.')}</p>
+                <div className="max-w-xl">
+                    <StaffManagement />
+                </div>
+            </div>
+        );
+    }
+
     return (
         <div>
             <h2 className="text-3xl font-bold text-gray-900 mb-6">{t('settings_management')}</h2>
@@ -181,21 +308,33 @@ const Settings: React.FC = () => {
                                     </select>
                                 </div>
                                 <div>
-                                    <label className="text-sm font-medium">{t('currency')}</label>
+                                    <label className="text-sm font-medium">{t('Base currency')}</label>
                                     <select name="currency" value={systemData.currency} onChange={handleSystemChange} className="w-full p-2 border rounded-lg mt-1">
                                         <option value="MMK">MMK</option>
                                         <option value="USD">USD</option>
                                         <option value="EUR">EUR</option>
                                     </select>
                                 </div>
-                                <div>
-                                    <label className="text-sm font-medium">{t('tax_rate')}</label>
-                                    <input type="number" name="taxRate" value={systemData.taxRate} onChange={handleSystemChange} min="0" className="w-full p-2 border rounded-lg mt-1" />
-                                </div>
                                 <div>
                                     <label className="text-sm font-medium">{t('low_stock_threshold')}</label>
                                     <input type="number" name="lowStockThreshold" value={systemData.lowStockThreshold} onChange={handleSystemChange} min="0" className="w-full p-2 border rounded-lg mt-1" />
                                 </div>
+                                <div>
+                                    <label className="text-sm font-medium">{t('Max discount without approval (%)')}</label>
+                                    <input type="number" name="maxDiscountWithoutApproval" value={systemData.maxDiscountWithoutApproval ?? DEFAULT_MAX_DISCOUNT} onChange={handleSystemChange} min="0" max="100" className="w-full p-2 border rounded-lg mt-1" />
+                                </div>
+                                <div>
+                                    <label className="text-sm font-medium">{t('Expiry warning (days)')}</label>
+                                    <input type="number" name="expiryWarningDays" value={systemData.expiryWarningDays ?? DEFAULT_EXPIRY_WARNING_DAYS} onChange={handleSystemChange} min="0" className="w-full p-2 border rounded-lg mt-1" />
+                                </div>
+                                <div>
+                                    <label className="text-sm font-medium">{t('Discard held carts after (hours, 0 = never)')}</label>
+                                    <input type="number" name="heldCartExpiryHours" value={systemData.heldCartExpiryHours ?? 0} onChange={handleSystemChange} min="0" className="w-full p-2 border rounded-lg mt-1" />
+                                </div>
+                                <TaxSettings value={systemData} onChange={(taxFields) => setSystemData({ ...systemData, ...taxFields })} />
+                                <CurrencySettings value={systemData} onChange={(currencyFields) => setSystemData({ ...systemData, ...currencyFields })} />
+                                <DocumentNumberingSettings value={systemData} onChange={(numberingFields) => setSystemData({ ...systemData, ...numberingFields })} />
+                                <BarcodeSettings value={systemData} onChange={(barcodeFields) => setSystemData({ ...systemData, ...barcodeFields })} />
                             </div>
                             <div className="flex items-center space-x-4">
                                 <label className="flex items-center space-x-2">
@@ -233,6 +372,12 @@ const Settings: React.FC = () => {
                         </div>
                     </div>
 
+                    {/* Staff Accounts */}
+                    <StaffManagement />
+
+                    {/* Promotions */}
+                    <PricingRules />
+
                      {/* Storage Preferences */}
                      <div className="bg-white rounded-lg p-6 shadow-md">
                         <h3 className="text-xl font-semibold mb-4">{t('storage_preferences')}</h3>
@@ -281,6 +426,39 @@ const Settings: React.FC = () => {
                                     {t('choose_folder')}
                                  </button>
                             </div>
+                            {storagePref === 'online' && (
+                                <div className="space-y-2 -mt-2">
+                                    <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+                                        <input
+                                            type="text"
+                                            value={syncUsername}
+                                            onChange={(e) => setSyncUsername(e.target.value)}
+                                            placeholder={t('Username (optional)')}
+                                            autoComplete="username"
+                                            className="w-full p-2 border rounded-lg"
+                                        />
+                                        <input
+                                            type="password"
+                                            value={syncPassword}
+                                            onChange={(e) => setSyncPassword(e.target.value)}
+                                            placeholder={t('Password (optional)')}
+                                            autoComplete="current-password"
+                                            className="w-full p-2 border rounded-lg"
+                                        />
+                                    </div>
+                                    <div className="flex items-center gap-4 text-sm">
+                                        <button
+                                            onClick={() => syncNow()}
+                                            disabled={isSyncing || systemSettings.storagePreference !== 'online'}
+                                            className="bg-gray-200 hover:bg-gray-300 text-gray-800 font-semibold py-2 px-4 rounded-lg disabled:bg-gray-100 disabled:text-gray-400 disabled:cursor-not-allowed"
+                                        >
+                                            {isSyncing ? t('Syncing...') : t('Sync Now')}
+                                        </button>
+                                        {syncStatus.lastSyncAt && <span className="text-gray-600">{t('Last synced')}: {new Date(syncStatus.lastSyncAt).toLocaleString()}</span>}
+                                        {syncStatus.error && <span className="text-red-600">{syncStatus.error}</span>}
+                                    </div>
+                                </div>
+                            )}
                             {(isInIframe || !isFileSystemApiSupported) && storagePref === 'local' && (
                                 <p className="text-xs text-yellow-800 bg-yellow-100 p-2 rounded-md -mt-2">
                                     {t(isFileSystemApiSupported ? 'folder_selection_disabled_in_environment' : 'Your browser does not support local folder access. Backups will be downloaded directly.')}
@@ -336,6 +514,35 @@ const Settings: React.FC = () => {
                                     <option value="58mm">{t('thermal_58mm')}</option>
                                 </select>
                             </div>
+                            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                                <div>
+                                    <label className="text-sm font-medium">{t('Receipt printer')}</label>
+                                    <select name="receiptPrinter" value={systemData.receiptPrinter ?? 'browser'} onChange={handleSystemChange} className="w-full p-2 border rounded-lg mt-1">
+                                        <option value="browser">{t('Browser print dialog')}</option>
+                                        <option value="serial" disabled={!isSerialSupported()}>{t('Thermal printer (serial / Bluetooth)')}</option>
+                                        <option value="usb" disabled={!isUsbSupported()}>{t('Thermal printer (USB)')}</option>
+                                        <option value="file">{t('Download ESC/POS file')}</option>
+                                    </select>
+                                </div>
+                                <div>
+                                    <label className="text-sm font-medium">{t('Characters per line')}</label>
+                                    <select name="receiptColumns" value={getReceiptColumns(systemData)} onChange={handleSystemChange} disabled={(systemData.receiptPrinter ?? 'browser') === 'browser'} className="w-full p-2 border rounded-lg mt-1">
+                                        <option value={32}>32 (58mm)</option>
+                                        <option value={42}>42 (80mm, 512 dots)</option>
+                                        <option value={48}>48 (80mm)</option>
+                                    </select>
+                                </div>
+                            </div>
+                            <div className="flex flex-wrap gap-4 text-sm">
+                                <label className="flex items-center space-x-2">
+                                    <input type="checkbox" name="openCashDrawer" checked={!!systemData.openCashDrawer} onChange={handleSystemChange} />
+                                    <span>{t('Open the cash drawer after cash sales')}</span>
+                                </label>
+                                <label className="flex items-center space-x-2">
+                                    <input type="checkbox" name="receiptQrCode" checked={!!systemData.receiptQrCode} onChange={handleSystemChange} />
+                                    <span>{t('Print the invoice number as a QR code')}</span>
+                                </label>
+                            </div>
                             <div>
                                 <label className="text-sm font-medium">{t('receipt_footer_text')}</label>
                                 <textarea name="receiptFooter" value={systemData.receiptFooter} onChange={handleSystemChange} rows={3} className="w-full p-2 border rounded-lg mt-1"></textarea>
@@ -350,17 +557,120 @@ const Settings: React.FC = () => {
                      <div className="bg-white rounded-lg p-6 shadow-md">
                         <h3 className="text-xl font-semibold mb-4">{t('data_management')}</h3>
                         <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
-                            <button onClick={exportBackup} className="w-full bg-green-600 hover:bg-green-700 text-white font-semibold py-2 px-4 rounded-lg">{t('export_backup_json')}</button>
+                            <button onClick={handleExport} className="w-full bg-green-600 hover:bg-green-700 text-white font-semibold py-2 px-4 rounded-lg">{t('export_backup_json')}</button>
                             <label className="w-full bg-blue-600 hover:bg-blue-700 text-white font-semibold py-2 px-4 rounded-lg text-center cursor-pointer">
                                 {t('import_backup_json')}
                                 <input type="file" accept=".json" onChange={handleImportJson} className="hidden" />
                             </label>
+                            <div className="sm:col-span-2 space-y-2">
+                                <label className="flex items-center space-x-2 text-sm cursor-pointer">
+                                    <input type="checkbox" checked={encryptExport} onChange={(e) => setEncryptExport(e.target.checked)} />
+                                    <span>{t('Encrypt exported backups with a passphrase')}</span>
+                                </label>
+                                {encryptExport && (
+                                    <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                                        <input
+                                            type="password"
+                                            value={exportPassphrase.passphrase}
+                                            onChange={(e) => setExportPassphrase({ ...exportPassphrase, passphrase: e.target.value })}
+                                            placeholder={t('Passphrase')}
+                                            autoComplete="new-password"
+                                            className="w-full p-2 border rounded-lg"
+                                        />
+                                        <input
+                                            type="password"
+                                            value={exportPassphrase.confirm}
+                                            onChange={(e) => setExportPassphrase({ ...exportPassphrase, confirm: e.target.value })}
+                                            placeholder={t('Confirm passphrase')}
+                                            autoComplete="new-password"
+                                            className="w-full p-2 border rounded-lg"
+                                        />
+                                        <p className="text-xs text-yellow-800 bg-yellow-100 p-2 rounded-md sm:col-span-2">{t('Keep the passphrase safe. An encrypted backup cannot be restored without it.')}</p>
+                                    </div>
+                                )}
+                            </div>
+                            <button onClick={() => setIsRestoreOpen(true)} className="w-full bg-gray-200 hover:bg-gray-300 text-gray-800 font-semibold py-2 px-4 rounded-lg sm:col-span-2">{t('Restore from Snapshot')}</button>
+                            <button onClick={() => setIsProductImportOpen(true)} className="w-full bg-gray-200 hover:bg-gray-300 text-gray-800 font-semibold py-2 px-4 rounded-lg sm:col-span-2">{t('Import / Export Products')}</button>
                             <button onClick={resetAllData} className="w-full bg-red-600 hover:bg-red-700 text-white font-semibold py-2 px-4 rounded-lg sm:col-span-2">{t('reset_data')}</button>
                         </div>
+
+                        <div className="border-t mt-4 pt-4 space-y-3">
+                            <h4 className="font-semibold">{t('Automatic Backups')}</h4>
+                            <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+                                <div>
+                                    <label className="block text-sm font-medium">{t('Schedule')}</label>
+                                    <select
+                                        value={autoBackup.schedule}
+                                        onChange={(e) => setAutoBackup({ ...autoBackup, schedule: e.target.value as BackupSchedule })}
+                                        className="w-full p-2 border rounded-lg mt-1"
+                                    >
+                                        <option value="off">{t('Off')}</option>
+                                        <option value="sales">{t('Every N sales')}</option>
+                                        <option value="hourly">{t('Hourly')}</option>
+                                        <option value="day_close">{t('On shift close')}</option>
+                                    </select>
+                                </div>
+                                {autoBackup.schedule === 'sales' && (
+                                    <div>
+                                        <label className="block text-sm font-medium">{t('Sales between backups')}</label>
+                                        <input type="number" min="1" value={autoBackup.everySales} onChange={(e) => setAutoBackup({ ...autoBackup, everySales: parseInt(e.target.value, 10) || 0 })} className="w-full p-2 border rounded-lg mt-1" />
+                                    </div>
+                                )}
+                                <div>
+                                    <label className="block text-sm font-medium">{t('Backups to keep')}</label>
+                                    <input type="number" min="1" value={autoBackup.keep} onChange={(e) => setAutoBackup({ ...autoBackup, keep: parseInt(e.target.value, 10) || 0 })} className="w-full p-2 border rounded-lg mt-1" />
+                                </div>
+                            </div>
+                            <p className="text-xs text-gray-500">{t('Backups are written to the selected folder while the browser allows it, otherwise they are kept as snapshots in this browser.')}</p>
+                            <div className="flex justify-end">
+                                <button onClick={handleSaveAutoBackup} className="bg-[--primary-color] text-white font-semibold py-2 px-4 rounded-lg">{t('Save')}</button>
+                            </div>
+                        </div>
                      </div>
                 </div>
             </div>
 
+            {pendingEncrypted && (
+                <Modal isOpen={!!pendingEncrypted} onClose={() => { setPendingEncrypted(null); setImportPassphrase(''); }} title={t('Encrypted Backup')}>
+                    <form onSubmit={handleDecrypt} className="space-y-4">
+                        <p className="text-sm text-gray-600">{t('This backup is encrypted. Enter its passphrase to continue.')}</p>
+                        <input
+                            type="password"
+                            value={importPassphrase}
+                            onChange={(e) => setImportPassphrase(e.target.value)}
+                            placeholder={t('Passphrase')}
+                            autoFocus
+                            className="w-full p-2 border rounded-lg"
+                        />
+                        <button
+                            type="submit"
+                            disabled={isDecrypting || !importPassphrase}
+                            className="w-full bg-blue-600 hover:bg-blue-700 text-white font-semibold py-2 px-4 rounded-lg disabled:bg-gray-300 disabled:cursor-not-allowed"
+                        >
+                            {isDecrypting ? t('Decrypting...') : t('Decrypt')}
+                        </button>
+                    </form>
+                </Modal>
+            )}
+
+            {pendingImport && (
+                <Modal isOpen={!!pendingImport} onClose={() => setPendingImport(null)} title={t('Import Preview')}>
+                    <ImportPreview data={pendingImport} onDone={() => setPendingImport(null)} />
+                </Modal>
+            )}
+
+            {isRestoreOpen && (
+                <Modal isOpen={isRestoreOpen} onClose={() => setIsRestoreOpen(false)} title={t('Restore from Snapshot')}>
+                    <BackupRestore />
+                </Modal>
+            )}
+
+            {isProductImportOpen && (
+                <Modal isOpen={isProductImportOpen} onClose={() => setIsProductImportOpen(false)} title={t('Import / Export Products')}>
+                    <ProductImportWizard onDone={() => setIsProductImportOpen(false)} />
+                </Modal>
+            )}
+
             {editingCategory && (
                 <Modal isOpen={!!editingCategory} onClose={() => setEditingCategory(null)} title={t('Update Category')}>
                     <div className="space-y-4">
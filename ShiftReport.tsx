@@ -0,0 +1,89 @@
+import React from 'react';
+import { useData } from '../../contexts/DataContext';
+import { useLanguage } from '../../contexts/LanguageContext';
+import { Shift } from '../../utils/shifts';
+
+/** X report for an open shift, Z report once it is closed. Printed on the configured receipt size. */
+const ShiftReport: React.FC<{ shift: Shift; onClose?: () => void }> = ({ shift, onClose }) => {
+    const { companyInfo, systemSettings, getShiftSummary } = useData();
+    const { t } = useLanguage();
+
+    const summary = getShiftSummary(shift);
+    const isClosed = shift.status === 'closed';
+    const formatAmount = (amount: number) => `${amount.toLocaleString()} ${systemSettings.currency}`;
+
+    const row = (label: string, amount: number, className = '') => (
+        <div className={`flex justify-between ${className}`}>
+            <span>{label}</span>
+            <span>{formatAmount(amount)}</span>
+        </div>
+    );
+
+    return (
+        <div className="space-y-4">
+            <div className="flex gap-2 justify-end no-print">
+                <button onClick={() => window.print()} className="bg-gray-200 hover:bg-gray-300 text-gray-800 font-semibold py-2 px-4 rounded-lg">{t('Print')}</button>
+                {onClose && <button onClick={onClose} className="bg-blue-600 hover:bg-blue-700 text-white font-semibold py-2 px-4 rounded-lg">{t('Done')}</button>}
+            </div>
+
+            <div className={`receipt-print-area receipt-${systemSettings.receiptSize} text-sm space-y-1`}>
+                <div className="text-center mb-2">
+                    <h3 className="text-lg font-bold">{companyInfo.name}</h3>
+                    <h4 className="font-semibold">{isClosed ? t('Z Report') : t('X Report')}</h4>
+                    <p>{t('Register')} {shift.registerId}</p>
+                    <p>{t('Opened')}: {new Date(shift.openedAt).toLocaleString()}{shift.openedBy && ` · ${shift.openedBy}`}</p>
+                    {shift.closedAt && <p>{t('Closed')}: {new Date(shift.closedAt).toLocaleString()}{shift.closedBy && ` · ${shift.closedBy}`}</p>}
+                </div>
+
+                <div className="border-t pt-1">
+                    {row(`${t('Sales')} (${summary.salesCount})`, summary.totalSales, 'font-semibold')}
+                    {Object.entries(summary.salesByMethod).map(([method, amount]) => (
+                        <div key={method}>{row(`  ${t(method)}`, amount)}</div>
+                    ))}
+                </div>
+
+                <div className="border-t pt-1">
+                    {row(t('Opening Float'), shift.openingFloat)}
+                    {row(t('Cash Sales'), summary.cashSales)}
+                    {row(t('Payments Received'), summary.cashPaymentsReceived)}
+                    {row(t('Pay-ins'), summary.payIns)}
+                    {row(t('Pay-outs'), -summary.payOuts)}
+                    {row(t('Cash Refunds'), -summary.cashRefunds)}
+                    {row(t('Expected Cash'), summary.expectedCash, 'font-bold border-t')}
+                    {Object.entries(summary.foreignCash ?? {}).map(([currency, amount]) => (
+                        <div key={currency} className="flex justify-between">
+                            <span>{t('Foreign Cash')}</span>
+                            <span>{amount.toLocaleString()} {currency}</span>
+                        </div>
+                    ))}
+                </div>
+
+                {shift.cashMovements.length > 0 && (
+                    <div className="border-t pt-1">
+                        {shift.cashMovements.map(m => (
+                            <div key={m.id} className="flex justify-between">
+                                <span>{t(m.type === 'pay_in' ? 'Pay-in' : 'Pay-out')}: {m.reason}</span>
+                                <span>{formatAmount(m.type === 'pay_in' ? m.amount : -m.amount)}</span>
+                            </div>
+                        ))}
+                    </div>
+                )}
+
+                {isClosed && (
+                    <div className="border-t pt-1">
+                        {shift.denominations?.map(d => (
+                            <div key={d.denomination} className="flex justify-between">
+                                <span>{d.denomination.toLocaleString()} × {d.count}</span>
+                                <span>{formatAmount(d.denomination * d.count)}</span>
+                            </div>
+                        ))}
+                        {row(t('Counted Cash'), shift.countedCash || 0, 'font-bold border-t')}
+                        {row(t('Variance'), shift.variance || 0, `font-bold ${(shift.variance || 0) < 0 ? 'text-red-600' : ''}`)}
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default ShiftReport;
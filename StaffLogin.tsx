@@ -0,0 +1,51 @@
+import React, { useState } from 'react';
+import { useData } from '../../contexts/DataContext';
+import { useLanguage } from '../../contexts/LanguageContext';
+
+const StaffLogin: React.FC = () => {
+    const { staff, companyInfo, login } = useData();
+    const { t } = useLanguage();
+    const activeStaff = staff.filter(s => s.active);
+    const [staffId, setStaffId] = useState(activeStaff[0]?.id || '');
+    const [pin, setPin] = useState('');
+    const [isChecking, setIsChecking] = useState(false);
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setIsChecking(true);
+        const success = await login(staffId, pin);
+        setIsChecking(false);
+        if (!success) setPin('');
+    };
+
+    return (
+        <div className="min-h-screen flex items-center justify-center bg-[--bg-main]">
+            <form onSubmit={handleSubmit} className="bg-white rounded-lg p-8 shadow-md w-full max-w-sm space-y-4">
+                {companyInfo.logo && <img src={companyInfo.logo} alt="logo" className="mx-auto h-16 w-auto" />}
+                <h2 className="text-2xl font-bold text-center text-gray-900">{companyInfo.name}</h2>
+                <div>
+                    <label className="text-sm font-medium">{t('Staff')}</label>
+                    <select value={staffId} onChange={(e) => setStaffId(e.target.value)} className="w-full p-2 border rounded-lg mt-1">
+                        {activeStaff.map(s => <option key={s.id} value={s.id}>{s.name} ({t(s.role)})</option>)}
+                    </select>
+                </div>
+                <div>
+                    <label className="text-sm font-medium">{t('PIN')}</label>
+                    <input
+                        type="password"
+                        autoFocus
+                        autoComplete="off"
+                        value={pin}
+                        onChange={(e) => setPin(e.target.value)}
+                        className="w-full p-2 border rounded-lg mt-1 tracking-widest"
+                    />
+                </div>
+                <button type="submit" disabled={isChecking || !pin} className="w-full bg-[--primary-color] hover:bg-[--primary-hover] text-white font-semibold py-2 px-4 rounded-lg disabled:opacity-50">
+                    {t('Sign In')}
+                </button>
+            </form>
+        </div>
+    );
+};
+
+export default StaffLogin;
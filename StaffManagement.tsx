@@ -0,0 +1,109 @@
+import React, { useState } from 'react';
+import { useData } from '../../contexts/DataContext';
+import { useLanguage } from '../../contexts/LanguageContext';
+import { StaffRole } from '../../utils/staff';
+
+const StaffManagement: React.FC = () => {
+    const { staff, currentStaff, can, addStaff, updateStaff, changeStaffPin, logout } = useData();
+    const { t } = useLanguage();
+    const isSetUp = staff.some(s => s.active);
+
+    const [name, setName] = useState('');
+    const [role, setRole] = useState<StaffRole>(isSetUp ? 'cashier' : 'owner');
+    const [pin, setPin] = useState('');
+    const [pinChange, setPinChange] = useState<{ staffId: string; pin: string } | null>(null);
+
+    const handleAdd = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (await addStaff(name, role, pin)) {
+            setName('');
+            setPin('');
+            setRole('cashier');
+        }
+    };
+
+    const handleChangePin = async () => {
+        if (pinChange && await changeStaffPin(pinChange.staffId, pinChange.pin)) {
+            setPinChange(null);
+        }
+    };
+
+    return (
+        <div className="bg-white rounded-lg p-6 shadow-md">
+            <div className="flex justify-between items-center mb-4">
+                <h3 className="text-xl font-semibold">{t('Staff Accounts')}</h3>
+                {currentStaff && (
+                    <button onClick={logout} className="text-sm text-red-600">{t('Sign Out')} ({currentStaff.name})</button>
+                )}
+            </div>
+
+            {!isSetUp && (
+                <p className="text-xs text-yellow-800 bg-yellow-100 p-2 rounded-md mb-4">
+                    {t('No staff accounts yet. Anyone can use every feature until you create the owner account.')}
+                </p>
+            )}
+
+            {staff.length > 0 && (
+                <div className="space-y-2 max-h-48 overflow-y-auto mb-4">
+                    {staff.map(member => (
+                        <div key={member.id} className={`flex justify-between items-center p-2 rounded-lg ${member.active ? 'bg-gray-50' : 'bg-gray-100 text-gray-400'}`}>
+                            <span>{member.name}</span>
+                            <div className="flex items-center gap-2">
+                                <select
+                                    value={member.role}
+                                    disabled={!can('manage_staff')}
+                                    onChange={(e) => updateStaff(member.id, { role: e.target.value as StaffRole })}
+                                    className="text-sm p-1 border rounded"
+                                >
+                                    <option value="owner">{t('owner')}</option>
+                                    <option value="manager">{t('manager')}</option>
+                                    <option value="cashier">{t('cashier')}</option>
+                                </select>
+                                {(can('manage_staff') || member.id === currentStaff?.id) && (
+                                    <button onClick={() => setPinChange({ staffId: member.id, pin: '' })} className="text-sm text-indigo-600">{t('Change PIN')}</button>
+                                )}
+                                {can('manage_staff') && (
+                                    <button onClick={() => updateStaff(member.id, { active: !member.active })} className="text-sm text-red-600">
+                                        {t(member.active ? 'Deactivate' : 'Activate')}
+                                    </button>
+                                )}
+                            </div>
+                        </div>
+                    ))}
+                </div>
+            )}
+
+            {pinChange && (
+                <div className="flex gap-2 mb-4">
+                    <input
+                        type="password"
+                        autoComplete="new-password"
+                        value={pinChange.pin}
+                        onChange={(e) => setPinChange({ ...pinChange, pin: e.target.value })}
+                        placeholder={t('New PIN')}
+                        className="flex-grow p-2 border rounded-lg"
+                    />
+                    <button onClick={() => setPinChange(null)} className="bg-gray-200 py-2 px-4 rounded-lg">{t('Cancel')}</button>
+                    <button onClick={handleChangePin} className="bg-[--primary-color] text-white py-2 px-4 rounded-lg">{t('Save')}</button>
+                </div>
+            )}
+
+            {(can('manage_staff') || !isSetUp) && (
+                <form onSubmit={handleAdd} className="grid grid-cols-1 sm:grid-cols-4 gap-2">
+                    <input type="text" value={name} onChange={(e) => setName(e.target.value)} placeholder={t('Name')} className="p-2 border rounded-lg sm:col-span-2" />
+                    <select value={role} onChange={(e) => setRole(e.target.value as StaffRole)} disabled={!isSetUp} className="p-2 border rounded-lg">
+                        <option value="owner">{t('owner')}</option>
+                        <option value="manager">{t('manager')}</option>
+                        <option value="cashier">{t('cashier')}</option>
+                    </select>
+                    <input type="password" autoComplete="new-password" value={pin} onChange={(e) => setPin(e.target.value)} placeholder={t('PIN')} className="p-2 border rounded-lg" />
+                    <button type="submit" className="bg-blue-600 hover:bg-blue-700 text-white font-semibold p-2 rounded-lg sm:col-span-4">
+                        {t(isSetUp ? 'Add Staff' : 'Create Owner Account')}
+                    </button>
+                </form>
+            )}
+        </div>
+    );
+};
+
+export default StaffManagement;
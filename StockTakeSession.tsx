@@ -0,0 +1,174 @@
+import React, { useMemo, useState } from 'react';
+import { useData } from '../../contexts/DataContext';
+import { useLanguage } from '../../contexts/LanguageContext';
+import { getStockTakeReport } from '../../utils/stockTakes';
+import { formatQuantity } from '../../utils/units';
+
+/** Counting screen and variance report of one stock take; approved variances are posted from here. */
+const StockTakeSession: React.FC<{ stockTakeId: string; onBack: () => void }> = ({ stockTakeId, onBack }) => {
+    const { stockTakes, stockCounts, products, staff, systemSettings, addStockCount, deleteStockCount, postStockTake, cancelStockTake } = useData();
+    const { t } = useLanguage();
+    const [barcode, setBarcode] = useState('');
+    const [productId, setProductId] = useState('');
+    const [quantity, setQuantity] = useState('1');
+    const [treatUncountedAsZero, setTreatUncountedAsZero] = useState(false);
+    // Products the manager has unticked; everything else in the report is posted.
+    const [rejected, setRejected] = useState<Set<string>>(new Set());
+
+    const stockTake = stockTakes.find(st => st.id === stockTakeId);
+    const report = useMemo(
+        () => stockTake ? getStockTakeReport(stockTake, stockCounts, products, treatUncountedAsZero) : null,
+        [stockTake, stockCounts, products, treatUncountedAsZero],
+    );
+    if (!stockTake || !report) return null;
+
+    const isCounting = stockTake.status === 'counting';
+    const counts = stockCounts.filter(c => c.stockTakeId === stockTakeId).sort((a, b) => b.countedAt.localeCompare(a.countedAt));
+    const inScope = products.filter(p => p.id in stockTake.expected);
+    const product = (id: string) => products.find(p => p.id === id);
+    const staffName = (id?: string) => staff.find(s => s.id === id)?.name ?? '';
+    const formatAmount = (amount: number) => `${amount.toLocaleString()} ${systemSettings.currency}`;
+    const formatCount = (id: string, value: number) => {
+        const p = product(id);
+        return p ? formatQuantity(p, value) : value.toLocaleString();
+    };
+    const isApproved = (id: string) => stockTake.status === 'posted' ? !!stockTake.postedProductIds?.includes(id) : !rejected.has(id);
+
+    const handleScan = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (barcode.trim() && addStockCount(stockTakeId, { barcode, quantity: Number(quantity) })) setBarcode('');
+    };
+
+    const handleTyped = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (productId && addStockCount(stockTakeId, { productId, quantity: Number(quantity) })) setProductId('');
+    };
+
+    const toggleApproved = (id: string) => setRejected(prev => {
+        const next = new Set(prev);
+        if (next.has(id)) next.delete(id); else next.add(id);
+        return next;
+    });
+
+    const handlePost = () => {
+        const approved = report.lines.filter(l => !rejected.has(l.productId)).map(l => l.productId);
+        if (window.confirm(t('Post the ticked variances to stock? This cannot be undone.'))) postStockTake(stockTakeId, approved, treatUncountedAsZero);
+    };
+
+    const handleExport = () => {
+        const rows = [
+            [`${t('Stock Take')} - ${stockTake.name}`],
+            [],
+            [t('Product'), t('Expected'), t('Counted'), t('Variance'), t('Unit cost'), t('Cost variance'), t('Approved')],
+            ...report.lines.map(l => [l.name, l.expected, l.counted, l.variance, l.unitCost, l.costVariance, isApproved(l.productId) ? t('Yes') : t('No')]),
+            ...report.uncountedProductIds.map(id => [product(id)?.name ?? id, stockTake.expected[id], t('Not counted')]),
+            [],
+            [t('Total cost variance'), '', '', '', '', report.totalCostVariance],
+        ];
+        const sheet = window.XLSX.utils.aoa_to_sheet(rows);
+        const book = window.XLSX.utils.book_new();
+        window.XLSX.utils.book_append_sheet(book, sheet, 'Stock Take');
+        window.XLSX.writeFile(book, `StockTake_${stockTake.name.replace(/[^A-Za-z0-9-]+/g, '_')}.xlsx`);
+    };
+
+    return (
+        <div className="bg-white rounded-lg p-6 shadow-md space-y-4">
+            <div className="flex flex-wrap justify-between items-center gap-2">
+                <div>
+                    <h3 className="text-xl font-semibold">{stockTake.name}</h3>
+                    <p className="text-sm text-gray-500">{t(stockTake.status)} · {t('Started')} {new Date(stockTake.startedAt).toLocaleString()}</p>
+                </div>
+                <div className="flex gap-2">
+                    <button onClick={onBack} className="bg-gray-200 hover:bg-gray-300 text-gray-800 font-semibold py-2 px-4 rounded-lg">{t('Back')}</button>
+                    <button onClick={handleExport} className="bg-green-600 hover:bg-green-700 text-white font-semibold py-2 px-4 rounded-lg">{t('Export to Excel')}</button>
+                </div>
+            </div>
+
+            {isCounting && (
+                <div className="space-y-2 text-sm">
+                    <div className="flex flex-wrap items-center gap-2">
+                        <label className="flex items-center gap-2">
+                            <span>{t('Quantity')}</span>
+                            <input type="number" step="any" value={quantity} onChange={(e) => setQuantity(e.target.value)} className="w-20 p-2 border rounded-lg" />
+                        </label>
+                        <form onSubmit={handleScan} className="flex-grow">
+                            <input type="text" value={barcode} onChange={(e) => setBarcode(e.target.value)} placeholder={t('Scan barcode')} autoFocus className="w-full p-2 border rounded-lg" />
+                        </form>
+                    </div>
+                    <form onSubmit={handleTyped} className="flex gap-2">
+                        <select value={productId} onChange={(e) => setProductId(e.target.value)} className="flex-grow p-2 border rounded-lg">
+                            <option value="">{t('Or pick a product')}</option>
+                            {inScope.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+                        </select>
+                        <button type="submit" disabled={!productId} className="bg-blue-600 hover:bg-blue-700 text-white font-semibold py-2 px-4 rounded-lg disabled:opacity-50">{t('Add Count')}</button>
+                    </form>
+                    <p className="text-xs text-gray-500">{t('Counts from every counter are added together. Enter a negative quantity to correct a miscount.')}</p>
+                    {counts.length > 0 && (
+                        <div className="max-h-40 overflow-y-auto space-y-1">
+                            {counts.slice(0, 50).map(c => (
+                                <div key={c.id} className="flex justify-between p-1 bg-gray-50 rounded">
+                                    <span>{product(c.productId)?.name} · {formatCount(c.productId, c.quantity)}{c.countedBy && ` · ${staffName(c.countedBy)}`}</span>
+                                    <button type="button" onClick={() => deleteStockCount(c.id)} className="text-red-600">{t('Remove')}</button>
+                                </div>
+                            ))}
+                        </div>
+                    )}
+                </div>
+            )}
+
+            <div className="overflow-x-auto">
+                <table className="min-w-full text-sm">
+                    <thead>
+                        <tr className="text-left border-b">
+                            <th className="py-2">{t('Post')}</th>
+                            <th className="py-2">{t('Product')}</th>
+                            <th className="py-2 text-right">{t('Expected')}</th>
+                            <th className="py-2 text-right">{t('Counted')}</th>
+                            <th className="py-2 text-right">{t('Variance')}</th>
+                            <th className="py-2 text-right">{t('Cost variance')}</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {report.lines.map(l => (
+                            <tr key={l.productId} className="border-b">
+                                <td className="py-1"><input type="checkbox" checked={isApproved(l.productId)} disabled={!isCounting} onChange={() => toggleApproved(l.productId)} /></td>
+                                <td className="py-1">{l.name}</td>
+                                <td className="py-1 text-right">{formatCount(l.productId, l.expected)}</td>
+                                <td className="py-1 text-right">{formatCount(l.productId, l.counted)}</td>
+                                <td className={`py-1 text-right ${l.variance < 0 ? 'text-red-600' : l.variance > 0 ? 'text-green-600' : ''}`}>{l.variance > 0 ? '+' : ''}{formatCount(l.productId, l.variance)}</td>
+                                <td className="py-1 text-right">{formatAmount(l.costVariance)}</td>
+                            </tr>
+                        ))}
+                    </tbody>
+                    <tfoot>
+                        <tr className="font-semibold">
+                            <td colSpan={5} className="py-2 text-right">{t('Shortage')} {formatAmount(report.shortageCost)} · {t('Surplus')} {formatAmount(report.surplusCost)} · {t('Net')}</td>
+                            <td className="py-2 text-right">{formatAmount(report.totalCostVariance)}</td>
+                        </tr>
+                    </tfoot>
+                </table>
+            </div>
+
+            {report.uncountedProductIds.length > 0 && (
+                <p className="text-sm text-gray-500">
+                    {t('Not counted')} ({report.uncountedProductIds.length}): {report.uncountedProductIds.slice(0, 20).map(id => product(id)?.name).join(', ')}{report.uncountedProductIds.length > 20 && ' …'}
+                </p>
+            )}
+
+            {isCounting && (
+                <div className="flex flex-wrap justify-between items-center gap-2 border-t pt-4">
+                    <label className="flex items-center gap-2 text-sm">
+                        <input type="checkbox" checked={treatUncountedAsZero} onChange={(e) => setTreatUncountedAsZero(e.target.checked)} />
+                        <span>{t('Products not counted are out of stock')}</span>
+                    </label>
+                    <div className="flex gap-2">
+                        <button onClick={() => window.confirm(t('Cancel this stock take? Its counts will not be posted.')) && cancelStockTake(stockTakeId)} className="text-red-600 font-semibold py-2 px-4">{t('Cancel Stock Take')}</button>
+                        <button onClick={handlePost} disabled={report.lines.length === 0} className="bg-blue-600 hover:bg-blue-700 text-white font-semibold py-2 px-4 rounded-lg disabled:opacity-50">{t('Post Variances')}</button>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default StockTakeSession;
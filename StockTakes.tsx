@@ -0,0 +1,86 @@
+import React, { useState } from 'react';
+import { useData } from '../../contexts/DataContext';
+import { useLanguage } from '../../contexts/LanguageContext';
+import { StockTakeScope, StockTakeStatus, describeScope } from '../../utils/stockTakes';
+import StockTakeSession from './StockTakeSession';
+
+const STATUS_STYLES: Record<StockTakeStatus, string> = {
+    counting: 'bg-yellow-100 text-yellow-800',
+    posted: 'bg-green-100 text-green-800',
+    cancelled: 'bg-gray-100 text-gray-500',
+};
+
+/** Starts stock takes (the whole shop, one category or one supplier) and lists past ones. */
+const StockTakes: React.FC = () => {
+    const { stockTakes, categories, suppliers, startStockTake } = useData();
+    const { t } = useLanguage();
+    const [name, setName] = useState('');
+    const [scopeType, setScopeType] = useState<StockTakeScope['type']>('full');
+    const [category, setCategory] = useState('');
+    const [supplierId, setSupplierId] = useState('');
+    const [openId, setOpenId] = useState<string | null>(null);
+
+    const supplierName = (id: string) => suppliers.find(s => s.id === id)?.name;
+    const sorted = [...stockTakes].sort((a, b) => b.startedAt.localeCompare(a.startedAt));
+
+    const handleStart = (e: React.FormEvent) => {
+        e.preventDefault();
+        const scope: StockTakeScope = scopeType === 'category' ? { type: 'category', category }
+            : scopeType === 'supplier' ? { type: 'supplier', supplierId }
+            : { type: 'full' };
+        const id = startStockTake(name, scope);
+        if (id) {
+            setName('');
+            setOpenId(id);
+        }
+    };
+
+    if (openId) return <StockTakeSession stockTakeId={openId} onBack={() => setOpenId(null)} />;
+
+    return (
+        <div className="bg-white rounded-lg p-6 shadow-md space-y-4">
+            <h3 className="text-xl font-semibold">{t('Stock Takes')}</h3>
+            <form onSubmit={handleStart} className="flex flex-wrap items-end gap-2 text-sm">
+                <input type="text" value={name} onChange={(e) => setName(e.target.value)} placeholder={t('Name, e.g. Month-end count')} className="p-2 border rounded-lg" />
+                <select value={scopeType} onChange={(e) => setScopeType(e.target.value as StockTakeScope['type'])} className="p-2 border rounded-lg">
+                    <option value="full">{t('All products')}</option>
+                    <option value="category">{t('One category')}</option>
+                    <option value="supplier">{t('One supplier')}</option>
+                </select>
+                {scopeType === 'category' && (
+                    <select value={category} onChange={(e) => setCategory(e.target.value)} required className="p-2 border rounded-lg">
+                        <option value="">{t('Select category')}</option>
+                        {categories.map(c => <option key={c} value={c}>{c}</option>)}
+                    </select>
+                )}
+                {scopeType === 'supplier' && (
+                    <select value={supplierId} onChange={(e) => setSupplierId(e.target.value)} required className="p-2 border rounded-lg">
+                        <option value="">{t('Select supplier')}</option>
+                        {suppliers.map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+                    </select>
+                )}
+                <button type="submit" className="bg-blue-600 hover:bg-blue-700 text-white font-semibold py-2 px-4 rounded-lg">{t('Start Stock Take')}</button>
+            </form>
+
+            <div className="space-y-2 max-h-96 overflow-y-auto">
+                {sorted.map(st => (
+                    <div key={st.id} className="flex justify-between items-center p-2 bg-gray-50 rounded-lg text-sm">
+                        <div>
+                            <p className="font-medium">{st.name}</p>
+                            <p className="text-gray-500">
+                                {t(describeScope(st.scope, st.scope.type === 'supplier' ? supplierName(st.scope.supplierId) : undefined))} · {new Date(st.startedAt).toLocaleString()} · {Object.keys(st.expected).length} {t('products')}
+                            </p>
+                        </div>
+                        <div className="flex items-center gap-3">
+                            <span className={`px-2 py-0.5 rounded-full text-xs ${STATUS_STYLES[st.status]}`}>{t(st.status)}</span>
+                            <button onClick={() => setOpenId(st.id)} className="text-indigo-600">{st.status === 'counting' ? t('Count') : t('View')}</button>
+                        </div>
+                    </div>
+                ))}
+                {stockTakes.length === 0 && <p className="text-center text-gray-500 py-4">{t('No stock takes yet.')}</p>}
+            </div>
+        </div>
+    );
+};
+
+export default StockTakes;
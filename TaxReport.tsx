@@ -0,0 +1,90 @@
+import React, { useMemo, useState } from 'react';
+import { useData } from '../../contexts/DataContext';
+import { useLanguage } from '../../contexts/LanguageContext';
+import { getTaxReport } from '../../utils/taxes';
+
+const TaxReport: React.FC = () => {
+    const { sales, saleReturns, companyInfo, systemSettings } = useData();
+    const { t } = useLanguage();
+    const [from, setFrom] = useState(`${new Date().toISOString().slice(0, 7)}-01`);
+    const [to, setTo] = useState(new Date().toISOString().slice(0, 10));
+
+    const rows = useMemo(() => getTaxReport(sales, saleReturns, from, to), [sales, saleReturns, from, to]);
+    const totals = rows.reduce(
+        (sum, r) => ({ taxable: sum.taxable + r.netTaxableAmount, tax: sum.tax + r.netTax, refunded: sum.refunded + r.refundedTax }),
+        { taxable: 0, tax: 0, refunded: 0 },
+    );
+
+    const formatAmount = (amount: number) => `${amount.toLocaleString()} ${systemSettings.currency}`;
+
+    const handleExport = () => {
+        const header = [t('Tax class'), t('Rate (%)'), t('Taxable amount'), t('Tax collected'), t('Refunded taxable amount'), t('Tax refunded'), t('Net taxable amount'), t('Net tax')];
+        const rowsOut = [
+            [`${t('Tax Report')} - ${companyInfo.name} (${from || '…'} - ${to || '…'})`],
+            [],
+            header,
+            ...rows.map(r => [r.name, r.rate, r.taxableAmount, r.tax, r.refundedTaxableAmount, r.refundedTax, r.netTaxableAmount, r.netTax]),
+            [t('Total'), '', '', '', '', totals.refunded, totals.taxable, totals.tax],
+        ];
+        const sheet = window.XLSX.utils.aoa_to_sheet(rowsOut);
+        sheet['!merges'] = [{ s: { r: 0, c: 0 }, e: { r: 0, c: header.length - 1 } }];
+        const book = window.XLSX.utils.book_new();
+        window.XLSX.utils.book_append_sheet(book, sheet, 'Tax');
+        window.XLSX.writeFile(book, `Tax_Report_${from}_${to}.xlsx`);
+    };
+
+    return (
+        <div className="bg-white rounded-lg p-6 shadow-md">
+            <div className="flex flex-wrap justify-between items-center gap-3 mb-4">
+                <h3 className="text-xl font-semibold">{t('Tax Report')}</h3>
+                <div className="flex flex-wrap items-center gap-3 text-sm">
+                    <input type="date" value={from} onChange={(e) => setFrom(e.target.value)} className="p-2 border rounded-lg" />
+                    <input type="date" value={to} onChange={(e) => setTo(e.target.value)} className="p-2 border rounded-lg" />
+                    <button onClick={handleExport} disabled={rows.length === 0} className="bg-green-600 hover:bg-green-700 text-white font-semibold py-2 px-4 rounded-lg disabled:bg-gray-300">{t('Export to Excel')}</button>
+                </div>
+            </div>
+            <div className="overflow-x-auto">
+                <table className="min-w-full text-sm">
+                    <thead>
+                        <tr className="border-b text-left">
+                            <th className="py-2">{t('Tax class')}</th>
+                            <th className="py-2 text-right">{t('Rate (%)')}</th>
+                            <th className="py-2 text-right">{t('Taxable amount')}</th>
+                            <th className="py-2 text-right">{t('Tax collected')}</th>
+                            <th className="py-2 text-right">{t('Tax refunded')}</th>
+                            <th className="py-2 text-right">{t('Net tax')}</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {rows.map(row => (
+                            <tr key={row.taxClassId} className="border-b">
+                                <td className="py-2">{row.name}</td>
+                                <td className="py-2 text-right">{row.rate}</td>
+                                <td className="py-2 text-right">{formatAmount(row.netTaxableAmount)}</td>
+                                <td className="py-2 text-right">{formatAmount(row.tax)}</td>
+                                <td className="py-2 text-right">{row.refundedTax ? formatAmount(row.refundedTax) : ''}</td>
+                                <td className="py-2 text-right font-medium">{formatAmount(row.netTax)}</td>
+                            </tr>
+                        ))}
+                        {rows.length === 0 && (
+                            <tr><td colSpan={6} className="py-6 text-center text-gray-500">{t('No taxed sales in this period.')}</td></tr>
+                        )}
+                    </tbody>
+                    {rows.length > 0 && (
+                        <tfoot>
+                            <tr className="font-semibold">
+                                <td className="py-2" colSpan={2}>{t('Total')}</td>
+                                <td className="py-2 text-right">{formatAmount(totals.taxable)}</td>
+                                <td className="py-2" colSpan={2}></td>
+                                <td className="py-2 text-right">{formatAmount(totals.tax)}</td>
+                            </tr>
+                        </tfoot>
+                    )}
+                </table>
+            </div>
+            <p className="text-xs text-gray-500 mt-3">{t('Taxable amounts are net of tax and of returns made in the period. Sales recorded before tax breakdowns were kept are not included.')}</p>
+        </div>
+    );
+};
+
+export default TaxReport;
@@ -0,0 +1,87 @@
+import React from 'react';
+import { SystemSettings } from '../../types';
+import { useData } from '../../contexts/DataContext';
+import { useLanguage } from '../../contexts/LanguageContext';
+import { TaxClass, getTaxClasses } from '../../utils/taxes';
+
+type TaxFields = Pick<SystemSettings, 'taxRate' | 'taxClasses' | 'defaultTaxClassId' | 'categoryTaxClasses' | 'pricesIncludeTax'>;
+
+const newTaxClassId = () => `tax-${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`;
+
+/** Tax section of the system settings form: tax classes, which one each category uses, and inclusive pricing. */
+const TaxSettings: React.FC<{ value: TaxFields; onChange: (value: TaxFields) => void }> = ({ value, onChange }) => {
+    const { categories } = useData();
+    const { t } = useLanguage();
+    // Until the shop adds a class, the old single rate shows up as an editable "Standard" class.
+    const classes = getTaxClasses(value as SystemSettings);
+    const defaultId = value.defaultTaxClassId && classes.some(c => c.id === value.defaultTaxClassId) ? value.defaultTaxClassId : classes[0].id;
+
+    const setClasses = (taxClasses: TaxClass[], changes: Partial<TaxFields> = {}) => {
+        const defaultClass = taxClasses.find(c => c.id === (changes.defaultTaxClassId ?? defaultId)) ?? taxClasses[0];
+        // taxRate mirrors the default class for anything that still reads the single rate.
+        onChange({ ...value, ...changes, taxClasses, defaultTaxClassId: defaultClass?.id, taxRate: defaultClass?.rate ?? 0 });
+    };
+    const updateClass = (id: string, changes: Partial<TaxClass>) => setClasses(classes.map(c => c.id === id ? { ...c, ...changes } : c));
+    const removeClass = (id: string) => {
+        const categoryTaxClasses = Object.fromEntries(Object.entries(value.categoryTaxClasses ?? {}).filter(([, classId]) => classId !== id));
+        setClasses(classes.filter(c => c.id !== id), { categoryTaxClasses });
+    };
+    const setCategoryClass = (category: string, classId: string) => {
+        const { [category]: _, ...rest } = value.categoryTaxClasses ?? {};
+        onChange({ ...value, categoryTaxClasses: classId ? { ...rest, [category]: classId } : rest });
+    };
+
+    return (
+        <div className="space-y-3 md:col-span-2 border-t pt-4">
+            <div className="flex justify-between items-center">
+                <label className="text-sm font-medium">{t('Tax classes')}</label>
+                <label className="flex items-center space-x-2 text-sm">
+                    <input type="checkbox" checked={!!value.pricesIncludeTax} onChange={(e) => onChange({ ...value, pricesIncludeTax: e.target.checked })} />
+                    <span>{t('Prices include tax')}</span>
+                </label>
+            </div>
+            <table className="min-w-full text-sm">
+                <thead>
+                    <tr className="text-left border-b">
+                        <th className="py-1">{t('Name')}</th>
+                        <th className="py-1">{t('Rate (%)')}</th>
+                        <th className="py-1">{t('Default')}</th>
+                        <th className="py-1"></th>
+                    </tr>
+                </thead>
+                <tbody>
+                    {classes.map(taxClass => (
+                        <tr key={taxClass.id} className="border-b">
+                            <td className="py-1 pr-2"><input type="text" value={taxClass.name} onChange={(e) => updateClass(taxClass.id, { name: e.target.value })} className="w-full p-1 border rounded" /></td>
+                            <td className="py-1 pr-2"><input type="number" min="0" max="99" step="any" value={taxClass.rate} onChange={(e) => updateClass(taxClass.id, { rate: Number(e.target.value) })} className="w-24 p-1 border rounded" /></td>
+                            <td className="py-1"><input type="radio" name="defaultTaxClassId" checked={taxClass.id === defaultId} onChange={() => setClasses(classes, { defaultTaxClassId: taxClass.id })} /></td>
+                            <td className="py-1 text-right">
+                                {classes.length > 1 && <button type="button" onClick={() => removeClass(taxClass.id)} className="text-red-600">{t('Remove')}</button>}
+                            </td>
+                        </tr>
+                    ))}
+                </tbody>
+            </table>
+            <button type="button" onClick={() => setClasses([...classes, { id: newTaxClassId(), name: '', rate: 0 }])} className="text-sm text-blue-600 font-semibold">
+                + {t('Add tax class')}
+            </button>
+
+            {classes.length > 1 && categories.length > 0 && (
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-2 text-sm">
+                    {categories.map(category => (
+                        <label key={category} className="flex items-center justify-between gap-2">
+                            <span>{category}</span>
+                            <select value={value.categoryTaxClasses?.[category] ?? ''} onChange={(e) => setCategoryClass(category, e.target.value)} className="p-1 border rounded">
+                                <option value="">{t('Default')}</option>
+                                {classes.map(c => <option key={c.id} value={c.id}>{c.name} ({c.rate}%)</option>)}
+                            </select>
+                        </label>
+                    ))}
+                </div>
+            )}
+            <p className="text-xs text-gray-500">{t('A product can use its own tax class; otherwise it uses its category\'s, then the default. Use a 0% class for exempt goods.')}</p>
+        </div>
+    );
+};
+
+export default TaxSettings;
@@ -0,0 +1,56 @@
+import React from 'react';
+import { useData } from '../../contexts/DataContext';
+import { useLanguage } from '../../contexts/LanguageContext';
+import { Currency, TenderInput, getExchangeRate, getTenderCurrencies } from '../../utils/currency';
+
+/**
+ * Payment lines for the checkout, in any accepted currency. The parent passes the lines on as
+ * Sale.tenders; the store works out the base-currency amount paid and the change.
+ */
+const TenderEntry: React.FC<{ total: number; date: string; value: TenderInput[]; onChange: (value: TenderInput[]) => void }> = ({ total, date, value, onChange }) => {
+    const { systemSettings } = useData();
+    const { t } = useLanguage();
+    const base = systemSettings.currency;
+    const currencies = getTenderCurrencies(systemSettings);
+    const lines = value.length > 0 ? value : [{ currency: base, amount: 0 }];
+
+    const rateFor = (currency: Currency) => getExchangeRate(systemSettings, currency, date);
+    const paid = lines.reduce((sum, line) => sum + line.amount * (rateFor(line.currency) ?? 0), 0);
+    const remaining = Math.max(0, total - paid);
+
+    const updateLine = (index: number, changes: Partial<TenderInput>) =>
+        onChange(lines.map((line, i) => i === index ? { ...line, ...changes } : line));
+
+    return (
+        <div className="space-y-2 text-sm">
+            {lines.map((line, i) => {
+                const rate = rateFor(line.currency);
+                return (
+                    <div key={i} className="flex items-center gap-2">
+                        <select value={line.currency} onChange={(e) => updateLine(i, { currency: e.target.value as Currency })} className="p-2 border rounded-lg">
+                            {currencies.map(c => <option key={c} value={c}>{c}</option>)}
+                        </select>
+                        <input type="number" min="0" step="any" value={line.amount || ''} onChange={(e) => updateLine(i, { amount: Number(e.target.value) })} className="flex-grow p-2 border rounded-lg" />
+                        {line.currency !== base && (
+                            <span className="text-gray-500 whitespace-nowrap">
+                                {rate ? `= ${(line.amount * rate).toLocaleString()} ${base}` : t('No rate')}
+                            </span>
+                        )}
+                        {lines.length > 1 && <button type="button" onClick={() => onChange(lines.filter((_, j) => j !== i))} className="text-red-600">×</button>}
+                    </div>
+                );
+            })}
+            {currencies.length > 1 && (
+                <button type="button" onClick={() => onChange([...lines, { currency: currencies.find(c => c !== base) ?? base, amount: 0 }])} className="text-blue-600 font-semibold">
+                    + {t('Split payment')}
+                </button>
+            )}
+            <div className="flex justify-between border-t pt-2">
+                <span>{remaining > 0 ? t('Remaining') : t('Change')} ({base})</span>
+                <span className="font-semibold">{(remaining > 0 ? remaining : paid - total).toLocaleString()} {base}</span>
+            </div>
+        </div>
+    );
+};
+
+export default TenderEntry;
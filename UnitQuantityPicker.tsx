@@ -0,0 +1,66 @@
+import React, { useState } from 'react';
+import { Product } from '../../types';
+import { useData } from '../../contexts/DataContext';
+import { useLanguage } from '../../contexts/LanguageContext';
+import { getUnits, getUnitSellingPrice, toBaseQuantity, formatQuantity } from '../../utils/units';
+
+export interface UnitQuantity {
+    unit: string;
+    factor: number;
+    quantity: number;     // In `unit`
+    baseQuantity: number; // What goes on the sale item and comes off stock
+    unitPrice: number;    // Price of one `unit`
+}
+
+/** Lets the cashier sell a product by the piece, pack, metre or kilogram before it goes in the cart. */
+const UnitQuantityPicker: React.FC<{ product: Product; initialUnit?: string; onAdd: (line: UnitQuantity) => void }> = ({ product, initialUnit, onAdd }) => {
+    const { systemSettings } = useData();
+    const { t } = useLanguage();
+    const units = getUnits(product);
+    const [unitName, setUnitName] = useState(initialUnit ?? units[0].name);
+    const [quantity, setQuantity] = useState('1');
+
+    const unit = units.find(u => u.name === unitName) ?? units[0];
+    const amount = Number(quantity);
+    const baseQuantity = toBaseQuantity(unit, amount);
+    const unitPrice = getUnitSellingPrice(product, unit);
+    const isValid = amount > 0 && (product.allowFractional || Number.isInteger(baseQuantity));
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!isValid) return;
+        onAdd({ unit: unit.name, factor: unit.factor, quantity: amount, baseQuantity, unitPrice });
+    };
+
+    return (
+        <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="flex gap-2">
+                <input
+                    type="number"
+                    min="0"
+                    step={product.allowFractional ? 'any' : 1}
+                    value={quantity}
+                    onChange={(e) => setQuantity(e.target.value)}
+                    autoFocus
+                    className="flex-grow p-2 border rounded-lg text-lg"
+                />
+                <select value={unit.name} onChange={(e) => setUnitName(e.target.value)} className="p-2 border rounded-lg">
+                    {units.map(u => <option key={u.name} value={u.name}>{u.name}</option>)}
+                </select>
+            </div>
+            <div className="text-sm text-gray-600 space-y-1">
+                <p>{unitPrice.toLocaleString()} {systemSettings.currency} / {unit.name}{unit.factor !== 1 && ` (${formatQuantity(product, unit.factor)})`}</p>
+                <p>{t('In stock')}: {formatQuantity(product, product.stock)}</p>
+                {!isValid && amount > 0 && <p className="text-red-600">{t('This product is only sold in whole units.')}</p>}
+            </div>
+            <div className="flex justify-between items-center border-t pt-4">
+                <p className="text-lg font-semibold">{(unitPrice * (amount || 0)).toLocaleString()} {systemSettings.currency}</p>
+                <button type="submit" disabled={!isValid} className="bg-[--primary-color] hover:bg-[--primary-hover] text-white font-semibold py-2 px-6 rounded-lg disabled:bg-gray-300 disabled:cursor-not-allowed">
+                    {t('Add to Cart')}
+                </button>
+            </div>
+        </form>
+    );
+};
+
+export default UnitQuantityPicker;
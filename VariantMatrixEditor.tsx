@@ -0,0 +1,154 @@
+import React, { useMemo, useState } from 'react';
+import { Product } from '../../types';
+import { useData } from '../../contexts/DataContext';
+import { useLanguage } from '../../contexts/LanguageContext';
+import { VariantOptions, VariantRow, buildVariantMatrix, getVariants, variantLabel } from '../../utils/variants';
+
+interface CellInput {
+    barcode: string;
+    stock: string;
+    price: string; // Empty follows the parent's price
+}
+
+const cellKey = (size?: string, color?: string) => `${size ?? ''}|${color ?? ''}`;
+
+const parseList = (text: string): string[] =>
+    [...new Set(text.split(',').map(s => s.trim()).filter(Boolean))];
+
+/** Creates or edits a parent product and its size/colour matrix, with a barcode, stock and optional price per variant. */
+const VariantMatrixEditor: React.FC<{ parent?: Product; onDone: () => void }> = ({ parent, onDone }) => {
+    const { products, suppliers, categories, saveProductVariants } = useData();
+    const { t } = useLanguage();
+    const existingVariants = useMemo(() => parent ? getVariants(products, parent.id) : [], [products, parent]);
+
+    const [details, setDetails] = useState({
+        name: parent?.name ?? '',
+        category: parent?.category ?? categories[0] ?? '',
+        buyingPrice: parent?.buyingPrice ?? 0,
+        sellingPrice: parent?.sellingPrice ?? 0,
+        supplierId: parent?.supplierId ?? '',
+    });
+    const [sizesText, setSizesText] = useState((parent?.variantOptions?.sizes ?? []).join(', '));
+    const [colorsText, setColorsText] = useState((parent?.variantOptions?.colors ?? []).join(', '));
+    const [cells, setCells] = useState<Record<string, CellInput>>(() => Object.fromEntries(existingVariants.map(v => [
+        cellKey(v.size, v.color),
+        { barcode: v.barcode ?? '', stock: String(v.stock), price: v.priceOverride ? String(v.sellingPrice) : '' },
+    ])));
+
+    const options: VariantOptions = { sizes: parseList(sizesText), colors: parseList(colorsText) };
+    const matrix = buildVariantMatrix(options);
+    const matrixKeys = new Set(matrix.map(m => cellKey(m.size, m.color)));
+    const outsideMatrix = existingVariants.filter(v => !matrixKeys.has(cellKey(v.size, v.color)));
+
+    const cellFor = (key: string): CellInput => cells[key] ?? { barcode: '', stock: '0', price: '' };
+    const updateCell = (key: string, changes: Partial<CellInput>) => setCells({ ...cells, [key]: { ...cellFor(key), ...changes } });
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        const rows: VariantRow[] = matrix.map(({ size, color }) => {
+            const cell = cellFor(cellKey(size, color));
+            return {
+                id: existingVariants.find(v => cellKey(v.size, v.color) === cellKey(size, color))?.id,
+                size,
+                color,
+                barcode: cell.barcode.trim() || undefined,
+                sellingPrice: cell.price.trim() === '' ? undefined : Number(cell.price),
+                stock: Number(cell.stock) || 0,
+            };
+        });
+        const parentProduct = {
+            ...parent,
+            name: details.name.trim(),
+            category: details.category,
+            buyingPrice: details.buyingPrice,
+            sellingPrice: details.sellingPrice,
+            supplierId: details.supplierId || undefined,
+            stock: 0,
+            variantOptions: options,
+        };
+        if (!parentProduct.name) return;
+        if (saveProductVariants(parentProduct, rows)) onDone();
+    };
+
+    return (
+        <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                <div className="sm:col-span-2">
+                    <label className="block text-sm font-medium">{t('Name')}</label>
+                    <input type="text" value={details.name} onChange={(e) => setDetails({ ...details, name: e.target.value })} required className="w-full p-2 border rounded-lg mt-1" />
+                </div>
+                <div>
+                    <label className="block text-sm font-medium">{t('Category')}</label>
+                    <select value={details.category} onChange={(e) => setDetails({ ...details, category: e.target.value })} className="w-full p-2 border rounded-lg mt-1">
+                        {categories.map(c => <option key={c} value={c}>{c}</option>)}
+                    </select>
+                </div>
+                <div>
+                    <label className="block text-sm font-medium">{t('Supplier')}</label>
+                    <select value={details.supplierId} onChange={(e) => setDetails({ ...details, supplierId: e.target.value })} className="w-full p-2 border rounded-lg mt-1">
+                        <option value="">{t('None')}</option>
+                        {suppliers.map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+                    </select>
+                </div>
+                <div>
+                    <label className="block text-sm font-medium">{t('Buying Price')}</label>
+                    <input type="number" min="0" step="any" value={details.buyingPrice} onChange={(e) => setDetails({ ...details, buyingPrice: Number(e.target.value) })} className="w-full p-2 border rounded-lg mt-1" />
+                </div>
+                <div>
+                    <label className="block text-sm font-medium">{t('Selling Price')}</label>
+                    <input type="number" min="0" step="any" value={details.sellingPrice} onChange={(e) => setDetails({ ...details, sellingPrice: Number(e.target.value) })} className="w-full p-2 border rounded-lg mt-1" />
+                </div>
+                <div>
+                    <label className="block text-sm font-medium">{t('Sizes')}</label>
+                    <input type="text" value={sizesText} onChange={(e) => setSizesText(e.target.value)} placeholder="S, M, L, XL" className="w-full p-2 border rounded-lg mt-1" />
+                </div>
+                <div>
+                    <label className="block text-sm font-medium">{t('Colors')}</label>
+                    <input type="text" value={colorsText} onChange={(e) => setColorsText(e.target.value)} placeholder={t('Black, White')} className="w-full p-2 border rounded-lg mt-1" />
+                </div>
+            </div>
+
+            {matrix.length > 0 && (
+                <div className="max-h-80 overflow-y-auto border rounded-lg">
+                    <table className="min-w-full text-sm">
+                        <thead className="bg-gray-50 sticky top-0">
+                            <tr className="text-left">
+                                <th className="p-2">{t('Variant')}</th>
+                                <th className="p-2">{t('Barcode')}</th>
+                                <th className="p-2 w-24">{t('Stock')}</th>
+                                <th className="p-2 w-32">{t('Price override')}</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {matrix.map(({ size, color }) => {
+                                const key = cellKey(size, color);
+                                const cell = cellFor(key);
+                                return (
+                                    <tr key={key} className="border-t">
+                                        <td className="p-2 font-medium">{variantLabel({ size, color })}</td>
+                                        <td className="p-2"><input type="text" value={cell.barcode} onChange={(e) => updateCell(key, { barcode: e.target.value })} className="w-full p-1 border rounded" /></td>
+                                        <td className="p-2"><input type="number" step="any" value={cell.stock} onChange={(e) => updateCell(key, { stock: e.target.value })} className="w-full p-1 border rounded" /></td>
+                                        <td className="p-2"><input type="number" min="0" step="any" value={cell.price} placeholder={String(details.sellingPrice)} onChange={(e) => updateCell(key, { price: e.target.value })} className="w-full p-1 border rounded" /></td>
+                                    </tr>
+                                );
+                            })}
+                        </tbody>
+                    </table>
+                </div>
+            )}
+
+            {outsideMatrix.length > 0 && (
+                <p className="text-xs text-yellow-800 bg-yellow-100 p-2 rounded-md">
+                    {t('These variants are no longer in the matrix but are kept, with their stock, until deleted:')} {outsideMatrix.map(v => variantLabel(v)).join(', ')}
+                </p>
+            )}
+
+            <div className="flex justify-end gap-2">
+                <button type="button" onClick={onDone} className="bg-gray-200 hover:bg-gray-300 text-gray-800 font-semibold py-2 px-4 rounded-lg">{t('Cancel')}</button>
+                <button type="submit" disabled={matrix.length === 0} className="bg-[--primary-color] text-white font-semibold py-2 px-4 rounded-lg disabled:bg-gray-300 disabled:cursor-not-allowed">{t('Save')}</button>
+            </div>
+        </form>
+    );
+};
+
+export default VariantMatrixEditor;
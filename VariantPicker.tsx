@@ -0,0 +1,75 @@
+import React, { useState } from 'react';
+import { Product } from '../../types';
+import { useData } from '../../contexts/DataContext';
+import { useLanguage } from '../../contexts/LanguageContext';
+import { getVariants, variantLabel } from '../../utils/variants';
+
+/** Size/colour picker shown when a parent product is added to the cart; calls back with the chosen variant. */
+const VariantPicker: React.FC<{ parent: Product; onSelect: (variant: Product) => void }> = ({ parent, onSelect }) => {
+    const { products, systemSettings } = useData();
+    const { t } = useLanguage();
+    const variants = getVariants(products, parent.id);
+    const sizes = [...new Set(variants.map(v => v.size).filter((s): s is string => !!s))];
+    const colors = [...new Set(variants.map(v => v.color).filter((c): c is string => !!c))];
+    const [size, setSize] = useState<string | undefined>(sizes.length === 1 ? sizes[0] : undefined);
+    const [color, setColor] = useState<string | undefined>(colors.length === 1 ? colors[0] : undefined);
+
+    const matches = (v: Product, s = size, c = color) => (!s || v.size === s) && (!c || v.color === c);
+    // Options with nothing in stock for the current choice are shown but greyed out.
+    const inStock = (s?: string, c?: string) => variants.some(v => matches(v, s, c) && v.stock > 0);
+    const selected = variants.find(v => (sizes.length === 0 || v.size === size) && (colors.length === 0 || v.color === color));
+
+    const optionClass = (active: boolean, available: boolean) =>
+        `px-3 py-2 rounded-lg border text-sm font-medium ${active ? 'bg-blue-600 text-white border-blue-600' : 'bg-white hover:bg-gray-50'} ${available ? '' : 'opacity-50 line-through'}`;
+
+    if (variants.length === 0) {
+        return <p className="text-center text-gray-500 py-4">{t('This product has no variants yet.')}</p>;
+    }
+
+    return (
+        <div className="space-y-4">
+            {sizes.length > 0 && (
+                <div>
+                    <p className="text-sm font-medium mb-2">{t('Size')}</p>
+                    <div className="flex flex-wrap gap-2">
+                        {sizes.map(s => (
+                            <button key={s} type="button" onClick={() => setSize(s)} className={optionClass(s === size, inStock(s, color))}>{s}</button>
+                        ))}
+                    </div>
+                </div>
+            )}
+            {colors.length > 0 && (
+                <div>
+                    <p className="text-sm font-medium mb-2">{t('Color')}</p>
+                    <div className="flex flex-wrap gap-2">
+                        {colors.map(c => (
+                            <button key={c} type="button" onClick={() => setColor(c)} className={optionClass(c === color, inStock(size, c))}>{c}</button>
+                        ))}
+                    </div>
+                </div>
+            )}
+            <div className="flex justify-between items-center border-t pt-4">
+                <div className="text-sm">
+                    {selected ? (
+                        <>
+                            <p className="font-semibold">{variantLabel(selected)} · {selected.sellingPrice.toLocaleString()} {systemSettings.currency}</p>
+                            <p className={selected.stock > 0 ? 'text-gray-500' : 'text-red-600'}>{t('In stock')}: {selected.stock}</p>
+                        </>
+                    ) : (
+                        <p className="text-gray-500">{sizes.length > 0 && colors.length > 0 && size && color ? t('This combination does not exist.') : t('Choose an option.')}</p>
+                    )}
+                </div>
+                <button
+                    type="button"
+                    onClick={() => selected && onSelect(selected)}
+                    disabled={!selected}
+                    className="bg-[--primary-color] hover:bg-[--primary-hover] text-white font-semibold py-2 px-6 rounded-lg disabled:bg-gray-300 disabled:cursor-not-allowed"
+                >
+                    {t('Add to Cart')}
+                </button>
+            </div>
+        </div>
+    );
+};
+
+export default VariantPicker;
@@ -0,0 +1,70 @@
+import React, { useState } from 'react';
+import { useData } from '../../contexts/DataContext';
+import { useLanguage } from '../../contexts/LanguageContext';
+import { getDocumentLabel, matchesDocumentNumber } from '../../utils/documentNumbers';
+
+const VoidedSalesReport: React.FC = () => {
+    const { voidedSales, customers, systemSettings } = useData();
+    const { t } = useLanguage();
+    const [showEdits, setShowEdits] = useState(false);
+    const [search, setSearch] = useState('');
+
+    const rows = voidedSales.filter(s => (showEdits || s.status === 'voided') && (!search.trim() || matchesDocumentNumber(s, search)));
+    const totalVoided = rows.reduce((sum, s) => sum + s.total, 0);
+
+    const customerName = (customerId?: string, customerType?: string) =>
+        customerId ? customers.find(c => c.id === customerId)?.name || t('customer') : t((customerType || '').replace('-', '_'));
+
+    return (
+        <div className="bg-white rounded-lg p-6 shadow-md">
+            <div className="flex justify-between items-center mb-4">
+                <h3 className="text-xl font-semibold">{t('Voided Sales')}</h3>
+                <input type="search" value={search} onChange={(e) => setSearch(e.target.value)} placeholder={t('Invoice number')} className="p-2 border rounded-lg text-sm" />
+                <label className="flex items-center space-x-2 text-sm">
+                    <input type="checkbox" checked={showEdits} onChange={(e) => setShowEdits(e.target.checked)} />
+                    <span>{t('Include edited (superseded) sales')}</span>
+                </label>
+            </div>
+            <div className="overflow-x-auto">
+                <table className="min-w-full text-sm">
+                    <thead>
+                        <tr className="border-b text-left">
+                            <th className="py-2">{t('Invoice')}</th>
+                            <th className="py-2">{t('Sale Date')}</th>
+                            <th className="py-2">{t('customer')}</th>
+                            <th className="py-2 text-right">{t('Total')}</th>
+                            <th className="py-2">{t('Status')}</th>
+                            <th className="py-2">{t('Voided At')}</th>
+                            <th className="py-2">{t('Voided By')}</th>
+                            <th className="py-2">{t('Reason')}</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {rows.map(sale => (
+                            <tr key={sale.id} className="border-b">
+                                <td className="py-2 font-mono">{getDocumentLabel(sale)}</td>
+                                <td className="py-2">{sale.date} {sale.time}</td>
+                                <td className="py-2">{customerName(sale.customerId, sale.customerType)}</td>
+                                <td className="py-2 text-right">{sale.total.toLocaleString()} {systemSettings.currency}</td>
+                                <td className="py-2">{sale.status === 'voided' ? t('Voided') : `${t('Edited')} → #${(sale.revision || 1) + 1}`}</td>
+                                <td className="py-2">{sale.voidedAt ? new Date(sale.voidedAt).toLocaleString() : ''}</td>
+                                <td className="py-2">{sale.voidedBy}</td>
+                                <td className="py-2">{sale.voidReason}</td>
+                            </tr>
+                        ))}
+                    </tbody>
+                    <tfoot>
+                        <tr className="font-bold">
+                            <td className="py-2" colSpan={3}>{t('Total')} ({rows.length})</td>
+                            <td className="py-2 text-right">{totalVoided.toLocaleString()} {systemSettings.currency}</td>
+                            <td colSpan={4}></td>
+                        </tr>
+                    </tfoot>
+                </table>
+                {rows.length === 0 && <p className="text-center text-gray-500 py-4">{t('No voided sales.')}</p>}
+            </div>
+        </div>
+    );
+};
+
+export default VoidedSalesReport;
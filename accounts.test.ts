@@ -0,0 +1,156 @@
+import { describe, expect, it } from 'vitest';
+import { Customer, CustomerPayment, Expense, Purchase, Sale } from '../types';
+import {
+    OpenDocument, SupplierPayment, allocateOldestFirst, buildCustomerStatement, getAgingBuckets, getAvailableCredit,
+    getCustomerBalance, getOpenCreditSales, getOpenPurchases, getSupplierBalance, reassignAllocations,
+    supplierPaymentFromExpense, validateAllocations,
+} from './accounts';
+
+const open = (id: string, date: string, outstanding: number): OpenDocument => ({ id, date, total: outstanding, paid: 0, outstanding });
+
+describe('allocateOldestFirst', () => {
+    it('settles the oldest documents first and leaves the excess on account', () => {
+        const docs = [open('b', '2026-02-10', 300), open('a', '2026-01-05', 200), open('c', '2026-03-01', 0)];
+
+        expect(allocateOldestFirst(400, docs)).toEqual([
+            { documentId: 'a', amount: 200 },
+            { documentId: 'b', amount: 200 },
+        ]);
+        expect(allocateOldestFirst(900, docs)).toEqual([
+            { documentId: 'a', amount: 200 },
+            { documentId: 'b', amount: 300 },
+        ]);
+    });
+});
+
+describe('getAgingBuckets', () => {
+    it('buckets by days since the document date', () => {
+        const asOf = new Date('2026-04-30T00:00:00.000Z');
+        const docs = [
+            open('a', '2026-04-30', 10),
+            open('b', '2026-03-31', 20), // 30 days
+            open('c', '2026-03-30', 40), // 31 days
+            open('d', '2026-01-30', 80), // 90 days
+            open('e', '2026-01-29', 160),
+            open('f', '2025-01-01', 0),
+        ];
+
+        expect(getAgingBuckets(docs, asOf)).toEqual({ days0to30: 30, days31to60: 40, days61to90: 80, over90: 160, total: 310 });
+    });
+});
+
+describe('validateAllocations', () => {
+    const docs = [open('a', '2026-01-05', 200)];
+
+    it('accepts allocations within the payment and what is open', () => {
+        expect(validateAllocations(300, [{ documentId: 'a', amount: 200 }], docs)).toBeNull();
+    });
+
+    it('rejects allocating more than the payment, more than is open or to a closed document', () => {
+        expect(validateAllocations(100, [{ documentId: 'a', amount: 150 }], docs)).toBe('Allocated amounts exceed the payment amount.');
+        expect(validateAllocations(300, [{ documentId: 'a', amount: 250 }], docs)).toBe('Allocation exceeds the 200 outstanding on that document.');
+        expect(validateAllocations(300, [{ documentId: 'z', amount: 10 }], docs)).toBe('A payment can only be allocated to an open document.');
+    });
+});
+
+describe('payables', () => {
+    const purchase = (id: string, date: string, totalCost: number, supplierId = 's1'): Purchase => ({
+        id, date, supplierId, productId: 'p1', quantity: 1, unitCost: totalCost, totalCost,
+    });
+    const purchases = [purchase('pu2', '2026-02-01', 500), purchase('pu1', '2026-01-01', 300), purchase('pu3', '2026-01-15', 700, 's2')];
+    const payments: SupplierPayment[] = [
+        { id: 'sp1', supplierId: 's1', date: '2026-02-05', amount: 400, allocations: [{ documentId: 'pu1', amount: 300 }] },
+    ];
+
+    it('lists what is still owed per purchase, oldest first', () => {
+        expect(getOpenPurchases('s1', purchases, payments)).toEqual([
+            { id: 'pu2', date: '2026-02-01', total: 500, paid: 0, outstanding: 500 },
+        ]);
+        expect(getOpenPurchases('s2', purchases, payments).map(d => d.id)).toEqual(['pu3']);
+    });
+
+    it('counts unallocated payments against the balance', () => {
+        expect(getSupplierBalance('s1', purchases, payments)).toBe(400);
+    });
+
+    it('turns a supplier payment expense into a payment allocated to the oldest open purchases', () => {
+        const expense: Expense & { supplierId: string } = {
+            id: 'e1', date: '2026-03-01', category: 'Supplier Payment', amount: 600, description: 'Cheque 17', supplierId: 's1',
+        };
+
+        expect(supplierPaymentFromExpense(expense, 'sp2', purchases, payments)).toEqual({
+            id: 'sp2', supplierId: 's1', date: '2026-03-01', amount: 600, note: 'Cheque 17',
+            allocations: [{ documentId: 'pu2', amount: 500 }], expenseId: 'e1',
+        });
+    });
+});
+
+describe('receivables', () => {
+    const sale = (id: string, date: string, total: number, paymentMethod: Sale['paymentMethod'] = 'credit'): Sale => ({
+        id, date, time: '10:00:00', customerType: 'registered', customerId: 'c1', paymentMethod,
+        items: [], total, profit: 0, amountPaid: 0, orderDiscount: 0, change: 0,
+    });
+    const payment = (id: string, date: string, amount: number, allocations?: CustomerPayment['allocations']): CustomerPayment => ({
+        id, customerId: 'c1', date, amount, allocations,
+    });
+    const sales = [sale('s2', '2026-02-01', 500), sale('s1', '2026-01-01', 300), sale('s3', '2026-02-10', 900, 'cash')];
+
+    it('applies allocated payments to their sale and unallocated ones to the oldest', () => {
+        const payments = [payment('cp1', '2026-02-05', 200, [{ documentId: 's2', amount: 200 }]), payment('cp2', '2026-02-06', 100)];
+
+        expect(getOpenCreditSales('c1', sales, payments)).toEqual([
+            { id: 's1', date: '2026-01-01', total: 300, paid: 100, outstanding: 200 },
+            { id: 's2', date: '2026-02-01', total: 500, paid: 200, outstanding: 300 },
+        ]);
+        expect(getCustomerBalance('c1', sales, payments)).toBe(500);
+    });
+
+    it('reports the credit left under the limit, or null without one', () => {
+        const customer: Customer = { id: 'c1', name: 'Aung', creditLimit: 1000 };
+
+        expect(getAvailableCredit(customer, sales, [])).toBe(200);
+        expect(getAvailableCredit({ ...customer, creditLimit: undefined }, sales, [])).toBeNull();
+    });
+
+    it('builds a statement with an opening balance and a running balance', () => {
+        const payments = [payment('cp1', '2026-01-20', 100), payment('cp2', '2026-02-03', 250)];
+
+        const statement = buildCustomerStatement('c1', sales, payments, '2026-02-01', '2026-02-28');
+
+        expect(statement.openingBalance).toBe(200);
+        expect(statement.lines.map(l => [l.type, l.debit, l.credit, l.balance])).toEqual([
+            ['sale', 500, 0, 700],
+            ['payment', 0, 250, 450],
+        ]);
+        expect(statement).toMatchObject({ totalSales: 500, totalPayments: 250, closingBalance: 450 });
+    });
+
+    describe('reassignAllocations', () => {
+        const payments = [
+            payment('cp2', '2026-02-06', 300, [{ documentId: 's2', amount: 300 }]),
+            payment('cp1', '2026-02-05', 250, [{ documentId: 's1', amount: 50 }, { documentId: 's2', amount: 200 }]),
+            payment('cp3', '2026-02-07', 80, [{ documentId: 's1', amount: 80 }]),
+        ];
+
+        it('moves allocations to the revision, oldest payment first, up to its total', () => {
+            const moved = reassignAllocations(payments, 's2', { id: 's2-r2', total: 350 });
+
+            expect(moved.map(p => p.allocations)).toEqual([
+                [{ documentId: 's2-r2', amount: 150 }],
+                [{ documentId: 's1', amount: 50 }, { documentId: 's2-r2', amount: 200 }],
+                [{ documentId: 's1', amount: 80 }],
+            ]);
+            expect(moved[2]).toBe(payments[2]);
+        });
+
+        it('puts the amounts back on account when the sale is voided', () => {
+            const moved = reassignAllocations(payments, 's2', null);
+
+            expect(moved.map(p => p.allocations)).toEqual([[], [{ documentId: 's1', amount: 50 }], [{ documentId: 's1', amount: 80 }]]);
+        });
+
+        it('returns the same list when nothing was allocated to the sale', () => {
+            expect(reassignAllocations(payments, 's9', null)).toBe(payments);
+        });
+    });
+});
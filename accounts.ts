@@ -0,0 +1,270 @@
+import { Purchase, Sale, Customer, CustomerPayment, Expense } from '../types';
+import { getDocumentLabel } from './documentNumbers';
+
+declare module '../types' {
+    interface Customer {
+        creditLimit?: number; // Maximum outstanding credit; no limit when unset
+    }
+    interface CustomerPayment {
+        allocations?: PaymentAllocation[]; // Credit sales this payment settles; older payments have none
+    }
+    interface Sale {
+        creditLimitOverride?: { approvedBy: string; reason?: string }; // Set when a credit sale went over the limit
+    }
+}
+
+// --- Accounts ---
+// Balances are never stored: they are derived from the documents that raise a debt and the
+// payments allocated against them.
+
+export interface PaymentAllocation {
+    documentId: string; // The purchase (or sale) the amount settles
+    amount: number;
+}
+
+export interface SupplierPayment {
+    id: string;
+    supplierId: string;
+    date: string; // YYYY-MM-DD
+    amount: number;
+    method?: 'cash' | 'bank' | 'other';
+    note?: string;
+    allocations: PaymentAllocation[];
+    expenseId?: string; // The "Supplier Payment" expense that records the cash going out
+    staffId?: string;
+}
+
+export const SUPPLIER_PAYMENT_CATEGORY = 'Supplier Payment';
+
+export interface OpenDocument {
+    id: string;
+    date: string;
+    total: number;
+    paid: number;
+    outstanding: number;
+}
+
+export interface AgingBuckets {
+    days0to30: number;
+    days31to60: number;
+    days61to90: number;
+    over90: number;
+    total: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Sums allocated amounts per document id. */
+export const getAllocatedTotals = (payments: { allocations: PaymentAllocation[] }[]): Map<string, number> => {
+    const totals = new Map<string, number>();
+    payments.forEach(payment => payment.allocations.forEach(a => {
+        totals.set(a.documentId, (totals.get(a.documentId) || 0) + a.amount);
+    }));
+    return totals;
+};
+
+/**
+ * Spreads a payment over open documents, oldest first. Any amount left over after every
+ * document is settled is not allocated and stays on account.
+ */
+export const allocateOldestFirst = (amount: number, openDocuments: OpenDocument[]): PaymentAllocation[] => {
+    const allocations: PaymentAllocation[] = [];
+    let remaining = amount;
+    [...openDocuments]
+        .sort((a, b) => a.date.localeCompare(b.date))
+        .forEach(doc => {
+            if (remaining <= 0 || doc.outstanding <= 0) return;
+            const applied = Math.min(remaining, doc.outstanding);
+            allocations.push({ documentId: doc.id, amount: applied });
+            remaining -= applied;
+        });
+    return allocations;
+};
+
+/** Buckets outstanding amounts by the age of the document they belong to. */
+export const getAgingBuckets = (openDocuments: OpenDocument[], asOf: Date = new Date()): AgingBuckets => {
+    const buckets: AgingBuckets = { days0to30: 0, days31to60: 0, days61to90: 0, over90: 0, total: 0 };
+    openDocuments.forEach(doc => {
+        if (doc.outstanding <= 0) return;
+        const ageDays = Math.floor((asOf.getTime() - new Date(doc.date).getTime()) / DAY_MS);
+        if (ageDays <= 30) buckets.days0to30 += doc.outstanding;
+        else if (ageDays <= 60) buckets.days31to60 += doc.outstanding;
+        else if (ageDays <= 90) buckets.days61to90 += doc.outstanding;
+        else buckets.over90 += doc.outstanding;
+        buckets.total += doc.outstanding;
+    });
+    return buckets;
+};
+
+/**
+ * Checks manually chosen allocations against what is still open. Returns an error message,
+ * or null if the allocations are valid.
+ */
+export const validateAllocations = (amount: number, allocations: PaymentAllocation[], openDocuments: OpenDocument[]): string | null => {
+    const allocatedTotal = allocations.reduce((sum, a) => sum + a.amount, 0);
+    if (allocatedTotal > amount) {
+        return 'Allocated amounts exceed the payment amount.';
+    }
+    for (const allocation of allocations) {
+        const doc = openDocuments.find(d => d.id === allocation.documentId);
+        if (!doc) return 'A payment can only be allocated to an open document.';
+        if (allocation.amount <= 0 || allocation.amount > doc.outstanding) {
+            return `Allocation exceeds the ${doc.outstanding} outstanding on that document.`;
+        }
+    }
+    return null;
+};
+
+// --- Payables ---
+
+/** Purchases from a supplier that still have an amount owing, oldest first. */
+export const getOpenPurchases = (supplierId: string, purchases: Purchase[], payments: SupplierPayment[]): OpenDocument[] => {
+    const paid = getAllocatedTotals(payments.filter(p => p.supplierId === supplierId));
+    return purchases
+        .filter(p => p.supplierId === supplierId)
+        .map(p => {
+            const paidAmount = paid.get(p.id) || 0;
+            return { id: p.id, date: p.date, total: p.totalCost, paid: paidAmount, outstanding: p.totalCost - paidAmount };
+        })
+        .filter(doc => doc.outstanding > 0)
+        .sort((a, b) => a.date.localeCompare(b.date));
+};
+
+/** What we owe a supplier: all purchases less all payments, including unallocated amounts. */
+export const getSupplierBalance = (supplierId: string, purchases: Purchase[], payments: SupplierPayment[]): number => {
+    const purchased = purchases.filter(p => p.supplierId === supplierId).reduce((sum, p) => sum + p.totalCost, 0);
+    const paid = payments.filter(p => p.supplierId === supplierId).reduce((sum, p) => sum + p.amount, 0);
+    return purchased - paid;
+};
+
+/** Builds the payables record for a "Supplier Payment" expense, settling the oldest purchases first. */
+export const supplierPaymentFromExpense = (
+    expense: Expense & { supplierId: string },
+    id: string,
+    purchases: Purchase[],
+    payments: SupplierPayment[],
+): SupplierPayment => ({
+    id,
+    supplierId: expense.supplierId,
+    date: expense.date,
+    amount: expense.amount,
+    note: expense.description,
+    allocations: allocateOldestFirst(expense.amount, getOpenPurchases(expense.supplierId, purchases, payments)),
+    expenseId: expense.id,
+});
+
+export const getPayablesAging = (supplierId: string, purchases: Purchase[], payments: SupplierPayment[], asOf?: Date): AgingBuckets =>
+    getAgingBuckets(getOpenPurchases(supplierId, purchases, payments), asOf);
+
+// --- Receivables ---
+
+const isCreditSaleFor = (sale: Sale, customerId: string) => sale.paymentMethod === 'credit' && sale.customerId === customerId;
+
+const unallocatedAmount = (payment: CustomerPayment): number =>
+    payment.amount - (payment.allocations || []).reduce((sum, a) => sum + a.amount, 0);
+
+/**
+ * Moves what payments allocated to a sale onto the sale that replaces it, e.g. its revision, oldest
+ * payment first and never more than the new sale's total. The rest goes back on account, as does
+ * everything when there is no replacement (the sale was voided or is no longer on credit).
+ */
+export const reassignAllocations = (payments: CustomerPayment[], fromSaleId: string, to: { id: string; total: number } | null): CustomerPayment[] => {
+    let room = to ? to.total : 0;
+    const moved = new Map<string, PaymentAllocation[]>();
+    payments
+        .filter(p => p.allocations?.some(a => a.documentId === fromSaleId))
+        .sort((a, b) => a.date.localeCompare(b.date))
+        .forEach(payment => {
+            moved.set(payment.id, payment.allocations!.flatMap(a => {
+                if (a.documentId !== fromSaleId) return [a];
+                const amount = Math.min(a.amount, Math.max(0, room));
+                room -= amount;
+                return to && amount > 0 ? [{ documentId: to.id, amount }] : [];
+            }));
+        });
+    if (moved.size === 0) return payments;
+    return payments.map(p => moved.has(p.id) ? { ...p, allocations: moved.get(p.id) } : p);
+};
+
+/**
+ * Credit sales for a customer that are not fully paid, oldest first. Payments recorded before
+ * allocation existed (or left on account) are applied to the oldest sales.
+ */
+export const getOpenCreditSales = (customerId: string, sales: Sale[], payments: CustomerPayment[]): OpenDocument[] => {
+    const customerPayments = payments.filter(p => p.customerId === customerId);
+    const paid = getAllocatedTotals(customerPayments.map(p => ({ allocations: p.allocations || [] })));
+    let onAccount = customerPayments.reduce((sum, p) => sum + unallocatedAmount(p), 0);
+
+    return sales
+        .filter(s => isCreditSaleFor(s, customerId))
+        .sort((a, b) => a.date.localeCompare(b.date))
+        .map(s => {
+            let paidAmount = paid.get(s.id) || 0;
+            const fromAccount = Math.max(0, Math.min(onAccount, s.total - paidAmount));
+            paidAmount += fromAccount;
+            onAccount -= fromAccount;
+            return { id: s.id, date: s.date, total: s.total, paid: paidAmount, outstanding: s.total - paidAmount };
+        })
+        .filter(doc => doc.outstanding > 0);
+};
+
+/** What a customer owes: credit sales less payments received. */
+export const getCustomerBalance = (customerId: string, sales: Sale[], payments: CustomerPayment[]): number => {
+    const owed = sales.filter(s => isCreditSaleFor(s, customerId)).reduce((sum, s) => sum + s.total, 0);
+    const paid = payments.filter(p => p.customerId === customerId).reduce((sum, p) => sum + p.amount, 0);
+    return owed - paid;
+};
+
+/** Credit still available to a customer, or null if no limit is set. */
+export const getAvailableCredit = (customer: Customer, sales: Sale[], payments: CustomerPayment[]): number | null =>
+    customer.creditLimit === undefined ? null : customer.creditLimit - getCustomerBalance(customer.id, sales, payments);
+
+export interface StatementLine {
+    date: string;
+    type: 'sale' | 'payment';
+    reference: string;
+    debit: number;
+    credit: number;
+    balance: number;
+}
+
+export interface CustomerStatement {
+    customerId: string;
+    from: string; // YYYY-MM-DD, inclusive
+    to: string;   // YYYY-MM-DD, inclusive
+    openingBalance: number;
+    totalSales: number;
+    totalPayments: number;
+    closingBalance: number;
+    lines: StatementLine[];
+}
+
+/** Builds a statement for the period [from, to], e.g. a calendar month. */
+export const buildCustomerStatement = (customerId: string, sales: Sale[], payments: CustomerPayment[], from: string, to: string): CustomerStatement => {
+    const day = (date: string) => date.slice(0, 10);
+    const creditSales = sales.filter(s => isCreditSaleFor(s, customerId));
+    const customerPayments = payments.filter(p => p.customerId === customerId);
+
+    const openingBalance =
+        creditSales.filter(s => day(s.date) < from).reduce((sum, s) => sum + s.total, 0) -
+        customerPayments.filter(p => day(p.date) < from).reduce((sum, p) => sum + p.amount, 0);
+
+    const entries = [
+        ...creditSales
+            .filter(s => day(s.date) >= from && day(s.date) <= to)
+            .map(s => ({ date: s.date, type: 'sale' as const, reference: getDocumentLabel(s), debit: s.total, credit: 0 })),
+        ...customerPayments
+            .filter(p => day(p.date) >= from && day(p.date) <= to)
+            .map(p => ({ date: p.date, type: 'payment' as const, reference: getDocumentLabel(p), debit: 0, credit: p.amount })),
+    ].sort((a, b) => a.date.localeCompare(b.date));
+
+    let balance = openingBalance;
+    const lines = entries.map(entry => {
+        balance += entry.debit - entry.credit;
+        return { ...entry, balance };
+    });
+
+    const totalSales = lines.reduce((sum, l) => sum + l.debit, 0);
+    const totalPayments = lines.reduce((sum, l) => sum + l.credit, 0);
+    return { customerId, from, to, openingBalance, totalSales, totalPayments, closingBalance: openingBalance + totalSales - totalPayments, lines };
+};
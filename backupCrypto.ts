@@ -0,0 +1,71 @@
+// --- Encrypted Backups ---
+// An encrypted backup is a JSON envelope around the normal backup file: the key is derived from
+// the passphrase with PBKDF2 and the data sealed with AES-GCM, which also detects tampering.
+// `version` lets the parameters change later without breaking older files.
+
+export const ENCRYPTED_BACKUP_FORMAT = 'swift-pos-encrypted-backup';
+const ENVELOPE_VERSION = 1;
+const PBKDF2_ITERATIONS = 250000;
+
+export interface EncryptedBackup {
+    format: typeof ENCRYPTED_BACKUP_FORMAT;
+    version: number;
+    kdf: { name: 'PBKDF2'; hash: 'SHA-256'; iterations: number; salt: string };
+    cipher: { name: 'AES-GCM'; iv: string };
+    data: string; // Base64 ciphertext of the backup JSON
+}
+
+// Chunked, because spreading a multi-megabyte array into String.fromCharCode overflows the stack.
+const toBase64 = (bytes: Uint8Array): string => {
+    let binary = '';
+    for (let i = 0; i < bytes.length; i += 0x8000) {
+        binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+    }
+    return btoa(binary);
+};
+
+const fromBase64 = (value: string): Uint8Array => Uint8Array.from(atob(value), c => c.charCodeAt(0));
+
+const deriveKey = async (passphrase: string, salt: Uint8Array, iterations: number, usage: KeyUsage): Promise<CryptoKey> => {
+    const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+    return crypto.subtle.deriveKey(
+        { name: 'PBKDF2', hash: 'SHA-256', salt, iterations },
+        material,
+        { name: 'AES-GCM', length: 256 },
+        false,
+        [usage],
+    );
+};
+
+export const isEncryptedBackup = (data: any): data is EncryptedBackup =>
+    !!data && typeof data === 'object' && data.format === ENCRYPTED_BACKUP_FORMAT;
+
+export const encryptBackup = async (json: string, passphrase: string): Promise<EncryptedBackup> => {
+    const salt = crypto.getRandomValues(new Uint8Array(16));
+    const iv = crypto.getRandomValues(new Uint8Array(12));
+    const key = await deriveKey(passphrase, salt, PBKDF2_ITERATIONS, 'encrypt');
+    const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, new TextEncoder().encode(json));
+    return {
+        format: ENCRYPTED_BACKUP_FORMAT,
+        version: ENVELOPE_VERSION,
+        kdf: { name: 'PBKDF2', hash: 'SHA-256', iterations: PBKDF2_ITERATIONS, salt: toBase64(salt) },
+        cipher: { name: 'AES-GCM', iv: toBase64(iv) },
+        data: toBase64(new Uint8Array(ciphertext)),
+    };
+};
+
+/** Returns the parsed backup inside the envelope. Throws on a wrong passphrase or a damaged file. */
+export const decryptBackup = async (envelope: EncryptedBackup, passphrase: string): Promise<any> => {
+    if (envelope.version > ENVELOPE_VERSION) {
+        throw new Error('This backup was encrypted by a newer version of Swift POS.');
+    }
+    let plaintext: ArrayBuffer;
+    try {
+        const key = await deriveKey(passphrase, fromBase64(envelope.kdf.salt), envelope.kdf.iterations, 'decrypt');
+        plaintext = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(envelope.cipher.iv) }, key, fromBase64(envelope.data));
+    } catch (e) {
+        // AES-GCM cannot tell a wrong key from altered data.
+        throw new Error('Wrong passphrase, or the backup file is damaged.');
+    }
+    return JSON.parse(new TextDecoder().decode(plaintext));
+};
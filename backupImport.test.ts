@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+import { Product } from '../types';
+import { mergeById, previewImport, validateBackup } from './backupImport';
+import { BackupFile, DataSnapshot, SCHEMA_VERSION } from './storage';
+
+const product = (id: string, stock: number): Product => ({ id, name: `Product ${id}`, category: 'Grocery', buyingPrice: 100, sellingPrice: 150, stock });
+
+const current: DataSnapshot = {
+    products: [product('p1', 5), product('p2', 8), product('p3', 1)],
+    sales: [], suppliers: [], expenses: [],
+    customers: [{ id: 'c1', name: 'Aung' }],
+    purchases: [], customerPayments: [], inventoryMovements: [], purchaseOrders: [], supplierPayments: [], saleReturns: [],
+    staff: [], shifts: [], stockBatches: [], pricingRules: [], heldCarts: [], stockTakes: [], stockCounts: [],
+    companyInfo: { name: 'Corner Shop' },
+    systemSettings: {
+        businessType: 'convenience', currency: 'MMK', taxRate: 0, enableNotifications: true, enableSound: true, lowStockThreshold: 10,
+        receiptSize: 'standard', receiptFooter: 'Thank you!', storagePreference: 'local', storagePath: '',
+    },
+    categories: ['Grocery'],
+    documentCounters: {},
+};
+
+describe('validateBackup', () => {
+    it('accepts a backup with only some collections', () => {
+        expect(validateBackup({ schemaVersion: SCHEMA_VERSION, products: [product('p1', 5)] })).toEqual([]);
+    });
+
+    it('reports missing ids, duplicates and wrongly typed fields per collection', () => {
+        const data = {
+            schemaVersion: SCHEMA_VERSION,
+            products: [product('p1', 5), product('p1', 6), { ...product('p2', 1), stock: '3' }, { name: 'No id' }, 'oops'],
+            categories: ['Grocery', 7],
+        } as unknown as BackupFile;
+
+        expect(validateBackup(data)).toEqual([
+            {
+                collection: 'products',
+                errors: [
+                    'Record "p1" appears more than once.',
+                    'Record "p2": "stock" should be a number, found string.',
+                    'Record #4 has no id.',
+                    'Record #4: "category" should be a string, found undefined.',
+                    'Record #4: "buyingPrice" should be a number, found undefined.',
+                ],
+                moreErrors: 3,
+            },
+            { collection: 'categories', errors: ['Must be a list of category names.'], moreErrors: 0 },
+        ]);
+    });
+});
+
+describe('mergeById', () => {
+    it('replaces records in place and appends new ones', () => {
+        const incoming = [product('p4', 2), product('p2', 0)];
+
+        expect(mergeById(current.products, incoming).map(p => [p.id, p.stock])).toEqual([['p1', 5], ['p2', 0], ['p3', 1], ['p4', 2]]);
+    });
+});
+
+describe('previewImport', () => {
+    const data: BackupFile = {
+        schemaVersion: SCHEMA_VERSION,
+        products: [product('p1', 5), product('p2', 0), product('p4', 2)],
+        customers: [],
+        companyInfo: { name: 'Corner Shop' },
+    };
+
+    it('counts removals and replaces settings when replacing', () => {
+        expect(previewImport(current, data, 'replace')).toEqual({
+            collections: [
+                { collection: 'products', added: 1, changed: 1, removed: 1, unchanged: 1 },
+                { collection: 'customers', added: 0, changed: 0, removed: 1, unchanged: 0 },
+            ],
+            settingsReplaced: true,
+        });
+    });
+
+    it('removes nothing and keeps the settings when merging', () => {
+        expect(previewImport(current, data, 'merge')).toEqual({
+            collections: [
+                { collection: 'products', added: 1, changed: 1, removed: 0, unchanged: 1 },
+                { collection: 'customers', added: 0, changed: 0, removed: 0, unchanged: 0 },
+            ],
+            settingsReplaced: false,
+        });
+    });
+});
@@ -0,0 +1,161 @@
+import { BackupFile, COLLECTION_STORES, CollectionName, DataSnapshot } from './storage';
+
+// --- Backup Import ---
+// A backup is checked field by field before anything is written, and the result of importing
+// it is previewed as counts. 'replace' swaps each collection in the file for the imported one;
+// 'merge' upserts records by id and keeps everything that is not in the file.
+
+export type ImportMode = 'replace' | 'merge';
+
+type FieldType = 'string' | 'number' | 'boolean' | 'array' | 'object';
+
+// Required fields per collection. Optional fields are not checked so older backups still pass.
+const REQUIRED_FIELDS: Record<CollectionName, Record<string, FieldType>> = {
+    products: { name: 'string', category: 'string', buyingPrice: 'number', sellingPrice: 'number', stock: 'number' },
+    sales: { date: 'string', time: 'string', paymentMethod: 'string', items: 'array', total: 'number' },
+    suppliers: { name: 'string' },
+    expenses: { date: 'string', category: 'string', amount: 'number' },
+    customers: { name: 'string' },
+    purchases: { date: 'string', productId: 'string', quantity: 'number', unitCost: 'number', totalCost: 'number' },
+    customerPayments: { customerId: 'string', date: 'string', amount: 'number' },
+    inventoryMovements: { productId: 'string', date: 'string', reason: 'string', quantityChange: 'number' },
+    purchaseOrders: { supplierId: 'string', status: 'string', lines: 'array' },
+    supplierPayments: { supplierId: 'string', date: 'string', amount: 'number', allocations: 'array' },
+    saleReturns: { saleId: 'string', date: 'string', refundMethod: 'string', totalRefund: 'number', lines: 'array' },
+    staff: { name: 'string', role: 'string', pinHash: 'string', pinSalt: 'string', active: 'boolean' },
+    shifts: { registerId: 'string', status: 'string', openedAt: 'string', openingFloat: 'number', cashMovements: 'array' },
+    stockBatches: { productId: 'string', lotNumber: 'string', expiryDate: 'string', quantity: 'number' },
+    pricingRules: { name: 'string', type: 'string', active: 'boolean', priority: 'number' },
+    heldCarts: { name: 'string', registerId: 'string', heldAt: 'string', items: 'array', orderDiscount: 'number' },
+    stockTakes: { name: 'string', scope: 'object', status: 'string', startedAt: 'string', expected: 'object' },
+    stockCounts: { stockTakeId: 'string', productId: 'string', quantity: 'number', countedAt: 'string' },
+};
+
+const MAX_ERRORS_PER_COLLECTION = 5;
+
+export interface CollectionIssues {
+    collection: string;
+    errors: string[];
+    moreErrors: number; // Errors beyond the first MAX_ERRORS_PER_COLLECTION
+}
+
+export interface CollectionPreview {
+    collection: CollectionName;
+    added: number;
+    changed: number;
+    removed: number;
+    unchanged: number;
+}
+
+export interface ImportPreview {
+    collections: CollectionPreview[];
+    settingsReplaced: boolean; // companyInfo and systemSettings; merge keeps the current ones
+}
+
+const typeOf = (value: unknown): FieldType | 'null' | 'undefined' | 'other' => {
+    if (value === null) return 'null';
+    if (Array.isArray(value)) return 'array';
+    const type = typeof value;
+    if (type === 'number') return Number.isFinite(value) ? 'number' : 'other';
+    return ['string', 'boolean', 'object', 'undefined'].includes(type) ? type as FieldType | 'undefined' : 'other';
+};
+
+const describeRecord = (record: any, index: number): string =>
+    typeof record?.id === 'string' ? `Record "${record.id}"` : `Record #${index + 1}`;
+
+const validateCollection = (name: CollectionName, records: unknown): string[] => {
+    if (!Array.isArray(records)) return ['Must be a list of records.'];
+    const errors: string[] = [];
+    const seenIds = new Set<string>();
+    const fields = Object.entries(REQUIRED_FIELDS[name]);
+    records.forEach((record: any, index) => {
+        if (typeOf(record) !== 'object') {
+            errors.push(`Record #${index + 1} is not an object.`);
+            return;
+        }
+        if (typeof record.id !== 'string' || !record.id) {
+            errors.push(`Record #${index + 1} has no id.`);
+        } else if (seenIds.has(record.id)) {
+            errors.push(`Record "${record.id}" appears more than once.`);
+        } else {
+            seenIds.add(record.id);
+        }
+        fields.forEach(([field, type]) => {
+            const actual = typeOf(record[field]);
+            if (actual !== type) {
+                errors.push(`${describeRecord(record, index)}: "${field}" should be ${type === 'array' ? 'a list' : `a ${type}`}, found ${actual}.`);
+            }
+        });
+    });
+    return errors;
+};
+
+const validateSettings = (data: any): CollectionIssues[] => {
+    const issues: CollectionIssues[] = [];
+    const add = (collection: string, error: string) => issues.push({ collection, errors: [error], moreErrors: 0 });
+    if (data.companyInfo !== undefined && (typeOf(data.companyInfo) !== 'object' || typeof data.companyInfo.name !== 'string')) {
+        add('companyInfo', 'Must be an object with a company name.');
+    }
+    if (data.systemSettings !== undefined && (typeOf(data.systemSettings) !== 'object' || typeof data.systemSettings.currency !== 'string')) {
+        add('systemSettings', 'Must be an object with a currency.');
+    }
+    if (data.categories !== undefined && (!Array.isArray(data.categories) || data.categories.some((c: unknown) => typeof c !== 'string'))) {
+        add('categories', 'Must be a list of category names.');
+    }
+    if (data.documentCounters !== undefined && (typeOf(data.documentCounters) !== 'object' || Object.values(data.documentCounters).some(n => !Number.isInteger(n)))) {
+        add('documentCounters', 'Must map each number series to the last number issued.');
+    }
+    return issues;
+};
+
+/**
+ * Checks an upgraded backup before import. Returns the problems per collection; an empty list
+ * means the file can be imported. Collections missing from the file are fine.
+ */
+export const validateBackup = (data: BackupFile): CollectionIssues[] => {
+    const issues: CollectionIssues[] = [];
+    COLLECTION_STORES.forEach(name => {
+        if (data[name] === undefined) return;
+        const errors = validateCollection(name, data[name]);
+        if (errors.length > 0) {
+            issues.push({
+                collection: name,
+                errors: errors.slice(0, MAX_ERRORS_PER_COLLECTION),
+                moreErrors: Math.max(0, errors.length - MAX_ERRORS_PER_COLLECTION),
+            });
+        }
+    });
+    return [...issues, ...validateSettings(data)];
+};
+
+/** Upserts incoming records by id, keeping the current order and appending new records. */
+export const mergeById = <T extends { id: string }>(current: T[], incoming: T[]): T[] => {
+    const incomingById = new Map(incoming.map(record => [record.id, record]));
+    const currentIds = new Set(current.map(record => record.id));
+    return [
+        ...current.map(record => incomingById.get(record.id) ?? record),
+        ...incoming.filter(record => !currentIds.has(record.id)),
+    ];
+};
+
+const previewCollection = (name: CollectionName, current: { id: string }[], incoming: { id: string }[], mode: ImportMode): CollectionPreview => {
+    const currentById = new Map(current.map(record => [record.id, record]));
+    const incomingIds = new Set(incoming.map(record => record.id));
+    let added = 0, changed = 0, unchanged = 0;
+    incoming.forEach(record => {
+        const existing = currentById.get(record.id);
+        if (!existing) added++;
+        else if (JSON.stringify(existing) !== JSON.stringify(record)) changed++;
+        else unchanged++;
+    });
+    const removed = mode === 'replace' ? current.filter(record => !incomingIds.has(record.id)).length : 0;
+    return { collection: name, added, changed, removed, unchanged };
+};
+
+/** What importing the backup would do to each collection it contains, without changing anything. */
+export const previewImport = (current: DataSnapshot, data: BackupFile, mode: ImportMode): ImportPreview => ({
+    collections: COLLECTION_STORES
+        .filter(name => Array.isArray(data[name]))
+        .map(name => previewCollection(name, current[name], data[name]!, mode)),
+    settingsReplaced: mode === 'replace' && (data.companyInfo !== undefined || data.systemSettings !== undefined),
+});
@@ -0,0 +1,136 @@
+import { BackupFile, COLLECTION_STORES } from './storage';
+import { Shift } from './shifts';
+
+declare module '../types' {
+    interface SystemSettings {
+        autoBackup?: AutoBackupSettings;
+    }
+}
+
+// --- Automatic Backups ---
+// Backups go to the chosen folder when the browser still has permission to write there, and
+// to snapshots inside IndexedDB otherwise. Only the newest `keep` of each are retained.
+
+export type BackupSchedule = 'off' | 'sales' | 'hourly' | 'day_close';
+export type BackupTrigger = 'manual' | Exclude<BackupSchedule, 'off'>;
+
+export interface AutoBackupSettings {
+    schedule: BackupSchedule;
+    everySales: number; // Used by the 'sales' schedule
+    keep: number;
+}
+
+export const DEFAULT_AUTO_BACKUP: AutoBackupSettings = { schedule: 'off', everySales: 20, keep: 10 };
+
+/** When and at which sales count the last automatic backup ran. */
+export interface LastAutoBackup {
+    at: string;
+    salesCount: number;
+}
+
+export interface BackupSnapshot {
+    id: string;
+    createdAt: string;
+    trigger: BackupTrigger;
+    backup: BackupFile;
+}
+
+export type ChecksumStatus = 'valid' | 'invalid' | 'missing';
+
+/** A backup offered on the restore screen, from the backup folder or a database snapshot. */
+export interface BackupEntry {
+    id: string;
+    source: 'folder' | 'snapshot';
+    name: string;
+    createdAt: string;
+    trigger?: BackupTrigger;
+    backup: BackupFile | null; // null when the file could not be read or is encrypted
+    encrypted?: boolean;       // Needs its passphrase, so it is restored through the import dialog
+    checksumStatus: ChecksumStatus;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+export const BACKUP_FILE_PATTERN = /^swift-pos-backup-.*\.json$/;
+
+/** Timestamped, so backups made on the same day no longer overwrite each other. */
+export const backupFileName = (date = new Date()): string =>
+    `swift-pos-backup-${date.toISOString().slice(0, 19).replace(/:/g, '-')}.json`;
+
+export const countRecords = (backup: Partial<BackupFile>): Record<string, number> => {
+    const counts: Record<string, number> = {};
+    COLLECTION_STORES.forEach(name => {
+        const records = backup[name];
+        if (Array.isArray(records)) counts[name] = records.length;
+    });
+    return counts;
+};
+
+const sha256Hex = async (text: string): Promise<string> => {
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+    return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+};
+
+// The checksum covers the whole file except the checksum field itself.
+const checksumOf = ({ checksum, ...rest }: BackupFile): Promise<string> => sha256Hex(JSON.stringify(rest));
+
+/** Adds the record counts and a SHA-256 checksum to a backup. */
+export const sealBackup = async (backup: BackupFile): Promise<BackupFile> => {
+    const sealed = { ...backup, recordCounts: countRecords(backup) };
+    return { ...sealed, checksum: await checksumOf(sealed) };
+};
+
+/** Whether a backup is unchanged since it was written. Backups from before checksums are 'missing'. */
+export const verifyBackup = async (backup: BackupFile): Promise<ChecksumStatus> => {
+    if (!backup.checksum) return 'missing';
+    return (await checksumOf(backup)) === backup.checksum ? 'valid' : 'invalid';
+};
+
+export const isBackupDue = (
+    settings: AutoBackupSettings,
+    last: LastAutoBackup | undefined,
+    state: { salesCount: number; shifts: Shift[]; now: Date },
+): boolean => {
+    const lastAt = last?.at || '';
+    switch (settings.schedule) {
+        case 'sales':
+            return state.salesCount - (last?.salesCount || 0) >= Math.max(1, settings.everySales);
+        case 'hourly':
+            return !lastAt || state.now.getTime() - new Date(lastAt).getTime() >= HOUR_MS;
+        case 'day_close':
+            return state.shifts.some(s => s.closedAt && s.closedAt > lastAt);
+        default:
+            return false;
+    }
+};
+
+// --- Backup Folder ---
+// `handle` is a FileSystemDirectoryHandle from showDirectoryPicker().
+
+/** Whether the folder can be written without asking, which background backups cannot do. */
+export const canWriteToFolder = async (handle: any): Promise<boolean> =>
+    (await handle.queryPermission({ mode: 'readwrite' })) === 'granted';
+
+export const writeBackupFile = async (handle: any, fileName: string, contents: string): Promise<void> => {
+    const fileHandle = await handle.getFileHandle(fileName, { create: true });
+    const writable = await fileHandle.createWritable();
+    await writable.write(new Blob([contents], { type: 'application/json' }));
+    await writable.close();
+};
+
+/** Backup files in the folder, newest first. Names sort by the timestamp they carry. */
+export const listBackupFiles = async (handle: any): Promise<{ name: string; file: File }[]> => {
+    const files: { name: string; file: File }[] = [];
+    for await (const entry of handle.values()) {
+        if (entry.kind === 'file' && BACKUP_FILE_PATTERN.test(entry.name)) {
+            files.push({ name: entry.name, file: await entry.getFile() });
+        }
+    }
+    return files.sort((a, b) => b.name.localeCompare(a.name));
+};
+
+export const pruneBackupFiles = async (handle: any, keep: number): Promise<void> => {
+    const files = await listBackupFiles(handle);
+    for (const { name } of files.slice(Math.max(1, keep))) {
+        await handle.removeEntry(name);
+    }
+};
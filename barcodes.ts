@@ -0,0 +1,137 @@
+import { Product, SystemSettings } from '../types';
+import { getUnits } from './units';
+import { isVariantParent } from './variants';
+
+declare module '../types' {
+    interface SystemSettings {
+        barcodeFormat?: BarcodeFormat;
+        barcodePrefix?: string;        // EAN-13: 2-3 digits from the 20-29 in-store range; Code128: letters
+        autoAssignBarcodes?: boolean;  // Give new products without a barcode an internal one
+    }
+}
+
+// --- Internal Barcodes ---
+// Products without a manufacturer barcode get one from the shop's own range: EAN-13 numbers with
+// a 20-29 prefix (reserved by GS1 for in-store use, so they never clash with a real product) or
+// Code128 codes like SP000123. The sequence continues from the highest code already issued, and
+// the bar patterns for both are worked out here so labels can draw them without a library.
+
+export type BarcodeFormat = 'ean13' | 'code128';
+
+export const DEFAULT_EAN_PREFIX = '20';
+export const DEFAULT_CODE128_PREFIX = 'SP';
+const CODE128_DIGITS = 6;
+
+export const getBarcodePrefix = (settings: SystemSettings): string =>
+    settings.barcodePrefix?.trim() || (settings.barcodeFormat === 'code128' ? DEFAULT_CODE128_PREFIX : DEFAULT_EAN_PREFIX);
+
+/** The EAN-13 check digit for the first 12 digits. */
+export const ean13CheckDigit = (first12: string): number => {
+    const sum = first12.split('').reduce((total, digit, i) => total + Number(digit) * (i % 2 === 0 ? 1 : 3), 0);
+    return (10 - (sum % 10)) % 10;
+};
+
+export const isValidEan13 = (code: string): boolean =>
+    /^\d{13}$/.test(code) && ean13CheckDigit(code.slice(0, 12)) === Number(code[12]);
+
+/** Every barcode in use, on products and on their pack units. */
+export const getAllBarcodes = (products: Product[]): Set<string> =>
+    new Set(products.flatMap(p => getUnits(p).map(u => u.barcode)).filter((b): b is string => !!b));
+
+/** Internal barcodes for `count` products, continuing the shop's sequence and skipping codes already taken. */
+export const nextInternalBarcodes = (products: Product[], settings: SystemSettings, count: number): string[] => {
+    const prefix = getBarcodePrefix(settings);
+    const taken = getAllBarcodes(products);
+    const isEan = settings.barcodeFormat !== 'code128';
+    const bodyLength = isEan ? 12 - prefix.length : CODE128_DIGITS;
+    const pattern = isEan ? new RegExp(`^${prefix}(\\d{${bodyLength}})\\d$`) : new RegExp(`^${prefix}(\\d{${bodyLength}})$`);
+
+    let sequence = 0;
+    taken.forEach(code => {
+        const match = code.match(pattern);
+        if (match) sequence = Math.max(sequence, Number(match[1]));
+    });
+
+    const codes: string[] = [];
+    while (codes.length < count) {
+        sequence++;
+        const body = `${prefix}${String(sequence).padStart(bodyLength, '0')}`;
+        if (body.length > (isEan ? 12 : prefix.length + bodyLength)) throw new Error('The internal barcode range is used up; choose another prefix.');
+        const code = isEan ? `${body}${ean13CheckDigit(body)}` : body;
+        if (!taken.has(code)) codes.push(code);
+    }
+    return codes;
+};
+
+/**
+ * Gives each of the listed products that has no barcode the next internal one. Variant parents are
+ * left alone since only their variants are scanned. Returns the whole list; throws if the range runs out.
+ */
+export const assignInternalBarcodes = (products: Product[], productIds: string[], settings: SystemSettings): Product[] => {
+    const ids = new Set(productIds);
+    const targets = products.filter(p => ids.has(p.id) && !p.barcode && !isVariantParent(p));
+    if (targets.length === 0) return products;
+    const codes = nextInternalBarcodes(products, settings, targets.length);
+    const codeById = new Map(targets.map((p, i) => [p.id, codes[i]]));
+    return products.map(p => (codeById.has(p.id) ? { ...p, barcode: codeById.get(p.id) } : p));
+};
+
+/** Returns an error message, or null if the barcode settings can be saved. */
+export const validateBarcodeSettings = (settings: SystemSettings): string | null => {
+    const prefix = settings.barcodePrefix?.trim();
+    if (!prefix) return null;
+    if (settings.barcodeFormat === 'code128') {
+        return /^[A-Z]{1,4}$/.test(prefix) ? null : 'A Code128 prefix is 1 to 4 capital letters.';
+    }
+    return /^2\d{1,2}$/.test(prefix) ? null : 'An EAN-13 in-store prefix is 2 or 3 digits starting with 2 (20-29).';
+};
+
+// --- Bar Patterns ---
+// Each pattern is a string of modules, "1" for a bar and "0" for a space.
+
+const EAN_L = ['0001101', '0011001', '0010011', '0111101', '0100011', '0110001', '0101111', '0111011', '0110111', '0001011'];
+const EAN_G = ['0100111', '0110011', '0011011', '0100001', '0011101', '0111001', '0000101', '0010001', '0001001', '0010111'];
+const EAN_R = ['1110010', '1100110', '1101100', '1000010', '1011100', '1001110', '1010000', '1000100', '1001000', '1110100'];
+// Which of L and G encodes each of the left six digits, picked by the first digit.
+const EAN_PARITY = ['LLLLLL', 'LLGLGG', 'LLGGLG', 'LLGGGL', 'LGLLGG', 'LGGLLG', 'LGGGLL', 'LGLGLG', 'LGLGGL', 'LGGLGL'];
+
+export const encodeEan13 = (code: string): string => {
+    if (!isValidEan13(code)) throw new Error(`${code} is not a valid EAN-13 barcode.`);
+    const digits = code.split('').map(Number);
+    const parity = EAN_PARITY[digits[0]];
+    const left = digits.slice(1, 7).map((d, i) => (parity[i] === 'L' ? EAN_L : EAN_G)[d]).join('');
+    const right = digits.slice(7).map(d => EAN_R[d]).join('');
+    return `101${left}01010${right}101`;
+};
+
+// Code 128 bar/space widths for symbol values 0-106 (106 is the stop symbol without its final bar).
+const CODE128_WIDTHS = [
+    '212222', '222122', '222221', '121223', '121322', '131222', '122213', '122312', '132212', '221213',
+    '221312', '231212', '112232', '122132', '122231', '113222', '123122', '123221', '223211', '221132',
+    '221231', '213212', '223112', '312131', '311222', '321122', '321221', '312212', '322112', '322211',
+    '212123', '212321', '232121', '111323', '131123', '131321', '112313', '132113', '132311', '211313',
+    '231113', '231311', '112133', '112331', '132131', '113123', '113321', '133121', '313121', '211331',
+    '231131', '213113', '213311', '213131', '311123', '311321', '331121', '312113', '312311', '332111',
+    '314111', '221411', '431111', '111224', '111422', '121124', '121421', '141122', '141221', '112214',
+    '112412', '122114', '122411', '142112', '142211', '241211', '221114', '413111', '241112', '134111',
+    '111242', '121142', '121241', '114212', '124112', '124211', '411212', '421112', '421211', '212141',
+    '214121', '412121', '111143', '111341', '131141', '114113', '114311', '411113', '411311', '113141',
+    '114131', '311141', '411131', '211412', '211214', '211232', '233111',
+];
+const CODE128_START_B = 104;
+const CODE128_STOP = 106;
+
+const widthsToModules = (widths: string): string =>
+    widths.split('').map((w, i) => (i % 2 === 0 ? '1' : '0').repeat(Number(w))).join('');
+
+/** Code 128 using code set B, which covers printable ASCII. */
+export const encodeCode128 = (text: string): string => {
+    if (!/^[\x20-\x7e]+$/.test(text)) throw new Error('Code128 labels can only hold printable ASCII characters.');
+    const values = text.split('').map(ch => ch.charCodeAt(0) - 32);
+    const checksum = values.reduce((sum, value, i) => sum + value * (i + 1), CODE128_START_B) % 103;
+    return [CODE128_START_B, ...values, checksum, CODE128_STOP].map(v => widthsToModules(CODE128_WIDTHS[v])).join('') + '11';
+};
+
+/** Bar pattern for a product's barcode: EAN-13 when it is a valid one, Code128 otherwise. */
+export const encodeBarcode = (code: string): { format: BarcodeFormat; modules: string } =>
+    isValidEan13(code) ? { format: 'ean13', modules: encodeEan13(code) } : { format: 'code128', modules: encodeCode128(code) };
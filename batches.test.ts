@@ -0,0 +1,105 @@
+import { describe, expect, it } from 'vitest';
+import { Product, Sale } from '../types';
+import {
+    StockBatch, allocateSaleBatches, applyBatchAllocations, getExpiryAlerts, getOpenBatches, getReturnAllocations,
+    trimBatchesToStock,
+} from './batches';
+import { SaleReturnLine } from './returns';
+
+const TODAY = '2026-03-10';
+
+// 15 of the 20 on hand are in lots; L3 has expired. The other 5 are unbatched.
+const syrup: Product = { id: 'p1', name: 'Cough syrup', category: 'Pharmacy', buyingPrice: 2000, sellingPrice: 3000, stock: 20, trackBatches: true };
+
+const batch = (id: string, lotNumber: string, expiryDate: string, quantity: number, receivedAt = '2026-01-01T09:00:00.000Z'): StockBatch => ({
+    id, productId: 'p1', lotNumber, expiryDate, quantity, receivedQuantity: quantity, receivedAt,
+});
+const batches = [
+    batch('b1', 'L1', '2026-04-01', 5),
+    batch('b2', 'L2', '2026-03-20', 6),
+    batch('b3', 'L3', '2026-03-01', 4),
+    batch('b4', 'L4', '2026-04-01', 0, '2025-12-01T09:00:00.000Z'),
+];
+
+const item = (quantity: number): Sale['items'][number] => ({ id: 'i1', productId: 'p1', name: 'Cough syrup', price: 3000, quantity, discount: 0, total: 3000 * quantity });
+
+describe('getOpenBatches', () => {
+    it('orders lots with stock by expiry, then by when they arrived', () => {
+        const sameExpiry = batch('b5', 'L5', '2026-04-01', 1, '2025-12-01T09:00:00.000Z');
+
+        expect(getOpenBatches([...batches, sameExpiry], 'p1').map(b => b.id)).toEqual(['b3', 'b2', 'b5', 'b1']);
+    });
+});
+
+describe('allocateSaleBatches', () => {
+    it('sells the earliest unexpired lot first', () => {
+        expect(allocateSaleBatches([item(8)], [syrup], batches, TODAY)).toEqual([
+            { productId: 'p1', batchId: 'b2', quantity: 6 },
+            { productId: 'p1', batchId: 'b1', quantity: 2 },
+        ]);
+    });
+
+    it('sells unbatched stock after the lots, but never an expired lot', () => {
+        expect(allocateSaleBatches([item(10), item(6)], [syrup], batches, TODAY)).toEqual([
+            { productId: 'p1', batchId: 'b2', quantity: 6 },
+            { productId: 'p1', batchId: 'b1', quantity: 5 },
+        ]);
+        expect(() => allocateSaleBatches([item(17)], [syrup], batches, TODAY))
+            .toThrow('Only 16 of "Cough syrup" can be sold; lot L3 expired on 2026-03-01.');
+    });
+
+    it('leaves products without batch tracking alone', () => {
+        expect(allocateSaleBatches([item(3)], [{ ...syrup, trackBatches: false }], batches, TODAY)).toEqual([]);
+    });
+});
+
+describe('trimBatchesToStock', () => {
+    it('takes a loss out of unbatched stock first, then out of the lots in selling order', () => {
+        expect(trimBatchesToStock(batches, [{ ...syrup, stock: 15 }], ['p1'])).toBe(batches);
+        expect(trimBatchesToStock(batches, [{ ...syrup, stock: 8 }], ['p1']).map(b => b.quantity)).toEqual([5, 3, 0, 0]);
+    });
+});
+
+describe('applyBatchAllocations', () => {
+    it('takes stock out and puts it back', () => {
+        const allocations = [{ productId: 'p1', batchId: 'b2', quantity: 4 }, { productId: 'p1', batchId: 'b2', quantity: 1 }];
+        const taken = applyBatchAllocations(batches, allocations, -1);
+
+        expect(taken[1].quantity).toBe(1);
+        expect(applyBatchAllocations(taken, allocations, 1)).toEqual(batches);
+    });
+});
+
+describe('getReturnAllocations', () => {
+    const sale: Sale = {
+        id: 's1', date: TODAY, time: '10:00:00', customerType: 'walk-in', paymentMethod: 'cash',
+        items: [item(8)], total: 24000, profit: 8000, amountPaid: 24000, orderDiscount: 0, change: 0,
+        batchAllocations: [{ productId: 'p1', batchId: 'b2', quantity: 6 }, { productId: 'p1', batchId: 'b1', quantity: 2 }],
+    };
+    const line = (quantity: number, disposition: SaleReturnLine['disposition'] = 'restock'): SaleReturnLine => ({
+        saleItemId: 'i1', productId: 'p1', name: 'Cough syrup', quantity, unitRefund: 3000, amount: 3000 * quantity, disposition,
+    });
+
+    it('puts restocked units back into the latest-expiring lot first', () => {
+        expect(getReturnAllocations(sale, [line(3), line(2, 'damaged')], [])).toEqual([
+            { productId: 'p1', batchId: 'b1', quantity: 2 },
+            { productId: 'p1', batchId: 'b2', quantity: 1 },
+        ]);
+    });
+
+    it('skips what earlier returns already put back', () => {
+        expect(getReturnAllocations(sale, [line(3)], [line(1), line(4, 'damaged')])).toEqual([
+            { productId: 'p1', batchId: 'b1', quantity: 1 },
+            { productId: 'p1', batchId: 'b2', quantity: 2 },
+        ]);
+    });
+});
+
+describe('getExpiryAlerts', () => {
+    it('lists expired and soon-expiring lots with stock, soonest first', () => {
+        expect(getExpiryAlerts(batches, 15, TODAY).map(a => [a.batch.id, a.status, a.daysLeft])).toEqual([
+            ['b3', 'expired', -9],
+            ['b2', 'expiring', 10],
+        ]);
+    });
+});
@@ -0,0 +1,194 @@
+import { Product, Sale } from '../types';
+import { SaleReturnLine } from './returns';
+
+declare module '../types' {
+    interface Product {
+        trackBatches?: boolean; // Stock is received in lots with an expiry date and sold first-expiry-first-out
+    }
+    interface Sale {
+        batchAllocations?: BatchAllocation[];
+    }
+    interface SystemSettings {
+        expiryWarningDays?: number;
+    }
+}
+
+declare module './purchaseOrders' {
+    interface ReceivedLine {
+        lotNumber?: string;
+        expiryDate?: string; // YYYY-MM-DD; both are required for batch-tracked products
+    }
+}
+
+// --- Batches and Expiry ---
+// Batch-tracked stock is received in lots, each with its own expiry date and remaining quantity.
+// Product.stock stays the on-hand total; stock the batches do not account for (opening stock,
+// counts, edits on the product form) is "unbatched" and sold after every unexpired batch. When
+// stock is lowered outside a sale, the lots are trimmed so they never hold more than is on hand.
+
+export const DEFAULT_EXPIRY_WARNING_DAYS = 30;
+
+export interface StockBatch {
+    id: string;
+    productId: string;
+    lotNumber: string;
+    expiryDate: string; // YYYY-MM-DD
+    quantity: number;   // Remaining on hand
+    receivedQuantity: number;
+    receivedAt: string; // ISO timestamp
+    purchaseId?: string;
+}
+
+/** A lot as entered when stock is received. */
+export interface BatchReceipt {
+    lotNumber: string;
+    expiryDate: string;
+    quantity: number;
+    unitCost?: number; // Defaults to the product's buying price
+}
+
+/** Quantity of a sale taken from one batch, kept on the sale so voids and returns can put it back. */
+export interface BatchAllocation {
+    productId: string;
+    batchId: string;
+    quantity: number;
+}
+
+export type ExpiryStatus = 'expired' | 'expiring' | 'ok';
+
+export interface ExpiryAlert {
+    batch: StockBatch;
+    status: Exclude<ExpiryStatus, 'ok'>;
+    daysLeft: number; // Negative once expired
+}
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+// Lots expire at the end of the shop's day, so today is the local date rather than the UTC one.
+export const todayString = (): string => {
+    const now = new Date();
+    return `${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(now.getDate())}`;
+};
+
+export const isExpired = (batch: StockBatch, today: string = todayString()): boolean => batch.expiryDate < today;
+
+const daysBetween = (from: string, to: string): number =>
+    Math.round((Date.parse(to) - Date.parse(from)) / (24 * 60 * 60 * 1000));
+
+export const getExpiryStatus = (batch: StockBatch, warningDays: number, today: string = todayString()): ExpiryStatus => {
+    if (isExpired(batch, today)) return 'expired';
+    return daysBetween(today, batch.expiryDate) <= warningDays ? 'expiring' : 'ok';
+};
+
+/** Batches of a product that still hold stock, in the order they should be sold. */
+export const getOpenBatches = (batches: StockBatch[], productId: string): StockBatch[] =>
+    batches
+        .filter(b => b.productId === productId && b.quantity > 0)
+        .sort((a, b) => a.expiryDate.localeCompare(b.expiryDate) || a.receivedAt.localeCompare(b.receivedAt));
+
+export const getUnbatchedStock = (product: Product, batches: StockBatch[]): number =>
+    Math.max(0, product.stock - getOpenBatches(batches, product.id).reduce((total, b) => total + b.quantity, 0));
+
+/**
+ * Lowers the lots of the listed products that hold more than is now on hand, after an adjustment,
+ * a count or an edit took stock down. The loss comes out of unbatched stock first, then out of
+ * the lots in the order they would be sold, expired ones first.
+ */
+export const trimBatchesToStock = (batches: StockBatch[], products: Product[], productIds: string[]): StockBatch[] => {
+    const reductions = new Map<string, number>();
+    new Set(productIds).forEach(productId => {
+        const product = products.find(p => p.id === productId);
+        if (!product) return;
+        const open = getOpenBatches(batches, productId);
+        let excess = open.reduce((total, b) => total + b.quantity, 0) - Math.max(0, product.stock);
+        open.forEach(batch => {
+            if (excess <= 0) return;
+            const taken = Math.min(batch.quantity, excess);
+            reductions.set(batch.id, taken);
+            excess -= taken;
+        });
+    });
+    if (reductions.size === 0) return batches;
+    return batches.map(b => reductions.has(b.id) ? { ...b, quantity: b.quantity - reductions.get(b.id)! } : b);
+};
+
+/**
+ * Takes the sale's batch-tracked quantities from unexpired batches, earliest expiry first, then
+ * from unbatched stock. Throws if the rest would have to come from an expired batch.
+ */
+export const allocateSaleBatches = (
+    items: Sale['items'],
+    products: Product[],
+    batches: StockBatch[],
+    today: string = todayString(),
+): BatchAllocation[] => {
+    const needed = new Map<string, number>();
+    items.forEach(item => needed.set(item.productId, (needed.get(item.productId) || 0) + item.quantity));
+
+    const allocations: BatchAllocation[] = [];
+    needed.forEach((quantity, productId) => {
+        const product = products.find(p => p.id === productId);
+        if (!product?.trackBatches || quantity <= 0) return;
+        const open = getOpenBatches(batches, productId);
+        let remaining = quantity;
+        open.filter(b => !isExpired(b, today)).forEach(batch => {
+            if (remaining <= 0) return;
+            const taken = Math.min(batch.quantity, remaining);
+            allocations.push({ productId, batchId: batch.id, quantity: taken });
+            remaining -= taken;
+        });
+        const expired = open.find(b => isExpired(b, today));
+        const unbatched = getUnbatchedStock(product, batches);
+        if (remaining > unbatched && expired) {
+            const sellable = quantity - remaining + unbatched;
+            throw new Error(`Only ${sellable} of "${product.name}" can be sold; lot ${expired.lotNumber} expired on ${expired.expiryDate}.`);
+        }
+    });
+    return allocations;
+};
+
+/** Applies allocations to the batch list, replacing changed batches. Use -1 to take stock out, 1 to put it back. */
+export const applyBatchAllocations = (batches: StockBatch[], allocations: BatchAllocation[], direction: 1 | -1): StockBatch[] => {
+    if (allocations.length === 0) return batches;
+    const changes = new Map<string, number>();
+    allocations.forEach(a => changes.set(a.batchId, (changes.get(a.batchId) || 0) + a.quantity * direction));
+    return batches.map(b => changes.has(b.id) ? { ...b, quantity: b.quantity + changes.get(b.id)! } : b);
+};
+
+/**
+ * Allocations to put back for restocked return lines: the latest-expiring batches the sale
+ * took from come back first, and never more than the sale took from each.
+ */
+export const getReturnAllocations = (sale: Sale, lines: SaleReturnLine[], previousReturns: SaleReturnLine[]): BatchAllocation[] => {
+    const allocations = sale.batchAllocations ?? [];
+    if (allocations.length === 0) return [];
+    const alreadyReturned = new Map<string, number>();
+    previousReturns
+        .filter(l => l.disposition === 'restock')
+        .forEach(l => alreadyReturned.set(l.productId, (alreadyReturned.get(l.productId) || 0) + l.quantity));
+
+    const result: BatchAllocation[] = [];
+    lines.filter(l => l.disposition === 'restock').forEach(line => {
+        // Earlier returns are assumed to have used up the latest batches, matching how they were put back.
+        let skip = alreadyReturned.get(line.productId) || 0;
+        let remaining = line.quantity;
+        [...allocations].reverse().filter(a => a.productId === line.productId).forEach(a => {
+            const available = Math.max(0, a.quantity - skip);
+            skip = Math.max(0, skip - a.quantity);
+            const quantity = Math.min(available, remaining);
+            if (quantity <= 0) return;
+            result.push({ productId: a.productId, batchId: a.batchId, quantity });
+            remaining -= quantity;
+        });
+        alreadyReturned.set(line.productId, (alreadyReturned.get(line.productId) || 0) + line.quantity);
+    });
+    return result;
+};
+
+/** Open batches that have expired or expire within the warning window, soonest first. */
+export const getExpiryAlerts = (batches: StockBatch[], warningDays: number, today: string = todayString()): ExpiryAlert[] =>
+    batches
+        .filter(b => b.quantity > 0)
+        .map(batch => ({ batch, status: getExpiryStatus(batch, warningDays, today), daysLeft: daysBetween(today, batch.expiryDate) }))
+        .filter((alert): alert is ExpiryAlert => alert.status !== 'ok')
+        .sort((a, b) => a.batch.expiryDate.localeCompare(b.batch.expiryDate));
@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import { SystemSettings } from '../types';
+import {
+    buildTenders, getExchangeRate, getTenderCurrencies, getTenderTotals, summarizeTenders, validateCurrencySettings,
+} from './currency';
+
+const settings: SystemSettings = {
+    businessType: 'convenience', currency: 'MMK', taxRate: 0, enableNotifications: true, enableSound: true, lowStockThreshold: 10,
+    receiptSize: 'standard', receiptFooter: 'Thank you!', storagePreference: 'local', storagePath: '',
+    acceptedCurrencies: ['USD', 'MMK', 'EUR'],
+    exchangeRates: [
+        { id: 'x1', currency: 'USD', rate: 2100, effectiveFrom: '2026-01-01' },
+        { id: 'x2', currency: 'USD', rate: 2150.5, effectiveFrom: '2026-03-01' },
+        { id: 'x3', currency: 'EUR', rate: 2300, effectiveFrom: '2026-03-10' },
+    ],
+};
+
+describe('getExchangeRate', () => {
+    it('uses the latest rate in force on the date', () => {
+        expect(getExchangeRate(settings, 'USD', '2026-02-28')).toBe(2100);
+        expect(getExchangeRate(settings, 'USD', '2026-03-01')).toBe(2150.5);
+        expect(getExchangeRate(settings, 'EUR', '2026-03-05')).toBeUndefined();
+        expect(getExchangeRate(settings, 'MMK', '2026-03-05')).toBe(1);
+    });
+});
+
+describe('buildTenders', () => {
+    it('converts each tender at the rate for the sale date, rounded to cents', () => {
+        expect(getTenderCurrencies(settings)).toEqual(['MMK', 'USD', 'EUR']);
+        expect(buildTenders([{ currency: 'USD', amount: 3.33 }, { currency: 'MMK', amount: 500 }, { currency: 'MMK', amount: 0 }], settings, '2026-03-05'))
+            .toEqual([
+                { currency: 'USD', amount: 3.33, rate: 2150.5, baseAmount: 7161.17 },
+                { currency: 'MMK', amount: 500, rate: 1, baseAmount: 500 },
+            ]);
+    });
+
+    it('refuses negative amounts, currencies not accepted and dates before the first rate', () => {
+        expect(() => buildTenders([{ currency: 'MMK', amount: -5 }], settings, '2026-03-05')).toThrow('Tender amounts must be positive.');
+        expect(() => buildTenders([{ currency: 'EUR', amount: 5 }], { ...settings, acceptedCurrencies: ['USD'] }, '2026-03-15')).toThrow('EUR is not accepted.');
+        expect(() => buildTenders([{ currency: 'EUR', amount: 5 }], settings, '2026-03-05')).toThrow('There is no EUR exchange rate for 2026-03-05.');
+    });
+});
+
+describe('summarizeTenders', () => {
+    const tenders = buildTenders([{ currency: 'USD', amount: 10 }, { currency: 'MMK', amount: 1000 }], settings, '2026-03-05');
+
+    it('gives change in the base currency when the tenders cover the total', () => {
+        expect(summarizeTenders(tenders, 20000)).toEqual({ amountPaid: 22505, change: 2505, remaining: 0 });
+    });
+
+    it('reports what is still owed when they fall short', () => {
+        expect(summarizeTenders(tenders, 23000.1)).toEqual({ amountPaid: 22505, change: 0, remaining: 495.1 });
+    });
+});
+
+describe('getTenderTotals', () => {
+    it('totals each currency in that currency', () => {
+        const sales = [
+            { tenders: buildTenders([{ currency: 'USD', amount: 0.1 }, { currency: 'MMK', amount: 500 }], settings, '2026-03-05') },
+            { tenders: buildTenders([{ currency: 'USD', amount: 0.2 }], settings, '2026-03-05') },
+            {},
+        ];
+
+        expect(getTenderTotals(sales)).toEqual(new Map([['USD', 0.3], ['MMK', 500]]));
+    });
+});
+
+describe('validateCurrencySettings', () => {
+    it('requires a positive, dated rate for every accepted currency and none for the base currency', () => {
+        expect(validateCurrencySettings({ ...settings, exchangeRates: settings.exchangeRates!.slice(0, 2) })).toBe('Enter an exchange rate for EUR.');
+        expect(validateCurrencySettings({ ...settings, exchangeRates: [{ id: 'x', currency: 'MMK', rate: 1, effectiveFrom: '2026-01-01' }] }))
+            .toBe('MMK is the base currency and needs no exchange rate.');
+        expect(validateCurrencySettings({ ...settings, exchangeRates: [...settings.exchangeRates!, { id: 'x4', currency: 'USD', rate: 0, effectiveFrom: '2026-04-01' }] }))
+            .toBe('Enter a rate above zero for USD.');
+        expect(validateCurrencySettings({ ...settings, exchangeRates: [...settings.exchangeRates!, { id: 'x4', currency: 'USD', rate: 2200, effectiveFrom: '2026-03-01' }] }))
+            .toBe('There are two USD rates starting on 2026-03-01.');
+        expect(validateCurrencySettings(settings)).toBeNull();
+    });
+});
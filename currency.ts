@@ -0,0 +1,100 @@
+import { Sale, SystemSettings } from '../types';
+
+declare module '../types' {
+    interface SystemSettings {
+        acceptedCurrencies?: Currency[]; // Tender currencies besides the base currency
+        exchangeRates?: ExchangeRate[];
+    }
+    interface Sale {
+        tenders?: SaleTender[]; // amountPaid and change stay in the base currency
+    }
+}
+
+// --- Currencies ---
+// SystemSettings.currency is the base currency: prices, the books and every report are kept in it.
+// Customers may also pay in the accepted foreign currencies, split across several of them, at the
+// owner's rate in force on the sale date. Each tender keeps the rate it was taken at, and change is
+// always given in the base currency.
+
+export type Currency = SystemSettings['currency'];
+
+export const CURRENCIES: Currency[] = ['MMK', 'USD', 'EUR'];
+
+export interface ExchangeRate {
+    id: string;
+    currency: Currency;
+    rate: number;          // Base currency per one unit of `currency`
+    effectiveFrom: string; // YYYY-MM-DD; applies until a later rate for the same currency takes over
+}
+
+export interface TenderInput {
+    currency: Currency;
+    amount: number; // In `currency`
+}
+
+export interface SaleTender extends TenderInput {
+    rate: number;       // Rate used, 1 for the base currency
+    baseAmount: number; // `amount` in the base currency
+}
+
+const roundMoney = (amount: number): number => Math.round(amount * 100) / 100;
+
+/** Currencies a sale can be paid in, base currency first. */
+export const getTenderCurrencies = (settings: SystemSettings): Currency[] =>
+    [settings.currency, ...(settings.acceptedCurrencies ?? []).filter(c => c !== settings.currency)];
+
+/** Rate in force for `currency` on `date`, or undefined if none has been entered yet. */
+export const getExchangeRate = (settings: SystemSettings, currency: Currency, date: string): number | undefined => {
+    if (currency === settings.currency) return 1;
+    return (settings.exchangeRates ?? [])
+        .filter(r => r.currency === currency && r.effectiveFrom <= date)
+        .sort((a, b) => b.effectiveFrom.localeCompare(a.effectiveFrom))[0]?.rate;
+};
+
+/** Converts tenders to the base currency at the rates for `date`. Throws if a currency can't be taken. */
+export const buildTenders = (inputs: TenderInput[], settings: SystemSettings, date: string): SaleTender[] => {
+    const accepted = getTenderCurrencies(settings);
+    return inputs
+        .filter(input => input.amount !== 0)
+        .map(input => {
+            if (!(input.amount > 0)) throw new Error('Tender amounts must be positive.');
+            if (!accepted.includes(input.currency)) throw new Error(`${input.currency} is not accepted.`);
+            const rate = getExchangeRate(settings, input.currency, date);
+            if (!rate) throw new Error(`There is no ${input.currency} exchange rate for ${date}.`);
+            return { ...input, rate, baseAmount: roundMoney(input.amount * rate) };
+        });
+};
+
+/** What the tenders cover in the base currency and the change due, which is never negative. */
+export const summarizeTenders = (tenders: SaleTender[], total: number): { amountPaid: number; change: number; remaining: number } => {
+    const amountPaid = roundMoney(tenders.reduce((sum, t) => sum + t.baseAmount, 0));
+    return {
+        amountPaid,
+        change: roundMoney(Math.max(0, amountPaid - total)),
+        remaining: roundMoney(Math.max(0, total - amountPaid)),
+    };
+};
+
+/** Tendered amounts per currency, in that currency, e.g. for the cash drawer count. */
+export const getTenderTotals = (sales: Pick<Sale, 'tenders'>[]): Map<Currency, number> => {
+    const totals = new Map<Currency, number>();
+    sales.forEach(sale => (sale.tenders ?? []).forEach(t => totals.set(t.currency, roundMoney((totals.get(t.currency) || 0) + t.amount))));
+    return totals;
+};
+
+/** Returns an error message, or null if the currency settings can be saved. */
+export const validateCurrencySettings = (settings: SystemSettings): string | null => {
+    const seen = new Set<string>();
+    for (const rate of settings.exchangeRates ?? []) {
+        if (rate.currency === settings.currency) return `${rate.currency} is the base currency and needs no exchange rate.`;
+        if (!(rate.rate > 0)) return `Enter a rate above zero for ${rate.currency}.`;
+        if (!/^\d{4}-\d{2}-\d{2}$/.test(rate.effectiveFrom)) return `Enter the date the ${rate.currency} rate takes effect.`;
+        const key = `${rate.currency}:${rate.effectiveFrom}`;
+        if (seen.has(key)) return `There are two ${rate.currency} rates starting on ${rate.effectiveFrom}.`;
+        seen.add(key);
+    }
+    const withoutRate = (settings.acceptedCurrencies ?? [])
+        .filter(c => c !== settings.currency && !settings.exchangeRates?.some(r => r.currency === c));
+    if (withoutRate.length > 0) return `Enter an exchange rate for ${withoutRate.join(', ')}.`;
+    return null;
+};
@@ -0,0 +1,97 @@
+import { describe, expect, it } from 'vitest';
+import { Sale, SystemSettings } from '../types';
+import {
+    findSalesByNumber, getFiscalYear, getDocumentLabel, matchesDocumentNumber, nextDocumentNumber, validateNumbering,
+} from './documentNumbers';
+import { deviceRegisterId } from './shifts';
+
+const settings: SystemSettings = {
+    businessType: 'convenience', currency: 'MMK', taxRate: 0, enableNotifications: true, enableSound: true, lowStockThreshold: 10,
+    receiptSize: 'standard', receiptFooter: 'Thank you!', storagePreference: 'local', storagePath: '',
+    registerId: 'R2',
+};
+
+describe('getFiscalYear', () => {
+    it('names the fiscal year after the calendar year it starts in', () => {
+        expect(getFiscalYear('2026-03-31')).toBe(2026);
+        expect(getFiscalYear('2026-03-31', 4)).toBe(2025);
+        expect(getFiscalYear('2026-04-01', 4)).toBe(2026);
+    });
+});
+
+describe('nextDocumentNumber', () => {
+    it('keeps a series per type, register and fiscal year', () => {
+        const first = nextDocumentNumber({}, settings, 'sale', '2026-03-05', []);
+        const second = nextDocumentNumber(first.counters, settings, 'sale', '2026-03-05', []);
+        const otherRegister = nextDocumentNumber(second.counters, { ...settings, registerId: 'R3' }, 'sale', '2026-03-05', []);
+        const nextYear = nextDocumentNumber(second.counters, settings, 'sale', '2027-01-02', []);
+        const payment = nextDocumentNumber(second.counters, settings, 'payment', '2026-03-05', []);
+
+        expect([first, second, otherRegister, nextYear, payment].map(r => r.documentNumber))
+            .toEqual(['INV-R2-2026-000001', 'INV-R2-2026-000002', 'INV-R3-2026-000001', 'INV-R2-2027-000001', 'PAY-R2-2026-000001']);
+        expect(second.counters).toEqual({ 'sale|R2|2026': 2 });
+    });
+
+    it('follows the configured format and fiscal year start', () => {
+        const custom: SystemSettings = {
+            ...settings,
+            fiscalYearStartMonth: 4,
+            documentNumbering: { sale: { prefix: 'S', padding: 3, perRegister: false } },
+        };
+
+        expect(nextDocumentNumber({}, custom, 'sale', '2026-03-05', []).documentNumber).toBe('S-2025-001');
+        expect(nextDocumentNumber({}, { ...custom, documentNumbering: { sale: { yearlyReset: false, perRegister: false } } }, 'sale', '2026-03-05', []).documentNumber)
+            .toBe('INV-000001');
+    });
+
+    it('continues after the highest number already issued in the series when the counter is behind', () => {
+        const issued = ['INV-R2-2026-000007', 'INV-R3-2026-000050', 'INV-R2-2025-000099', undefined, 'INV-R2-2026-00000X'];
+
+        expect(nextDocumentNumber({ 'sale|R2|2026': 3 }, settings, 'sale', '2026-03-05', issued).documentNumber).toBe('INV-R2-2026-000008');
+        expect(nextDocumentNumber({ 'sale|R2|2026': 12 }, settings, 'sale', '2026-03-05', issued).documentNumber).toBe('INV-R2-2026-000013');
+    });
+});
+
+describe('finding documents by number', () => {
+    const sale = (id: string, documentNumber: string | undefined, extra: Partial<Sale> = {}): Sale => ({
+        id, documentNumber, date: '2026-03-05', time: '10:00:00', customerType: 'walk-in', paymentMethod: 'cash',
+        items: [], total: 1000, profit: 0, amountPaid: 1000, orderDiscount: 0, change: 0, ...extra,
+    });
+
+    it('matches a full number, part of one, a bare sequence or the record id', () => {
+        const doc = sale('abc123', 'INV-R2-2026-000123');
+
+        expect(['inv-r2-2026-000123', 'R2-2026', '123', '000123', 'ABC123'].map(q => matchesDocumentNumber(doc, q))).toEqual([true, true, true, true, true]);
+        expect(['12', '1230', '', '  '].map(q => matchesDocumentNumber(doc, q))).toEqual([false, false, false, false]);
+        expect(getDocumentLabel(sale('legacy-sale-9f3a2b', undefined))).toBe('#9F3A2B');
+    });
+
+    it('returns every sale a bare number matches, one per document and preferring the current revision', () => {
+        const original = sale('s1', 'INV-R1-2026-000042', { status: 'superseded' });
+        const revision = sale('s1-r2', 'INV-R1-2026-000042', { revision: 2 });
+        const otherRegister = sale('s2', 'INV-R2-2026-000042');
+        const lastYear = sale('s3', 'INV-R1-2025-000042', { status: 'voided' });
+
+        expect(findSalesByNumber([original, revision, otherRegister, lastYear], '42')).toEqual([revision, otherRegister, lastYear]);
+        expect(findSalesByNumber([original, revision, otherRegister], 'INV-R2-2026-000042')).toEqual([otherRegister]);
+        expect(findSalesByNumber([original], '7')).toEqual([]);
+    });
+});
+
+describe('validateNumbering', () => {
+    it('rejects unusable prefixes, padding and register ids', () => {
+        expect(validateNumbering(settings)).toBeNull();
+        expect(validateNumbering({ ...settings, documentNumbering: { sale: { prefix: 'IN V' } } })).toBe('The sale prefix must be letters, digits or "/".');
+        expect(validateNumbering({ ...settings, documentNumbering: { payment: { prefix: 'inv' } } })).toBe('Two document types use the prefix "INV".');
+        expect(validateNumbering({ ...settings, documentNumbering: { sale: { padding: 0 } } })).toBe('Number padding must be between 1 and 12 digits.');
+        expect(validateNumbering({ ...settings, registerId: 'R-2' })).toBe('The register id may only use letters and digits.');
+        expect(validateNumbering({ ...settings, fiscalYearStartMonth: 13 })).toBe('Choose the month the fiscal year starts in.');
+    });
+
+    it('gives a syncing device a register id that passes validation', () => {
+        const registerId = deviceRegisterId('a1-b2c3-d4');
+
+        expect(registerId).toBe('RA1B2');
+        expect(validateNumbering({ ...settings, registerId })).toBeNull();
+    });
+});
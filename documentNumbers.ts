@@ -0,0 +1,135 @@
+import { Sale, SystemSettings } from '../types';
+import { DEFAULT_REGISTER_ID } from './shifts';
+
+declare module '../types' {
+    interface Sale {
+        documentNumber?: string; // e.g. INV-R1-2026-000123; revisions keep the original's number
+    }
+    interface CustomerPayment {
+        documentNumber?: string;
+    }
+    interface SystemSettings {
+        documentNumbering?: Partial<Record<DocumentType, Partial<NumberingFormat>>>;
+        fiscalYearStartMonth?: number; // 1-12; numbering restarts when the fiscal year does
+    }
+}
+
+// --- Document Numbering ---
+// Sales, returns, purchase orders and payments get a readable number when they are saved. Each
+// series (document type, plus the register and fiscal year when the format asks for them) has a
+// counter that only moves forward, so a number is never handed out twice: a voided sale keeps its
+// number and the next sale takes the one after it. Counters are kept per device, which is why
+// shops with more than one till should leave per-register numbering on; a device that syncs is
+// given a register id of its own if it has none.
+
+export type DocumentType = 'sale' | 'return' | 'purchase_order' | 'payment';
+
+export interface NumberingFormat {
+    prefix: string;
+    padding: number;       // Digits in the sequence number, zero-padded
+    perRegister: boolean;  // Include the register id and keep a series per register
+    yearlyReset: boolean;  // Include the fiscal year and start again from 1 each year
+}
+
+export type DocumentCounters = Record<string, number>; // Series key -> last number issued
+
+export const DOCUMENT_TYPES: DocumentType[] = ['sale', 'return', 'purchase_order', 'payment'];
+
+export const DEFAULT_NUMBERING: Record<DocumentType, NumberingFormat> = {
+    sale: { prefix: 'INV', padding: 6, perRegister: true, yearlyReset: true },
+    return: { prefix: 'RET', padding: 6, perRegister: true, yearlyReset: true },
+    purchase_order: { prefix: 'PO', padding: 6, perRegister: true, yearlyReset: true },
+    payment: { prefix: 'PAY', padding: 6, perRegister: true, yearlyReset: true },
+};
+
+export const getNumberingFormat = (settings: SystemSettings, type: DocumentType): NumberingFormat =>
+    ({ ...DEFAULT_NUMBERING[type], ...settings.documentNumbering?.[type] });
+
+/** The fiscal year a date falls in, named after the calendar year it starts in. */
+export const getFiscalYear = (date: string, fiscalYearStartMonth = 1): number => {
+    const [year, month] = date.split('-').map(Number);
+    return month >= fiscalYearStartMonth ? year : year - 1;
+};
+
+const seriesFor = (settings: SystemSettings, type: DocumentType, date: string) => {
+    const format = getNumberingFormat(settings, type);
+    const register = format.perRegister ? (settings.registerId || DEFAULT_REGISTER_ID) : '';
+    const year = format.yearlyReset ? String(getFiscalYear(date, settings.fiscalYearStartMonth)) : '';
+    return { format, register, year, key: [type, register, year].join('|') };
+};
+
+export const formatDocumentNumber = (format: NumberingFormat, register: string, year: string, sequence: number): string =>
+    [format.prefix.trim(), register, year, String(sequence).padStart(Math.max(1, format.padding), '0')]
+        .filter(Boolean)
+        .join('-');
+
+/**
+ * The next number in the document's series for `date` (YYYY-MM-DD), and the counters with it taken.
+ * Numbers already on saved documents are checked too, in case the counter was not persisted.
+ */
+export const nextDocumentNumber = (
+    counters: DocumentCounters,
+    settings: SystemSettings,
+    type: DocumentType,
+    date: string,
+    issuedNumbers: (string | undefined)[],
+): { documentNumber: string; counters: DocumentCounters } => {
+    const { format, register, year, key } = seriesFor(settings, type, date);
+    const seriesPrefix = formatDocumentNumber(format, register, year, 0).replace(/0+$/, '');
+    const highestIssued = issuedNumbers.reduce((max, number) => {
+        const sequence = number?.startsWith(seriesPrefix) ? number.slice(seriesPrefix.length) : '';
+        return /^\d+$/.test(sequence) ? Math.max(max, Number(sequence)) : max;
+    }, 0);
+    const sequence = Math.max(counters[key] || 0, highestIssued) + 1;
+    return { documentNumber: formatDocumentNumber(format, register, year, sequence), counters: { ...counters, [key]: sequence } };
+};
+
+/** What to show for a document: its number, or a short form of the id for documents saved before numbering. */
+export const getDocumentLabel = (doc: { id: string; documentNumber?: string }): string =>
+    doc.documentNumber ?? `#${doc.id.slice(-6).toUpperCase()}`;
+
+/** Case-insensitive match on the document number; a bare sequence like "123" also matches INV-R1-2026-000123. */
+export const matchesDocumentNumber = (doc: { id: string; documentNumber?: string }, query: string): boolean => {
+    const q = query.trim().toLowerCase();
+    if (!q) return false;
+    const number = doc.documentNumber?.toLowerCase();
+    if (number) {
+        if (/^\d+$/.test(q)) return Number(number.split('-').pop()) === Number(q);
+        if (number.includes(q)) return true;
+    }
+    return doc.id.toLowerCase() === q;
+};
+
+/**
+ * Finds the sales a number could mean, one per document and preferring the current revision over
+ * superseded ones. A bare sequence can match a sale from each register and fiscal year, so the
+ * caller lets the user choose when there is more than one.
+ */
+export const findSalesByNumber = (sales: Sale[], query: string): Sale[] => {
+    const byDocument = new Map<string, Sale>();
+    sales.filter(s => matchesDocumentNumber(s, query)).forEach(sale => {
+        const key = sale.documentNumber ?? sale.id;
+        const found = byDocument.get(key);
+        if (!found || (found.status && found.status !== 'completed' && (!sale.status || sale.status === 'completed'))) {
+            byDocument.set(key, sale);
+        }
+    });
+    return [...byDocument.values()];
+};
+
+/** Returns an error message, or null if the numbering settings can be saved. */
+export const validateNumbering = (settings: SystemSettings): string | null => {
+    const prefixes = new Set<string>();
+    for (const type of DOCUMENT_TYPES) {
+        const format = getNumberingFormat(settings, type);
+        const prefix = format.prefix.trim().toUpperCase();
+        if (!/^[A-Z0-9/]+$/.test(prefix)) return `The ${type.replace('_', ' ')} prefix must be letters, digits or "/".`;
+        if (prefixes.has(prefix)) return `Two document types use the prefix "${prefix}".`;
+        prefixes.add(prefix);
+        if (!(Number.isInteger(format.padding) && format.padding >= 1 && format.padding <= 12)) return 'Number padding must be between 1 and 12 digits.';
+    }
+    if (settings.registerId && !/^[A-Za-z0-9]+$/.test(settings.registerId)) return 'The register id may only use letters and digits.';
+    const month = settings.fiscalYearStartMonth ?? 1;
+    if (!(Number.isInteger(month) && month >= 1 && month <= 12)) return 'Choose the month the fiscal year starts in.';
+    return null;
+};
@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import { CompanyInfo, Sale, SystemSettings } from '../types';
+import { MonoBitmap, encodeReceipt } from './escpos';
+
+// Golden receipts: the exact bytes a printer receives for a known sale, checked in as hex dumps
+// under __snapshots__/escpos. Any change to the layout or the commands shows up as a diff there.
+
+const LF = 0x0a;
+
+/** 16 bytes per row with the printable ones alongside, like `hexdump -C`. */
+const hexDump = (bytes: Uint8Array): string => {
+    const rows: string[] = [];
+    for (let offset = 0; offset < bytes.length; offset += 16) {
+        const chunk = Array.from(bytes.slice(offset, offset + 16));
+        const hex = chunk.map(b => b.toString(16).padStart(2, '0')).join(' ');
+        const text = chunk.map(b => (b >= 0x20 && b < 0x7f ? String.fromCharCode(b) : '.')).join('');
+        rows.push(`${offset.toString(16).padStart(8, '0')}  ${hex.padEnd(47)}  |${text}|`);
+    }
+    return `${rows.join('\n')}\n`;
+};
+
+const ascii = (text: string): number[] => Array.from(text, ch => ch.charCodeAt(0));
+
+const settings: SystemSettings = {
+    businessType: 'convenience', currency: 'MMK', taxRate: 0, enableNotifications: true, enableSound: true, lowStockThreshold: 10,
+    receiptSize: '58mm', receiptFooter: 'Thank you!', storagePreference: 'local', storagePath: '',
+};
+const companyInfo: CompanyInfo = { name: 'Corner Shop', address: '12 Main St', phone: '09 123 456' };
+
+const sale: Sale = {
+    id: 'sale-1',
+    documentNumber: 'INV-R1-2026-000042',
+    date: '2026-03-05',
+    time: '14:30:00',
+    customerType: 'walk-in',
+    paymentMethod: 'cash',
+    items: [
+        { id: 'i1', productId: 'p1', name: 'Green tea', quantity: 2, price: 1500, discount: 0, total: 3000 },
+        { id: 'i2', productId: 'p2', name: 'Rice 5kg', quantity: 1, price: 12000, discount: 10, total: 10800 },
+    ],
+    orderDiscount: 0,
+    taxBreakdown: [{ taxClassId: 'standard', name: 'VAT', rate: 5, taxableAmount: 13800, tax: 690 }],
+    pricesIncludeTax: false,
+    total: 14490,
+    profit: 2000,
+    amountPaid: 15000,
+    change: 510,
+};
+
+describe('encodeReceipt', () => {
+    it('encodes a cash sale with tax, a QR code, a cut and a drawer kick', async () => {
+        const qrData = 'INV-R1-2026-000042';
+
+        const bytes = encodeReceipt(sale, companyInfo, settings, { columns: 32, qrData, openDrawer: true, cut: true });
+
+        await expect(hexDump(bytes)).toMatchFileSnapshot('./__snapshots__/escpos/cash-sale-qr-cut-drawer.hex');
+    });
+
+    it('sends the logo and Myanmar text as raster images and skips the cut when asked', async () => {
+        const logo: MonoBitmap = { width: 10, height: 1, data: Uint8Array.from([0xff, 0xc0]) };
+        const glyphs: MonoBitmap = { width: 8, height: 2, data: Uint8Array.from([0xff, 0x81]) };
+        const myanmarShop: CompanyInfo = { name: 'ရွှေ Shop' };
+        const plainSale: Sale = { ...sale, items: [sale.items[0]], taxBreakdown: [], total: 3000, amountPaid: 3000, change: 0 };
+
+        const bytes = encodeReceipt(plainSale, myanmarShop, settings, { columns: 32, logo, rasterizeText: () => glyphs, cut: false });
+
+        await expect(hexDump(bytes)).toMatchFileSnapshot('./__snapshots__/escpos/raster-logo-and-name.hex');
+    });
+
+    it('prints characters outside the code page as "?" when there is no rasterizer', () => {
+        const bytes = encodeReceipt(sale, { name: 'ရွှေ' }, settings, { columns: 32, cut: false });
+
+        // Four code points, each replaced, then the line feed.
+        expect(Array.from(bytes.slice(11, 16))).toEqual([...ascii('????'), LF]);
+    });
+});
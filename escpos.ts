@@ -0,0 +1,274 @@
+import { CompanyInfo, Sale, SystemSettings } from '../types';
+import { getDocumentLabel } from './documentNumbers';
+
+declare module '../types' {
+    interface SystemSettings {
+        receiptPrinter?: ReceiptPrinterConnection;
+        receiptColumns?: ReceiptColumns;
+        openCashDrawer?: boolean;  // Kick the drawer after printing a cash sale
+        receiptQrCode?: boolean;   // Print the document number as a QR code
+    }
+}
+
+// --- ESC/POS Receipts ---
+// Builds the byte stream a thermal printer understands directly, so receipts skip the browser's
+// print dialog and can cut the paper and open the drawer. encodeReceipt is pure: the logo and any
+// text the printer's code page can't show (Myanmar script) arrive as ready-made 1-bit bitmaps,
+// so the same sale always produces the same bytes. The canvas helpers below make those bitmaps.
+
+export type ReceiptPrinterConnection = 'browser' | 'serial' | 'usb' | 'file';
+export type ReceiptColumns = 32 | 42 | 48;
+
+/** 1 bit per pixel, rows packed MSB first and padded to whole bytes; a set bit prints black. */
+export interface MonoBitmap {
+    width: number;
+    height: number;
+    data: Uint8Array;
+}
+
+export type TextRasterizer = (text: string, widthDots: number) => MonoBitmap | null;
+
+export interface ReceiptOptions {
+    columns: ReceiptColumns;
+    logo?: MonoBitmap;
+    rasterizeText?: TextRasterizer; // Without it, characters outside the code page print as "?"
+    qrData?: string;
+    openDrawer?: boolean;
+    cut?: boolean;
+}
+
+// Dots across the printable width for each layout (Font A is 12 dots wide).
+export const COLUMN_DOTS: Record<ReceiptColumns, number> = { 32: 384, 42: 512, 48: 576 };
+
+export const getReceiptColumns = (settings: SystemSettings): ReceiptColumns =>
+    settings.receiptColumns ?? (settings.receiptSize === '58mm' ? 32 : 48);
+
+const ESC = 0x1b;
+const GS = 0x1d;
+const LF = 0x0a;
+
+// Myanmar, Myanmar Extended-A and Extended-B.
+const NEEDS_RASTER = /[\u1000-\u109F\uA9E0-\uA9FF\uAA60-\uAA7F]/;
+
+/** Money as 1,234.5 regardless of the browser's locale, so the bytes don't depend on it. */
+export const formatReceiptAmount = (amount: number): string => {
+    const rounded = Math.round(amount * 100) / 100;
+    const [whole, fraction] = Math.abs(rounded).toFixed(2).split('.');
+    const grouped = whole.replace(/\B(?=(\d{3})+(?!\d))/g, ',');
+    const trimmed = fraction === '00' ? '' : `.${fraction.replace(/0$/, '')}`;
+    return `${rounded < 0 ? '-' : ''}${grouped}${trimmed}`;
+};
+
+/** Left and right text on one line, the left side cut short if they don't fit. */
+export const padColumns = (left: string, right: string, width: number): string => {
+    const room = Math.max(0, width - right.length - 1);
+    const shownLeft = left.length > room ? left.slice(0, room) : left;
+    return shownLeft + ' '.repeat(Math.max(1, width - shownLeft.length - right.length)) + right;
+};
+
+/** Splits text into lines of at most `width` characters, breaking at spaces where it can. */
+export const wrapText = (text: string, width: number): string[] => {
+    const lines: string[] = [];
+    text.split('\n').forEach(paragraph => {
+        let line = '';
+        paragraph.split(/\s+/).filter(Boolean).forEach(word => {
+            while (word.length > width) {
+                if (line) { lines.push(line); line = ''; }
+                lines.push(word.slice(0, width));
+                word = word.slice(width);
+            }
+            if (!line) line = word;
+            else if (line.length + 1 + word.length <= width) line += ` ${word}`;
+            else { lines.push(line); line = word; }
+        });
+        lines.push(line);
+    });
+    return lines;
+};
+
+const createWriter = (options: ReceiptOptions) => {
+    const bytes: number[] = [];
+    const widthDots = COLUMN_DOTS[options.columns];
+    const push = (...values: number[]) => values.forEach(v => bytes.push(v & 0xff));
+
+    const raster = (bitmap: MonoBitmap) => {
+        const widthBytes = Math.ceil(bitmap.width / 8);
+        push(GS, 0x76, 0x30, 0, widthBytes, widthBytes >> 8, bitmap.height, bitmap.height >> 8);
+        bitmap.data.forEach(b => push(b));
+    };
+
+    const writer = {
+        init: () => push(ESC, 0x40),
+        align: (alignment: 'left' | 'center' | 'right') => push(ESC, 0x61, { left: 0, center: 1, right: 2 }[alignment]),
+        bold: (on: boolean) => push(ESC, 0x45, on ? 1 : 0),
+        doubleSize: (on: boolean) => push(GS, 0x21, on ? 0x11 : 0),
+        feed: (lines: number) => push(ESC, 0x64, lines),
+        raster,
+        /** One line of text; lines the printer can't show are sent as an image when a rasterizer is given. */
+        line: (text: string) => {
+            if (NEEDS_RASTER.test(text) && options.rasterizeText) {
+                const bitmap = options.rasterizeText(text, widthDots);
+                if (bitmap) {
+                    raster(bitmap);
+                    return;
+                }
+            }
+            for (const ch of text) {
+                const code = ch.codePointAt(0)!;
+                push(code >= 0x20 && code < 0x7f ? code : 0x3f);
+            }
+            push(LF);
+        },
+        qr: (data: string) => {
+            const payload = Array.from(new TextEncoder().encode(data));
+            const length = payload.length + 3;
+            push(GS, 0x28, 0x6b, 4, 0, 0x31, 0x41, 0x32, 0);               // Model 2
+            push(GS, 0x28, 0x6b, 3, 0, 0x31, 0x43, 6);                     // Module size
+            push(GS, 0x28, 0x6b, 3, 0, 0x31, 0x45, 0x31);                  // Error correction M
+            push(GS, 0x28, 0x6b, length, length >> 8, 0x31, 0x50, 0x30, ...payload);
+            push(GS, 0x28, 0x6b, 3, 0, 0x31, 0x51, 0x30);                  // Print
+        },
+        drawerKick: () => push(ESC, 0x70, 0, 25, 250),
+        cut: () => push(GS, 0x56, 0x42, 0),                                // Feed to the cutter, partial cut
+        bytes: () => Uint8Array.from(bytes),
+    };
+    return writer;
+};
+
+/** The receipt for a sale as ESC/POS bytes. */
+export const encodeReceipt = (sale: Sale, companyInfo: CompanyInfo, settings: SystemSettings, options: ReceiptOptions): Uint8Array => {
+    const width = options.columns;
+    const w = createWriter(options);
+    const currency = settings.currency;
+    const divider = '-'.repeat(width);
+    const amountLine = (label: string, amount: number) => w.line(padColumns(label, formatReceiptAmount(amount), width));
+
+    w.init();
+    w.align('center');
+    if (options.logo) w.raster(options.logo);
+    w.bold(true);
+    w.doubleSize(true);
+    wrapText(companyInfo.name, Math.floor(width / 2)).forEach(w.line);
+    w.doubleSize(false);
+    w.bold(false);
+    if (companyInfo.address) wrapText(companyInfo.address, width).forEach(w.line);
+    if (companyInfo.phone) w.line(companyInfo.phone);
+    w.feed(1);
+
+    w.align('left');
+    const number = getDocumentLabel(sale);
+    const dateTime = `${sale.date} ${sale.time}`;
+    if (number.length + dateTime.length < width) {
+        w.line(padColumns(number, dateTime, width));
+    } else {
+        w.line(number);
+        w.line(dateTime);
+    }
+    w.line(divider);
+    sale.items.forEach(item => {
+        wrapText(item.name, width).forEach(w.line);
+        const lineUnit = sale.lineUnits?.find(u => u.saleItemId === item.id);
+        const quantity = lineUnit ? `${lineUnit.quantity} ${lineUnit.unit}` : String(item.quantity);
+        const unitPrice = lineUnit ? item.price * lineUnit.factor : item.price;
+        w.line(padColumns(`  ${quantity} x ${formatReceiptAmount(unitPrice)}${item.discount ? ` -${item.discount}%` : ''}`, formatReceiptAmount(item.total), width));
+    });
+    w.line(divider);
+
+    const itemsTotal = sale.items.reduce((sum, i) => sum + i.total, 0);
+    if (sale.orderDiscount || (sale.taxBreakdown?.length && !sale.pricesIncludeTax)) amountLine('Subtotal', itemsTotal);
+    if (sale.orderDiscount) amountLine(`Discount ${sale.orderDiscount}%`, -itemsTotal * sale.orderDiscount / 100);
+    (sale.taxBreakdown ?? []).filter(t => t.tax > 0).forEach(t =>
+        amountLine(`${sale.pricesIncludeTax ? 'Incl. ' : ''}${t.name} ${t.rate}%`, t.tax));
+    w.bold(true);
+    amountLine(`TOTAL ${currency}`, sale.total);
+    w.bold(false);
+
+    const foreign = (sale.tenders ?? []).filter(t => t.currency !== currency);
+    if (foreign.length > 0 || (sale.tenders?.length ?? 0) > 1) {
+        sale.tenders!.forEach(t => amountLine(
+            t.currency === currency ? `Paid ${currency}` : `Paid ${formatReceiptAmount(t.amount)} ${t.currency} @${formatReceiptAmount(t.rate)}`,
+            t.baseAmount,
+        ));
+    } else {
+        amountLine('Paid', sale.amountPaid);
+    }
+    if (sale.change) amountLine('Change', sale.change);
+    // Line totals already have the promotions taken off; these lines only show what was saved.
+    if (sale.appliedPromotions?.length) {
+        w.line(divider);
+        sale.appliedPromotions.forEach(p => amountLine(p.name, p.amount));
+        amountLine('You saved', sale.appliedPromotions.reduce((sum, p) => sum + p.amount, 0));
+    }
+    w.feed(1);
+
+    w.align('center');
+    if (settings.receiptFooter) wrapText(settings.receiptFooter, width).forEach(w.line);
+    if (options.qrData) {
+        w.feed(1);
+        w.qr(options.qrData);
+    }
+    w.feed(3);
+    if (options.cut !== false) w.cut();
+    if (options.openDrawer) w.drawerKick();
+    return w.bytes();
+};
+
+/** The options the shop's settings call for, minus the bitmaps, which the caller renders. */
+export const getReceiptOptions = (sale: Sale, settings: SystemSettings): ReceiptOptions => ({
+    columns: getReceiptColumns(settings),
+    qrData: settings.receiptQrCode ? getDocumentLabel(sale) : undefined,
+    openDrawer: !!settings.openCashDrawer && sale.paymentMethod === 'cash',
+    cut: true,
+});
+
+// --- Bitmaps (browser only) ---
+
+/** Thresholds RGBA pixels to black and white; transparent pixels stay white. */
+export const toMonoBitmap = (rgba: Uint8ClampedArray, width: number, height: number, threshold = 128): MonoBitmap => {
+    const widthBytes = Math.ceil(width / 8);
+    const data = new Uint8Array(widthBytes * height);
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            const i = (y * width + x) * 4;
+            const luminance = 0.299 * rgba[i] + 0.587 * rgba[i + 1] + 0.114 * rgba[i + 2];
+            if (rgba[i + 3] >= 128 && luminance < threshold) data[y * widthBytes + (x >> 3)] |= 0x80 >> (x & 7);
+        }
+    }
+    return { width, height, data };
+};
+
+/** Scales a data-URL image (CompanyInfo.logo) to fit `maxWidth` dots and converts it to a bitmap. */
+export const loadLogoBitmap = (dataUrl: string, maxWidth: number, maxHeight = 160): Promise<MonoBitmap> =>
+    new Promise((resolve, reject) => {
+        const image = new Image();
+        image.onload = () => {
+            const scale = Math.min(1, maxWidth / image.width, maxHeight / image.height);
+            const width = Math.max(1, Math.round(image.width * scale));
+            const height = Math.max(1, Math.round(image.height * scale));
+            const canvas = document.createElement('canvas');
+            canvas.width = width;
+            canvas.height = height;
+            const context = canvas.getContext('2d')!;
+            context.drawImage(image, 0, 0, width, height);
+            resolve(toMonoBitmap(context.getImageData(0, 0, width, height).data, width, height));
+        };
+        image.onerror = () => reject(new Error('The logo could not be read.'));
+        image.src = dataUrl;
+    });
+
+/** Draws a line of text with the system's fonts, for scripts the printer has no characters for. */
+export const canvasTextRasterizer = (fontSize = 24): TextRasterizer => (text, widthDots) => {
+    const canvas = document.createElement('canvas');
+    const context = canvas.getContext('2d');
+    if (!context) return null;
+    const font = `${fontSize}px "Noto Sans Myanmar", "Myanmar Text", Padauk, sans-serif`;
+    canvas.width = widthDots;
+    canvas.height = Math.ceil(fontSize * 1.6);
+    context.fillStyle = '#fff';
+    context.fillRect(0, 0, canvas.width, canvas.height);
+    context.fillStyle = '#000';
+    context.font = font;
+    context.textBaseline = 'middle';
+    context.fillText(text, 0, canvas.height / 2, widthDots);
+    return toMonoBitmap(context.getImageData(0, 0, canvas.width, canvas.height).data, canvas.width, canvas.height);
+};
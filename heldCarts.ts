@@ -0,0 +1,51 @@
+import { SaleItem } from '../types';
+import { SaleLineUnit } from './units';
+
+declare module '../types' {
+    interface SystemSettings {
+        heldCartExpiryHours?: number; // Held carts older than this are discarded; unset or 0 keeps them until recalled
+    }
+}
+
+// --- Held Carts ---
+// A cashier can put the cart aside (a customer went to fetch one more item) and carry on with
+// the queue. Held carts are saved like any other record, so they survive a reload, and belong to
+// the register that held them. Nothing is reserved: stock only moves when the recalled cart is sold,
+// and the cart is priced again when it comes back, so promotions are those in force at that time.
+
+export interface HeldCart {
+    id: string;
+    name: string;          // Customer name or a short note the cashier can recognise it by
+    registerId: string;
+    heldAt: string;        // ISO date-time
+    heldBy?: string;       // Staff id
+    customerId?: string;
+    items: SaleItem[];
+    lineUnits?: SaleLineUnit[];
+    orderDiscount: number; // Percent, as on Sale
+}
+
+/** What the till hands over when it holds the active cart. */
+export type HeldCartInput = Pick<HeldCart, 'name' | 'customerId' | 'items' | 'lineUnits' | 'orderDiscount'>;
+
+export const getHeldCartTotal = (cart: HeldCart): number => {
+    const subtotal = cart.items.reduce((total, item) => total + item.total, 0);
+    return Math.round(subtotal * (1 - (cart.orderDiscount || 0) / 100) * 100) / 100;
+};
+
+export const getHeldCartItemCount = (cart: HeldCart): number =>
+    cart.items.reduce((count, item) => count + item.quantity, 0);
+
+export const isHeldCartExpired = (cart: HeldCart, expiryHours: number | undefined, now: Date): boolean =>
+    !!expiryHours && expiryHours > 0 && now.getTime() - new Date(cart.heldAt).getTime() > expiryHours * 60 * 60 * 1000;
+
+/** Minutes since the cart was held, for the "held 12 min ago" line. */
+export const getHeldCartAgeMinutes = (cart: HeldCart, now: Date): number =>
+    Math.max(0, Math.floor((now.getTime() - new Date(cart.heldAt).getTime()) / 60000));
+
+/** Returns an error message, or null if the cart can be held. */
+export const validateHeldCart = (cart: HeldCartInput): string | null => {
+    if (cart.items.length === 0) return 'The cart is empty.';
+    if (!cart.name.trim()) return 'Give the held cart a customer name or note.';
+    return null;
+};
@@ -0,0 +1,109 @@
+import { describe, expect, it } from 'vitest';
+import { Product } from '../types';
+import {
+    InventoryMovement, applyStockChanges, findStockDiscrepancies, getLedgerStock, getProductMovements, getShrinkageByProduct,
+} from './inventory';
+
+const rice: Product = { id: 'p1', name: 'Rice', category: 'Grocery', buyingPrice: 1000, sellingPrice: 1500, stock: 10, baseUnit: 'kg' };
+
+let nextId = 0;
+const createId = () => `m${++nextId}`;
+
+describe('applyStockChanges', () => {
+    it('records a movement with the quantities before and after for each change', () => {
+        const soap: Product = { ...rice, id: 'p2', name: 'Soap', stock: 4, baseUnit: undefined };
+
+        const result = applyStockChanges([rice, soap], [
+            { productId: 'p1', quantityChange: -3 },
+            { productId: 'p2', quantityChange: 6 },
+        ], 'purchase', createId, { referenceId: 'po-1', note: 'Delivery' });
+
+        expect(result.products.map(p => p.stock)).toEqual([7, 10]);
+        expect(result.movements).toEqual([
+            expect.objectContaining({ productId: 'p1', reason: 'purchase', quantityChange: -3, quantityBefore: 10, quantityAfter: 7, referenceId: 'po-1', note: 'Delivery' }),
+            expect.objectContaining({ productId: 'p2', reason: 'purchase', quantityChange: 6, quantityBefore: 4, quantityAfter: 10, referenceId: 'po-1', note: 'Delivery' }),
+        ]);
+    });
+
+    it('applies two changes to the same product one after the other', () => {
+        const result = applyStockChanges([rice], [
+            { productId: 'p1', quantityChange: -2 },
+            { productId: 'p1', quantityChange: -3 },
+        ], 'sale', createId);
+
+        expect(result.products[0].stock).toBe(5);
+        expect(result.movements.map(m => [m.quantityBefore, m.quantityAfter])).toEqual([[10, 8], [8, 5]]);
+    });
+
+    it('rounds fractional quantities so repeated sales do not drift', () => {
+        let products = [rice];
+        const movements: InventoryMovement[] = [];
+        for (let i = 0; i < 3; i++) {
+            const result = applyStockChanges(products, [{ productId: 'p1', quantityChange: -0.1 }], 'sale', createId);
+            products = result.products;
+            movements.push(...result.movements);
+        }
+
+        // 10 - 0.1 - 0.1 - 0.1 is 9.700000000000001 in floating point.
+        expect(products[0].stock).toBe(9.7);
+        expect(movements.map(m => m.quantityAfter)).toEqual([9.9, 9.8, 9.7]);
+        expect(rice.stock).toBe(10);
+    });
+
+    it('skips changes that round to nothing and unknown products', () => {
+        const result = applyStockChanges([rice], [
+            { productId: 'p1', quantityChange: 0.0001 },
+            { productId: 'missing', quantityChange: 5 },
+        ], 'adjustment', createId);
+
+        expect(result.movements).toEqual([]);
+        expect(result.products[0]).toBe(rice);
+    });
+});
+
+describe('findStockDiscrepancies', () => {
+    const movement = (quantityChange: number): InventoryMovement => ({
+        id: createId(), productId: 'p1', date: '2026-03-05T10:00:00.000Z', reason: 'sale',
+        quantityChange, quantityBefore: 0, quantityAfter: 0,
+    });
+
+    it('ignores float error in the ledger total', () => {
+        const movements = [movement(0.1), movement(0.2)];
+
+        expect(findStockDiscrepancies([{ ...rice, stock: 0.3 }], movements)).toEqual([]);
+    });
+
+    it('reports stock that differs from the ledger', () => {
+        const movements = [movement(10), movement(-2.5)];
+
+        expect(findStockDiscrepancies([rice], movements)).toEqual([{ productId: 'p1', stock: 10, ledgerStock: 7.5 }]);
+    });
+});
+
+describe('ledger queries', () => {
+    const entry = (productId: string, reason: InventoryMovement['reason'], quantityChange: number, date: string): InventoryMovement => ({
+        id: createId(), productId, date, reason, quantityChange, quantityBefore: 0, quantityAfter: 0,
+    });
+    const movements = [
+        entry('p1', 'purchase', 20, '2026-03-01T09:00:00.000Z'),
+        entry('p1', 'sale', -4, '2026-03-02T09:00:00.000Z'),
+        entry('p1', 'adjustment', -2, '2026-03-03T09:00:00.000Z'),
+        entry('p2', 'stock_count', -1, '2026-03-04T09:00:00.000Z'),
+        entry('p2', 'stock_count', 3, '2026-03-05T09:00:00.000Z'),
+        entry('p1', 'stock_count', -1, '2026-03-10T09:00:00.000Z'),
+    ];
+
+    it('sums a product\'s entries into its ledger stock', () => {
+        expect(getLedgerStock(movements, 'p1')).toBe(13);
+        expect(getLedgerStock(movements, 'p3')).toBe(0);
+    });
+
+    it('lists a product\'s movements newest first', () => {
+        expect(getProductMovements(movements, 'p1').map(m => m.date.slice(0, 10))).toEqual(['2026-03-10', '2026-03-03', '2026-03-02', '2026-03-01']);
+    });
+
+    it('counts only losses from write-offs and counts as shrinkage, within the dates given', () => {
+        expect(getShrinkageByProduct(movements)).toEqual(new Map([['p1', 3], ['p2', 1]]));
+        expect(getShrinkageByProduct(movements, '2026-03-03T00:00:00.000Z', '2026-03-05T00:00:00.000Z')).toEqual(new Map([['p1', 2], ['p2', 1]]));
+    });
+});
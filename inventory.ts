@@ -0,0 +1,104 @@
+import { Product } from '../types';
+import { roundQuantity } from './units';
+
+// --- Stock Ledger ---
+// Every change to Product.stock is recorded as an immutable InventoryMovement. The stock
+// figure on the product is a cached running total; the ledger is the source of truth.
+
+export type InventoryMovementReason = 'sale' | 'void' | 'purchase' | 'adjustment' | 'return' | 'stock_count' | 'transfer';
+
+export interface InventoryMovement {
+    id: string;
+    productId: string;
+    date: string; // ISO timestamp
+    reason: InventoryMovementReason;
+    quantityChange: number;
+    quantityBefore: number;
+    quantityAfter: number;
+    referenceId?: string; // Sale, purchase or other document that caused the movement
+    note?: string;
+}
+
+export interface StockChange {
+    productId: string;
+    quantityChange: number;
+}
+
+export interface StockDiscrepancy {
+    productId: string;
+    stock: number;
+    ledgerStock: number;
+}
+
+/**
+ * Applies stock changes to the product list and returns the updated list together with the
+ * ledger entries describing them. Changed products are replaced, never mutated.
+ * Changes for unknown products and zero changes are ignored.
+ */
+export const applyStockChanges = (
+    products: Product[],
+    changes: StockChange[],
+    reason: InventoryMovementReason,
+    createId: () => string,
+    details: { referenceId?: string; note?: string } = {},
+): { products: Product[]; movements: InventoryMovement[] } => {
+    const newProducts = [...products];
+    const movements: InventoryMovement[] = [];
+    const date = new Date().toISOString();
+
+    changes.forEach(({ productId, quantityChange: rawChange }) => {
+        // Fractional quantities (2.5 kg) would otherwise pick up float error with every sale.
+        const quantityChange = roundQuantity(rawChange);
+        if (!quantityChange) return;
+        const productIndex = newProducts.findIndex(p => p.id === productId);
+        if (productIndex === -1) return;
+        const product = newProducts[productIndex];
+        const quantityAfter = roundQuantity(product.stock + quantityChange);
+        newProducts[productIndex] = { ...product, stock: quantityAfter };
+        movements.push({
+            id: createId(),
+            productId,
+            date,
+            reason,
+            quantityChange,
+            quantityBefore: product.stock,
+            quantityAfter,
+            ...details,
+        });
+    });
+
+    return { products: newProducts, movements };
+};
+
+/** On-hand quantity for a product as derived from its ledger entries. */
+export const getLedgerStock = (movements: InventoryMovement[], productId: string): number =>
+    movements.reduce((total, m) => m.productId === productId ? total + m.quantityChange : total, 0);
+
+/** Products whose cached stock does not match the sum of their ledger entries. */
+export const findStockDiscrepancies = (products: Product[], movements: InventoryMovement[]): StockDiscrepancy[] => {
+    const ledgerTotals = new Map<string, number>();
+    movements.forEach(m => ledgerTotals.set(m.productId, (ledgerTotals.get(m.productId) || 0) + m.quantityChange));
+    // Compared at quantity precision, so summing 0.1 kg entries is not reported as a mismatch.
+    return products
+        .map(p => ({ productId: p.id, stock: p.stock, ledgerStock: roundQuantity(ledgerTotals.get(p.id) || 0) }))
+        .filter(d => roundQuantity(d.stock) !== d.ledgerStock);
+};
+
+/** Ledger entries for one product, newest first, for "why is this item at -3?" lookups. */
+export const getProductMovements = (movements: InventoryMovement[], productId: string): InventoryMovement[] =>
+    movements
+        .filter(m => m.productId === productId)
+        .sort((a, b) => b.date.localeCompare(a.date));
+
+/** Units lost per product to write-offs and count corrections, for shrinkage audits. */
+export const getShrinkageByProduct = (movements: InventoryMovement[], from?: string, to?: string): Map<string, number> => {
+    const shrinkage = new Map<string, number>();
+    movements.forEach(m => {
+        if (m.reason !== 'adjustment' && m.reason !== 'stock_count') return;
+        if (m.quantityChange >= 0) return;
+        if (from && m.date < from) return;
+        if (to && m.date > to) return;
+        shrinkage.set(m.productId, (shrinkage.get(m.productId) || 0) - m.quantityChange);
+    });
+    return shrinkage;
+};
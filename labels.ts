@@ -0,0 +1,109 @@
+import { Product } from '../types';
+import { PurchaseOrder, ReceivedLine, findOrderLine } from './purchaseOrders';
+import { getVariants, isVariantParent, variantLabel } from './variants';
+
+// --- Shelf & Price Labels ---
+// A print run is a queue of labels (one per copy) laid out on a sheet of sticky labels or on a
+// roll of thermal labels. Sheets that have already been partly used can be started part-way
+// through by skipping the first few positions. All sizes are in millimetres.
+
+export interface LabelLayout {
+    id: string;
+    name: string;
+    pageWidth: number;
+    pageHeight: number;
+    columns: number;
+    rows: number;
+    labelWidth: number;
+    labelHeight: number;
+    marginTop: number;
+    marginLeft: number;
+    gapX: number; // Between columns
+    gapY: number; // Between rows
+}
+
+export const LABEL_LAYOUTS: LabelLayout[] = [
+    { id: 'a4-3x8', name: 'A4 – 24 labels (70 × 37 mm)', pageWidth: 210, pageHeight: 297, columns: 3, rows: 8, labelWidth: 70, labelHeight: 37, marginTop: 0.5, marginLeft: 0, gapX: 0, gapY: 0 },
+    { id: 'a4-4x10', name: 'A4 – 40 labels (48.5 × 25.4 mm)', pageWidth: 210, pageHeight: 297, columns: 4, rows: 10, labelWidth: 48.5, labelHeight: 25.4, marginTop: 21.5, marginLeft: 8, gapX: 0, gapY: 0 },
+    { id: 'letter-3x10', name: 'Letter – 30 labels (Avery 5160)', pageWidth: 215.9, pageHeight: 279.4, columns: 3, rows: 10, labelWidth: 66.7, labelHeight: 25.4, marginTop: 12.7, marginLeft: 4.8, gapX: 3.2, gapY: 0 },
+    { id: 'thermal-40x30', name: 'Thermal roll – 40 × 30 mm', pageWidth: 40, pageHeight: 30, columns: 1, rows: 1, labelWidth: 40, labelHeight: 30, marginTop: 0, marginLeft: 0, gapX: 0, gapY: 0 },
+];
+
+export const DEFAULT_LABEL_LAYOUT_ID = 'a4-3x8';
+
+export const getLabelLayout = (id: string): LabelLayout =>
+    LABEL_LAYOUTS.find(l => l.id === id) ?? LABEL_LAYOUTS.find(l => l.id === DEFAULT_LABEL_LAYOUT_ID)!;
+
+export const labelsPerPage = (layout: LabelLayout): number => layout.columns * layout.rows;
+
+export type LabelField = 'name' | 'price' | 'barcode' | 'variant';
+
+export const LABEL_FIELDS: LabelField[] = ['name', 'variant', 'price', 'barcode'];
+
+export interface LabelRequest {
+    productId: string;
+    copies: number;
+}
+
+export interface Label {
+    productId: string;
+    name: string;
+    variant: string;
+    price: number;
+    barcode?: string;
+}
+
+/** One label per copy requested. A variant parent stands for all its variants, since only they go on the shelf. */
+export const buildLabelQueue = (requests: LabelRequest[], products: Product[]): Label[] =>
+    requests.flatMap(({ productId, copies }) => {
+        const product = products.find(p => p.id === productId);
+        if (!product || copies <= 0) return [];
+        const items = isVariantParent(product) ? getVariants(products, product.id) : [product];
+        return items.flatMap(item => {
+            const label: Label = {
+                productId: item.id,
+                name: item.name,
+                variant: variantLabel(item),
+                price: item.sellingPrice,
+                barcode: item.barcode || undefined,
+            };
+            return Array.from({ length: Math.floor(copies) }, () => label);
+        });
+    });
+
+/**
+ * A label for every item just received, so each one on the shelf gets a sticker. Lines ordered in
+ * packs count the items inside; weighed goods get one label per line.
+ */
+export const labelRequestsFromReceipt = (order: PurchaseOrder, received: ReceivedLine[], products: Product[]): LabelRequest[] =>
+    received.filter(r => r.quantity > 0).map(r => {
+        const factor = findOrderLine(order.lines, r)?.unitFactor ?? 1;
+        const product = products.find(p => p.id === r.productId);
+        return { productId: r.productId, copies: product?.allowFractional ? 1 : Math.ceil(r.quantity * factor) };
+    });
+
+/**
+ * Splits the queue into pages of the layout's positions, row by row. The first `skip` positions
+ * of the first page are left empty (null) for a sheet that was used before.
+ */
+export const paginateLabels = (labels: Label[], layout: LabelLayout, skip = 0): (Label | null)[][] => {
+    const perPage = labelsPerPage(layout);
+    const blanks = Math.min(Math.max(0, Math.floor(skip)), perPage - 1);
+    const positions: (Label | null)[] = [...Array<null>(blanks).fill(null), ...labels];
+    const pages: (Label | null)[][] = [];
+    for (let i = 0; i < positions.length; i += perPage) {
+        const page = positions.slice(i, i + perPage);
+        pages.push([...page, ...Array<null>(perPage - page.length).fill(null)]);
+    }
+    return pages;
+};
+
+/** Where a position sits on the page, from the top-left corner. */
+export const labelPosition = (layout: LabelLayout, index: number): { top: number; left: number } => {
+    const row = Math.floor(index / layout.columns);
+    const column = index % layout.columns;
+    return {
+        top: layout.marginTop + row * (layout.labelHeight + layout.gapY),
+        left: layout.marginLeft + column * (layout.labelWidth + layout.gapX),
+    };
+};
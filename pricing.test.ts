@@ -0,0 +1,108 @@
+import { describe, expect, it } from 'vitest';
+import { Product, Sale } from '../types';
+import { PricingLine, PricingRule, applyPromotions, isRuleActive, priceCart, validatePricingRule } from './pricing';
+
+const product = (id: string, category: string, sellingPrice: number): Product =>
+    ({ id, name: id, category, buyingPrice: 0, sellingPrice, stock: 100 });
+const products = [product('tea', 'Drinks', 1000), product('rice', 'Grocery', 5000), product('juice', 'Drinks', 700)];
+
+const line = (id: string, productId: string, quantity: number): PricingLine =>
+    ({ id, productId, quantity, price: products.find(p => p.id === productId)!.sellingPrice });
+
+const rule = (id: string, fields: Partial<PricingRule>): PricingRule =>
+    ({ id, name: id, type: 'percent_off', active: true, priority: 0, stacking: 'stackable', ...fields });
+
+// Thursday 5 March 2026, 14:30 on the shop's clock.
+const now = new Date(2026, 2, 5, 14, 30);
+
+describe('priceCart rule precedence', () => {
+    const cart = [line('l1', 'tea', 2), line('l2', 'rice', 1)];
+    const storewide = rule('storewide', { discountPercent: 10, priority: 1 });
+    const teaDeal = rule('teaDeal', { type: 'fixed_price', unitPrices: { tea: 800 }, stacking: 'exclusive', priority: 5 });
+    const drinks = rule('drinks', { discountPercent: 5, categories: ['Drinks'], priority: 10 });
+
+    it('stacks each rule on what the ones before it left, and keeps exclusive rules off promoted lines', () => {
+        const priced = priceCart(cart, products, [storewide, teaDeal, drinks], { now });
+
+        // drinks: 2,000 -> 1,900; teaDeal skips the promoted tea; storewide: 1,900 -> 1,710 and 5,000 -> 4,500.
+        expect(priced.lineDiscounts).toEqual({ l1: 290, l2: 500 });
+        expect(priced.promotions).toEqual([
+            { ruleId: 'drinks', name: 'drinks', amount: 100, saleItemIds: ['l1'] },
+            { ruleId: 'storewide', name: 'storewide', amount: 690, saleItemIds: ['l1', 'l2'] },
+        ]);
+    });
+
+    it('stops later rules once an exclusive rule has priced a line', () => {
+        const priced = priceCart(cart, products, [storewide, { ...teaDeal, priority: 20 }, drinks], { now });
+
+        expect(priced.lineDiscounts).toEqual({ l1: 400, l2: 500 });
+        expect(priced.promotions.map(p => [p.ruleId, p.saleItemIds])).toEqual([['teaDeal', ['l1']], ['storewide', ['l2']]]);
+    });
+
+    it('never takes a line below zero', () => {
+        const priced = priceCart([line('l1', 'tea', 1)], products, [
+            rule('big', { type: 'fixed_price', unitPrices: { tea: -50 }, priority: 2 }),
+            rule('more', { discountPercent: 50, priority: 1 }),
+        ], { now });
+
+        expect(priced.lineDiscounts).toEqual({ l1: 1000 });
+        expect(priced.promotions.map(p => p.ruleId)).toEqual(['big']);
+    });
+});
+
+describe('priceCart rule types', () => {
+    it('uses the highest quantity break the product reaches across its lines', () => {
+        const tiers = [{ minQuantity: 5, discountPercent: 10 }, { minQuantity: 10, unitPrice: 800 }];
+        const breaks = rule('breaks', { type: 'quantity_break', tiers });
+
+        expect(priceCart([line('l1', 'tea', 3), line('l2', 'tea', 3)], products, [breaks], { now }).lineDiscounts).toEqual({ l1: 300, l2: 300 });
+        expect(priceCart([line('l1', 'tea', 4), line('l2', 'tea', 6)], products, [breaks], { now }).lineDiscounts).toEqual({ l1: 800, l2: 1200 });
+        expect(priceCart([line('l1', 'tea', 4)], products, [breaks], { now }).promotions).toEqual([]);
+    });
+
+    it('gives away the cheapest matching units for buy X get Y', () => {
+        const threeForTwo = rule('3for2', { type: 'buy_x_get_y', buyQuantity: 2, getQuantity: 1, categories: ['Drinks'] });
+        const cart = [line('l1', 'tea', 4), line('l2', 'juice', 1), line('l3', 'rice', 3)];
+
+        expect(priceCart(cart, products, [threeForTwo], { now }).lineDiscounts).toEqual({ l1: 0, l2: 700, l3: 0 });
+        expect(priceCart([line('l1', 'tea', 5), line('l2', 'juice', 1)], products, [threeForTwo], { now }).lineDiscounts)
+            .toEqual({ l1: 1000, l2: 700 });
+        expect(priceCart(cart, products, [{ ...threeForTwo, getDiscountPercent: 50 }], { now }).lineDiscounts.l2).toBe(350);
+    });
+});
+
+describe('isRuleActive', () => {
+    const at = (hours: number, minutes: number) => ({ now: new Date(2026, 2, 5, hours, minutes) });
+
+    it('follows the date range, weekdays and customer group', () => {
+        expect(isRuleActive(rule('r', { startDate: '2026-03-05', endDate: '2026-03-05' }), { now })).toBe(true);
+        expect(isRuleActive(rule('r', { startDate: '2026-03-06' }), { now })).toBe(false);
+        expect(isRuleActive(rule('r', { daysOfWeek: [0, 6] }), { now })).toBe(false);
+        expect(isRuleActive(rule('r', { customerGroups: ['wholesale'] }), { now })).toBe(false);
+        expect(isRuleActive(rule('r', { customerGroups: ['wholesale'] }), { now, customerGroup: 'wholesale' })).toBe(true);
+        expect(isRuleActive(rule('r', { active: false }), { now })).toBe(false);
+    });
+
+    it('handles a time window that runs past midnight, ending before its end time', () => {
+        const lateNight = rule('r', { startTime: '22:00', endTime: '02:00' });
+
+        expect([at(21, 59), at(22, 0), at(1, 59), at(2, 0)].map(context => isRuleActive(lateNight, context))).toEqual([false, true, true, false]);
+    });
+});
+
+describe('applyPromotions', () => {
+    it('takes the cashier\'s line discount off after the promotion', () => {
+        const items: Sale['items'] = [{ id: 'l1', productId: 'tea', name: 'Tea', price: 1000, quantity: 2, discount: 10, total: 2000 }];
+
+        expect(applyPromotions(items, { lineDiscounts: { l1: 200 }, promotions: [] })[0].total).toBe(1620);
+    });
+});
+
+describe('validatePricingRule', () => {
+    it('requires the settings each rule type needs', () => {
+        expect(validatePricingRule(rule('ok', { discountPercent: 10 }))).toBeNull();
+        expect(validatePricingRule(rule('r', { discountPercent: 120 }))).toBe('Enter a discount between 0 and 100%.');
+        expect(validatePricingRule(rule('r', { type: 'buy_x_get_y', buyQuantity: 2 }))).toBe('Enter how many to buy and how many are discounted.');
+        expect(validatePricingRule(rule('r', { discountPercent: 10, startDate: '2026-03-06', endDate: '2026-03-05' }))).toBe('The promotion ends before it starts.');
+    });
+});
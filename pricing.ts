@@ -0,0 +1,230 @@
+import { Product, Sale } from '../types';
+
+declare module '../types' {
+    interface Customer {
+        group?: string; // e.g. "wholesale"; pricing rules can be limited to a group
+    }
+    interface Sale {
+        appliedPromotions?: AppliedPromotion[];
+    }
+}
+
+// --- Pricing Rules ---
+// Rules are evaluated when the cart is priced, highest priority first, against each line's list
+// price. A stackable rule adds to whatever applied before it; an exclusive rule only takes lines
+// no promotion has touched yet and stops anything after it from applying to them. The cashier's
+// own line and order discounts come after the promotions.
+
+export type PricingRuleType = 'percent_off' | 'fixed_price' | 'quantity_break' | 'buy_x_get_y';
+export type StackingMode = 'stackable' | 'exclusive';
+
+export interface QuantityTier {
+    minQuantity: number;
+    discountPercent?: number;
+    unitPrice?: number; // Used instead of discountPercent when set
+}
+
+export interface PricingRule {
+    id: string;
+    name: string; // Shown on the receipt
+    type: PricingRuleType;
+    active: boolean;
+    priority: number; // Higher runs first
+    stacking: StackingMode;
+    // Scope; an empty list matches everything.
+    productIds?: string[];
+    categories?: string[];
+    customerGroups?: string[];
+    // Schedule; all parts are optional and combine.
+    startDate?: string;   // YYYY-MM-DD, inclusive
+    endDate?: string;     // YYYY-MM-DD, inclusive
+    daysOfWeek?: number[]; // 0 = Sunday
+    startTime?: string;   // HH:mm; a window may run past midnight
+    endTime?: string;
+    // Type settings
+    discountPercent?: number;              // percent_off
+    unitPrices?: Record<string, number>;   // fixed_price, by product id
+    tiers?: QuantityTier[];                // quantity_break, by total quantity of a product in the cart
+    buyQuantity?: number;                  // buy_x_get_y: buy X, get Y of the cheapest matching units
+    getQuantity?: number;
+    getDiscountPercent?: number;           // 100 (free) when unset
+}
+
+export interface PricingLine {
+    id: string; // Sale item id
+    productId: string;
+    price: number; // List price per unit
+    quantity: number;
+}
+
+export interface PricingContext {
+    customerGroup?: string;
+    now: Date;
+}
+
+export interface AppliedPromotion {
+    ruleId: string;
+    name: string;
+    amount: number; // Total taken off
+    saleItemIds: string[];
+}
+
+export interface PricedCart {
+    lineDiscounts: Record<string, number>; // Promotion discount per sale item id
+    promotions: AppliedPromotion[];
+}
+
+const roundMoney = (amount: number): number => Math.round(amount * 100) / 100;
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+// Promotions follow the shop's wall clock, so dates and times are local rather than UTC.
+const localDate = (now: Date) => `${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(now.getDate())}`;
+const localTime = (now: Date) => `${pad(now.getHours())}:${pad(now.getMinutes())}`;
+
+const isInTimeWindow = (time: string, start?: string, end?: string): boolean => {
+    if (!start && !end) return true;
+    const from = start || '00:00';
+    const to = end || '24:00';
+    return from <= to ? time >= from && time < to : time >= from || time < to;
+};
+
+/** Whether the rule is switched on, in its schedule and open to the customer at `context.now`. */
+export const isRuleActive = (rule: PricingRule, context: PricingContext): boolean => {
+    if (!rule.active) return false;
+    if (rule.customerGroups?.length && !(context.customerGroup && rule.customerGroups.includes(context.customerGroup))) return false;
+    const today = localDate(context.now);
+    if (rule.startDate && today < rule.startDate) return false;
+    if (rule.endDate && today > rule.endDate) return false;
+    if (rule.daysOfWeek?.length && !rule.daysOfWeek.includes(context.now.getDay())) return false;
+    return isInTimeWindow(localTime(context.now), rule.startTime, rule.endTime);
+};
+
+const appliesToProduct = (rule: PricingRule, product?: Product): boolean => {
+    if (!product) return false;
+    const hasProducts = !!rule.productIds?.length;
+    const hasCategories = !!rule.categories?.length;
+    if (!hasProducts && !hasCategories) return true;
+    return (hasProducts && rule.productIds!.includes(product.id)) || (hasCategories && rule.categories!.includes(product.category));
+};
+
+interface LineState {
+    line: PricingLine;
+    total: number; // After the promotions applied so far
+    promoted: boolean;
+    locked: boolean;
+}
+
+const percentOf = (amount: number, percent: number) => amount * Math.min(100, Math.max(0, percent)) / 100;
+
+/** Discount per line for one rule, before it is capped at what is left of each line. */
+const getRuleDiscounts = (rule: PricingRule, lines: LineState[]): Map<string, number> => {
+    const discounts = new Map<string, number>();
+    switch (rule.type) {
+        case 'percent_off':
+            lines.forEach(s => discounts.set(s.line.id, percentOf(s.total, rule.discountPercent ?? 0)));
+            break;
+        case 'fixed_price':
+            lines.forEach(s => {
+                const unitPrice = rule.unitPrices?.[s.line.productId];
+                if (unitPrice !== undefined) discounts.set(s.line.id, s.total - unitPrice * s.line.quantity);
+            });
+            break;
+        case 'quantity_break': {
+            const quantities = new Map<string, number>();
+            lines.forEach(s => quantities.set(s.line.productId, (quantities.get(s.line.productId) || 0) + s.line.quantity));
+            lines.forEach(s => {
+                const tier = (rule.tiers ?? [])
+                    .filter(t => quantities.get(s.line.productId)! >= t.minQuantity)
+                    .sort((a, b) => b.minQuantity - a.minQuantity)[0];
+                if (!tier) return;
+                discounts.set(s.line.id, tier.unitPrice !== undefined
+                    ? s.total - tier.unitPrice * s.line.quantity
+                    : percentOf(s.total, tier.discountPercent ?? 0));
+            });
+            break;
+        }
+        case 'buy_x_get_y': {
+            const buy = rule.buyQuantity ?? 0;
+            const get = rule.getQuantity ?? 0;
+            if (buy <= 0 || get <= 0) break;
+            // Matching lines are pooled, and the cheapest units are the ones given away.
+            const totalQuantity = lines.reduce((sum, s) => sum + s.line.quantity, 0);
+            let freeUnits = Math.floor(totalQuantity / (buy + get)) * get;
+            [...lines]
+                .sort((a, b) => a.total / a.line.quantity - b.total / b.line.quantity)
+                .forEach(s => {
+                    if (freeUnits <= 0) return;
+                    const units = Math.min(freeUnits, s.line.quantity);
+                    discounts.set(s.line.id, percentOf(units * (s.total / s.line.quantity), rule.getDiscountPercent ?? 100));
+                    freeUnits -= units;
+                });
+            break;
+        }
+    }
+    return discounts;
+};
+
+/** Runs the active rules over the cart and returns the discount per line and the promotions that applied. */
+export const priceCart = (lines: PricingLine[], products: Product[], rules: PricingRule[], context: PricingContext): PricedCart => {
+    const productById = new Map(products.map(p => [p.id, p]));
+    const states = new Map<string, LineState>(lines.map(line => [line.id, { line, total: line.price * line.quantity, promoted: false, locked: false }]));
+    const promotions: AppliedPromotion[] = [];
+
+    rules
+        .filter(rule => isRuleActive(rule, context))
+        .sort((a, b) => b.priority - a.priority)
+        .forEach(rule => {
+            const eligible = [...states.values()].filter(s =>
+                s.line.quantity > 0 && !s.locked && !(rule.stacking === 'exclusive' && s.promoted)
+                && appliesToProduct(rule, productById.get(s.line.productId)));
+            if (eligible.length === 0) return;
+
+            let amount = 0;
+            const saleItemIds: string[] = [];
+            getRuleDiscounts(rule, eligible).forEach((discount, lineId) => {
+                const state = states.get(lineId)!;
+                const applied = roundMoney(Math.min(discount, state.total));
+                if (applied <= 0) return;
+                state.total -= applied;
+                state.promoted = true;
+                state.locked = rule.stacking === 'exclusive';
+                amount += applied;
+                saleItemIds.push(lineId);
+            });
+            if (amount > 0) promotions.push({ ruleId: rule.id, name: rule.name, amount: roundMoney(amount), saleItemIds });
+        });
+
+    const lineDiscounts = Object.fromEntries(
+        [...states.values()].map(s => [s.line.id, roundMoney(s.line.price * s.line.quantity - s.total)]),
+    );
+    return { lineDiscounts, promotions };
+};
+
+/** Sale lines with their promotion taken off the list price, then the cashier's line discount. */
+export const applyPromotions = (items: Sale['items'], priced: PricedCart): Sale['items'] =>
+    items.map(item => {
+        const afterPromotions = item.price * item.quantity - (priced.lineDiscounts[item.id] || 0);
+        return { ...item, total: roundMoney(afterPromotions * (1 - (item.discount || 0) / 100)) };
+    });
+
+/** Returns an error message, or null if the rule can be saved. */
+export const validatePricingRule = (rule: Omit<PricingRule, 'id'>): string | null => {
+    if (!rule.name.trim()) return 'Give the promotion a name.';
+    if (rule.startDate && rule.endDate && rule.startDate > rule.endDate) return 'The promotion ends before it starts.';
+    switch (rule.type) {
+        case 'percent_off':
+            if (!(rule.discountPercent! > 0 && rule.discountPercent! <= 100)) return 'Enter a discount between 0 and 100%.';
+            break;
+        case 'fixed_price':
+            if (!rule.unitPrices || Object.keys(rule.unitPrices).length === 0) return 'Set a price for at least one product.';
+            break;
+        case 'quantity_break':
+            if (!rule.tiers?.length || rule.tiers.some(t => !(t.minQuantity > 0))) return 'Each quantity break needs a minimum quantity.';
+            break;
+        case 'buy_x_get_y':
+            if (!(rule.buyQuantity! > 0 && rule.getQuantity! > 0)) return 'Enter how many to buy and how many are discounted.';
+            break;
+    }
+    return null;
+};
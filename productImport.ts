@@ -0,0 +1,210 @@
+import { Product, Supplier } from '../types';
+import { isVariantParent } from './variants';
+
+// --- Bulk Product Import / Export ---
+// Rows come from a CSV or XLSX sheet read as text. Each column is mapped to a product field,
+// rows are matched to existing products by ID, then by barcode, and the whole file is planned
+// (and shown) before anything is saved.
+
+export type ProductImportField = 'id' | 'name' | 'barcode' | 'category' | 'buyingPrice' | 'sellingPrice' | 'stock' | 'supplier' | 'size' | 'color';
+export type ProductImportMode = 'create' | 'update' | 'upsert';
+export type ColumnMapping = Partial<Record<ProductImportField, number>>; // Field -> column index
+
+export const PRODUCT_IMPORT_FIELDS: { field: ProductImportField; header: string; aliases: string[] }[] = [
+    { field: 'id', header: 'ID', aliases: ['product id'] },
+    { field: 'name', header: 'Name', aliases: ['product', 'product name', 'item', 'description'] },
+    { field: 'barcode', header: 'Barcode', aliases: ['sku', 'ean', 'upc', 'code'] },
+    { field: 'category', header: 'Category', aliases: ['group', 'department'] },
+    { field: 'buyingPrice', header: 'Buying Price', aliases: ['cost', 'cost price', 'purchase price'] },
+    { field: 'sellingPrice', header: 'Selling Price', aliases: ['price', 'retail price', 'sale price'] },
+    { field: 'stock', header: 'Stock', aliases: ['quantity', 'qty', 'on hand'] },
+    { field: 'supplier', header: 'Supplier', aliases: ['vendor'] },
+    { field: 'size', header: 'Size', aliases: [] },
+    { field: 'color', header: 'Color', aliases: ['colour'] },
+];
+
+const NUMERIC_FIELDS: ProductImportField[] = ['buyingPrice', 'sellingPrice', 'stock'];
+
+export interface ProductRowError {
+    rowNumber: number; // As shown in a spreadsheet, header being row 1
+    messages: string[];
+}
+
+export interface ProductCreate {
+    product: Omit<Product, 'id'>;
+    supplierName?: string; // A supplier that does not exist yet; linked once it is created
+}
+
+export interface ProductUpdate {
+    product: Product;   // The product with the imported values applied
+    previous: Product;
+    supplierName?: string;
+}
+
+export interface ProductImportPlan {
+    creates: ProductCreate[];
+    updates: ProductUpdate[];
+    unchanged: number;
+    skipped: { rowNumber: number; reason: string }[];
+    errors: ProductRowError[];
+    newCategories: string[];
+    newSuppliers: string[];
+}
+
+const normalize = (value: string): string => value.trim().toLowerCase();
+
+/** Maps columns whose header matches a field name, its label or a common alias. */
+export const guessColumnMapping = (headers: string[]): ColumnMapping => {
+    const mapping: ColumnMapping = {};
+    const normalized = headers.map(h => normalize(String(h ?? '')).replace(/[_-]+/g, ' '));
+    PRODUCT_IMPORT_FIELDS.forEach(({ field, header, aliases }) => {
+        const candidates = [normalize(field), normalize(header), ...aliases];
+        const index = normalized.findIndex(h => candidates.includes(h));
+        if (index !== -1) mapping[field] = index;
+    });
+    return mapping;
+};
+
+type RowValues = Partial<Record<ProductImportField, string>>;
+
+const readRow = (row: unknown[], mapping: ColumnMapping): RowValues => {
+    const values: RowValues = {};
+    (Object.entries(mapping) as [ProductImportField, number][]).forEach(([field, index]) => {
+        const cell = row[index];
+        if (cell !== undefined && cell !== null && String(cell).trim() !== '') {
+            values[field] = String(cell).trim();
+        }
+    });
+    return values;
+};
+
+/**
+ * Works out what importing the rows would do. Rows with errors are left out of the plan, so
+ * the caller should only proceed once `errors` is empty.
+ */
+export const planProductImport = (
+    rows: unknown[][],
+    mapping: ColumnMapping,
+    mode: ProductImportMode,
+    products: Product[],
+    suppliers: Supplier[],
+    categories: string[],
+): ProductImportPlan => {
+    const plan: ProductImportPlan = { creates: [], updates: [], unchanged: 0, skipped: [], errors: [], newCategories: [], newSuppliers: [] };
+    const byId = new Map(products.map(p => [p.id, p]));
+    const byBarcode = new Map(products.filter(p => p.barcode).map(p => [p.barcode!, p]));
+    const supplierByName = new Map(suppliers.map(s => [normalize(s.name), s]));
+    const categoryByName = new Map(categories.map(c => [normalize(c), c]));
+    const seenBarcodes = new Map<string, number>();
+
+    rows.forEach((row, index) => {
+        const rowNumber = index + 2;
+        const values = readRow(row, mapping);
+        if (Object.keys(values).length === 0) return; // Blank line
+
+        const messages: string[] = [];
+        const numbers: Partial<Record<ProductImportField, number>> = {};
+        NUMERIC_FIELDS.forEach(field => {
+            if (values[field] === undefined) return;
+            const parsed = Number(values[field]!.replace(/,/g, ''));
+            if (!Number.isFinite(parsed) || parsed < 0) {
+                const header = PRODUCT_IMPORT_FIELDS.find(f => f.field === field)!.header;
+                messages.push(`${header} "${values[field]}" is not a valid amount.`);
+            } else {
+                numbers[field] = parsed;
+            }
+        });
+
+        if (values.barcode) {
+            const firstRow = seenBarcodes.get(values.barcode);
+            if (firstRow !== undefined) {
+                messages.push(`Barcode ${values.barcode} is also used on row ${firstRow}.`);
+            } else {
+                seenBarcodes.set(values.barcode, rowNumber);
+            }
+        }
+
+        const existing = (values.id && byId.get(values.id)) || (values.barcode && byBarcode.get(values.barcode)) || undefined;
+        if (existing && values.barcode) {
+            const owner = byBarcode.get(values.barcode);
+            if (owner && owner.id !== existing.id) {
+                messages.push(`Barcode ${values.barcode} already belongs to "${owner.name}".`);
+            }
+        }
+        if (!existing && values.id && mode === 'update') {
+            messages.push(`No product with ID ${values.id}.`);
+        }
+        if (!existing && mode !== 'update' && !values.name) {
+            messages.push('A new product needs a name.');
+        }
+
+        if (messages.length > 0) {
+            plan.errors.push({ rowNumber, messages });
+            return;
+        }
+        if (existing && mode === 'create') {
+            plan.skipped.push({ rowNumber, reason: `"${existing.name}" already exists.` });
+            return;
+        }
+        if (!existing && mode === 'update') {
+            plan.skipped.push({ rowNumber, reason: 'No matching product.' });
+            return;
+        }
+
+        let supplierId: string | undefined;
+        if (values.supplier) {
+            const key = normalize(values.supplier);
+            supplierId = supplierByName.get(key)?.id;
+            if (!supplierId && !plan.newSuppliers.some(s => normalize(s) === key)) plan.newSuppliers.push(values.supplier);
+        }
+        // Categories keep the spelling already in use, or of their first row if new.
+        let category: string | undefined;
+        if (values.category) {
+            category = categoryByName.get(normalize(values.category));
+            if (!category) {
+                category = values.category;
+                categoryByName.set(normalize(category), category);
+                plan.newCategories.push(category);
+            }
+        }
+
+        // Empty cells leave an existing product's value alone.
+        const fields: Partial<Product> = {};
+        if (values.name) fields.name = values.name;
+        if (values.barcode) fields.barcode = values.barcode;
+        if (category) fields.category = category;
+        if (values.size) fields.size = values.size;
+        if (values.color) fields.color = values.color;
+        if (numbers.buyingPrice !== undefined) fields.buyingPrice = numbers.buyingPrice;
+        if (numbers.sellingPrice !== undefined) fields.sellingPrice = numbers.sellingPrice;
+        // A parent's stock is held by its variants.
+        if (numbers.stock !== undefined && !(existing && isVariantParent(existing))) fields.stock = numbers.stock;
+        if (supplierId) fields.supplierId = supplierId;
+        const supplierName = values.supplier && !supplierId ? values.supplier : undefined;
+
+        if (existing) {
+            const product = { ...existing, ...fields };
+            if (!supplierName && JSON.stringify(product) === JSON.stringify(existing)) {
+                plan.unchanged++;
+            } else {
+                plan.updates.push({ product, previous: existing, supplierName });
+            }
+        } else {
+            const product = { category: categories[0] || '', buyingPrice: 0, sellingPrice: 0, stock: 0, ...fields } as Omit<Product, 'id'>;
+            plan.creates.push({ product, supplierName });
+        }
+    });
+    return plan;
+};
+
+// Matches PRODUCT_IMPORT_FIELDS, so an exported catalogue imports back with no mapping changes.
+export const productsToRows = (products: Product[], suppliers: Supplier[]): (string | number)[][] => {
+    const supplierNames = new Map(suppliers.map(s => [s.id, s.name]));
+    return [
+        PRODUCT_IMPORT_FIELDS.map(f => f.header),
+        ...products.map(p => [
+            p.id, p.name, p.barcode || '', p.category, p.buyingPrice, p.sellingPrice, p.stock,
+            (p.supplierId && supplierNames.get(p.supplierId)) || '', p.size || '', p.color || '',
+        ]),
+    ];
+};
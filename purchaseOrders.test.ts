@@ -0,0 +1,109 @@
+import { describe, expect, it } from 'vitest';
+import { Product } from '../types';
+import {
+    PurchaseOrder, applyGoodsReceipt, buildDraftOrdersFromSuggestions, findOrderLine, getPurchaseOrderTotal,
+} from './purchaseOrders';
+
+const order: PurchaseOrder = {
+    id: 'po-1',
+    supplierId: 's1',
+    status: 'ordered',
+    createdAt: '2026-03-01T09:00:00.000Z',
+    orderedAt: '2026-03-01T10:00:00.000Z',
+    lines: [
+        { productId: 'p1', quantityOrdered: 10, quantityReceived: 0, unitCost: 500 },
+        { productId: 'p2', quantityOrdered: 4, quantityReceived: 0, unitCost: 1200 },
+    ],
+};
+
+describe('applyGoodsReceipt', () => {
+    it('marks a partial delivery and keeps the ordered cost unless the invoice differs', () => {
+        const result = applyGoodsReceipt(order, [
+            { productId: 'p1', quantity: 6 },
+            { productId: 'p2', quantity: 4, unitCost: 1100 },
+            { productId: 'p1', quantity: 0 },
+        ]);
+
+        expect(result.order.status).toBe('partially_received');
+        expect(result.order.receivedAt).toBeUndefined();
+        expect(result.order.lines.map(l => l.quantityReceived)).toEqual([6, 4]);
+        expect(result.receivedLines).toEqual([
+            { productId: 'p1', quantity: 6, unitCost: 500 },
+            { productId: 'p2', quantity: 4, unitCost: 1100 },
+        ]);
+        expect(order.lines[0].quantityReceived).toBe(0);
+    });
+
+    it('completes the order once nothing is outstanding', () => {
+        const partial = applyGoodsReceipt(order, [{ productId: 'p1', quantity: 6 }, { productId: 'p2', quantity: 4 }]).order;
+
+        const result = applyGoodsReceipt(partial, [{ productId: 'p1', quantity: 4 }]);
+
+        expect(result.order.status).toBe('received');
+        expect(result.order.receivedAt).toBeDefined();
+    });
+
+    it('refuses more than is outstanding, items not on the order and orders not yet placed', () => {
+        expect(() => applyGoodsReceipt(order, [{ productId: 'p1', quantity: 11 }])).toThrow('exceeds the 10 outstanding');
+        expect(() => applyGoodsReceipt(order, [{ productId: 'p9', quantity: 1 }])).toThrow('not on this purchase order');
+        expect(() => applyGoodsReceipt({ ...order, status: 'draft' }, [{ productId: 'p1', quantity: 1 }])).toThrow('draft');
+    });
+});
+
+describe('findOrderLine', () => {
+    const lines = [
+        { productId: 'p1', quantityOrdered: 2, quantityReceived: 0, unitCost: 6000, unit: 'box' },
+        { productId: 'p1', quantityOrdered: 5, quantityReceived: 0, unitCost: 500 },
+        { productId: 'p2', quantityOrdered: 1, quantityReceived: 0, unitCost: 900, unit: 'box' },
+    ];
+
+    it('matches the product in the same unit', () => {
+        expect(findOrderLine(lines, { productId: 'p1', unit: 'box' })).toBe(lines[0]);
+        expect(findOrderLine(lines, { productId: 'p1' })).toBe(lines[1]);
+    });
+
+    it('falls back to the only line for the product when no unit is given', () => {
+        expect(findOrderLine(lines, { productId: 'p2' })).toBe(lines[2]);
+        expect(findOrderLine(lines, { productId: 'p2', unit: 'pc' })).toBeUndefined();
+    });
+});
+
+describe('buildDraftOrdersFromSuggestions', () => {
+    const product = (id: string, supplierId: string | undefined, extra: Partial<Product> = {}): Product => ({
+        id, name: id, category: 'Grocery', buyingPrice: 100, sellingPrice: 150, stock: 0, supplierId, ...extra,
+    });
+    const products = [
+        product('p1', 's1'),
+        product('p2', 's2', { units: [{ name: 'box', factor: 12 }], purchaseUnit: 'box' }),
+        product('p3', 's1', { buyingPrice: 40 }),
+        product('p4', undefined),
+    ];
+
+    it('groups lines by supplier, orders packs in whole packs and flags products without a supplier', () => {
+        const { drafts, unassigned } = buildDraftOrdersFromSuggestions([
+            { productId: 'p1', quantity: 5 },
+            { productId: 'p2', quantity: 13 },
+            { productId: 'p3', quantity: 2 },
+            { productId: 'p4', quantity: 1 },
+            { productId: 'p1', quantity: 0 },
+            { productId: 'missing', quantity: 3 },
+        ], products);
+
+        expect(drafts).toEqual([
+            { supplierId: 's1', lines: [
+                { productId: 'p1', quantityOrdered: 5, quantityReceived: 0, unitCost: 100 },
+                { productId: 'p3', quantityOrdered: 2, quantityReceived: 0, unitCost: 40 },
+            ] },
+            { supplierId: 's2', lines: [
+                { productId: 'p2', quantityOrdered: 2, quantityReceived: 0, unitCost: 1200, unit: 'box', unitFactor: 12 },
+            ] },
+        ]);
+        expect(unassigned).toEqual(['p4']);
+    });
+});
+
+describe('getPurchaseOrderTotal', () => {
+    it('costs every ordered unit, received or not', () => {
+        expect(getPurchaseOrderTotal(order)).toBe(9800);
+    });
+});
@@ -0,0 +1,142 @@
+import { Product } from '../types';
+import { findUnit, getUnitBuyingPrice } from './units';
+
+declare module '../types' {
+    interface Purchase {
+        purchaseOrderId?: string; // Set when the purchase was posted by receiving a purchase order
+    }
+}
+
+// --- Purchase Orders ---
+// A purchase order moves draft -> ordered -> partially_received -> received. Receiving goods
+// posts stock and creates one Purchase per line, which is what the supplier is owed.
+
+export type PurchaseOrderStatus = 'draft' | 'ordered' | 'partially_received' | 'received' | 'cancelled';
+
+export interface PurchaseOrderLine {
+    productId: string;
+    quantityOrdered: number;
+    quantityReceived: number;
+    unitCost: number;
+}
+
+export interface PurchaseOrder {
+    id: string;
+    documentNumber?: string;
+    supplierId: string;
+    status: PurchaseOrderStatus;
+    createdAt: string;
+    orderedAt?: string;
+    receivedAt?: string;
+    cancelledAt?: string;
+    expectedDate?: string;
+    note?: string;
+    lines: PurchaseOrderLine[];
+}
+
+export interface ReceivedLine {
+    productId: string;
+    quantity: number;
+    unitCost?: number; // Overrides the ordered cost when the invoice differs
+}
+
+export interface ReorderSuggestion {
+    productId: string;
+    quantity: number;
+}
+
+export const getOutstandingQuantity = (line: PurchaseOrderLine): number =>
+    Math.max(0, line.quantityOrdered - line.quantityReceived);
+
+export const getPurchaseOrderTotal = (order: PurchaseOrder): number =>
+    order.lines.reduce((total, line) => total + line.quantityOrdered * line.unitCost, 0);
+
+export const canReceive = (order: PurchaseOrder): boolean =>
+    order.status === 'ordered' || order.status === 'partially_received';
+
+/**
+ * The order line a received line is for: the product in the same unit. A line without a unit
+ * still matches when the product is on the order only once.
+ */
+export const findOrderLine = <T extends PurchaseOrderLine>(lines: T[], received: Pick<ReceivedLine, 'productId' | 'unit'>): T | undefined => {
+    const productLines = lines.filter(l => l.productId === received.productId);
+    return productLines.find(l => (l.unit || undefined) === (received.unit || undefined))
+        ?? (!received.unit && productLines.length === 1 ? productLines[0] : undefined);
+};
+
+/**
+ * Applies a goods receipt to an order and returns the updated order together with the lines
+ * that were actually received. Throws if a line is not on the order or exceeds what is outstanding.
+ */
+export const applyGoodsReceipt = (
+    order: PurchaseOrder,
+    received: ReceivedLine[],
+): { order: PurchaseOrder; receivedLines: (ReceivedLine & { unitCost: number })[] } => {
+    if (!canReceive(order)) {
+        throw new Error(`Cannot receive goods on a ${order.status} purchase order.`);
+    }
+    const lines = order.lines.map(line => ({ ...line }));
+    const receivedLines: (ReceivedLine & { unitCost: number })[] = [];
+
+    received.forEach(r => {
+        if (r.quantity <= 0) return;
+        const line = findOrderLine(lines, r);
+        if (!line) {
+            throw new Error('Received item is not on this purchase order.');
+        }
+        if (r.quantity > getOutstandingQuantity(line)) {
+            throw new Error(`Received quantity exceeds the ${getOutstandingQuantity(line)} outstanding.`);
+        }
+        line.quantityReceived += r.quantity;
+        receivedLines.push({ ...r, unitCost: r.unitCost ?? line.unitCost });
+    });
+
+    const isComplete = lines.every(line => getOutstandingQuantity(line) === 0);
+    const now = new Date().toISOString();
+    return {
+        order: {
+            ...order,
+            lines,
+            status: isComplete ? 'received' : 'partially_received',
+            receivedAt: isComplete ? now : order.receivedAt,
+        },
+        receivedLines,
+    };
+};
+
+/**
+ * Groups low-stock suggestions into one draft order per supplier, costed at each product's
+ * buying price. Products bought in packs are ordered in whole packs of their purchase unit.
+ * Products without a supplier are returned separately so they can be flagged.
+ */
+export const buildDraftOrdersFromSuggestions = (
+    suggestions: ReorderSuggestion[],
+    products: Product[],
+): { drafts: Omit<PurchaseOrder, 'id' | 'createdAt' | 'status'>[]; unassigned: string[] } => {
+    const bySupplier = new Map<string, PurchaseOrderLine[]>();
+    const unassigned: string[] = [];
+
+    suggestions.forEach(({ productId, quantity }) => {
+        if (quantity <= 0) return;
+        const product = products.find(p => p.id === productId);
+        if (!product) return;
+        if (!product.supplierId) {
+            unassigned.push(productId);
+            return;
+        }
+        const lines = bySupplier.get(product.supplierId) || [];
+        const unit = findUnit(product, product.purchaseUnit);
+        if (unit && unit.factor !== 1) {
+            lines.push({
+                productId, quantityOrdered: Math.ceil(quantity / unit.factor), quantityReceived: 0,
+                unitCost: getUnitBuyingPrice(product, unit), unit: unit.name, unitFactor: unit.factor,
+            });
+        } else {
+            lines.push({ productId, quantityOrdered: quantity, quantityReceived: 0, unitCost: product.buyingPrice });
+        }
+        bySupplier.set(product.supplierId, lines);
+    });
+
+    const drafts = Array.from(bySupplier.entries()).map(([supplierId, lines]) => ({ supplierId, lines }));
+    return { drafts, unassigned };
+};
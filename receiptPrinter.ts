@@ -0,0 +1,88 @@
+import { ReceiptPrinterConnection } from './escpos';
+
+// --- Receipt Printer Output ---
+// Sends ESC/POS bytes to a printer on a serial port (WebSerial) or USB (WebUSB). The browser asks
+// the user to pick the printer once; after that the port it was granted is reused without asking.
+// Where neither API exists, or the shop chose "file", the bytes are downloaded as a .bin file that
+// can be sent to the printer with the vendor's tool.
+
+const SERIAL_BAUD_RATE = 9600;
+const USB_PRINTER_CLASS = 7;
+
+export const isSerialSupported = (): boolean => typeof navigator !== 'undefined' && 'serial' in navigator;
+export const isUsbSupported = (): boolean => typeof navigator !== 'undefined' && 'usb' in navigator;
+
+const writeSerial = async (bytes: Uint8Array): Promise<void> => {
+    const serial = (navigator as any).serial;
+    const [granted] = await serial.getPorts();
+    const port = granted ?? await serial.requestPort();
+    await port.open({ baudRate: SERIAL_BAUD_RATE });
+    try {
+        const writer = port.writable.getWriter();
+        try {
+            await writer.write(bytes);
+        } finally {
+            writer.releaseLock();
+        }
+    } finally {
+        await port.close();
+    }
+};
+
+const writeUsb = async (bytes: Uint8Array): Promise<void> => {
+    const usb = (navigator as any).usb;
+    const [granted] = await usb.getDevices();
+    const device = granted ?? await usb.requestDevice({ filters: [{ classCode: USB_PRINTER_CLASS }] });
+    await device.open();
+    try {
+        if (device.configuration === null) await device.selectConfiguration(1);
+        // Use the printer-class interface if there is one, else the first with a bulk OUT endpoint.
+        const interfaces = device.configuration.interfaces;
+        const candidates = [
+            ...interfaces.filter((i: any) => i.alternate.interfaceClass === USB_PRINTER_CLASS),
+            ...interfaces,
+        ];
+        const target = candidates.find((i: any) => i.alternate.endpoints.some((e: any) => e.direction === 'out' && e.type === 'bulk'));
+        if (!target) throw new Error('The USB device has no printer output.');
+        const endpoint = target.alternate.endpoints.find((e: any) => e.direction === 'out' && e.type === 'bulk');
+        await device.claimInterface(target.interfaceNumber);
+        try {
+            await device.transferOut(endpoint.endpointNumber, bytes);
+        } finally {
+            await device.releaseInterface(target.interfaceNumber);
+        }
+    } finally {
+        await device.close();
+    }
+};
+
+export const downloadBytes = (bytes: Uint8Array, fileName: string) => {
+    const url = URL.createObjectURL(new Blob([bytes], { type: 'application/octet-stream' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    link.click();
+    // Revoking straight away can cancel the download in some browsers, so let it start first.
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+/**
+ * Sends the bytes the way the shop configured, falling back to a download when the browser
+ * can't reach the printer. Returns how they went out.
+ */
+export const sendToPrinter = async (
+    bytes: Uint8Array,
+    connection: ReceiptPrinterConnection,
+    fileName: string,
+): Promise<'serial' | 'usb' | 'file'> => {
+    if (connection === 'serial' && isSerialSupported()) {
+        await writeSerial(bytes);
+        return 'serial';
+    }
+    if (connection === 'usb' && isUsbSupported()) {
+        await writeUsb(bytes);
+        return 'usb';
+    }
+    downloadBytes(bytes, fileName);
+    return 'file';
+};
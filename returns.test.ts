@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { Sale } from '../types';
+import { SaleReturn, buildReturnLines, getReturnableQuantities, getSalesSummary, getUnitRefund } from './returns';
+
+// Lines come to 13,000 and the order discount brings the sale to 10,000, so each unit is refunded 10/13 of what its line charged.
+const sale: Sale = {
+    id: 'sale-1',
+    date: '2026-03-05',
+    time: '14:30:00',
+    customerType: 'walk-in',
+    paymentMethod: 'cash',
+    items: [
+        { id: 'i1', productId: 'p1', name: 'Green tea', quantity: 4, price: 2600, discount: 0, total: 10400 },
+        { id: 'i2', productId: 'p2', name: 'Rice 5kg', quantity: 3, price: 1000, discount: 13.33, total: 2600 },
+    ],
+    orderDiscount: 3000,
+    total: 10000,
+    profit: 1000,
+    amountPaid: 10000,
+    change: 0,
+};
+
+const earlierReturn: SaleReturn = {
+    id: 'r1', saleId: 'sale-1', date: '2026-03-06', time: '09:00:00', refundMethod: 'cash', totalRefund: 2000,
+    lines: [{ saleItemId: 'i1', productId: 'p1', name: 'Green tea', quantity: 1, unitRefund: 2000, amount: 2000, disposition: 'restock' }],
+};
+
+describe('getUnitRefund', () => {
+    it('prorates the order discount over the line price', () => {
+        expect(getUnitRefund(sale, 'i1')).toBe(2000);
+        expect(getUnitRefund(sale, 'i2')).toBeCloseTo(666.667, 3);
+        expect(getUnitRefund(sale, 'missing')).toBe(0);
+    });
+});
+
+describe('buildReturnLines', () => {
+    it('rounds each line to cents and skips zero quantities', () => {
+        const lines = buildReturnLines(sale, [
+            { saleItemId: 'i2', quantity: 2, disposition: 'damaged' },
+            { saleItemId: 'i1', quantity: 0, disposition: 'restock' },
+        ], []);
+
+        expect(lines).toEqual([{
+            saleItemId: 'i2', productId: 'p2', name: 'Rice 5kg', quantity: 2,
+            unitRefund: getUnitRefund(sale, 'i2'), amount: 1333.33, disposition: 'damaged',
+        }]);
+    });
+
+    it('counts earlier returns against what can still be returned', () => {
+        expect(getReturnableQuantities(sale, [earlierReturn, { ...earlierReturn, saleId: 'other' }])).toEqual(new Map([['i1', 3], ['i2', 3]]));
+        expect(() => buildReturnLines(sale, [{ saleItemId: 'i1', quantity: 4, disposition: 'restock' }], [earlierReturn]))
+            .toThrow('Only 3 of "Green tea" can still be returned.');
+        expect(() => buildReturnLines(sale, [{ saleItemId: 'i9', quantity: 1, disposition: 'restock' }], []))
+            .toThrow('Returned item is not on this sale.');
+    });
+});
+
+describe('getSalesSummary', () => {
+    it('takes returns dated in the range off the sales dated in it', () => {
+        const laterReturn = { ...earlierReturn, id: 'r2', date: '2026-04-01', totalRefund: 500 };
+
+        expect(getSalesSummary([sale, { ...sale, id: 'sale-2', date: '2026-02-28' }], [earlierReturn, laterReturn], '2026-03-01', '2026-03-31'))
+            .toEqual({ grossSales: 10000, returns: 2000, netSales: 8000 });
+    });
+});
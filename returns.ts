@@ -0,0 +1,112 @@
+import { Sale } from '../types';
+
+declare module '../types' {
+    interface CustomerPayment {
+        returnId?: string; // Set when the "payment" is a credit note issued for a return
+    }
+}
+
+// --- Sales Returns ---
+// A return is its own document pointing at the original sale, which is left untouched.
+// Refunds are prorated to what the customer actually paid, so line and order discounts carry over.
+
+export type ReturnDisposition = 'restock' | 'damaged';
+export type RefundMethod = 'cash' | 'bank_transfer' | 'credit_note';
+
+export interface SaleReturnLine {
+    saleItemId: string;
+    productId: string;
+    name: string;
+    quantity: number;
+    unitRefund: number;
+    amount: number;
+    disposition: ReturnDisposition;
+}
+
+export interface SaleReturn {
+    id: string;
+    documentNumber?: string;
+    saleId: string;
+    customerId?: string;
+    date: string; // YYYY-MM-DD, same format as Sale.date
+    time: string;
+    refundMethod: RefundMethod;
+    totalRefund: number;
+    reason?: string;
+    lines: SaleReturnLine[];
+    shiftId?: string;
+    staffId?: string;
+}
+
+export interface ReturnRequestLine {
+    saleItemId: string;
+    quantity: number;
+    disposition: ReturnDisposition;
+}
+
+export interface SalesSummary {
+    grossSales: number;
+    returns: number;
+    netSales: number;
+}
+
+/** Quantity of each sale line that has not been returned yet, keyed by sale item id. */
+export const getReturnableQuantities = (sale: Sale, saleReturns: SaleReturn[]): Map<string, number> => {
+    const remaining = new Map(sale.items.map(item => [item.id, item.quantity]));
+    saleReturns
+        .filter(r => r.saleId === sale.id)
+        .forEach(r => r.lines.forEach(line => {
+            remaining.set(line.saleItemId, (remaining.get(line.saleItemId) || 0) - line.quantity);
+        }));
+    return remaining;
+};
+
+/** Amount refunded per unit of a sale line, after line and order discounts. */
+export const getUnitRefund = (sale: Sale, saleItemId: string): number => {
+    const item = sale.items.find(i => i.id === saleItemId);
+    if (!item || item.quantity === 0) return 0;
+    const itemsTotal = sale.items.reduce((sum, i) => sum + i.total, 0);
+    const paidRatio = itemsTotal > 0 ? sale.total / itemsTotal : 0;
+    return (item.total / item.quantity) * paidRatio;
+};
+
+/**
+ * Builds the lines of a return against a sale. Throws if a line is not on the sale or more
+ * is returned than was sold (less earlier returns).
+ */
+export const buildReturnLines = (sale: Sale, request: ReturnRequestLine[], saleReturns: SaleReturn[]): SaleReturnLine[] => {
+    const remaining = getReturnableQuantities(sale, saleReturns);
+    return request
+        .filter(r => r.quantity > 0)
+        .map(r => {
+            const item = sale.items.find(i => i.id === r.saleItemId);
+            if (!item) {
+                throw new Error('Returned item is not on this sale.');
+            }
+            const returnable = remaining.get(item.id) || 0;
+            if (r.quantity > returnable) {
+                throw new Error(`Only ${returnable} of "${item.name}" can still be returned.`);
+            }
+            const unitRefund = getUnitRefund(sale, item.id);
+            return {
+                saleItemId: item.id,
+                productId: item.productId,
+                name: item.name,
+                quantity: r.quantity,
+                unitRefund,
+                amount: Math.round(unitRefund * r.quantity * 100) / 100,
+                disposition: r.disposition,
+            };
+        });
+};
+
+export const getReturnsForSale = (saleId: string, saleReturns: SaleReturn[]): SaleReturn[] =>
+    saleReturns.filter(r => r.saleId === saleId);
+
+/** Gross sales, returns and net sales for an inclusive YYYY-MM-DD date range. */
+export const getSalesSummary = (sales: Sale[], saleReturns: SaleReturn[], from: string, to: string): SalesSummary => {
+    const inRange = (date: string) => date >= from && date <= to;
+    const grossSales = sales.filter(s => inRange(s.date)).reduce((sum, s) => sum + s.total, 0);
+    const returns = saleReturns.filter(r => inRange(r.date)).reduce((sum, r) => sum + r.totalRefund, 0);
+    return { grossSales, returns, netSales: grossSales - returns };
+};
@@ -0,0 +1,55 @@
+import { Sale } from '../types';
+
+declare module '../types' {
+    interface Sale {
+        status?: SaleStatus; // Missing on sales recorded before voids were kept; treated as 'completed'
+        voidedAt?: string;
+        voidedBy?: string;
+        voidReason?: string;
+        revisionOf?: string;   // The sale this one replaced when it was edited
+        supersededBy?: string; // The revision that replaced this sale
+        revision?: number;     // 1 for an original sale, incremented on each edit
+    }
+}
+
+// --- Sale Status ---
+// Sales are never deleted. A void keeps the record with who, when and why; an edit keeps the
+// old version as 'superseded' and links it to the new revision. Only completed sales count
+// towards revenue, stock and customer balances.
+
+export type SaleStatus = 'completed' | 'voided' | 'superseded';
+
+export interface VoidDetails {
+    reason: string;
+    voidedBy: string;
+}
+
+export const isActiveSale = (sale: Sale): boolean => !sale.status || sale.status === 'completed';
+
+/** Voided sales and replaced revisions, newest first, for the "Voided sales" report. */
+export const getVoidedSales = (sales: Sale[]): Sale[] =>
+    sales
+        .filter(s => !isActiveSale(s))
+        .sort((a, b) => (b.voidedAt || '').localeCompare(a.voidedAt || ''));
+
+/** Every version of an edited sale, oldest first, given any one of them. */
+export const getSaleRevisions = (sales: Sale[], saleId: string): Sale[] => {
+    const byId = new Map(sales.map(s => [s.id, s]));
+    let first = byId.get(saleId);
+    while (first?.revisionOf && byId.has(first.revisionOf)) {
+        first = byId.get(first.revisionOf);
+    }
+    const revisions: Sale[] = [];
+    for (let current = first; current; current = current.supersededBy ? byId.get(current.supersededBy) : undefined) {
+        revisions.push(current);
+    }
+    return revisions;
+};
+
+export const markVoided = (sale: Sale, status: 'voided' | 'superseded', details: VoidDetails): Sale => ({
+    ...sale,
+    status,
+    voidedAt: new Date().toISOString(),
+    voidedBy: details.voidedBy,
+    voidReason: details.reason,
+});
@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import { CustomerPayment, Sale } from '../types';
+import { SaleReturn } from './returns';
+import { Shift, getCountedTotal, summarizeShift } from './shifts';
+
+const shift: Shift = {
+    id: 'shift-1',
+    registerId: 'R1',
+    status: 'open',
+    openedAt: '2026-03-05T08:00:00.000Z',
+    openingFloat: 50000,
+    cashMovements: [
+        { id: 'm1', type: 'pay_in', amount: 10000, reason: 'Change from the bank', date: '2026-03-05T09:00:00.000Z' },
+        { id: 'm2', type: 'pay_out', amount: 3000, reason: 'Ice', date: '2026-03-05T10:00:00.000Z' },
+    ],
+};
+
+const sale = (id: string, paymentMethod: Sale['paymentMethod'], total: number, extra: Partial<Sale> = {}): Sale => ({
+    id, date: '2026-03-05', time: '10:00:00', customerType: 'walk-in', paymentMethod,
+    items: [], total, profit: 0, amountPaid: total, orderDiscount: 0, change: 0, shiftId: 'shift-1', ...extra,
+});
+
+describe('summarizeShift', () => {
+    it('expects the float plus cash in less cash out, leaving other shifts and credit notes out', () => {
+        const sales = [
+            sale('s1', 'cash', 20000),
+            sale('s2', 'bank_transfer', 15000),
+            sale('s3', 'credit', 8000),
+            sale('s4', 'cash', 99999, { shiftId: 'shift-0' }),
+        ];
+        const payments: CustomerPayment[] = [
+            { id: 'cp1', customerId: 'c1', date: '2026-03-05', amount: 5000, shiftId: 'shift-1' },
+            { id: 'cp2', customerId: 'c1', date: '2026-03-05', amount: 4000, shiftId: 'shift-1', paymentMethod: 'bank_transfer' },
+            { id: 'cp3', customerId: 'c1', date: '2026-03-05', amount: 2000, shiftId: 'shift-1', returnId: 'r2' },
+        ];
+        const returns: SaleReturn[] = [
+            { id: 'r1', saleId: 's1', date: '2026-03-05', time: '11:00:00', refundMethod: 'cash', totalRefund: 1500, lines: [], shiftId: 'shift-1' },
+            { id: 'r2', saleId: 's3', date: '2026-03-05', time: '11:30:00', refundMethod: 'credit_note', totalRefund: 2000, lines: [], shiftId: 'shift-1' },
+        ];
+
+        expect(summarizeShift(shift, sales, payments, returns, 'MMK')).toEqual({
+            salesCount: 3,
+            totalSales: 43000,
+            salesByMethod: { cash: 20000, bank_transfer: 15000, credit: 8000 },
+            cashSales: 20000,
+            cashPaymentsReceived: 5000,
+            cashRefunds: 1500,
+            payIns: 10000,
+            payOuts: 3000,
+            expectedCash: 50000 + 20000 + 5000 + 10000 - 3000 - 1500,
+        });
+    });
+
+    it('keeps foreign notes out of the expected base-currency cash', () => {
+        const paidInDollars = sale('s1', 'cash', 30000, {
+            tenders: [
+                { currency: 'USD', amount: 5, rate: 4200, baseAmount: 21000 },
+                { currency: 'MMK', amount: 9000, rate: 1, baseAmount: 9000 },
+            ],
+        });
+
+        const summary = summarizeShift({ ...shift, cashMovements: [] }, [paidInDollars], [], [], 'MMK');
+
+        expect(summary.expectedCash).toBe(50000 + 9000);
+        expect(summary.foreignCash).toEqual({ USD: 5 });
+    });
+});
+
+describe('getCountedTotal', () => {
+    it('adds up the count and rounds away coin float error', () => {
+        expect(getCountedTotal([{ denomination: 0.1, count: 3 }, { denomination: 20, count: 2 }])).toBe(40.3);
+    });
+});
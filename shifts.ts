@@ -0,0 +1,129 @@
+import { Sale, CustomerPayment, SystemSettings } from '../types';
+import { SaleReturn } from './returns';
+
+declare module '../types' {
+    interface Sale {
+        shiftId?: string;
+    }
+    interface CustomerPayment {
+        shiftId?: string;
+        paymentMethod?: Exclude<Sale['paymentMethod'], 'credit'>; // Payments saved without one were taken in cash
+    }
+    interface SystemSettings {
+        registerId?: string; // Identifies this till; shifts and document numbers are kept per register
+    }
+}
+
+// --- Cash Drawer Shifts ---
+// A shift runs from opening the drawer with a float to counting it at close. Sales, payments
+// and refunds taken while it is open carry its id, so expected cash can be worked out exactly.
+
+export const DEFAULT_REGISTER_ID = 'R1';
+
+/** A register id taken from the device id, for a till that syncs and was never given one. */
+export const deviceRegisterId = (deviceId: string): string =>
+    `R${deviceId.replace(/[^A-Za-z0-9]/g, '').slice(0, 4).toUpperCase()}`;
+
+export type CashMovementType = 'pay_in' | 'pay_out';
+
+export interface CashMovement {
+    id: string;
+    type: CashMovementType;
+    amount: number;
+    reason: string;
+    date: string; // ISO timestamp
+    staffId?: string;
+    expenseId?: string; // Set when a pay-out was also booked as an expense
+}
+
+export interface DenominationCount {
+    denomination: number;
+    count: number;
+}
+
+export interface ShiftSummary {
+    salesCount: number;
+    totalSales: number;
+    salesByMethod: Record<string, number>;
+    cashSales: number;
+    cashPaymentsReceived: number;
+    cashRefunds: number;
+    payIns: number;
+    payOuts: number;
+    expectedCash: number; // In the base currency
+    foreignCash?: Record<string, number>; // Foreign notes taken, by currency; kept out of expectedCash
+}
+
+export interface Shift {
+    id: string;
+    registerId: string;
+    status: 'open' | 'closed';
+    openedAt: string;
+    openedBy?: string;
+    openingFloat: number;
+    cashMovements: CashMovement[];
+    closedAt?: string;
+    closedBy?: string;
+    denominations?: DenominationCount[];
+    countedCash?: number;
+    summary?: ShiftSummary; // Frozen at close for the Z report
+    variance?: number;      // countedCash - expectedCash; negative means the drawer is short
+}
+
+export const DENOMINATIONS: Record<SystemSettings['currency'], number[]> = {
+    MMK: [10000, 5000, 1000, 500, 200, 100, 50],
+    USD: [100, 50, 20, 10, 5, 1, 0.25, 0.1, 0.05, 0.01],
+    EUR: [500, 200, 100, 50, 20, 10, 5, 2, 1, 0.5, 0.2, 0.1, 0.05, 0.02, 0.01],
+};
+
+export const getCountedTotal = (denominations: DenominationCount[]): number =>
+    Math.round(denominations.reduce((sum, d) => sum + d.denomination * d.count, 0) * 100) / 100;
+
+/**
+ * Totals for a shift from the documents stamped with its id. Credit notes are not cash, so
+ * customer payments created for returns are left out.
+ */
+export const summarizeShift = (
+    shift: Shift,
+    sales: Sale[],
+    customerPayments: CustomerPayment[],
+    saleReturns: SaleReturn[],
+    baseCurrency: SystemSettings['currency'],
+): ShiftSummary => {
+    const shiftSales = sales.filter(s => s.shiftId === shift.id);
+    const salesByMethod: Record<string, number> = {};
+    shiftSales.forEach(s => {
+        salesByMethod[s.paymentMethod] = (salesByMethod[s.paymentMethod] || 0) + s.total;
+    });
+
+    const cashSales = salesByMethod.cash || 0;
+    const cashPaymentsReceived = customerPayments
+        .filter(p => p.shiftId === shift.id && !p.returnId && (p.paymentMethod ?? 'cash') === 'cash')
+        .reduce((sum, p) => sum + p.amount, 0);
+    const cashRefunds = saleReturns
+        .filter(r => r.shiftId === shift.id && r.refundMethod === 'cash')
+        .reduce((sum, r) => sum + r.totalRefund, 0);
+    // Foreign notes sit in the drawer as themselves, so their base value is not expected in base cash.
+    const foreignCash: Record<string, number> = {};
+    let foreignCashValue = 0;
+    shiftSales.filter(s => s.paymentMethod === 'cash').forEach(s => (s.tenders ?? []).forEach(tender => {
+        if (tender.currency === baseCurrency) return;
+        foreignCash[tender.currency] = (foreignCash[tender.currency] || 0) + tender.amount;
+        foreignCashValue += tender.baseAmount;
+    }));
+    const payIns = shift.cashMovements.filter(m => m.type === 'pay_in').reduce((sum, m) => sum + m.amount, 0);
+    const payOuts = shift.cashMovements.filter(m => m.type === 'pay_out').reduce((sum, m) => sum + m.amount, 0);
+
+    return {
+        salesCount: shiftSales.length,
+        totalSales: shiftSales.reduce((sum, s) => sum + s.total, 0),
+        salesByMethod,
+        cashSales,
+        cashPaymentsReceived,
+        cashRefunds,
+        payIns,
+        payOuts,
+        expectedCash: shift.openingFloat + cashSales - foreignCashValue + cashPaymentsReceived + payIns - payOuts - cashRefunds,
+        ...(foreignCashValue > 0 && { foreignCash }),
+    };
+};
@@ -0,0 +1,120 @@
+import { Sale } from '../types';
+
+declare module '../types' {
+    interface Sale {
+        staffId?: string; // Who rang up the sale
+        voidedByStaffId?: string;
+        discountApprovedBy?: string; // Manager who approved a discount above the cashier's limit
+    }
+    interface Expense {
+        staffId?: string;
+    }
+    interface CustomerPayment {
+        staffId?: string;
+    }
+    interface SystemSettings {
+        maxDiscountWithoutApproval?: number; // Line or order discount (%) above which 'large_discount' is required
+    }
+}
+
+// --- Staff & Permissions ---
+// Accounts are local to this device. PINs are never stored, only a salted PBKDF2 hash.
+
+export type StaffRole = 'owner' | 'manager' | 'cashier';
+
+export interface StaffMember {
+    id: string;
+    name: string;
+    role: StaffRole;
+    pinHash: string;
+    pinSalt: string;
+    active: boolean;
+    createdAt: string;
+}
+
+export type Permission =
+    | 'void_sale'
+    | 'edit_sale'
+    | 'delete_product'
+    | 'edit_prices'
+    | 'adjust_stock'
+    | 'large_discount'
+    | 'override_credit_limit'
+    | 'manage_purchases'
+    | 'process_returns'
+    | 'manage_customers'
+    | 'manage_expenses'
+    | 'manage_settings'
+    | 'manage_staff'
+    | 'import_data'
+    | 'reset_data';
+
+export const ROLE_PERMISSIONS: Record<StaffRole, Permission[]> = {
+    owner: [
+        'void_sale', 'edit_sale', 'delete_product', 'edit_prices', 'adjust_stock', 'large_discount',
+        'override_credit_limit', 'manage_purchases', 'process_returns', 'manage_customers', 'manage_expenses',
+        'manage_settings', 'manage_staff', 'import_data', 'reset_data',
+    ],
+    manager: [
+        'void_sale', 'edit_sale', 'delete_product', 'edit_prices', 'adjust_stock', 'large_discount',
+        'override_credit_limit', 'manage_purchases', 'process_returns', 'manage_customers', 'manage_expenses',
+    ],
+    cashier: [],
+};
+
+export const PERMISSION_LABELS: Record<Permission, string> = {
+    void_sale: 'void sales',
+    edit_sale: 'edit sales',
+    delete_product: 'delete products',
+    edit_prices: 'change prices',
+    adjust_stock: 'adjust stock',
+    large_discount: 'give large discounts',
+    override_credit_limit: 'override credit limits',
+    manage_purchases: 'manage purchase orders',
+    process_returns: 'process returns and refunds',
+    manage_customers: 'edit or delete customers',
+    manage_expenses: 'edit or delete expenses',
+    manage_settings: 'change settings',
+    manage_staff: 'manage staff accounts',
+    import_data: 'import data',
+    reset_data: 'reset all data',
+};
+
+export const DEFAULT_MAX_DISCOUNT = 10;
+
+export const hasPermission = (staff: StaffMember | null, permission: Permission): boolean =>
+    !!staff && staff.active && ROLE_PERMISSIONS[staff.role].includes(permission);
+
+/** Whether any line or order discount on the sale is above the cashier's limit. */
+export const exceedsDiscountLimit = (sale: Pick<Sale, 'items' | 'orderDiscount'>, maxDiscount: number): boolean =>
+    (sale.orderDiscount || 0) > maxDiscount || sale.items.some(item => (item.discount || 0) > maxDiscount);
+
+// --- PIN Hashing ---
+const PBKDF2_ITERATIONS = 100000;
+
+const toBase64 = (bytes: ArrayBuffer | Uint8Array): string =>
+    btoa(String.fromCharCode(...new Uint8Array(bytes)));
+
+const fromBase64 = (value: string): Uint8Array =>
+    Uint8Array.from(atob(value), c => c.charCodeAt(0));
+
+export const hashPin = async (pin: string, salt: string): Promise<string> => {
+    const key = await crypto.subtle.importKey('raw', new TextEncoder().encode(pin), 'PBKDF2', false, ['deriveBits']);
+    const bits = await crypto.subtle.deriveBits(
+        { name: 'PBKDF2', hash: 'SHA-256', salt: fromBase64(salt), iterations: PBKDF2_ITERATIONS },
+        key,
+        256,
+    );
+    return toBase64(bits);
+};
+
+export const createPinCredentials = async (pin: string): Promise<{ pinHash: string; pinSalt: string }> => {
+    const pinSalt = toBase64(crypto.getRandomValues(new Uint8Array(16)));
+    return { pinHash: await hashPin(pin, pinSalt), pinSalt };
+};
+
+export const verifyPin = async (staff: StaffMember, pin: string): Promise<boolean> =>
+    (await hashPin(pin, staff.pinSalt)) === staff.pinHash;
+
+/** PINs and passwords both need at least 4 characters. */
+export const isValidPin = (pin: string): boolean => pin.trim().length >= 4;
@@ -0,0 +1,156 @@
+import { Product } from '../types';
+import { findByBarcode, roundQuantity, toBaseQuantity } from './units';
+import { isVariantParent } from './variants';
+
+// --- Stock Takes ---
+// A stock take freezes the expected quantity of every product in scope when it starts. Counters
+// then add counts (scanned or typed) on any device; each count is its own record, so counts from
+// several people merge by sync without overwriting each other, and a product's counted quantity
+// is the sum of its counts (shelf plus back room). Posting moves stock by counted minus expected,
+// so sales made while the count was running are kept. Variances go to the ledger as stock_count
+// movements, never as purchases.
+
+export type StockTakeStatus = 'counting' | 'posted' | 'cancelled';
+
+export type StockTakeScope =
+    | { type: 'full' }
+    | { type: 'category'; category: string }
+    | { type: 'supplier'; supplierId: string };
+
+export interface StockTake {
+    id: string;
+    name: string;
+    scope: StockTakeScope;
+    status: StockTakeStatus;
+    startedAt: string;             // ISO date-time
+    startedBy?: string;            // Staff id
+    expected: Record<string, number>; // Stock per product id when the count started
+    postedAt?: string;
+    postedBy?: string;
+    postedProductIds?: string[];   // Products whose variance was approved and posted
+    cancelledAt?: string;
+}
+
+export interface StockCount {
+    id: string;
+    stockTakeId: string;
+    productId: string;
+    quantity: number;  // In base units; negative to correct a miscount
+    countedAt: string; // ISO date-time
+    countedBy?: string;
+}
+
+export interface StockTakeVariance {
+    productId: string;
+    name: string;
+    expected: number;
+    counted: number;
+    variance: number;  // counted - expected
+    unitCost: number;  // buyingPrice
+    costVariance: number;
+}
+
+export interface StockTakeReport {
+    lines: StockTakeVariance[];      // Counted products, plus uncounted ones when they are treated as zero
+    uncountedProductIds: string[];
+    totalCostVariance: number;
+    shortageCost: number;            // Cost of missing stock, as a positive number
+    surplusCost: number;
+}
+
+export const isInStockTakeScope = (product: Product, scope: StockTakeScope): boolean => {
+    if (isVariantParent(product)) return false; // Stock is held by the variants
+    if (scope.type === 'category') return product.category === scope.category;
+    if (scope.type === 'supplier') return product.supplierId === scope.supplierId;
+    return true;
+};
+
+/** The expected quantities for a new stock take. */
+export const snapshotExpected = (products: Product[], scope: StockTakeScope): Record<string, number> =>
+    Object.fromEntries(products.filter(p => isInStockTakeScope(p, scope)).map(p => [p.id, p.stock]));
+
+/**
+ * Turns a scan or typed entry into a count line in base units. Scanning a carton barcode counts
+ * the carton's contents. Throws if the code is unknown or the product is not part of this count.
+ */
+export const resolveCountEntry = (
+    stockTake: StockTake,
+    products: Product[],
+    entry: { barcode: string; quantity: number } | { productId: string; quantity: number },
+): { productId: string; quantity: number } => {
+    let productId: string;
+    let quantity = entry.quantity;
+    if ('barcode' in entry) {
+        const match = findByBarcode(products, entry.barcode.trim());
+        if (!match) throw new Error(`No product has the barcode ${entry.barcode}.`);
+        productId = match.product.id;
+        quantity = toBaseQuantity(match.unit, entry.quantity);
+    } else {
+        productId = entry.productId;
+    }
+    if (!(productId in stockTake.expected)) {
+        const name = products.find(p => p.id === productId)?.name ?? 'This product';
+        throw new Error(`${name} is not part of this stock take.`);
+    }
+    if (!Number.isFinite(quantity) || quantity === 0) throw new Error('Enter a quantity.');
+    return { productId, quantity };
+};
+
+/** Counted quantity per product, adding up every counter's entries. */
+export const getCountedQuantities = (counts: StockCount[], stockTakeId: string): Map<string, number> => {
+    const totals = new Map<string, number>();
+    counts
+        .filter(c => c.stockTakeId === stockTakeId)
+        .forEach(c => totals.set(c.productId, roundQuantity((totals.get(c.productId) ?? 0) + c.quantity)));
+    return totals;
+};
+
+/**
+ * Variance of each counted product against the quantity expected when the count started,
+ * costed at the product's buying price. Products nobody counted are listed separately, or
+ * reported as counted zero when `treatUncountedAsZero` is set (a full count of the shop).
+ */
+export const getStockTakeReport = (
+    stockTake: StockTake,
+    counts: StockCount[],
+    products: Product[],
+    treatUncountedAsZero = false,
+): StockTakeReport => {
+    const counted = getCountedQuantities(counts, stockTake.id);
+    const lines: StockTakeVariance[] = [];
+    const uncountedProductIds: string[] = [];
+
+    Object.entries(stockTake.expected).forEach(([productId, expected]) => {
+        const product = products.find(p => p.id === productId);
+        if (!product) return;
+        if (!counted.has(productId) && !treatUncountedAsZero) {
+            uncountedProductIds.push(productId);
+            return;
+        }
+        const quantity = Math.max(0, counted.get(productId) ?? 0);
+        const variance = roundQuantity(quantity - expected);
+        lines.push({
+            productId,
+            name: product.name,
+            expected,
+            counted: quantity,
+            variance,
+            unitCost: product.buyingPrice,
+            costVariance: variance * product.buyingPrice,
+        });
+    });
+
+    return {
+        lines,
+        uncountedProductIds,
+        totalCostVariance: lines.reduce((total, l) => total + l.costVariance, 0),
+        shortageCost: -lines.filter(l => l.costVariance < 0).reduce((total, l) => total + l.costVariance, 0),
+        surplusCost: lines.filter(l => l.costVariance > 0).reduce((total, l) => total + l.costVariance, 0),
+    };
+};
+
+export const describeScope = (scope: StockTakeScope, supplierName?: string): string => {
+    if (scope.type === 'category') return `Category: ${scope.category}`;
+    if (scope.type === 'supplier') return `Supplier: ${supplierName ?? scope.supplierId}`;
+    return 'Full count';
+};
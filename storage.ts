@@ -0,0 +1,464 @@
+import { UseStore, promisifyRequest, get, set, values } from 'idb-keyval';
+import { Product, Sale, Supplier, Expense, Customer, CompanyInfo, SystemSettings, Category, Purchase, CustomerPayment } from '../types';
+import { InventoryMovement } from './inventory';
+import { PurchaseOrder } from './purchaseOrders';
+import { SaleReturn } from './returns';
+import { StaffMember } from './staff';
+import { Shift } from './shifts';
+import { StockBatch } from './batches';
+import { PricingRule } from './pricing';
+import { HeldCart } from './heldCarts';
+import { StockCount, StockTake } from './stockTakes';
+import { DocumentCounters } from './documentNumbers';
+import { BackupSnapshot } from './backups';
+import { SupplierPayment, SUPPLIER_PAYMENT_CATEGORY, supplierPaymentFromExpense } from './accounts';
+
+// --- Schema ---
+// Bump SCHEMA_VERSION whenever a store is added or the shape of stored records changes,
+// and register a migration for the new version below. The IndexedDB version follows it,
+// so new object stores are created on the next launch.
+export const DB_NAME = 'swift-pos';
+export const SCHEMA_VERSION = 13;
+
+export const COLLECTION_STORES = ['products', 'sales', 'suppliers', 'expenses', 'customers', 'purchases', 'customerPayments', 'inventoryMovements', 'purchaseOrders', 'supplierPayments', 'saleReturns', 'staff', 'shifts', 'stockBatches', 'pricingRules', 'heldCarts', 'stockTakes', 'stockCounts'] as const;
+export type CollectionName = typeof COLLECTION_STORES[number];
+
+// Single-value entries (settings, the category list and document counters) live in the meta store next to the schema version.
+export const SETTING_KEYS = ['companyInfo', 'systemSettings', 'categories', 'documentCounters'] as const;
+export type SettingKey = typeof SETTING_KEYS[number];
+
+const META_STORE = 'meta';
+const SCHEMA_VERSION_KEY = 'schemaVersion';
+
+// Local edits waiting to be pushed by remote sync, one entry per record. Not part of backups.
+const CHANGE_LOG_STORE = 'changeLog';
+const DEVICE_ID_KEY = 'deviceId';
+const SYNC_STATE_KEY = 'syncState';
+
+// Automatic backups kept inside the database when no backup folder is writable.
+const SNAPSHOT_STORE = 'backupSnapshots';
+
+// Settings shared between devices. systemSettings stays per device (register, receipt size, sync address),
+// and so do documentCounters, since each register numbers its own documents.
+export const SYNCED_SETTING_KEYS: SettingKey[] = ['companyInfo', 'categories'];
+
+export interface DataSnapshot {
+    products: Product[];
+    sales: Sale[];
+    suppliers: Supplier[];
+    expenses: Expense[];
+    customers: Customer[];
+    purchases: Purchase[];
+    customerPayments: CustomerPayment[];
+    inventoryMovements: InventoryMovement[];
+    purchaseOrders: PurchaseOrder[];
+    supplierPayments: SupplierPayment[];
+    saleReturns: SaleReturn[];
+    staff: StaffMember[];
+    shifts: Shift[];
+    stockBatches: StockBatch[];
+    pricingRules: PricingRule[];
+    heldCarts: HeldCart[];
+    stockTakes: StockTake[];
+    stockCounts: StockCount[];
+    companyInfo: CompanyInfo;
+    systemSettings: SystemSettings;
+    categories: Category[];
+    documentCounters: DocumentCounters;
+}
+
+export interface BackupFile extends Partial<DataSnapshot> {
+    schemaVersion: number;
+    exportedAt?: string;
+    recordCounts?: Record<string, number>;
+    checksum?: string; // SHA-256 of the file without this field; see sealBackup
+}
+
+// --- Migrations ---
+// Each entry upgrades data from (version - 1) to version. Data without a schemaVersion
+// (the old localStorage layout and backups exported before this store existed) is version 0.
+type Migration = (data: any) => any;
+
+const MIGRATIONS: Record<number, Migration> = {
+    1: (data) => ({
+        ...data,
+        // Older product forms saved numeric fields as strings.
+        products: Array.isArray(data.products)
+            ? data.products.map((p: any) => ({
+                ...p,
+                stock: Number(p.stock) || 0,
+                buyingPrice: Number(p.buyingPrice) || 0,
+                sellingPrice: Number(p.sellingPrice) || 0,
+            }))
+            : data.products,
+    }),
+    // Introduces the stock ledger: each product's existing stock becomes its opening balance.
+    2: (data) => {
+        // The store is created empty before this runs, so only a non-empty ledger counts as existing.
+        if (!Array.isArray(data.products) || data.inventoryMovements?.length > 0) return data;
+        const date = new Date().toISOString();
+        const openingBalances: InventoryMovement[] = data.products
+            .filter((p: Product) => p.stock !== 0)
+            .map((p: Product): InventoryMovement => ({
+                id: `opening-${p.id}`,
+                productId: p.id,
+                date,
+                reason: 'adjustment',
+                quantityChange: p.stock,
+                quantityBefore: 0,
+                quantityAfter: p.stock,
+                note: 'Opening balance',
+            }));
+        return { ...data, inventoryMovements: openingBalances };
+    },
+    // Adds the purchaseOrders store; existing records are unchanged.
+    3: (data) => data,
+    // Adds the payables ledger. Supplier payments were recorded as expenses, so each one gets a
+    // linked SupplierPayment that settles that supplier's oldest purchases.
+    4: (data) => {
+        if (!Array.isArray(data.expenses) || data.supplierPayments?.length > 0) return data;
+        const purchases = Array.isArray(data.purchases) ? data.purchases : [];
+        const supplierPayments: SupplierPayment[] = [];
+        data.expenses
+            .filter((e: any) => e.category === SUPPLIER_PAYMENT_CATEGORY && e.supplierId)
+            .sort((a: any, b: any) => String(a.date).localeCompare(String(b.date)))
+            .forEach((e: any) => supplierPayments.push(supplierPaymentFromExpense(e, `expense-${e.id}`, purchases, supplierPayments)));
+        return { ...data, supplierPayments };
+    },
+    // Adds the saleReturns store; existing records are unchanged.
+    5: (data) => data,
+    // Adds the staff store. With no accounts set up the app stays open, as before.
+    6: (data) => data,
+    // Adds the shifts store; existing records are unchanged.
+    7: (data) => data,
+    // Adds the change log used by remote sync. Backups are unchanged.
+    8: (data) => data,
+    // Adds the backup snapshot store. Backups gain a checksum and record counts, both optional.
+    9: (data) => data,
+    // Adds the stockBatches store. Existing stock is unbatched and keeps selling as before.
+    10: (data) => data,
+    // Adds the pricingRules store; existing sales have no applied promotions.
+    11: (data) => data,
+    // Adds the heldCarts store; nothing was held before.
+    12: (data) => data,
+    // Adds the stockTakes and stockCounts stores; stock counted before was edited on the product.
+    13: (data) => data,
+};
+
+/**
+ * Runs every migration between the data's schema version and the current one.
+ * Throws if the data was written by a newer version of the app.
+ */
+export const upgradeData = (data: any): BackupFile => {
+    if (!data || typeof data !== 'object') {
+        throw new Error('Backup data must be an object.');
+    }
+    let version = typeof data.schemaVersion === 'number' ? data.schemaVersion : 0;
+    if (version > SCHEMA_VERSION) {
+        throw new Error(`This backup was created by a newer version of Swift POS (schema ${version}).`);
+    }
+    let upgraded = { ...data };
+    while (version < SCHEMA_VERSION) {
+        version++;
+        upgraded = MIGRATIONS[version](upgraded);
+    }
+    return { ...upgraded, schemaVersion: SCHEMA_VERSION };
+};
+
+export const createBackup = (data: DataSnapshot): BackupFile => ({
+    schemaVersion: SCHEMA_VERSION,
+    exportedAt: new Date().toISOString(),
+    ...data,
+});
+
+// --- Database ---
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+    if (!dbPromise) {
+        const request = indexedDB.open(DB_NAME, SCHEMA_VERSION);
+        request.onupgradeneeded = () => {
+            const db = request.result;
+            [...COLLECTION_STORES, META_STORE, CHANGE_LOG_STORE, SNAPSHOT_STORE].forEach(name => {
+                if (!db.objectStoreNames.contains(name)) {
+                    db.createObjectStore(name);
+                }
+            });
+        };
+        dbPromise = promisifyRequest(request);
+    }
+    return dbPromise;
+};
+
+// Adapts one of our object stores to the idb-keyval helpers.
+const storeFor = (name: string): UseStore => (txMode, callback) =>
+    openDatabase().then(db => callback(db.transaction(name, txMode).objectStore(name)));
+
+/** Replaces every collection and setting present in `data` in a single transaction. */
+const writeSnapshot = async (data: Partial<DataSnapshot>): Promise<void> => {
+    const db = await openDatabase();
+    const tx = db.transaction([...COLLECTION_STORES, META_STORE], 'readwrite');
+    COLLECTION_STORES.forEach(name => {
+        const records = data[name];
+        if (!Array.isArray(records)) return;
+        const store = tx.objectStore(name);
+        store.clear();
+        records.forEach((record: { id: string }) => store.put(record, record.id));
+    });
+    const meta = tx.objectStore(META_STORE);
+    SETTING_KEYS.forEach(key => {
+        if (data[key] !== undefined) meta.put(data[key], key);
+    });
+    meta.put(SCHEMA_VERSION, SCHEMA_VERSION_KEY);
+    await promisifyRequest(tx);
+};
+
+const readSnapshot = async (): Promise<Partial<DataSnapshot>> => {
+    const snapshot: Partial<DataSnapshot> = {};
+    for (const name of COLLECTION_STORES) {
+        (snapshot as any)[name] = await values(storeFor(name));
+    }
+    for (const key of SETTING_KEYS) {
+        const value = await get(key, storeFor(META_STORE));
+        if (value !== undefined) (snapshot as any)[key] = value;
+    }
+    return snapshot;
+};
+
+/** Reads the collections saved by the previous localStorage-based persistence. */
+const readLegacyLocalStorage = (): Partial<DataSnapshot> | null => {
+    const legacy: any = {};
+    let found = false;
+    [...COLLECTION_STORES, ...SETTING_KEYS].forEach(key => {
+        const raw = window.localStorage.getItem(key);
+        if (raw === null) return;
+        try {
+            legacy[key] = JSON.parse(raw);
+            found = true;
+        } catch (e) {
+            console.warn(`Skipping unreadable localStorage entry "${key}".`, e);
+        }
+    });
+    return found ? legacy : null;
+};
+
+let initPromise: Promise<void> | null = null;
+
+/**
+ * Opens the database and brings its contents up to SCHEMA_VERSION. On the first launch
+ * after the switch from localStorage, existing data is copied over and the old keys removed.
+ */
+export const initStorage = (): Promise<void> => {
+    if (!initPromise) {
+        initPromise = (async () => {
+            const storedVersion = await get<number>(SCHEMA_VERSION_KEY, storeFor(META_STORE));
+            if (storedVersion === undefined) {
+                const legacy = readLegacyLocalStorage();
+                await writeSnapshot(legacy ? upgradeData(legacy) : {});
+                if (legacy) {
+                    Object.keys(legacy).forEach(key => window.localStorage.removeItem(key));
+                }
+            } else if (storedVersion < SCHEMA_VERSION) {
+                const current = await readSnapshot();
+                await writeSnapshot(upgradeData({ ...current, schemaVersion: storedVersion }));
+            }
+        })();
+    }
+    return initPromise;
+};
+
+// --- Change Log ---
+// Once a device has synced, every saved record is also written to the change log with the
+// time of the edit. Records applied from the remote are marked first so they are not logged
+// again and echoed back.
+export type SyncedStore = CollectionName | typeof META_STORE;
+
+export interface RecordChange {
+    store: SyncedStore;
+    recordId: string; // Record id, or the setting key for the meta store
+    deleted: boolean;
+    value?: unknown;
+    updatedAt: string; // ISO timestamp of the edit
+    deviceId: string;
+}
+
+export interface SyncState {
+    lastSeq: number; // Highest remote sequence number already applied here
+    lastSyncAt: string;
+}
+
+export const changeKey = (store: SyncedStore, recordId: string): string => `${store}/${recordId}`;
+
+const DELETED = Symbol('deleted');
+const remoteRecords = new Map<string, string>(); // Change key -> version of the pulled record
+let changeLogEnabled: Promise<boolean> | null = null;
+let deviceIdPromise: Promise<string> | null = null;
+
+const isChangeLogEnabled = (): Promise<boolean> => {
+    if (!changeLogEnabled) {
+        changeLogEnabled = get(SYNC_STATE_KEY, storeFor(META_STORE)).then(state => state !== undefined);
+    }
+    return changeLogEnabled;
+};
+
+/** A random id for this browser, stamped on its changes so a device never pulls its own edits. */
+export const getDeviceId = (): Promise<string> => {
+    if (!deviceIdPromise) {
+        deviceIdPromise = (async () => {
+            const meta = storeFor(META_STORE);
+            const existing = await get<string>(DEVICE_ID_KEY, meta);
+            if (existing) return existing;
+            const deviceId = crypto.randomUUID();
+            await set(DEVICE_ID_KEY, deviceId, meta);
+            return deviceId;
+        })();
+    }
+    return deviceIdPromise;
+};
+
+export const loadSyncState = (): Promise<SyncState | undefined> => get<SyncState>(SYNC_STATE_KEY, storeFor(META_STORE));
+
+export const saveSyncState = async (state: SyncState): Promise<void> => {
+    await set(SYNC_STATE_KEY, state, storeFor(META_STORE));
+    changeLogEnabled = Promise.resolve(true);
+};
+
+// Merging copies pulled records, so a save is matched on its content rather than the object. A
+// pulled product's stock is worked out again from the pulled movements, so it is left out.
+const recordVersion = (store: SyncedStore, value: unknown): string =>
+    value === DELETED ? 'deleted' : JSON.stringify(store === 'products' ? { ...(value as object), stock: undefined } : value);
+
+/** Marks records pulled from the remote, so saving them locally does not log them as local edits. */
+export const markRemoteChanges = (changes: RecordChange[]): void => {
+    changes.forEach(change => remoteRecords.set(
+        changeKey(change.store, change.recordId),
+        recordVersion(change.store, change.deleted ? DELETED : change.value),
+    ));
+};
+
+/** Whether a save is just a pulled remote record reaching the database. Each mark is used once. */
+const isRemoteWrite = (store: SyncedStore, recordId: string, value: unknown): boolean => {
+    const key = changeKey(store, recordId);
+    if (!remoteRecords.has(key) || remoteRecords.get(key) !== recordVersion(store, value)) return false;
+    remoteRecords.delete(key);
+    return true;
+};
+
+// Synchronous so it can run inside the caller's transaction without letting it commit early.
+const logChanges = (log: IDBObjectStore, deviceId: string, changes: Omit<RecordChange, 'updatedAt' | 'deviceId'>[]): void => {
+    const updatedAt = new Date().toISOString();
+    changes
+        .filter(change => !isRemoteWrite(change.store, change.recordId, change.deleted ? DELETED : change.value))
+        .forEach(change => log.put({ ...change, updatedAt, deviceId }, changeKey(change.store, change.recordId)));
+};
+
+export const readPendingChanges = async (): Promise<RecordChange[]> => {
+    await initStorage();
+    return values<RecordChange>(storeFor(CHANGE_LOG_STORE));
+};
+
+/** Removes pushed changes from the log, unless the record was edited again while the push ran. */
+export const clearPendingChanges = (changes: RecordChange[]): Promise<void> =>
+    storeFor(CHANGE_LOG_STORE)('readwrite', store => {
+        changes.forEach(change => {
+            const key = changeKey(change.store, change.recordId);
+            const request = store.get(key);
+            request.onsuccess = () => {
+                if (request.result?.updatedAt === change.updatedAt) store.delete(key);
+            };
+        });
+        return promisifyRequest(store.transaction);
+    });
+
+/**
+ * Logs every existing record before a device's first sync, dated at the epoch so edits already
+ * on the remote win. Records that are only on this device get pushed.
+ */
+export const seedChangeLog = async (): Promise<void> => {
+    const snapshot = await readSnapshot();
+    const deviceId = await getDeviceId();
+    const pending = new Set((await readPendingChanges()).map(change => changeKey(change.store, change.recordId)));
+    const updatedAt = new Date(0).toISOString();
+    const changes: RecordChange[] = [];
+    COLLECTION_STORES.forEach(name => {
+        (snapshot[name] || []).forEach((record: { id: string }) =>
+            changes.push({ store: name, recordId: record.id, deleted: false, value: record, updatedAt, deviceId }));
+    });
+    SYNCED_SETTING_KEYS.forEach(key => {
+        if (snapshot[key] !== undefined) changes.push({ store: META_STORE, recordId: key, deleted: false, value: snapshot[key], updatedAt, deviceId });
+    });
+    await storeFor(CHANGE_LOG_STORE)('readwrite', store => {
+        changes
+            .filter(change => !pending.has(changeKey(change.store, change.recordId)))
+            .forEach(change => store.put(change, changeKey(change.store, change.recordId)));
+        return promisifyRequest(store.transaction);
+    });
+};
+
+// --- Reads & Writes ---
+export const loadCollection = async <T>(name: CollectionName): Promise<T[]> => {
+    await initStorage();
+    return values<T>(storeFor(name));
+};
+
+export const loadSetting = async <T>(key: SettingKey): Promise<T | undefined> => {
+    await initStorage();
+    return get<T>(key, storeFor(META_STORE));
+};
+
+/**
+ * Persists the difference between two versions of a collection. Records are compared by
+ * reference, so mutators must replace a changed record instead of editing it in place.
+ */
+export const saveCollectionChanges = async <T extends { id: string }>(name: CollectionName, prev: T[], next: T[]): Promise<void> => {
+    const prevById = new Map(prev.map(record => [record.id, record]));
+    const nextIds = new Set(next.map(record => record.id));
+    const changed = next.filter(record => prevById.get(record.id) !== record);
+    const removed = prev.filter(record => !nextIds.has(record.id)).map(record => record.id);
+    if (changed.length === 0 && removed.length === 0) return;
+
+    const logEnabled = await isChangeLogEnabled();
+    const deviceId = await getDeviceId();
+    const db = await openDatabase();
+    const tx = db.transaction(logEnabled ? [name, CHANGE_LOG_STORE] : [name], 'readwrite');
+    const store = tx.objectStore(name);
+    changed.forEach(record => store.put(record, record.id));
+    removed.forEach(id => store.delete(id));
+    if (logEnabled) {
+        logChanges(tx.objectStore(CHANGE_LOG_STORE), deviceId, [
+            ...changed.map(record => ({ store: name, recordId: record.id, deleted: false, value: record })),
+            ...removed.map(id => ({ store: name, recordId: id, deleted: true })),
+        ]);
+    }
+    await promisifyRequest(tx);
+};
+
+export const saveSetting = async <T>(key: SettingKey, value: T): Promise<void> => {
+    const logEnabled = (await isChangeLogEnabled()) && SYNCED_SETTING_KEYS.includes(key);
+    const deviceId = await getDeviceId();
+    const db = await openDatabase();
+    const tx = db.transaction(logEnabled ? [META_STORE, CHANGE_LOG_STORE] : [META_STORE], 'readwrite');
+    tx.objectStore(META_STORE).put(value, key);
+    if (logEnabled) {
+        logChanges(tx.objectStore(CHANGE_LOG_STORE), deviceId, [{ store: META_STORE, recordId: key, deleted: false, value }]);
+    }
+    await promisifyRequest(tx);
+};
+
+// --- Backup Snapshots ---
+/** Snapshots stored in the database, newest first. */
+export const listBackupSnapshots = async (): Promise<BackupSnapshot[]> => {
+    await initStorage();
+    const snapshots = await values<BackupSnapshot>(storeFor(SNAPSHOT_STORE));
+    return snapshots.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+};
+
+/** Stores a snapshot and deletes the oldest ones beyond `keep`. */
+export const saveBackupSnapshot = async (snapshot: BackupSnapshot, keep: number): Promise<void> => {
+    const stale = (await listBackupSnapshots()).slice(Math.max(1, keep) - 1);
+    await storeFor(SNAPSHOT_STORE)('readwrite', store => {
+        store.put(snapshot, snapshot.id);
+        stale.forEach(old => store.delete(old.id));
+        return promisifyRequest(store.transaction);
+    });
+};
@@ -0,0 +1,201 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { RecordChange, SyncState } from './storage';
+import { SyncConflictError, SyncDocument, createWebDavAdapter, syncWithRemote } from './sync';
+
+// The change log and sync state live in IndexedDB; here each device keeps them in memory, and
+// the test switches `devices.current` to act as one device or the other.
+const devices = vi.hoisted(() => {
+    interface DeviceStore { id: string; pending: RecordChange[]; state?: SyncState }
+    const all: Record<string, DeviceStore> = {};
+    return {
+        all,
+        current: { id: '' },
+        use: (id: string): DeviceStore => {
+            all[id] = all[id] || { id, pending: [] };
+            return all[id];
+        },
+    };
+});
+
+vi.mock('./storage', async importOriginal => {
+    const actual = await importOriginal<typeof import('./storage')>();
+    const device = () => devices.use(devices.current.id);
+    return {
+        ...actual,
+        getDeviceId: async () => device().id,
+        loadSyncState: async () => device().state,
+        saveSyncState: async (state: SyncState) => { device().state = state; },
+        seedChangeLog: async () => undefined,
+        readPendingChanges: async () => [...device().pending],
+        clearPendingChanges: async (changes: RecordChange[]) => {
+            device().pending = device().pending.filter(change => !changes.includes(change));
+        },
+    };
+});
+
+const SYNC_URL = 'https://nas.local/dav/shop/swift-pos-sync.json';
+
+/** A WebDAV server holding one file, with an ETag that changes on every write. */
+const createWebDavStandIn = () => {
+    const server = {
+        body: null as string | null,
+        etag: 0,
+        requests: [] as { method: string; headers: Record<string, string> }[],
+        /** Runs once before the next PUT is handled, to let another device write first. */
+        beforeNextWrite: null as (() => void) | null,
+    };
+    const fetch = async (_url: string | URL | Request, init: RequestInit = {}): Promise<Response> => {
+        const method = init.method || 'GET';
+        const headers = (init.headers || {}) as Record<string, string>;
+        server.requests.push({ method, headers });
+        if (method === 'GET') {
+            if (server.body === null) return new Response(null, { status: 404 });
+            return new Response(server.body, { status: 200, headers: { ETag: `"${server.etag}"` } });
+        }
+        const hook = server.beforeNextWrite;
+        server.beforeNextWrite = null;
+        hook?.();
+        if (headers['If-None-Match'] === '*' && server.body !== null) return new Response(null, { status: 412 });
+        if (headers['If-Match'] && headers['If-Match'] !== `"${server.etag}"`) return new Response(null, { status: 412 });
+        server.body = init.body as string;
+        server.etag++;
+        return new Response(null, { status: 201 });
+    };
+    return { server, fetch: fetch as typeof globalThis.fetch };
+};
+
+const customerChange = (deviceId: string, name: string, updatedAt: string): RecordChange => ({
+    store: 'customers',
+    recordId: 'c1',
+    deleted: false,
+    value: { id: 'c1', name },
+    updatedAt,
+    deviceId,
+});
+
+const syncAs = (deviceId: string, fetch: typeof globalThis.fetch) => {
+    devices.current.id = deviceId;
+    return syncWithRemote(createWebDavAdapter({ url: SYNC_URL, fetch }));
+};
+
+describe('syncWithRemote over WebDAV', () => {
+    beforeEach(() => {
+        Object.keys(devices.all).forEach(id => delete devices.all[id]);
+    });
+
+    it('creates the file on the first push and pulls it on another device', async () => {
+        const { server, fetch } = createWebDavStandIn();
+        devices.use('device-a').pending.push(customerChange('device-a', 'Aung', '2026-03-05T10:00:00.000Z'));
+
+        const pushResult = await syncAs('device-a', fetch);
+
+        expect(pushResult).toEqual({ pushed: 1, pulled: [], conflicts: [] });
+        expect(server.requests.map(r => r.method)).toEqual(['GET', 'PUT']);
+        expect(server.requests[1].headers['If-None-Match']).toBe('*');
+        const document = JSON.parse(server.body!) as SyncDocument;
+        expect(document.seq).toBe(1);
+        expect(document.records['customers/c1']).toMatchObject({ seq: 1, deviceId: 'device-a', value: { name: 'Aung' } });
+        expect(devices.all['device-a']).toMatchObject({ pending: [], state: { lastSeq: 1 } });
+
+        const pullResult = await syncAs('device-b', fetch);
+
+        expect(pullResult.pushed).toBe(0);
+        expect(pullResult.pulled).toEqual([customerChange('device-a', 'Aung', '2026-03-05T10:00:00.000Z')]);
+        // Nothing to push, so nothing is written.
+        expect(server.requests.map(r => r.method)).toEqual(['GET', 'PUT', 'GET']);
+        expect(devices.all['device-b'].state?.lastSeq).toBe(1);
+    });
+
+    it('keeps the later edit when both devices changed the same record', async () => {
+        const { server, fetch } = createWebDavStandIn();
+        await syncAs('device-b', fetch);
+        devices.use('device-a').pending.push(customerChange('device-a', 'Aung', '2026-03-05T10:00:00.000Z'));
+        await syncAs('device-a', fetch);
+        devices.use('device-b').pending.push(customerChange('device-b', 'Aung Aung', '2026-03-05T11:00:00.000Z'));
+
+        const result = await syncAs('device-b', fetch);
+
+        expect(result.conflicts).toEqual([{
+            store: 'customers', recordId: 'c1',
+            localUpdatedAt: '2026-03-05T11:00:00.000Z', remoteUpdatedAt: '2026-03-05T10:00:00.000Z', keptRemote: false,
+        }]);
+        expect(result.pushed).toBe(1);
+        expect(result.pulled).toEqual([]);
+        expect(server.requests.at(-1)?.headers['If-Match']).toBe('"1"');
+        const document = JSON.parse(server.body!) as SyncDocument;
+        expect(document.records['customers/c1']).toMatchObject({ seq: 2, deviceId: 'device-b', value: { name: 'Aung Aung' } });
+    });
+
+    it('drops the local edit and pulls the remote one when the remote edit is later', async () => {
+        const { server, fetch } = createWebDavStandIn();
+        await syncAs('device-b', fetch);
+        devices.use('device-a').pending.push(customerChange('device-a', 'Aung', '2026-03-05T12:00:00.000Z'));
+        await syncAs('device-a', fetch);
+        devices.use('device-b').pending.push(customerChange('device-b', 'Aung Aung', '2026-03-05T11:00:00.000Z'));
+
+        const result = await syncAs('device-b', fetch);
+
+        expect(result.conflicts).toEqual([expect.objectContaining({ recordId: 'c1', keptRemote: true })]);
+        expect(result.pushed).toBe(0);
+        expect(result.pulled).toEqual([customerChange('device-a', 'Aung', '2026-03-05T12:00:00.000Z')]);
+        expect(devices.all['device-b'].pending).toEqual([]);
+        expect(server.etag).toBe(1);
+    });
+
+    it('reads again and retries when another device writes between the read and the write', async () => {
+        const { server, fetch } = createWebDavStandIn();
+        devices.use('device-a').pending.push(customerChange('device-a', 'Aung', '2026-03-05T10:00:00.000Z'));
+        await syncAs('device-a', fetch);
+        devices.use('device-b').pending.push({ ...customerChange('device-b', 'Mya', '2026-03-05T10:10:00.000Z'), recordId: 'c3', value: { id: 'c3', name: 'Mya' } });
+        // Device A pushes another customer just before device B's write arrives.
+        server.beforeNextWrite = () => {
+            const document = JSON.parse(server.body!) as SyncDocument;
+            const change = { ...customerChange('device-a', 'Hla', '2026-03-05T10:05:00.000Z'), recordId: 'c2', value: { id: 'c2', name: 'Hla' } };
+            document.seq++;
+            document.records['customers/c2'] = { ...change, seq: document.seq };
+            server.body = JSON.stringify(document);
+            server.etag++;
+        };
+
+        const result = await syncAs('device-b', fetch);
+
+        expect(server.requests.slice(-4).map(r => `${r.method} ${r.headers['If-Match']}`)).toEqual(['GET undefined', 'PUT "1"', 'GET undefined', 'PUT "2"']);
+        expect(result.pushed).toBe(1);
+        expect(result.pulled.map(change => change.recordId).sort()).toEqual(['c1', 'c2']);
+        const document = JSON.parse(server.body!) as SyncDocument;
+        expect(Object.keys(document.records).sort()).toEqual(['customers/c1', 'customers/c2', 'customers/c3']);
+        expect(document.records['customers/c3'].seq).toBe(3);
+        expect(devices.all['device-b']).toMatchObject({ pending: [], state: { lastSeq: 3 } });
+    });
+
+    it('gives up when the remote keeps changing', async () => {
+        const { server, fetch } = createWebDavStandIn();
+        devices.use('device-a').pending.push(customerChange('device-a', 'Aung', '2026-03-05T10:00:00.000Z'));
+        const alwaysConflict = () => new Response(null, { status: 412 });
+        const conflictingFetch = (async (url, init) => init?.method === 'PUT' ? alwaysConflict() : fetch(url, init)) as typeof globalThis.fetch;
+
+        await expect(syncAs('device-a', conflictingFetch)).rejects.toThrow('kept changing');
+        expect(server.requests.map(r => r.method)).toEqual(['GET', 'GET', 'GET']);
+        expect(devices.all['device-a'].pending).toHaveLength(1);
+    });
+});
+
+describe('createWebDavAdapter', () => {
+    it('sends non-Latin credentials as UTF-8 Basic auth', async () => {
+        const { server, fetch } = createWebDavStandIn();
+
+        await createWebDavAdapter({ url: SYNC_URL, username: 'ကို', password: 'pass', fetch }).read();
+
+        const encoded = server.requests[0].headers.Authorization.replace('Basic ', '');
+        expect(new TextDecoder().decode(Uint8Array.from(atob(encoded), ch => ch.charCodeAt(0)))).toBe('ကို:pass');
+    });
+
+    it('refuses to overwrite a file that appeared since it was found missing', async () => {
+        const { server, fetch } = createWebDavStandIn();
+        server.body = JSON.stringify({ format: 'swift-pos-sync', schemaVersion: 1, seq: 0, records: {} });
+        const adapter = createWebDavAdapter({ url: SYNC_URL, fetch });
+
+        await expect(adapter.write({ format: 'swift-pos-sync', schemaVersion: 1, seq: 0, records: {} }, null))
+            .rejects.toBeInstanceOf(SyncConflictError);
+    });
+});
@@ -0,0 +1,213 @@
+import { Product } from '../types';
+import { InventoryMovement } from './inventory';
+import {
+    RecordChange, SCHEMA_VERSION, changeKey, clearPendingChanges, getDeviceId, loadSyncState,
+    readPendingChanges, saveSyncState, seedChangeLog,
+} from './storage';
+
+declare module '../types' {
+    interface SystemSettings {
+        syncUsername?: string;
+        syncPassword?: string; // Stays on this device: systemSettings is not synced and backups leave it out
+    }
+}
+
+// --- Remote Sync ---
+// Devices share one document on the remote holding the latest version of every record. Each
+// write gets the next sequence number, so a device pulls everything above the last one it saw.
+// Adapters only read and write that document; the merge happens here.
+
+export interface RemoteRecord extends RecordChange {
+    seq: number;
+}
+
+export interface SyncDocument {
+    format: 'swift-pos-sync';
+    schemaVersion: number;
+    seq: number;
+    records: Record<string, RemoteRecord>;
+}
+
+export interface RemoteVersion {
+    document: SyncDocument | null; // null when nothing has been synced to the remote yet
+    version: string | null;        // Opaque tag (e.g. an ETag) for the conditional write; '' if the remote has none
+}
+
+export interface SyncAdapter {
+    read: () => Promise<RemoteVersion>;
+    /** Replaces the document. Throws SyncConflictError if it changed since `expectedVersion` was read. */
+    write: (document: SyncDocument, expectedVersion: string | null) => Promise<void>;
+}
+
+export class SyncConflictError extends Error {
+    constructor() {
+        super('The remote data changed during sync.');
+        this.name = 'SyncConflictError';
+    }
+}
+
+export interface SyncConflict {
+    store: RecordChange['store'];
+    recordId: string;
+    localUpdatedAt: string;
+    remoteUpdatedAt: string;
+    keptRemote: boolean;
+}
+
+export interface SyncResult {
+    pushed: number;
+    pulled: RecordChange[];
+    conflicts: SyncConflict[];
+}
+
+const MAX_SYNC_ATTEMPTS = 3;
+
+const emptyDocument = (): SyncDocument => ({ format: 'swift-pos-sync', schemaVersion: SCHEMA_VERSION, seq: 0, records: {} });
+
+// Last writer wins; the device id breaks ties so every device picks the same winner.
+const isNewer = (a: RecordChange, b: RecordChange): boolean =>
+    a.updatedAt > b.updatedAt || (a.updatedAt === b.updatedAt && a.deviceId > b.deviceId);
+
+const toRecordChange = ({ seq, ...change }: RemoteRecord): RecordChange => change;
+
+/**
+ * Pushes this device's pending changes and returns the changes made elsewhere since the last
+ * sync. A record edited on both sides since then is a conflict: the later edit wins, and the
+ * loser is reported. The caller applies `pulled` to the app state.
+ */
+export const syncWithRemote = async (adapter: SyncAdapter): Promise<SyncResult> => {
+    const deviceId = await getDeviceId();
+    let state = await loadSyncState();
+    if (!state) {
+        await seedChangeLog();
+        state = { lastSeq: 0, lastSyncAt: '' };
+    }
+
+    for (let attempt = 0; attempt < MAX_SYNC_ATTEMPTS; attempt++) {
+        const { document, version } = await adapter.read();
+        const remote = document ?? emptyDocument();
+        if (remote.format !== 'swift-pos-sync') {
+            throw new Error('The sync location holds a file that is not Swift POS sync data.');
+        }
+        if (remote.schemaVersion > SCHEMA_VERSION) {
+            throw new Error('Another device synced with a newer version of Swift POS. Update this device first.');
+        }
+
+        const pending = await readPendingChanges();
+        const records = { ...remote.records };
+        let seq = remote.seq;
+        const pushed: RecordChange[] = [];
+        const conflicts: SyncConflict[] = [];
+        const localKeys = new Set<string>();
+
+        pending.forEach(change => {
+            const key = changeKey(change.store, change.recordId);
+            const existing = records[key];
+            // Only a remote edit this device has not seen yet can conflict with a local one.
+            if (existing && existing.seq > state!.lastSeq && existing.deviceId !== deviceId) {
+                const keptRemote = isNewer(existing, change);
+                conflicts.push({ store: change.store, recordId: change.recordId, localUpdatedAt: change.updatedAt, remoteUpdatedAt: existing.updatedAt, keptRemote });
+                if (keptRemote) return;
+            }
+            records[key] = { ...change, seq: ++seq };
+            localKeys.add(key);
+            pushed.push(change);
+        });
+
+        const pulled = Object.entries(records)
+            .filter(([key, record]) => record.seq > state!.lastSeq && record.deviceId !== deviceId && !localKeys.has(key))
+            .map(([, record]) => toRecordChange(record));
+
+        if (pushed.length > 0) {
+            try {
+                await adapter.write({ ...remote, schemaVersion: SCHEMA_VERSION, seq, records }, version);
+            } catch (error) {
+                if (error instanceof SyncConflictError) continue;
+                throw error;
+            }
+        }
+        // Changes that lost a conflict are dropped along with the pushed ones.
+        await clearPendingChanges(pending);
+        await saveSyncState({ lastSeq: seq, lastSyncAt: new Date().toISOString() });
+        return { pushed: pushed.length, pulled, conflicts };
+    }
+    throw new Error('The remote data kept changing during sync. Please try again.');
+};
+
+/** Applies pulled changes to a collection, replacing, adding or removing records by id. */
+export const mergeRemoteChanges = <T extends { id: string }>(records: T[], changes: RecordChange[]): T[] => {
+    if (changes.length === 0) return records;
+    const byId = new Map(changes.map(change => [change.recordId, change]));
+    const merged = records
+        .filter(record => !byId.get(record.id)?.deleted)
+        .map(record => byId.has(record.id) ? byId.get(record.id)!.value as T : record);
+    const existingIds = new Set(records.map(record => record.id));
+    changes
+        .filter(change => !change.deleted && !existingIds.has(change.recordId))
+        .forEach(change => merged.push(change.value as T));
+    return merged;
+};
+
+/**
+ * Pulled products carry the stock their own device had, which misses sales made here. For a
+ * product this device already has, stock is its local figure plus the ledger movements that
+ * are new to this device.
+ */
+export const mergeRemoteProducts = (products: Product[], changes: RecordChange[], newMovements: InventoryMovement[]): Product[] => {
+    const stockDelta = new Map<string, number>();
+    newMovements.forEach(m => stockDelta.set(m.productId, (stockDelta.get(m.productId) || 0) + m.quantityChange));
+    const localStock = new Map(products.map(p => [p.id, p.stock]));
+    return mergeRemoteChanges(products, changes).map(product => {
+        if (!localStock.has(product.id) || !stockDelta.has(product.id)) return product;
+        return { ...product, stock: localStock.get(product.id)! + stockDelta.get(product.id)! };
+    });
+};
+
+// --- WebDAV Adapter ---
+export interface WebDavOptions {
+    url: string; // Full URL of the sync file, e.g. https://nas.local/dav/shop/swift-pos-sync.json
+    username?: string;
+    password?: string;
+    fetch?: typeof fetch; // Injected in tests or to go through a proxy
+}
+
+// btoa only takes Latin-1, so credentials are sent as UTF-8 (RFC 7617) to allow any character.
+const utf8ToBase64 = (text: string): string => btoa(String.fromCharCode(...new TextEncoder().encode(text)));
+
+/**
+ * Keeps the sync document as a single JSON file on any WebDAV or plain HTTP server that
+ * supports GET and PUT. Conditional requests (If-Match / If-None-Match) stop two devices
+ * overwriting each other's push.
+ */
+export const createWebDavAdapter = ({ url, username, password, fetch: fetchFn = fetch.bind(window) }: WebDavOptions): SyncAdapter => {
+    const headers: Record<string, string> = {};
+    if (username) {
+        headers.Authorization = `Basic ${utf8ToBase64(`${username}:${password || ''}`)}`;
+    }
+
+    return {
+        read: async () => {
+            const response = await fetchFn(url, { method: 'GET', headers, cache: 'no-store' });
+            if (response.status === 404) return { document: null, version: null };
+            if (!response.ok) {
+                throw new Error(`Could not read sync data (HTTP ${response.status}).`);
+            }
+            return { document: await response.json(), version: response.headers.get('ETag') || '' };
+        },
+        write: async (document, expectedVersion) => {
+            // Servers without ETags get an unconditional write.
+            const conditional: Record<string, string> = expectedVersion === null
+                ? { 'If-None-Match': '*' }
+                : expectedVersion ? { 'If-Match': expectedVersion } : {};
+            const response = await fetchFn(url, {
+                method: 'PUT',
+                headers: { ...headers, ...conditional, 'Content-Type': 'application/json' },
+                body: JSON.stringify(document),
+            });
+            if (response.status === 412) throw new SyncConflictError();
+            if (!response.ok) {
+                throw new Error(`Could not write sync data (HTTP ${response.status}).`);
+            }
+        },
+    };
+};
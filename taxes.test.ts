@@ -0,0 +1,97 @@
+import { describe, expect, it } from 'vitest';
+import { Product, Sale, SystemSettings } from '../types';
+import { SaleReturn } from './returns';
+import { calculateSaleTax, getTaxReport, resolveTaxClass, validateTaxSettings } from './taxes';
+
+const settings: SystemSettings = {
+    businessType: 'convenience', currency: 'MMK', taxRate: 0, enableNotifications: true, enableSound: true, lowStockThreshold: 10,
+    receiptSize: 'standard', receiptFooter: 'Thank you!', storagePreference: 'local', storagePath: '',
+    taxClasses: [
+        { id: 'standard', name: 'VAT', rate: 5 },
+        { id: 'food', name: 'Food', rate: 2 },
+        { id: 'exempt', name: 'Exempt', rate: 0 },
+    ],
+    categoryTaxClasses: { Grocery: 'food' },
+    defaultTaxClassId: 'standard',
+};
+
+const product = (id: string, category: string, taxClassId?: string): Product =>
+    ({ id, name: id, category, buyingPrice: 0, sellingPrice: 0, stock: 10, taxClassId });
+const products = [product('tea', 'Drinks'), product('rice', 'Grocery'), product('vitamins', 'Grocery', 'exempt')];
+
+const item = (id: string, productId: string, quantity: number, total: number): Sale['items'][number] =>
+    ({ id, productId, name: productId, price: total / quantity, quantity, discount: 0, total });
+const items = [item('i1', 'tea', 2, 3000), item('i2', 'rice', 1, 10800), item('i3', 'vitamins', 1, 1000)];
+
+describe('resolveTaxClass', () => {
+    it('uses the product\'s class, then its category\'s, then the default', () => {
+        expect(['vitamins', 'rice', 'tea'].map(id => resolveTaxClass(products.find(p => p.id === id), settings).id))
+            .toEqual(['exempt', 'food', 'standard']);
+    });
+
+    it('gives shops without tax classes a standard class at the old rate', () => {
+        expect(resolveTaxClass(products[0], { ...settings, taxRate: 7, taxClasses: undefined }))
+            .toEqual({ id: 'standard', name: 'Standard', rate: 7 });
+    });
+});
+
+describe('calculateSaleTax', () => {
+    it('adds tax on top of exclusive prices after the order discount', () => {
+        const result = calculateSaleTax({ items, orderDiscount: 10 }, products, settings);
+
+        expect(result.items.map(i => [i.taxClassId, i.tax])).toEqual([['standard', 135], ['food', 194.4], ['exempt', 0]]);
+        expect(result.breakdown).toEqual([
+            { taxClassId: 'standard', name: 'VAT', rate: 5, taxableAmount: 2700, tax: 135 },
+            { taxClassId: 'food', name: 'Food', rate: 2, taxableAmount: 9720, tax: 194.4 },
+            { taxClassId: 'exempt', name: 'Exempt', rate: 0, taxableAmount: 900, tax: 0 },
+        ]);
+        expect(result).toMatchObject({ subtotal: 13320, totalTax: 329.4, total: 13649.4 });
+    });
+
+    it('carves tax out of inclusive prices, rounding each line to cents', () => {
+        const result = calculateSaleTax({ items, orderDiscount: 10 }, products, { ...settings, pricesIncludeTax: true });
+
+        expect(result.breakdown.map(l => [l.taxableAmount, l.tax])).toEqual([[2571.43, 128.57], [9529.41, 190.59], [900, 0]]);
+        expect(result).toMatchObject({ subtotal: 13320, totalTax: 319.16, total: 13320 });
+    });
+});
+
+describe('getTaxReport', () => {
+    const taxed = calculateSaleTax({ items: items.slice(0, 2), orderDiscount: 0 }, products, settings);
+    const sale: Sale = {
+        id: 's1', date: '2026-03-05', time: '10:00:00', customerType: 'walk-in', paymentMethod: 'cash',
+        items: taxed.items, orderDiscount: 0, taxBreakdown: taxed.breakdown, totalTax: taxed.totalTax,
+        total: taxed.total, profit: 0, amountPaid: taxed.total, change: 0,
+    };
+    const teaReturn: SaleReturn = {
+        id: 'r1', saleId: 's1', date: '2026-03-06', time: '09:00:00', refundMethod: 'cash', totalRefund: 1575,
+        lines: [{ saleItemId: 'i1', productId: 'tea', name: 'tea', quantity: 1, unitRefund: 1575, amount: 1575, disposition: 'restock' }],
+    };
+
+    it('nets the tax on refunded units off the tax collected, per class', () => {
+        const voided: Sale = { ...sale, id: 's2', status: 'voided' };
+        const lastMonth: Sale = { ...sale, id: 's3', date: '2026-02-28' };
+
+        expect(getTaxReport([sale, voided, lastMonth], [teaReturn], '2026-03-01', '2026-03-31')).toEqual([
+            {
+                taxClassId: 'standard', name: 'VAT', rate: 5, taxableAmount: 3000, tax: 150,
+                refundedTaxableAmount: 1500, refundedTax: 75, netTaxableAmount: 1500, netTax: 75,
+            },
+            {
+                taxClassId: 'food', name: 'Food', rate: 2, taxableAmount: 10800, tax: 216,
+                refundedTaxableAmount: 0, refundedTax: 0, netTaxableAmount: 10800, netTax: 216,
+            },
+        ]);
+    });
+});
+
+describe('validateTaxSettings', () => {
+    it('rejects unnamed or duplicate classes, rates out of range and a missing default', () => {
+        expect(validateTaxSettings(settings)).toBeNull();
+        expect(validateTaxSettings({ ...settings, taxClasses: [{ id: 'a', name: ' ', rate: 5 }] })).toBe('Every tax class needs a name.');
+        expect(validateTaxSettings({ ...settings, taxClasses: [{ id: 'a', name: 'VAT', rate: 5 }, { id: 'b', name: 'vat ', rate: 7 }] }))
+            .toBe('There are two tax classes called "vat".');
+        expect(validateTaxSettings({ ...settings, taxClasses: [{ id: 'a', name: 'VAT', rate: 100 }] })).toBe('Enter a rate between 0 and 100% for "VAT".');
+        expect(validateTaxSettings({ ...settings, defaultTaxClassId: 'gone' })).toBe('Choose a default tax class.');
+    });
+});
@@ -0,0 +1,180 @@
+import { Product, Sale, SystemSettings } from '../types';
+import { SaleReturn } from './returns';
+import { isActiveSale } from './saleStatus';
+
+declare module '../types' {
+    interface Product {
+        taxClassId?: string; // Overrides the category's tax class
+    }
+    interface SaleItem {
+        taxClassId?: string;
+        tax?: number; // Tax on this line after the order discount, rounded per line
+    }
+    interface Sale {
+        pricesIncludeTax?: boolean;
+        taxBreakdown?: SaleTaxLine[];
+        totalTax?: number;
+    }
+    interface SystemSettings {
+        taxClasses?: TaxClass[];
+        defaultTaxClassId?: string;
+        categoryTaxClasses?: Record<string, string>; // Category name -> tax class id
+        pricesIncludeTax?: boolean;
+    }
+}
+
+// --- Tax ---
+// Every line falls into one tax class: the product's own, else its category's, else the default.
+// Tax is worked out and rounded per line after line and order discounts, then summed by class.
+// With inclusive pricing the tax is carved out of the shelf price; with exclusive pricing it is
+// added on top. Shops that predate tax classes get a single "Standard" class at the old taxRate.
+
+export interface TaxClass {
+    id: string;
+    name: string;
+    rate: number; // Percent; 0 for exempt goods
+}
+
+export interface SaleTaxLine {
+    taxClassId: string;
+    name: string;
+    rate: number;
+    taxableAmount: number; // Net of tax
+    tax: number;
+}
+
+export interface SaleTax {
+    items: Sale['items']; // With taxClassId and tax filled in
+    breakdown: SaleTaxLine[];
+    subtotal: number; // Sum of the discounted lines as priced on the shelf
+    totalTax: number;
+    total: number;    // What the customer pays
+}
+
+export interface TaxReportRow extends SaleTaxLine {
+    refundedTaxableAmount: number;
+    refundedTax: number;
+    netTaxableAmount: number;
+    netTax: number;
+}
+
+export const STANDARD_TAX_CLASS_ID = 'standard';
+
+const roundMoney = (amount: number): number => Math.round(amount * 100) / 100;
+
+export const getTaxClasses = (settings: SystemSettings): TaxClass[] =>
+    settings.taxClasses?.length
+        ? settings.taxClasses
+        : [{ id: STANDARD_TAX_CLASS_ID, name: 'Standard', rate: Number(settings.taxRate) || 0 }];
+
+/** The tax class a product is sold under. */
+export const resolveTaxClass = (product: Product | undefined, settings: SystemSettings): TaxClass => {
+    const classes = getTaxClasses(settings);
+    const byId = (id?: string) => (id ? classes.find(c => c.id === id) : undefined);
+    return byId(product?.taxClassId)
+        ?? byId(product ? settings.categoryTaxClasses?.[product.category] : undefined)
+        ?? byId(settings.defaultTaxClassId)
+        ?? classes[0];
+};
+
+/** Tax for each line of a sale and the breakdown by class. */
+export const calculateSaleTax = (
+    sale: Pick<Sale, 'items' | 'orderDiscount'>,
+    products: Product[],
+    settings: SystemSettings,
+): SaleTax => {
+    const inclusive = !!settings.pricesIncludeTax;
+    const orderFactor = 1 - (sale.orderDiscount || 0) / 100;
+    const breakdown = new Map<string, SaleTaxLine>();
+    let subtotal = 0;
+
+    const items = sale.items.map(item => {
+        const taxClass = resolveTaxClass(products.find(p => p.id === item.productId), settings);
+        const lineAmount = roundMoney(item.total * orderFactor);
+        const tax = roundMoney(inclusive
+            ? lineAmount * taxClass.rate / (100 + taxClass.rate)
+            : lineAmount * taxClass.rate / 100);
+        subtotal += lineAmount;
+
+        const entry = breakdown.get(taxClass.id) ?? { taxClassId: taxClass.id, name: taxClass.name, rate: taxClass.rate, taxableAmount: 0, tax: 0 };
+        entry.taxableAmount = roundMoney(entry.taxableAmount + (inclusive ? lineAmount - tax : lineAmount));
+        entry.tax = roundMoney(entry.tax + tax);
+        breakdown.set(taxClass.id, entry);
+        return { ...item, taxClassId: taxClass.id, tax };
+    });
+
+    const totalTax = roundMoney([...breakdown.values()].reduce((sum, line) => sum + line.tax, 0));
+    subtotal = roundMoney(subtotal);
+    return { items, breakdown: [...breakdown.values()], subtotal, totalTax, total: inclusive ? subtotal : roundMoney(subtotal + totalTax) };
+};
+
+/**
+ * Taxable amount and tax collected per class over a period (dates inclusive, YYYY-MM-DD).
+ * Returns dated in the period take back the tax on the units refunded.
+ */
+export const getTaxReport = (sales: Sale[], saleReturns: SaleReturn[], from: string, to: string): TaxReportRow[] => {
+    const inRange = (date: string) => (!from || date >= from) && (!to || date <= to);
+    const rows = new Map<string, TaxReportRow>();
+    const rowFor = (line: Pick<SaleTaxLine, 'taxClassId' | 'name' | 'rate'>) => {
+        let row = rows.get(line.taxClassId);
+        if (!row) {
+            row = { taxClassId: line.taxClassId, name: line.name, rate: line.rate, taxableAmount: 0, tax: 0, refundedTaxableAmount: 0, refundedTax: 0, netTaxableAmount: 0, netTax: 0 };
+            rows.set(line.taxClassId, row);
+        }
+        return row;
+    };
+
+    sales.filter(s => isActiveSale(s) && inRange(s.date)).forEach(sale => {
+        (sale.taxBreakdown ?? []).forEach(line => {
+            const row = rowFor(line);
+            row.taxableAmount += line.taxableAmount;
+            row.tax += line.tax;
+        });
+    });
+
+    const saleById = new Map(sales.map(s => [s.id, s]));
+    saleReturns.filter(r => inRange(r.date)).forEach(saleReturn => {
+        const sale = saleById.get(saleReturn.saleId);
+        if (!sale?.taxBreakdown) return;
+        saleReturn.lines.forEach(returnLine => {
+            const item = sale.items.find(i => i.id === returnLine.saleItemId);
+            const classLine = sale.taxBreakdown!.find(l => l.taxClassId === item?.taxClassId);
+            if (!item || !classLine || item.quantity === 0) return;
+            const share = returnLine.quantity / item.quantity;
+            const tax = roundMoney((item.tax || 0) * share);
+            const row = rowFor(classLine);
+            row.refundedTax += tax;
+            // Refunds are prorated from the sale total, so they always include the tax.
+            row.refundedTaxableAmount += returnLine.amount - tax;
+        });
+    });
+
+    return [...rows.values()]
+        .map(row => ({
+            ...row,
+            taxableAmount: roundMoney(row.taxableAmount),
+            tax: roundMoney(row.tax),
+            refundedTaxableAmount: roundMoney(row.refundedTaxableAmount),
+            refundedTax: roundMoney(row.refundedTax),
+            netTaxableAmount: roundMoney(row.taxableAmount - row.refundedTaxableAmount),
+            netTax: roundMoney(row.tax - row.refundedTax),
+        }))
+        .sort((a, b) => b.rate - a.rate || a.name.localeCompare(b.name));
+};
+
+/** Returns an error message, or null if the tax settings can be saved. */
+export const validateTaxSettings = (settings: SystemSettings): string | null => {
+    const classes = settings.taxClasses ?? [];
+    const names = new Set<string>();
+    for (const taxClass of classes) {
+        const name = taxClass.name.trim().toLowerCase();
+        if (!name) return 'Every tax class needs a name.';
+        if (names.has(name)) return `There are two tax classes called "${taxClass.name.trim()}".`;
+        names.add(name);
+        if (!(taxClass.rate >= 0 && taxClass.rate < 100)) return `Enter a rate between 0 and 100% for "${taxClass.name.trim()}".`;
+    }
+    if (classes.length > 0 && settings.defaultTaxClassId && !classes.some(c => c.id === settings.defaultTaxClassId)) {
+        return 'Choose a default tax class.';
+    }
+    return null;
+};
@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+import { Product, Sale } from '../types';
+import {
+    findByBarcode, findUnit, formatQuantity, getUnitBuyingPrice, getUnitSellingPrice, roundQuantity, toBaseQuantity,
+    validateSaleUnits, validateUnits,
+} from './units';
+
+const water: Product = {
+    id: 'p1', name: 'Water', barcode: '111', category: 'Drinks', buyingPrice: 300, sellingPrice: 500, stock: 48,
+    units: [
+        { name: 'pack', factor: 6, barcode: '222' },
+        { name: 'case', factor: 24, barcode: '333', sellingPrice: 10000, buyingPrice: 6500 },
+    ],
+    purchaseUnit: 'case',
+};
+const cheese: Product = {
+    id: 'p2', name: 'Cheese', category: 'Deli', buyingPrice: 8000, sellingPrice: 12000, stock: 3.25,
+    baseUnit: 'kg', units: [{ name: 'g', factor: 0.001 }], allowFractional: true,
+};
+
+const item = (id: string, productId: string, quantity: number): Sale['items'][number] =>
+    ({ id, productId, name: productId, price: 0, quantity, discount: 0, total: 0 });
+
+describe('unit conversions', () => {
+    it('rounds quantities to three decimals', () => {
+        expect(0.1 + 0.2).not.toBe(0.3);
+        expect(roundQuantity(0.1 + 0.2)).toBe(0.3);
+        expect(roundQuantity(1.23456)).toBe(1.235);
+    });
+
+    it('converts to base units and prices a unit at its own price or the base price times the factor', () => {
+        const pack = findUnit(water, 'pack')!;
+        const carton = findUnit(water, 'case')!;
+
+        expect(toBaseQuantity(pack, 2)).toBe(12);
+        expect(toBaseQuantity(findUnit(cheese, 'g')!, 250)).toBe(0.25);
+        expect([getUnitSellingPrice(water, pack), getUnitBuyingPrice(water, pack)]).toEqual([3000, 1800]);
+        expect([getUnitSellingPrice(water, carton), getUnitBuyingPrice(water, carton)]).toEqual([10000, 6500]);
+        expect(findUnit(water)).toEqual({ name: 'pc', factor: 1, barcode: '111', sellingPrice: 500, buyingPrice: 300 });
+    });
+
+    it('finds the unit a barcode belongs to', () => {
+        expect(findByBarcode([cheese, water], '222')).toEqual({ product: water, unit: water.units![0] });
+        expect(findByBarcode([cheese, water], '999')).toBeUndefined();
+    });
+
+    it('formats stock in the base unit', () => {
+        expect(formatQuantity(cheese, 3.2500001)).toBe(`${(3.25).toLocaleString()} kg`);
+    });
+});
+
+describe('validateUnits', () => {
+    it('accepts well-formed units', () => {
+        expect(validateUnits(water, [water, cheese])).toBeNull();
+        expect(validateUnits(cheese, [water, cheese])).toBeNull();
+    });
+
+    it('rejects duplicate names, bad factors, part units of counted goods and barcodes already in use', () => {
+        expect(validateUnits({ ...water, units: [{ name: 'pc', factor: 2 }] }, [])).toBe('The unit "pc" is listed twice.');
+        expect(validateUnits({ ...water, units: [{ name: 'pack', factor: 0 }] }, [])).toBe('"pack" needs a conversion factor above zero.');
+        expect(validateUnits({ ...water, units: [{ name: 'half', factor: 0.5 }] }, [])).toBe('"half" must hold a whole number of pc.');
+        expect(validateUnits({ ...cheese, units: [{ name: 'block', factor: 1, barcode: '333' }] }, [water])).toBe('Barcode 333 already belongs to "Water".');
+        expect(validateUnits({ ...water, purchaseUnit: 'pallet' }, [])).toBe('The purchase unit "pallet" is not one of the product\'s units.');
+    });
+});
+
+describe('validateSaleUnits', () => {
+    it('accepts a line entered in packs and weighed goods in part units', () => {
+        const sale = {
+            items: [item('i1', 'p1', 12), item('i2', 'p2', 0.1 + 0.2)],
+            lineUnits: [{ saleItemId: 'i1', unit: 'pack', quantity: 2, factor: 6 }],
+        };
+
+        expect(validateSaleUnits(sale, [water, cheese])).toBeNull();
+    });
+
+    it('rejects part units of counted goods and lines that do not match their unit', () => {
+        expect(validateSaleUnits({ items: [item('i1', 'p1', 1.5)] }, [water])).toBe('"Water" can only be sold in whole pc.');
+        expect(validateSaleUnits({
+            items: [item('i1', 'p1', 10)],
+            lineUnits: [{ saleItemId: 'i1', unit: 'pack', quantity: 2, factor: 6 }],
+        }, [water])).toBe('The quantity of "Water" does not match 2 pack.');
+        expect(validateSaleUnits({
+            items: [item('i1', 'p1', 2)],
+            lineUnits: [{ saleItemId: 'i1', unit: 'crate', quantity: 1, factor: 2 }],
+        }, [water])).toBe('"Water" is not sold by the crate.');
+    });
+});
@@ -0,0 +1,136 @@
+import { Product, Sale } from '../types';
+
+declare module '../types' {
+    interface Product {
+        baseUnit?: string;          // Unit of stock, buyingPrice and sellingPrice; "pc" when unset
+        units?: ProductUnit[];      // Alternative units such as a box of 12 or a 50 m roll
+        purchaseUnit?: string;      // Unit that purchase orders default to
+        allowFractional?: boolean;  // Weighed or measured goods can be sold in part units
+    }
+    interface Sale {
+        lineUnits?: SaleLineUnit[];
+    }
+    interface Purchase {
+        unit?: string;          // Unit the purchase was entered in; quantity and unitCost are in the base unit
+        unitQuantity?: number;
+    }
+}
+
+declare module './purchaseOrders' {
+    interface PurchaseOrderLine {
+        unit?: string;
+        unitFactor?: number; // Base units per order unit when the order was raised; quantities and cost are per order unit
+    }
+    interface ReceivedLine {
+        unit?: string; // The order line's unit; needed when a product is on the order in more than one unit
+    }
+}
+
+// --- Units of Measure ---
+// Stock is always kept in the product's base unit. Other units convert to it with a fixed factor
+// and may have their own barcode and prices; otherwise their price is the base price times the factor.
+// Sale line quantities are in base units too; the unit the cashier used is kept next to them.
+
+export const DEFAULT_BASE_UNIT = 'pc';
+
+// Quantities are rounded to this many decimals so 0.1 + 0.2 kg stays 0.3 kg.
+const QUANTITY_DECIMALS = 3;
+
+export interface ProductUnit {
+    name: string;
+    factor: number; // Base units in one of this unit
+    barcode?: string;
+    sellingPrice?: number;
+    buyingPrice?: number;
+}
+
+/** The unit a sale line was entered in. */
+export interface SaleLineUnit {
+    saleItemId: string;
+    unit: string;
+    quantity: number; // In `unit`; the sale item's quantity is this times `factor`
+    factor: number;
+}
+
+export const roundQuantity = (quantity: number): number => {
+    const scale = 10 ** QUANTITY_DECIMALS;
+    return Math.round(quantity * scale) / scale;
+};
+
+export const getBaseUnit = (product: Product): string => product.baseUnit || DEFAULT_BASE_UNIT;
+
+/** Every unit the product can be bought or sold in, base unit first. */
+export const getUnits = (product: Product): ProductUnit[] => [
+    { name: getBaseUnit(product), factor: 1, barcode: product.barcode, sellingPrice: product.sellingPrice, buyingPrice: product.buyingPrice },
+    ...(product.units ?? []),
+];
+
+export const findUnit = (product: Product, unitName?: string): ProductUnit | undefined =>
+    getUnits(product).find(u => u.name === (unitName || getBaseUnit(product)));
+
+export const getUnitSellingPrice = (product: Product, unit: ProductUnit): number =>
+    unit.sellingPrice ?? product.sellingPrice * unit.factor;
+
+export const getUnitBuyingPrice = (product: Product, unit: ProductUnit): number =>
+    unit.buyingPrice ?? product.buyingPrice * unit.factor;
+
+export const toBaseQuantity = (unit: ProductUnit, quantity: number): number => roundQuantity(quantity * unit.factor);
+
+/** Finds the product and unit for a scanned barcode, so scanning a carton sells a carton. */
+export const findByBarcode = (products: Product[], barcode: string): { product: Product; unit: ProductUnit } | undefined => {
+    for (const product of products) {
+        const unit = getUnits(product).find(u => u.barcode === barcode);
+        if (unit) return { product, unit };
+    }
+    return undefined;
+};
+
+/** Stock in base units, written as e.g. "2.5 kg". */
+export const formatQuantity = (product: Product, quantity: number): string =>
+    `${roundQuantity(quantity).toLocaleString()} ${getBaseUnit(product)}`;
+
+/** Returns an error message, or null if the product's units are usable. */
+export const validateUnits = (product: Product | Omit<Product, 'id'>, products: Product[]): string | null => {
+    const names = new Set([product.baseUnit || DEFAULT_BASE_UNIT]);
+    for (const unit of product.units ?? []) {
+        if (!unit.name.trim()) return 'Each unit needs a name.';
+        if (names.has(unit.name)) return `The unit "${unit.name}" is listed twice.`;
+        names.add(unit.name);
+        if (!(unit.factor > 0)) return `"${unit.name}" needs a conversion factor above zero.`;
+        if (!product.allowFractional && !Number.isInteger(unit.factor)) {
+            return `"${unit.name}" must hold a whole number of ${product.baseUnit || DEFAULT_BASE_UNIT}.`;
+        }
+        if (unit.barcode) {
+            const ownId = 'id' in product ? product.id : undefined;
+            const otherBarcodes = [product.barcode, ...(product.units ?? []).filter(u => u !== unit).map(u => u.barcode)];
+            if (otherBarcodes.includes(unit.barcode)) return `Barcode ${unit.barcode} is used twice on this product.`;
+            const owner = products.find(p => p.id !== ownId && getUnits(p).some(u => u.barcode === unit.barcode));
+            if (owner) return `Barcode ${unit.barcode} already belongs to "${owner.name}".`;
+        }
+    }
+    if (product.purchaseUnit && !names.has(product.purchaseUnit)) return `The purchase unit "${product.purchaseUnit}" is not one of the product's units.`;
+    return null;
+};
+
+/**
+ * Checks a sale's quantities against its products' units: whole base units unless the product
+ * is sold by weight or length, and each entered unit converting to the line's quantity.
+ */
+export const validateSaleUnits = (sale: Pick<Sale, 'items' | 'lineUnits'>, products: Product[]): string | null => {
+    for (const item of sale.items) {
+        const product = products.find(p => p.id === item.productId);
+        if (!product) continue;
+        const lineUnit = sale.lineUnits?.find(l => l.saleItemId === item.id);
+        if (lineUnit) {
+            const unit = findUnit(product, lineUnit.unit);
+            if (!unit) return `"${product.name}" is not sold by the ${lineUnit.unit}.`;
+            if (unit.factor !== lineUnit.factor || toBaseQuantity(unit, lineUnit.quantity) !== roundQuantity(item.quantity)) {
+                return `The quantity of "${product.name}" does not match ${lineUnit.quantity} ${lineUnit.unit}.`;
+            }
+        }
+        if (!product.allowFractional && !Number.isInteger(roundQuantity(item.quantity))) {
+            return `"${product.name}" can only be sold in whole ${getBaseUnit(product)}.`;
+        }
+    }
+    return null;
+};
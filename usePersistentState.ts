@@ -0,0 +1,62 @@
+import { useState, useEffect, useRef, Dispatch, SetStateAction } from 'react';
+import { CollectionName, SettingKey, loadCollection, loadSetting, saveCollectionChanges, saveSetting } from '../utils/storage';
+
+type PersistentState<T> = [T, Dispatch<SetStateAction<T>>, boolean];
+
+function usePersistentState<T>(
+    label: string,
+    initialValue: T,
+    load: () => Promise<T | undefined>,
+    save: (prev: T, next: T) => Promise<void>,
+): PersistentState<T> {
+    const [value, setValue] = useState<T>(initialValue);
+    const [isLoaded, setIsLoaded] = useState(false);
+    const persisted = useRef<T>(initialValue);
+
+    useEffect(() => {
+        let cancelled = false;
+        load()
+            .then(stored => {
+                if (cancelled) return;
+                if (stored !== undefined) {
+                    persisted.current = stored;
+                    setValue(stored);
+                }
+                setIsLoaded(true);
+            })
+            .catch(error => {
+                console.error(`Error loading "${label}" from IndexedDB:`, error);
+                if (!cancelled) setIsLoaded(true);
+            });
+        return () => { cancelled = true; };
+    }, []);
+
+    useEffect(() => {
+        if (!isLoaded || value === persisted.current) return;
+        const prev = persisted.current;
+        persisted.current = value;
+        save(prev, value).catch(error => console.error(`Error saving "${label}" to IndexedDB:`, error));
+    }, [value, isLoaded]);
+
+    return [value, setValue, isLoaded];
+}
+
+/** Like useLocalStorage, but backed by the entity's own IndexedDB object store. Only changed records are written. */
+export function usePersistentCollection<T extends { id: string }>(name: CollectionName, initialValue: T[] = []): PersistentState<T[]> {
+    return usePersistentState<T[]>(
+        name,
+        initialValue,
+        () => loadCollection<T>(name),
+        (prev, next) => saveCollectionChanges(name, prev, next),
+    );
+}
+
+/** Like useLocalStorage, for a single value kept in the meta store. */
+export function usePersistentSetting<T>(key: SettingKey, initialValue: T): PersistentState<T> {
+    return usePersistentState<T>(
+        key,
+        initialValue,
+        () => loadSetting<T>(key),
+        (_prev, next) => saveSetting(key, next),
+    );
+}
@@ -0,0 +1,136 @@
+import { Product, Sale } from '../types';
+
+declare module '../types' {
+    interface Product {
+        parentId?: string;                // Set on variants
+        variantOptions?: VariantOptions;  // Set on parents; a parent holds no stock of its own
+        priceOverride?: boolean;          // The variant keeps its own selling price instead of the parent's
+    }
+}
+
+// --- Product Variants ---
+// A variant is an ordinary product (own id, barcode and stock) pointing at a parent product,
+// so sales, the stock ledger, sync and imports work on variants unchanged. The parent carries
+// the shared details and the size/colour matrix; those details are copied down on every save.
+
+export interface VariantOptions {
+    sizes: string[];
+    colors: string[];
+}
+
+/** One cell of the size/colour matrix as edited on the variant form. */
+export interface VariantRow {
+    id?: string; // Existing variant
+    size?: string;
+    color?: string;
+    barcode?: string;
+    sellingPrice?: number; // Undefined follows the parent's price
+    stock: number;
+}
+
+export type ProductGrouping = 'parent' | 'variant';
+
+export interface ProductSalesLine {
+    productId: string; // Parent id when grouped by parent
+    name: string;
+    quantity: number;
+    revenue: number;
+}
+
+export const isVariantParent = (product: Product): boolean => !!product.variantOptions;
+
+export const getVariants = (products: Product[], parentId: string): Product[] =>
+    products.filter(p => p.parentId === parentId);
+
+export const variantLabel = (variant: Pick<Product, 'size' | 'color'>): string =>
+    [variant.size, variant.color].filter(Boolean).join(' / ');
+
+const variantKey = (size?: string, color?: string): string =>
+    `${(size || '').trim().toLowerCase()}|${(color || '').trim().toLowerCase()}`;
+
+/** Every size/colour combination; a dimension with no values is left out rather than blocking the other. */
+export const buildVariantMatrix = (options: VariantOptions): { size?: string; color?: string }[] => {
+    const sizes: (string | undefined)[] = options.sizes.length > 0 ? options.sizes : [undefined];
+    const colors: (string | undefined)[] = options.colors.length > 0 ? options.colors : [undefined];
+    return sizes.flatMap(size => colors.map(color => ({ size, color })))
+        .filter(cell => cell.size !== undefined || cell.color !== undefined);
+};
+
+/** Stock shown for a product: its own, or the total across its variants for a parent. */
+export const getRolledUpStock = (products: Product[], product: Product): number =>
+    isVariantParent(product)
+        ? getVariants(products, product.id).reduce((total, v) => total + v.stock, 0)
+        : product.stock;
+
+/** Returns an error message, or null if the rows can be saved. */
+export const validateVariantRows = (rows: VariantRow[], products: Product[], parentId: string): string | null => {
+    if (rows.length === 0) return 'Add at least one size or colour.';
+    const combinations = new Set<string>();
+    const barcodes = new Set<string>();
+    const rowIds = new Set(rows.map(r => r.id).filter(Boolean));
+    for (const row of rows) {
+        const label = variantLabel(row) || 'A variant';
+        if (!row.size && !row.color) return 'Each variant needs a size or a colour.';
+        const key = variantKey(row.size, row.color);
+        if (combinations.has(key)) return `${label} is listed twice.`;
+        combinations.add(key);
+        if (!Number.isFinite(row.stock)) return `${label} has an invalid stock quantity.`;
+        if (row.sellingPrice !== undefined && (!Number.isFinite(row.sellingPrice) || row.sellingPrice < 0)) {
+            return `${label} has an invalid price.`;
+        }
+        if (row.barcode) {
+            if (barcodes.has(row.barcode)) return `Barcode ${row.barcode} is used by more than one variant.`;
+            barcodes.add(row.barcode);
+            // Variants of this parent that are being saved may swap barcodes between themselves.
+            const owner = products.find(p => p.barcode === row.barcode && !rowIds.has(p.id) && p.id !== parentId);
+            if (owner) return `Barcode ${row.barcode} already belongs to "${owner.name}".`;
+        }
+    }
+    return null;
+};
+
+/** The variant record for a row, with the parent's shared details copied in. Stock is left to the caller. */
+export const buildVariant = (parent: Product, row: VariantRow, id: string, existing?: Product): Product => {
+    const label = variantLabel(row);
+    const priceOverride = row.sellingPrice !== undefined && row.sellingPrice !== parent.sellingPrice;
+    const variant: Product = {
+        ...existing,
+        id,
+        parentId: parent.id,
+        name: label ? `${parent.name} (${label})` : parent.name,
+        category: parent.category,
+        buyingPrice: parent.buyingPrice,
+        sellingPrice: priceOverride ? row.sellingPrice! : parent.sellingPrice,
+        priceOverride,
+        supplierId: parent.supplierId,
+        size: row.size,
+        color: row.color,
+        barcode: row.barcode,
+        stock: existing ? existing.stock : 0,
+    };
+    delete variant.variantOptions;
+    return variant;
+};
+
+/** Copies a parent's shared details to variants that were not part of the save, e.g. after a price change. */
+export const syncVariantsWithParent = (parent: Product, variants: Product[]): Product[] =>
+    variants.map(v => {
+        const updated = buildVariant(parent, { ...v, sellingPrice: v.priceOverride ? v.sellingPrice : undefined }, v.id, v);
+        return JSON.stringify(updated) === JSON.stringify(v) ? v : updated;
+    });
+
+/** Quantity and revenue per product, with variants either listed on their own or folded into their parent. */
+export const groupSalesByProduct = (sales: Sale[], products: Product[], grouping: ProductGrouping): ProductSalesLine[] => {
+    const byId = new Map(products.map(p => [p.id, p]));
+    const lines = new Map<string, ProductSalesLine>();
+    sales.forEach(sale => sale.items.forEach(item => {
+        const product = byId.get(item.productId);
+        const parent = grouping === 'parent' && product?.parentId ? byId.get(product.parentId) : undefined;
+        const key = parent ? parent.id : item.productId;
+        const line = lines.get(key) ?? { productId: key, name: parent ? parent.name : product?.name ?? item.name, quantity: 0, revenue: 0 };
+        line.quantity += item.quantity;
+        line.revenue += item.total;
+        lines.set(key, line);
+    }));
+    return [...lines.values()].sort((a, b) => b.revenue - a.revenue);
+};